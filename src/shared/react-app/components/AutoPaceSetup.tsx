@@ -234,8 +234,10 @@ export function AutoPaceSetup({ race, segments, gpxContent, onSegmentsUpdate }:
     setIsCalculating(true);
 
     try {
+      localStorageService.createPlanSnapshot(race.id, 'Before auto-pace recalculation', 'auto');
+
       // Analyze FIT file and derive paces for all segments
-      const paceResults = await applyAutoPacingToRace(segments, fitData, gpxContent);
+      const paceResults = await applyAutoPacingToRace(segments, fitData, gpxContent, race.awake_hours_at_start ?? undefined, race);
 
       // Update all segments with derived paces
       segments.map((segment) => {
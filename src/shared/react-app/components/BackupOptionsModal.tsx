@@ -1,7 +1,15 @@
-import { useState } from 'react';
-import { X, Download, Check, AlertCircle } from 'lucide-react';
+import { useRef, useState } from 'react';
+import { useNavigate } from 'react-router';
+import { X, Download, Check, AlertCircle, Archive, Upload } from 'lucide-react';
 import { localStorageService } from '@/react-app/services/localStorage';
 import { exportToJSON } from '@/react-app/utils/exportRace';
+import {
+  exportWorkspaceArchive,
+  readWorkspaceArchive,
+  restoreWorkspaceArchive,
+  type WorkspaceArchive,
+} from '@/react-app/services/workspaceBackup';
+import type { WorkspaceRestoreMode } from '@/shared/types';
 
 interface BackupOptionsModalProps {
   isOpen: boolean;
@@ -16,8 +24,14 @@ export default function BackupOptionsModal({
   raceId,
   raceName,
 }: BackupOptionsModalProps) {
+  const navigate = useNavigate();
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [exportSuccess, setExportSuccess] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [pendingArchive, setPendingArchive] = useState<WorkspaceArchive | null>(null);
+  const [restoreMode, setRestoreMode] = useState<WorkspaceRestoreMode>('merge');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [restoreSummary, setRestoreSummary] = useState<string | null>(null);
 
   if (!isOpen) return null;
 
@@ -49,6 +63,62 @@ export default function BackupOptionsModal({
     }
   };
 
+  const handleWorkspaceExport = () => {
+    try {
+      exportWorkspaceArchive();
+      setExportSuccess(true);
+      setError(null);
+    } catch (err) {
+      setError('Failed to export workspace archive');
+      console.error('Workspace export error:', err);
+    }
+  };
+
+  const handleArchiveSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setPendingArchive(await readWorkspaceArchive(file));
+      setRestoreSummary(null);
+      setError(null);
+    } catch (err) {
+      setPendingArchive(null);
+      setError(err instanceof Error ? err.message : 'Failed to read workspace archive');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!pendingArchive) return;
+
+    setIsRestoring(true);
+    try {
+      const result = await restoreWorkspaceArchive(pendingArchive, restoreMode);
+      setRestoreSummary(
+        `Restored ${result.racesRestored} races, ${result.filesRestored} GPX/FIT files, ` +
+        `${result.nutritionProductsImported} nutrition products and ${result.intolerancesRestored} intolerance logs.`
+      );
+      setPendingArchive(null);
+      setError(null);
+
+      // Race IDs may have changed, so return to the race list
+      setTimeout(() => {
+        onClose();
+        navigate('/');
+      }, 1500);
+    } catch (err) {
+      console.error('Workspace restore error:', err);
+      if (err instanceof DOMException && err.name === 'QuotaExceededError') {
+        setError('Not enough storage space to restore this workspace. Nothing was changed.');
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to restore workspace');
+      }
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
       <div
@@ -114,6 +184,105 @@ export default function BackupOptionsModal({
             </button>
           </div>
 
+          {/* Full Workspace */}
+          <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700 coloursplash:border-splash-border">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white coloursplash:text-splash-text-primary mb-1">
+              Full Workspace
+            </h3>
+            <p className="text-xs text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary mb-3">
+              All races with GPX/FIT files, nutrition library, GAP profile, auto-pace settings and intolerance history.
+            </p>
+
+            {restoreSummary && (
+              <div className="mb-3 p-3 bg-green-500/20 border border-green-500/50 rounded-lg flex items-start gap-2 text-green-400">
+                <Check className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <span className="text-sm">{restoreSummary}</span>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <button
+                onClick={handleWorkspaceExport}
+                className="flex items-center justify-center gap-2 p-3 bg-gray-100 dark:bg-[#333c52] coloursplash:bg-splash-azure-light hover:bg-gray-200 dark:hover:bg-[#3d4660] text-gray-900 dark:text-white coloursplash:text-splash-text-primary rounded-lg transition-all text-sm font-medium"
+              >
+                <Archive className="w-4 h-4" />
+                Export Archive
+              </button>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center justify-center gap-2 p-3 bg-gray-100 dark:bg-[#333c52] coloursplash:bg-splash-azure-light hover:bg-gray-200 dark:hover:bg-[#3d4660] text-gray-900 dark:text-white coloursplash:text-splash-text-primary rounded-lg transition-all text-sm font-medium"
+              >
+                <Upload className="w-4 h-4" />
+                Restore Archive
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".zip,application/zip"
+                onChange={handleArchiveSelected}
+                className="hidden"
+              />
+            </div>
+
+            {/* Restore Preview */}
+            {pendingArchive && (
+              <div className="mt-3 p-4 bg-gray-50 dark:bg-[#252b3b] coloursplash:bg-splash-bg-subtle rounded-lg border border-gray-200 dark:border-gray-700 coloursplash:border-splash-border">
+                <div className="text-sm text-gray-900 dark:text-white coloursplash:text-splash-text-primary mb-2">
+                  Backup from {new Date(pendingArchive.manifest.exportedAt).toLocaleString()}:
+                  {' '}{pendingArchive.manifest.counts.races} races, {pendingArchive.manifest.counts.files} files,
+                  {' '}{pendingArchive.manifest.counts.nutritionProducts} nutrition products
+                </div>
+
+                <div className="space-y-2 mb-3">
+                  <label className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-secondary cursor-pointer">
+                    <input
+                      type="radio"
+                      name="restoreMode"
+                      checked={restoreMode === 'merge'}
+                      onChange={() => setRestoreMode('merge')}
+                      className="mt-1"
+                    />
+                    <span><strong>Merge</strong> – add archived races alongside your current ones</span>
+                  </label>
+                  <label className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-secondary cursor-pointer">
+                    <input
+                      type="radio"
+                      name="restoreMode"
+                      checked={restoreMode === 'replace'}
+                      onChange={() => setRestoreMode('replace')}
+                      className="mt-1"
+                    />
+                    <span><strong>Replace</strong> – delete the current workspace and restore the archive</span>
+                  </label>
+                </div>
+
+                {restoreMode === 'replace' && (
+                  <div className="mb-3 text-xs text-red-400">
+                    All current races, files and settings will be permanently replaced.
+                  </div>
+                )}
+
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setPendingArchive(null)}
+                    className="flex-1 px-3 py-2 text-sm text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary hover:bg-gray-100 dark:hover:bg-[#333c52] rounded-lg transition-all"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleRestore}
+                    disabled={isRestoring}
+                    className={`flex-1 px-3 py-2 text-sm font-medium text-white rounded-lg transition-all disabled:opacity-50 ${
+                      restoreMode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+                    }`}
+                  >
+                    {isRestoring ? 'Restoring...' : restoreMode === 'replace' ? 'Replace Workspace' : 'Merge Workspace'}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
           {/* Info */}
           <div className="mt-6 p-3 bg-blue-500/10 border border-blue-500/30 rounded-lg">
             <div className="text-xs text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary">
@@ -0,0 +1,58 @@
+/**
+ * Cached Tile Layer Component
+ * Leaflet tile layer that draws tiles from the race's offline map pack and
+ * falls back to the tile server for anything the pack doesn't hold
+ */
+
+import { useEffect } from 'react';
+import { useMap } from 'react-leaflet';
+import L from 'leaflet';
+import type { MapTileSourceId } from '@/shared/types';
+import { MAP_TILE_SOURCES, getCachedTile } from '../utils/mapTilePacks';
+
+class PackTileLayer extends L.TileLayer {
+  constructor(private raceId: number, private source: MapTileSourceId, options: L.TileLayerOptions) {
+    super(MAP_TILE_SOURCES[source].url, options);
+  }
+
+  createTile(coords: L.Coords, done: L.DoneCallback): HTMLElement {
+    const tile = document.createElement('img');
+    tile.alt = '';
+    tile.setAttribute('role', 'presentation');
+
+    tile.onload = () => {
+      if (tile.src.startsWith('blob:')) {
+        URL.revokeObjectURL(tile.src);
+      }
+      done(undefined, tile);
+    };
+    tile.onerror = () => done(new Error(`Failed to load tile ${coords.z}/${coords.x}/${coords.y}`), tile);
+
+    getCachedTile(this.raceId, this.source, coords.z, coords.x, coords.y).then(blob => {
+      tile.src = blob ? URL.createObjectURL(blob) : this.getTileUrl(coords);
+    });
+
+    return tile;
+  }
+}
+
+interface CachedTileLayerProps {
+  raceId: number;
+  source: MapTileSourceId;
+  attribution: string;
+  pane?: string;
+}
+
+export default function CachedTileLayer({ raceId, source, attribution, pane }: CachedTileLayerProps) {
+  const map = useMap();
+
+  useEffect(() => {
+    const layer = new PackTileLayer(raceId, source, { attribution, ...(pane ? { pane } : {}) });
+    layer.addTo(map);
+    return () => {
+      layer.remove();
+    };
+  }, [map, raceId, source, attribution, pane]);
+
+  return null;
+}
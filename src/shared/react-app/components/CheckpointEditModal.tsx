@@ -978,8 +978,9 @@ export default function CheckpointEditModal({
               Cut Off Time
             </label>
             <input
-              type="time"
+              type="text"
               value={cutoffTime}
+              placeholder="e.g. 14:45, 6:00 AM or Day 2 06:00"
               onChange={(e) => setCutoffTime(e.target.value)}
               className="w-full max-w-md px-4 py-2.5 bg-gray-50 dark:bg-[#3a4458] border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
             />
@@ -0,0 +1,184 @@
+import { useEffect, useState } from 'react';
+import { X, MapPin, Mountain, Flag, AlertTriangle, ListPlus } from 'lucide-react';
+import type { CheckpointProposal, CheckpointProposalSet, CheckpointProposalSource } from '@/react-app/utils/gpxWaypoints';
+import { useUnit } from '@/react-app/contexts/UnitContext';
+import { formatDistance, formatElevation, metersToFeet } from '@/react-app/utils/unitConversions';
+
+interface CheckpointProposalModalProps {
+  proposalSet: CheckpointProposalSet | null;
+  existingDistanceMiles: number; // Cumulative distance of the last existing checkpoint
+  existingCount: number;
+  isCreating: boolean;
+  onClose: () => void;
+  onCreate: (proposals: CheckpointProposal[]) => void;
+}
+
+const SOURCE_LABELS: Record<CheckpointProposalSource, string> = {
+  waypoint: 'Waypoint',
+  summit: 'Summit',
+  valley: 'Valley',
+  finish: 'Track end',
+};
+
+function isTerrainSuggestion(proposal: CheckpointProposal): boolean {
+  return proposal.source === 'summit' || proposal.source === 'valley';
+}
+
+export default function CheckpointProposalModal({
+  proposalSet,
+  existingDistanceMiles,
+  existingCount,
+  isCreating,
+  onClose,
+  onCreate,
+}: CheckpointProposalModalProps) {
+  const { useMiles } = useUnit();
+  const [proposals, setProposals] = useState<CheckpointProposal[]>([]);
+  const [showTerrain, setShowTerrain] = useState(false);
+
+  useEffect(() => {
+    setProposals(proposalSet?.proposals ?? []);
+    setShowTerrain(false);
+  }, [proposalSet]);
+
+  if (!proposalSet) return null;
+
+  // Proposals before the last existing checkpoint can't be appended
+  const isBeforeExisting = (proposal: CheckpointProposal) =>
+    existingCount > 0 && proposal.cumulativeDistanceMiles <= existingDistanceMiles;
+
+  const visibleProposals = proposals.filter(p => showTerrain || !isTerrainSuggestion(p));
+  const selectedProposals = visibleProposals.filter(p => p.selected && !isBeforeExisting(p));
+  const terrainCount = proposals.filter(isTerrainSuggestion).length;
+
+  const updateProposal = (key: string, updates: Partial<CheckpointProposal>) => {
+    setProposals(proposals.map(p => (p.key === key ? { ...p, ...updates } : p)));
+  };
+
+  const getSourceIcon = (source: CheckpointProposalSource) => {
+    if (source === 'summit' || source === 'valley') return <Mountain className="w-4 h-4 text-emerald-500" />;
+    if (source === 'finish') return <Flag className="w-4 h-4 text-purple-500" />;
+    return <MapPin className="w-4 h-4 text-blue-500" />;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div
+        className="absolute inset-0 bg-black/70 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      <div className="relative bg-white dark:bg-[#2d3548] coloursplash:bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col border border-gray-200 dark:border-gray-700 coloursplash:border-splash-border">
+        <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-blue-500 via-purple-500 to-pink-500" />
+
+        <div className="p-6 overflow-y-auto">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white coloursplash:text-splash-text-primary">
+              Checkpoints from GPX
+            </h2>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary hover:text-gray-900 dark:hover:text-white coloursplash:hover:text-splash-text-primary hover:bg-gray-100 dark:hover:bg-[#333c52] coloursplash:hover:bg-splash-azure-light rounded-lg transition-all"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <p className="text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary mb-4">
+            Found {proposalSet.waypointCount} waypoint{proposalSet.waypointCount === 1 ? '' : 's'} on a{' '}
+            {formatDistance(proposalSet.trackDistanceMiles, useMiles)} route. Review the names and choose which to
+            create as checkpoints - segment distances are measured along the track.
+          </p>
+
+          {existingCount > 0 && (
+            <div className="mb-4 p-3 bg-blue-500/10 border border-blue-500/30 rounded-lg text-sm text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary">
+              This race already has {existingCount} checkpoint{existingCount === 1 ? '' : 's'} up to{' '}
+              {formatDistance(existingDistanceMiles, useMiles)}. New checkpoints are added after them; waypoints before
+              that point are skipped.
+            </div>
+          )}
+
+          {terrainCount > 0 && (
+            <label className="flex items-center gap-2 mb-4 text-sm text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-primary cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showTerrain}
+                onChange={(e) => setShowTerrain(e.target.checked)}
+                className="rounded"
+              />
+              Suggest split points at {terrainCount} major summit{terrainCount === 1 ? '' : 's'} and valley{terrainCount === 1 ? '' : 's'}
+            </label>
+          )}
+
+          <div className="space-y-2 mb-6">
+            {visibleProposals.map(proposal => {
+              const disabled = isBeforeExisting(proposal);
+              const offRoute = proposal.source === 'waypoint' && proposal.offTrackMeters > 100;
+
+              return (
+                <div
+                  key={proposal.key}
+                  className={`flex items-center gap-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700/50 coloursplash:border-splash-border ${
+                    disabled ? 'opacity-50' : 'bg-gray-50 dark:bg-[#2a3244] coloursplash:bg-splash-bg-subtle'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={proposal.selected && !disabled}
+                    disabled={disabled}
+                    onChange={(e) => updateProposal(proposal.key, { selected: e.target.checked })}
+                    className="rounded flex-shrink-0"
+                    aria-label={`Create checkpoint ${proposal.name}`}
+                  />
+                  {getSourceIcon(proposal.source)}
+                  <div className="flex-1 min-w-0">
+                    <input
+                      type="text"
+                      value={proposal.name}
+                      disabled={disabled}
+                      onChange={(e) => updateProposal(proposal.key, { name: e.target.value })}
+                      className="w-full px-2 py-1 bg-white dark:bg-[#1e2639] coloursplash:bg-white border border-gray-300 dark:border-gray-600 coloursplash:border-splash-border rounded text-sm text-gray-900 dark:text-white coloursplash:text-splash-text-primary"
+                    />
+                    <div className="flex flex-wrap items-center gap-x-3 mt-1 text-xs text-gray-500 dark:text-gray-400 coloursplash:text-splash-text-secondary">
+                      <span>{SOURCE_LABELS[proposal.source]}</span>
+                      <span>{formatDistance(proposal.cumulativeDistanceMiles, useMiles, 2)}</span>
+                      {proposal.elevationMeters !== null && (
+                        <span>{formatElevation(metersToFeet(proposal.elevationMeters), useMiles)}</span>
+                      )}
+                      {offRoute && (
+                        <span className="flex items-center gap-1 text-yellow-600 dark:text-yellow-400">
+                          <AlertTriangle className="w-3 h-3" />
+                          {Math.round(proposal.offTrackMeters)} m from route
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="space-y-3">
+            <button
+              onClick={() => onCreate(selectedProposals)}
+              disabled={selectedProposals.length === 0 || isCreating}
+              className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-gradient-to-r from-blue-500 to-purple-600 coloursplash:from-splash-azure coloursplash:to-splash-green hover:from-blue-600 hover:to-purple-700 text-white font-semibold rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ListPlus className="w-4 h-4" />
+              {isCreating
+                ? 'Creating...'
+                : `Create ${selectedProposals.length} Checkpoint${selectedProposals.length === 1 ? '' : 's'}`}
+            </button>
+
+            <button
+              onClick={onClose}
+              className="w-full px-4 py-2 text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary hover:bg-gray-100 dark:hover:bg-[#333c52] rounded-lg transition-all"
+            >
+              Skip
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
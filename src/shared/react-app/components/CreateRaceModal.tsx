@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
 import { X, ChevronDown, ChevronUp, Info, Search } from "lucide-react";
 import { getUserTimezone } from "@/react-app/utils/etaCalculations";
+import { resolveTimeZone, zonedDateTimeToUtc } from "@/react-app/utils/timezone";
 import {
   MANDATORY_KIT_ITEMS,
   KIT_CATEGORIES,
@@ -302,8 +303,9 @@ export default function CreateRaceModal({
       await onSubmit({
         name,
         distance_miles: distanceInMiles,
+        // The start time is entered as wall-clock time at the race, not in the browser's timezone
         start_date_time: startDateTime
-          ? new Date(startDateTime).toISOString()
+          ? zonedDateTimeToUtc(startDateTime, resolveTimeZone(timezone)).toISOString()
           : null,
         timezone: timezone || null,
         mandatory_kit:
@@ -467,7 +469,7 @@ export default function CreateRaceModal({
                   className="w-full px-4 py-3 bg-gray-50 dark:bg-[#3a4458] coloursplash:bg-white border border-gray-300 dark:border-gray-600 coloursplash:border-splash-border text-gray-900 dark:text-white coloursplash:text-splash-text-primary rounded-lg focus:ring-2 focus:ring-blue-500 coloursplash:focus:ring-splash-azure focus:border-transparent transition-all"
                 />
                 <div className="text-xs text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-muted mt-1">
-                  Set this to calculate arrival times at each checkpoint
+                  Local time at the race. Set this to calculate arrival times at each checkpoint
                 </div>
               </div>
 
@@ -0,0 +1,296 @@
+/**
+ * Crew Itinerary Panel Component
+ * Plans the support crew's drives between crewed checkpoints, checks each
+ * rendezvous against the runner's ETAs and exports a crew sheet
+ */
+
+import { useMemo, useState } from 'react';
+import { Car, ChevronDown, ChevronUp, FileDown, Navigation } from 'lucide-react';
+import type { Race, Segment } from '@/shared/types';
+import { useUnit } from '@/react-app/contexts/UnitContext';
+import { localStorageService } from '@/react-app/services/localStorage';
+import { formatDistance, getDistanceUnit, getDistanceValue, inputToMiles } from '@/react-app/utils/unitConversions';
+import { formatTime, getDayOfWeek } from '@/react-app/utils/etaCalculations';
+import {
+  buildCrewItinerary,
+  CREW_SETUP_MINUTES,
+  CREW_STATUS_LABELS,
+  estimateCrewDrives,
+  type CrewStop,
+  type CrewStopStatus,
+} from '@/react-app/utils/crewItinerary';
+import { exportCrewSheetToHTML } from '@/react-app/utils/exportRace';
+
+interface CrewStopData {
+  crew_drive_minutes?: number | null;
+  crew_drive_miles?: number | null;
+  crew_handover?: string | null;
+  crew_notes?: string | null;
+}
+
+type CrewStopField = keyof CrewStopData;
+
+interface CrewItineraryPanelProps {
+  race: Race;
+  segments: Segment[];
+  onCrewStopChange: (segmentId: number, data: CrewStopData) => Promise<void>;
+  onEstimateDrives: (drives: Map<number, { crew_drive_minutes: number; crew_drive_miles: number }>) => Promise<void>;
+}
+
+const inputClass =
+  'px-2 py-1 text-sm bg-white dark:bg-[#2d3548] coloursplash:bg-white border border-gray-300 dark:border-gray-600 coloursplash:border-splash-border rounded text-gray-900 dark:text-white coloursplash:text-splash-text-primary';
+
+const STATUS_CLASSES: Record<CrewStopStatus, string> = {
+  ok: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/40 dark:text-emerald-300',
+  tight: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300',
+  impossible: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300',
+  unknown: 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400',
+};
+
+export default function CrewItineraryPanel({ race, segments, onCrewStopChange, onEstimateDrives }: CrewItineraryPanelProps) {
+  const { useMiles } = useUnit();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [drafts, setDrafts] = useState<Record<number, Partial<Record<CrewStopField, string>>>>({});
+  const [isEstimating, setIsEstimating] = useState(false);
+
+  const stops = useMemo(() => buildCrewItinerary(race, segments), [race, segments]);
+  const timezone = race.timezone ?? undefined;
+  const impossibleCount = stops.filter(stop => stop.status === 'impossible').length;
+  const missingDriveCount = stops.filter(stop => !stop.drive).length;
+
+  const formatWhen = (date: Date | null) =>
+    date ? `${getDayOfWeek(date, timezone).slice(0, 3)} ${formatTime(date, timezone)}` : '-';
+
+  const savedValue = (stop: CrewStop, field: CrewStopField): string => {
+    const segment = segments[stop.segmentIndex];
+    switch (field) {
+      case 'crew_drive_minutes':
+        return segment.crew_drive_minutes != null ? String(segment.crew_drive_minutes) : '';
+      case 'crew_drive_miles':
+        return segment.crew_drive_miles != null ? String(Math.round(getDistanceValue(segment.crew_drive_miles, useMiles) * 10) / 10) : '';
+      default:
+        return segment[field] ?? '';
+    }
+  };
+
+  const draftValue = (stop: CrewStop, field: CrewStopField) =>
+    drafts[stop.segmentId!]?.[field] ?? savedValue(stop, field);
+
+  const setDraft = (stop: CrewStop, field: CrewStopField, value: string) => {
+    setDrafts({ ...drafts, [stop.segmentId!]: { ...drafts[stop.segmentId!], [field]: value } });
+  };
+
+  const handleBlur = async (stop: CrewStop, field: CrewStopField) => {
+    const draft = drafts[stop.segmentId!]?.[field];
+    if (draft === undefined || draft === savedValue(stop, field)) return;
+
+    let data: CrewStopData;
+    if (field === 'crew_drive_minutes' || field === 'crew_drive_miles') {
+      const parsed = parseFloat(draft);
+      const value = isNaN(parsed) || parsed < 0
+        ? null
+        : field === 'crew_drive_minutes' ? Math.round(parsed) : inputToMiles(parsed, useMiles);
+      data = { [field]: value };
+    } else {
+      data = { [field]: draft.trim() || null };
+    }
+
+    try {
+      await onCrewStopChange(stop.segmentId!, data);
+      const rest = { ...drafts[stop.segmentId!] };
+      delete rest[field];
+      setDrafts({ ...drafts, [stop.segmentId!]: rest });
+    } catch (error) {
+      console.error('Failed to update crew stop:', error);
+      alert('Failed to update crew stop. Please try again.');
+    }
+  };
+
+  // Fills in stops without a drive time; entered times are kept
+  const handleEstimateDrives = async () => {
+    const gpxContent = race.gpx_file_key ? localStorageService.getGPXFile(race.gpx_file_key)?.content || null : null;
+    const estimates = estimateCrewDrives(segments, gpxContent);
+    const drives = new Map<number, { crew_drive_minutes: number; crew_drive_miles: number }>();
+
+    stops.forEach(stop => {
+      const estimate = stop.segmentId != null ? estimates.get(stop.segmentId) : undefined;
+      if (!stop.drive && estimate) {
+        drives.set(stop.segmentId!, { crew_drive_minutes: estimate.minutes, crew_drive_miles: estimate.miles });
+      }
+    });
+
+    if (drives.size === 0) {
+      alert('No drive times could be estimated. Add checkpoint locations or a GPX route first.');
+      return;
+    }
+
+    setIsEstimating(true);
+    try {
+      await onEstimateDrives(drives);
+    } catch (error) {
+      console.error('Failed to estimate crew drives:', error);
+      alert('Failed to estimate crew drives. Please try again.');
+    } finally {
+      setIsEstimating(false);
+    }
+  };
+
+  return (
+    <div className="mb-8 bg-white dark:bg-[#2d3548] coloursplash:bg-white rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 coloursplash:border-splash-border p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white coloursplash:text-splash-text-primary flex items-center gap-2">
+            <Car className="w-5 h-5" />
+            Crew Itinerary
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary">
+            {stops.length === 0
+              ? 'Mark checkpoints with support crew present to plan their drives and handovers.'
+              : `${stops.length} crew ${stops.length === 1 ? 'stop' : 'stops'}`}
+            {impossibleCount > 0 && (
+              <span className="text-red-600 dark:text-red-400 font-medium">
+                {` • ${impossibleCount} ${impossibleCount === 1 ? 'handover' : 'handovers'} the crew can't reach in time`}
+              </span>
+            )}
+          </p>
+        </div>
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium bg-blue-500 hover:bg-blue-600 coloursplash:bg-splash-azure text-white rounded-lg transition-all"
+        >
+          {isExpanded ? 'Hide itinerary' : 'Plan crew'}
+          {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </button>
+      </div>
+
+      {isExpanded && stops.length > 0 && (
+        <div className="mt-4 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-xs text-gray-500 dark:text-gray-400 coloursplash:text-splash-text-muted">
+              The crew leaves each stop with the runner and needs {CREW_SETUP_MINUTES} min to park and set up.
+              Drive times are from the previous crew stop, or the start for the first.
+            </p>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={handleEstimateDrives}
+                disabled={isEstimating || missingDriveCount === 0}
+                className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-primary border border-gray-300 dark:border-gray-600 coloursplash:border-splash-border hover:bg-gray-100 dark:hover:bg-[#333c52] rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Estimate missing drive times from straight-line distance"
+              >
+                <Navigation className="w-4 h-4" />
+                {isEstimating ? 'Estimating...' : 'Estimate drives'}
+              </button>
+              <button
+                onClick={() => exportCrewSheetToHTML(race, stops)}
+                className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-all"
+              >
+                <FileDown className="w-4 h-4" />
+                Crew sheet (HTML)
+              </button>
+            </div>
+          </div>
+
+          {stops.map(stop => stop.segmentId != null && (
+            <div
+              key={stop.segmentId}
+              className="p-4 bg-gray-50 dark:bg-[#1e2639] coloursplash:bg-splash-bg-subtle rounded-lg border border-gray-200 dark:border-gray-700 coloursplash:border-splash-border"
+            >
+              <div className="flex flex-wrap items-baseline justify-between gap-2 mb-3">
+                <h4 className="font-semibold text-gray-900 dark:text-white coloursplash:text-splash-text-primary">
+                  {stop.checkpointName}
+                  <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400 coloursplash:text-splash-text-muted">
+                    {formatDistance(stop.distanceMiles, useMiles)}
+                    {stop.crewMembers.length > 0 && ` • ${stop.crewMembers.map(member => member.name).join(', ')}`}
+                  </span>
+                </h4>
+                <span className={`px-2 py-0.5 text-xs font-medium rounded ${STATUS_CLASSES[stop.status]}`}>
+                  {CREW_STATUS_LABELS[stop.status]}
+                  {stop.bufferMinutes !== null && (stop.bufferMinutes >= 0
+                    ? ` • ${stop.bufferMinutes} min to spare`
+                    : ` • ${-stop.bufferMinutes} min late`)}
+                </span>
+              </div>
+
+              <div className="grid md:grid-cols-2 gap-4 text-sm">
+                <div className="space-y-2">
+                  <div className="flex flex-wrap items-center gap-2 text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-primary">
+                    <span>Drive from {stop.previousStopName}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      value={draftValue(stop, 'crew_drive_minutes')}
+                      onChange={(e) => setDraft(stop, 'crew_drive_minutes', e.target.value)}
+                      onBlur={() => handleBlur(stop, 'crew_drive_minutes')}
+                      className={`${inputClass} w-20`}
+                      aria-label={`Drive minutes to ${stop.checkpointName}`}
+                    />
+                    <span>min</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      value={draftValue(stop, 'crew_drive_miles')}
+                      onChange={(e) => setDraft(stop, 'crew_drive_miles', e.target.value)}
+                      onBlur={() => handleBlur(stop, 'crew_drive_miles')}
+                      className={`${inputClass} w-20`}
+                      aria-label={`Drive distance to ${stop.checkpointName}`}
+                    />
+                    <span>{getDistanceUnit(useMiles)}</span>
+                  </div>
+                  <dl className="grid grid-cols-2 gap-x-3 gap-y-0.5 text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary">
+                    <dt>Crew leaves</dt>
+                    <dd>{formatWhen(stop.crewLeaves)}</dd>
+                    <dt>Crew set up</dt>
+                    <dd>{formatWhen(stop.crewReady)}</dd>
+                    <dt>Runner arrives</dt>
+                    <dd>
+                      {stop.runnerArrival
+                        ? `${formatTime(stop.runnerArrival.earliest, timezone)} – ${formatTime(stop.runnerArrival.latest, timezone)}`
+                        : '-'}
+                    </dd>
+                    <dt>Expected</dt>
+                    <dd>{formatWhen(stop.runnerArrival?.expected ?? null)}</dd>
+                  </dl>
+                </div>
+
+                <div className="space-y-2">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary mb-1">
+                      Hand over
+                    </label>
+                    {stop.nutrition.length > 0 && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 coloursplash:text-splash-text-muted mb-1">
+                        Nutrition: {stop.nutrition.map(item => `${item.quantity}× ${item.productName}`).join(', ')}
+                      </p>
+                    )}
+                    <textarea
+                      rows={2}
+                      value={draftValue(stop, 'crew_handover')}
+                      onChange={(e) => setDraft(stop, 'crew_handover', e.target.value)}
+                      onBlur={() => handleBlur(stop, 'crew_handover')}
+                      placeholder="e.g. Fresh bottles, head torch, dry top"
+                      className={`${inputClass} w-full`}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary mb-1">
+                      Parking & access notes
+                    </label>
+                    <textarea
+                      rows={2}
+                      value={draftValue(stop, 'crew_notes')}
+                      onChange={(e) => setDraft(stop, 'crew_notes', e.target.value)}
+                      onBlur={() => handleBlur(stop, 'crew_notes')}
+                      placeholder="e.g. Village hall car park, crew area behind the tent"
+                      className={`${inputClass} w-full`}
+                    />
+                  </div>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+/**
+ * Drop Bag Panel Component
+ * Marks drop bag checkpoints, rolls up the nutrition each bag needs, adds kit
+ * items and exports printable packing lists and bag labels
+ */
+
+import { useMemo, useState } from 'react';
+import { Backpack, ChevronDown, ChevronUp, FileDown, Plus, Trash2 } from 'lucide-react';
+import type { DropBagItem, Race, Segment } from '@/shared/types';
+import { useUnit } from '@/react-app/contexts/UnitContext';
+import { MANDATORY_KIT_ITEMS } from '@/react-app/constants/mandatoryKitItems';
+import { formatDistance } from '@/react-app/utils/unitConversions';
+import { formatTime, getDayOfWeek } from '@/react-app/utils/etaCalculations';
+import { getDropBagPlans, parseDropBagItems } from '@/react-app/utils/dropBags';
+import { exportDropBagsToPDF } from '@/react-app/utils/exportRace';
+
+interface DropBagPanelProps {
+  race: Race;
+  segments: Segment[];
+  onDropBagChange: (segmentId: number, dropBag: boolean) => Promise<void>;
+  onKitItemsChange: (segmentId: number, items: string | null) => Promise<void>;
+  onBibChange: (bibNumber: string | null) => Promise<void>;
+}
+
+const inputClass =
+  'px-2 py-1 text-sm bg-white dark:bg-[#2d3548] coloursplash:bg-white border border-gray-300 dark:border-gray-600 coloursplash:border-splash-border rounded text-gray-900 dark:text-white coloursplash:text-splash-text-primary';
+
+export default function DropBagPanel({ race, segments, onDropBagChange, onKitItemsChange, onBibChange }: DropBagPanelProps) {
+  const { useMiles } = useUnit();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [bibNumber, setBibNumber] = useState(race.bib_number ?? '');
+  const [newItems, setNewItems] = useState<Record<number, { name: string; quantity: number }>>({});
+
+  const plans = useMemo(() => getDropBagPlans(race, segments), [race, segments]);
+  const timezone = race.timezone ?? undefined;
+
+  const handleDropBagChange = async (segmentId: number, dropBag: boolean) => {
+    try {
+      await onDropBagChange(segmentId, dropBag);
+    } catch (error) {
+      console.error('Failed to update drop bag:', error);
+    }
+  };
+
+  const saveKitItems = async (segmentId: number, items: DropBagItem[]) => {
+    try {
+      await onKitItemsChange(segmentId, items.length > 0 ? JSON.stringify(items) : null);
+    } catch (error) {
+      console.error('Failed to update drop bag kit:', error);
+      alert('Failed to update drop bag kit. Please try again.');
+    }
+  };
+
+  const handleAddKitItem = async (segment: Segment) => {
+    const entry = newItems[segment.id!];
+    if (!entry?.name.trim()) return;
+
+    const items = parseDropBagItems(segment);
+    const existing = items.find(item => item.name.toLowerCase() === entry.name.trim().toLowerCase());
+    if (existing) {
+      existing.quantity += entry.quantity;
+    } else {
+      items.push({ id: `kit-${Date.now()}`, name: entry.name.trim(), quantity: entry.quantity });
+    }
+
+    await saveKitItems(segment.id!, items);
+    setNewItems({ ...newItems, [segment.id!]: { name: '', quantity: 1 } });
+  };
+
+  const handleRemoveKitItem = async (segment: Segment, itemId: string) => {
+    await saveKitItems(segment.id!, parseDropBagItems(segment).filter(item => item.id !== itemId));
+  };
+
+  const handleBibBlur = async () => {
+    if (bibNumber.trim() === (race.bib_number ?? '')) return;
+    try {
+      await onBibChange(bibNumber.trim() || null);
+    } catch (error) {
+      console.error('Failed to update bib number:', error);
+    }
+  };
+
+  return (
+    <div className="mb-8 bg-white dark:bg-[#2d3548] coloursplash:bg-white rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 coloursplash:border-splash-border p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white coloursplash:text-splash-text-primary flex items-center gap-2">
+            <Backpack className="w-5 h-5" />
+            Drop Bags
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary">
+            {plans.length > 0
+              ? `${plans.length} ${plans.length === 1 ? 'drop bag' : 'drop bags'}: ${plans.map(plan => plan.checkpointName).join(', ')}`
+              : 'Mark the checkpoints where you have a drop bag to get packing lists and labels.'}
+          </p>
+        </div>
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium bg-blue-500 hover:bg-blue-600 coloursplash:bg-splash-azure text-white rounded-lg transition-all"
+        >
+          {isExpanded ? 'Hide bags' : 'Plan drop bags'}
+          {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="mt-4 space-y-4">
+          <div className="flex flex-wrap items-end justify-between gap-3">
+            <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-primary">
+              <label htmlFor="drop-bag-bib">Bib number</label>
+              <input
+                id="drop-bag-bib"
+                type="text"
+                value={bibNumber}
+                onChange={(e) => setBibNumber(e.target.value)}
+                onBlur={handleBibBlur}
+                placeholder="e.g. 123"
+                className={`${inputClass} w-24`}
+              />
+            </div>
+            <button
+              onClick={() => exportDropBagsToPDF(race, plans)}
+              disabled={plans.length === 0}
+              className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <FileDown className="w-4 h-4" />
+              Packing lists & labels (PDF)
+            </button>
+          </div>
+
+          {/* Drop bag locations (not the finish) */}
+          <div>
+            <div className="text-xs text-gray-500 dark:text-gray-400 coloursplash:text-splash-text-muted mb-2">Drop bag checkpoints</div>
+            <div className="flex flex-wrap gap-2">
+              {segments.slice(0, -1).map(segment => segment.id != null && (
+                <label
+                  key={segment.id}
+                  className={`inline-flex items-center gap-1.5 px-2.5 py-1 text-sm rounded-lg border cursor-pointer transition-all ${
+                    segment.drop_bag
+                      ? 'bg-emerald-500 border-emerald-500 text-white'
+                      : 'bg-gray-50 dark:bg-[#1e2639] coloursplash:bg-splash-bg-subtle border-gray-300 dark:border-gray-600 coloursplash:border-splash-border text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-primary'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={!!segment.drop_bag}
+                    onChange={(e) => handleDropBagChange(segment.id!, e.target.checked)}
+                    className="sr-only"
+                  />
+                  {segment.checkpoint_name}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* Packing list per bag */}
+          {plans.map(plan => {
+            const segment = segments[plan.segmentIndex];
+            const entry = newItems[segment.id!] ?? { name: '', quantity: 1 };
+
+            return (
+              <div
+                key={plan.segmentIndex}
+                className="p-4 bg-gray-50 dark:bg-[#1e2639] coloursplash:bg-splash-bg-subtle rounded-lg border border-gray-200 dark:border-gray-700 coloursplash:border-splash-border"
+              >
+                <div className="flex flex-wrap items-baseline justify-between gap-2 mb-2">
+                  <h4 className="font-semibold text-gray-900 dark:text-white coloursplash:text-splash-text-primary">
+                    Bag {plan.bagNumber}: {plan.checkpointName}
+                  </h4>
+                  <span className="text-xs text-gray-500 dark:text-gray-400 coloursplash:text-splash-text-muted">
+                    {formatDistance(plan.distanceMiles, useMiles)}
+                    {plan.eta && ` • ${getDayOfWeek(plan.eta, timezone).slice(0, 3)} ${formatTime(plan.eta, timezone)}`}
+                  </span>
+                </div>
+                {plan.coversCheckpoints.length > 0 && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 coloursplash:text-splash-text-muted mb-3">
+                    Food for the legs to {plan.coversCheckpoints.join(', ')}
+                  </p>
+                )}
+
+                <div className="grid md:grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <div className="text-xs font-medium text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary mb-1">Nutrition</div>
+                    {plan.nutrition.length > 0 ? (
+                      <>
+                        <ul className="space-y-0.5 text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-secondary">
+                          {plan.nutrition.map(item => (
+                            <li key={item.productName}>{item.quantity}× {item.productName}</li>
+                          ))}
+                        </ul>
+                        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                          {Math.round(plan.totals.carbs)}g carbs • {Math.round(plan.totals.sodium)}mg sodium
+                          {plan.totals.caffeine > 0 && ` • ${Math.round(plan.totals.caffeine)}mg caffeine`}
+                        </p>
+                      </>
+                    ) : (
+                      <p className="text-gray-500 dark:text-gray-400">No nutrition planned for these legs yet.</p>
+                    )}
+                  </div>
+
+                  <div>
+                    <div className="text-xs font-medium text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary mb-1">Kit</div>
+                    <ul className="space-y-0.5 text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-secondary">
+                      {plan.kitItems.map(item => (
+                        <li key={item.id} className="flex items-center justify-between gap-2">
+                          <span>{item.quantity > 1 && `${item.quantity}× `}{item.name}</span>
+                          <button
+                            onClick={() => handleRemoveKitItem(segment, item.id)}
+                            className="p-0.5 text-gray-400 hover:text-red-500 rounded transition-all"
+                            aria-label={`Remove ${item.name}`}
+                          >
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                    <div className="flex items-center gap-1 mt-2">
+                      <input
+                        type="text"
+                        list="drop-bag-kit-items"
+                        value={entry.name}
+                        onChange={(e) => setNewItems({ ...newItems, [segment.id!]: { ...entry, name: e.target.value } })}
+                        onKeyDown={(e) => e.key === 'Enter' && handleAddKitItem(segment)}
+                        placeholder="e.g. Spare socks"
+                        className={`${inputClass} flex-1 min-w-0`}
+                        aria-label={`Kit item for ${plan.checkpointName}`}
+                      />
+                      <input
+                        type="number"
+                        min={1}
+                        value={entry.quantity}
+                        onChange={(e) => setNewItems({ ...newItems, [segment.id!]: { ...entry, quantity: Math.max(1, parseInt(e.target.value) || 1) } })}
+                        className={`${inputClass} w-14`}
+                        aria-label="Quantity"
+                      />
+                      <button
+                        onClick={() => handleAddKitItem(segment)}
+                        disabled={!entry.name.trim()}
+                        className="p-1.5 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-[#333c52] rounded transition-all disabled:opacity-50"
+                        aria-label="Add kit item"
+                      >
+                        <Plus className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+
+          <datalist id="drop-bag-kit-items">
+            {MANDATORY_KIT_ITEMS.map(item => <option key={item} value={item} />)}
+          </datalist>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -13,12 +13,21 @@ import {
 } from 'recharts';
 import { Upload, Mountain, X, Plus, Eye, EyeOff, TrendingUp, Heart } from 'lucide-react';
 import FatigueCurveControls from './FatigueCurveControls';
+import ElevationSmoothingControls from './ElevationSmoothingControls';
 import { generateFatigueCurve, calculateTotalTimeWithFatigue } from '../utils/fatigueCurve';
+import { calculateSleepDebt, DEFAULT_AWAKE_HOURS_AT_START, getSleepDebtPoints } from '../utils/sleepStrategy';
 import type { ElevationLabel, Segment, ParsedFITData } from '@/shared/types';
 import { localStorageService } from '@/react-app/services/localStorage';
 import { useUnit } from '@/react-app/contexts/UnitContext';
 import { useTheme } from '../contexts/ThemeContext';
 import { milesToKm, getDistanceUnit, getPaceUnit } from '@/react-app/utils/unitConversions';
+import {
+  calculateGainLoss,
+  getElevationSmoothingSettings,
+  processElevationProfile,
+  setElevationSmoothingSettings,
+  type ElevationSmoothingSettings,
+} from '../utils/elevationSmoothing';
 
 interface ElevationChartProps {
   raceId: string;
@@ -74,7 +83,7 @@ export default function ElevationChart({
 }: ElevationChartProps) {
   const { useMiles } = useUnit();
   const { theme } = useTheme();
-  const [elevationData, setElevationData] = useState<ElevationData[]>([]);
+  const [rawElevationData, setElevationData] = useState<ElevationData[]>([]);
   const [comparisonElevationData, setComparisonElevationData] = useState<ElevationData[]>([]);
   const [loading, setLoading] = useState(false);
   const [hasGPX, setHasGPX] = useState(false);
@@ -94,6 +103,29 @@ export default function ElevationChart({
   const [showFatigueCurve, setShowFatigueCurve] = useState(false);
   const [fatigueRate, setFatigueRate] = useState(3.0); // Default 3% per 10 miles
 
+  // Elevation smoothing - changes are saved and the race refreshed so segment climb totals update
+  const [smoothingSettings, setSmoothingSettings] = useState<ElevationSmoothingSettings>(getElevationSmoothingSettings);
+
+  const elevationProfile = useMemo(
+    () => processElevationProfile(
+      rawElevationData.map(d => ({ distanceMiles: d.distance, elevation: d.elevation, lat: d.lat, lng: d.lng })),
+      smoothingSettings
+    ),
+    [rawElevationData, smoothingSettings]
+  );
+
+  // The chart and stats show the corrected profile
+  const elevationData = useMemo<ElevationData[]>(
+    () => rawElevationData.map((d, i) => ({ ...d, elevation: elevationProfile.elevations[i] })),
+    [rawElevationData, elevationProfile]
+  );
+
+  const handleSmoothingChange = (settings: ElevationSmoothingSettings) => {
+    setSmoothingSettings(settings);
+    setElevationSmoothingSettings(settings);
+    onRefresh();
+  };
+
   // Get theme-aware colors
   const colors = chartColors[theme];
 
@@ -420,8 +452,15 @@ export default function ElevationChart({
     const basePace = firstSegmentWithPace.custom_pace_min_per_mile!;
     const totalDistance = elevationData.length > 0 ? elevationData[elevationData.length - 1].distance : 100;
 
-    return generateFatigueCurve(basePace, totalDistance, fatigueRate);
-  }, [showFatigueCurve, fatigueRate, segments, elevationData]);
+    // Sleep debt from the race's sleep stations slows the curve on long races
+    const race = localStorageService.getRace(parseInt(raceId));
+    const sleepDebt = getSleepDebtPoints(
+      segments,
+      calculateSleepDebt(segments, race?.awake_hours_at_start ?? DEFAULT_AWAKE_HOURS_AT_START, race)
+    );
+
+    return generateFatigueCurve(basePace, totalDistance, fatigueRate, undefined, sleepDebt);
+  }, [showFatigueCurve, fatigueRate, segments, elevationData, raceId]);
 
   // Merge GPX and FIT data into single array for Recharts
   // Recharts requires all components to share the same data array
@@ -926,11 +965,11 @@ export default function ElevationChart({
     maxElevation: Math.max(...elevationData.map(d => d.elevation)),
     minElevation: Math.min(...elevationData.map(d => d.elevation)),
     totalDistance: elevationData[elevationData.length - 1]?.distance || 0,
-    totalElevationGain: elevationData.reduce((gain, point, index) => {
-      if (index === 0) return 0;
-      const elevationChange = point.elevation - elevationData[index - 1].elevation;
-      return gain + (elevationChange > 0 ? elevationChange : 0);
-    }, 0),
+    totalElevationGain: calculateGainLoss(
+      elevationProfile.elevations,
+      smoothingSettings.enabled ? smoothingSettings.hysteresisMeters : 0
+    ).gain,
+    rawElevationGain: calculateGainLoss(elevationProfile.rawElevations).gain,
   } : null;
 
 
@@ -1159,6 +1198,22 @@ export default function ElevationChart({
             )}
           </div>
 
+          {/* Elevation Smoothing Controls */}
+          {stats && (
+            <div className="mb-4">
+              <ElevationSmoothingControls
+                settings={smoothingSettings}
+                onChange={handleSmoothingChange}
+                rawGainMeters={stats.rawElevationGain}
+                correctedGainMeters={stats.totalElevationGain}
+                outliersRemoved={elevationProfile.outliersRemoved}
+                demCorrectedPoints={elevationProfile.demCorrectedPoints}
+                totalPoints={elevationData.length}
+                useMiles={useMiles}
+              />
+            </div>
+          )}
+
           {/* Fatigue Curve Controls */}
           <div className="mb-4">
             <FatigueCurveControls
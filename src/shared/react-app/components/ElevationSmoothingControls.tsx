@@ -0,0 +1,242 @@
+/**
+ * Elevation Smoothing Controls Component
+ *
+ * Configures the elevation correction pipeline and shows how much it changes
+ * total ascent compared with the raw GPX.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Activity, Info, Upload, X } from 'lucide-react';
+import type { ElevationSmoothingSettings } from '../utils/elevationSmoothing';
+import { getLoadedDEMTiles, loadDEMFile, loadDEMTiles, removeDEMTile } from '../utils/demTiles';
+
+interface ElevationSmoothingControlsProps {
+  settings: ElevationSmoothingSettings;
+  onChange: (settings: ElevationSmoothingSettings) => void;
+  rawGainMeters: number;
+  correctedGainMeters: number;
+  outliersRemoved: number;
+  demCorrectedPoints: number;
+  totalPoints: number;
+  useMiles: boolean;
+}
+
+const ElevationSmoothingControls: React.FC<ElevationSmoothingControlsProps> = ({
+  settings,
+  onChange,
+  rawGainMeters,
+  correctedGainMeters,
+  outliersRemoved,
+  demCorrectedPoints,
+  totalPoints,
+  useMiles,
+}) => {
+  const [demTiles, setDemTiles] = useState(getLoadedDEMTiles);
+  const [demError, setDemError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDEMTiles().then(setDemTiles);
+  }, []);
+
+  const formatGain = (meters: number) =>
+    useMiles ? `${Math.round(meters * 3.28084).toLocaleString()} ft` : `${Math.round(meters).toLocaleString()} m`;
+  const changePercent = rawGainMeters > 0 ? ((correctedGainMeters - rawGainMeters) / rawGainMeters) * 100 : 0;
+
+  const update = (updates: Partial<ElevationSmoothingSettings>) => onChange({ ...settings, ...updates });
+
+  const handleDEMUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    setDemError(null);
+    for (const file of files) {
+      try {
+        await loadDEMFile(file);
+      } catch (error) {
+        setDemError(error instanceof Error ? error.message : 'Failed to read DEM tile');
+      }
+    }
+    setDemTiles(getLoadedDEMTiles());
+    // Re-run the pipeline with the new tiles
+    onChange({ ...settings });
+  };
+
+  const handleDEMRemove = async (name: string) => {
+    setDemError(null);
+    try {
+      await removeDEMTile(name);
+    } catch (error) {
+      setDemError(error instanceof Error ? error.message : 'Failed to remove DEM tile');
+    }
+    setDemTiles(getLoadedDEMTiles());
+    onChange({ ...settings });
+  };
+
+  return (
+    <div className="bg-white dark:bg-[#2a3244] rounded-lg p-4 space-y-4 shadow-md dark:shadow-none">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Activity className="w-5 h-5 text-teal-600 dark:text-teal-400" />
+          <h4 className="text-sm font-semibold text-gray-900 dark:text-white">
+            Elevation Correction
+          </h4>
+          <div className="group relative">
+            <Info className="w-3 h-3 text-gray-400 cursor-help" />
+            <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 hidden group-hover:block w-64 p-2 bg-gray-900 dark:bg-gray-700 text-white text-xs rounded shadow-lg z-10">
+              GPS and barometric noise inflates total ascent. Corrected climb totals are used for segment
+              elevation, auto pace and eccentric load.
+            </div>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="text-xs text-gray-600 dark:text-gray-400">Enabled</label>
+          <button
+            onClick={() => update({ enabled: !settings.enabled })}
+            className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+              settings.enabled
+                ? 'bg-blue-600 dark:bg-blue-500'
+                : 'bg-gray-300 dark:bg-gray-600'
+            }`}
+          >
+            <span
+              className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                settings.enabled ? 'translate-x-6' : 'translate-x-1'
+              }`}
+            />
+          </button>
+        </div>
+      </div>
+
+      {/* Before/after ascent */}
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div className="bg-gray-50 dark:bg-gray-800/50 rounded p-2">
+          <div className="text-xs text-gray-500 dark:text-gray-400">Raw ascent</div>
+          <div className="text-sm font-semibold text-gray-900 dark:text-white">{formatGain(rawGainMeters)}</div>
+        </div>
+        <div className="bg-gray-50 dark:bg-gray-800/50 rounded p-2">
+          <div className="text-xs text-gray-500 dark:text-gray-400">Corrected ascent</div>
+          <div className="text-sm font-semibold text-teal-600 dark:text-teal-400">{formatGain(correctedGainMeters)}</div>
+        </div>
+        <div className="bg-gray-50 dark:bg-gray-800/50 rounded p-2">
+          <div className="text-xs text-gray-500 dark:text-gray-400">Change</div>
+          <div className="text-sm font-semibold text-gray-900 dark:text-white">
+            {changePercent > 0 ? '+' : ''}{changePercent.toFixed(0)}%
+          </div>
+        </div>
+      </div>
+
+      {settings.enabled && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {/* Outlier rejection */}
+            <div className="space-y-1">
+              <label className="flex items-center gap-2 text-xs font-medium text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={settings.rejectOutliers}
+                  onChange={(e) => update({ rejectOutliers: e.target.checked })}
+                  className="rounded"
+                />
+                Remove spikes steeper than
+              </label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min="10"
+                  max="200"
+                  step="5"
+                  value={settings.maxGradePercent}
+                  disabled={!settings.rejectOutliers}
+                  onChange={(e) => update({ maxGradePercent: Math.max(10, parseFloat(e.target.value) || 0) })}
+                  className="w-20 px-2 py-1 text-sm bg-white dark:bg-[#1e2639] border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-white disabled:opacity-50"
+                />
+                <span className="text-xs text-gray-500 dark:text-gray-400">% grade</span>
+              </div>
+            </div>
+
+            {/* Smoothing window */}
+            <div className="space-y-1">
+              <label className="text-xs font-medium text-gray-700 dark:text-gray-300">
+                Smoothing window: {settings.smoothingWindowMeters} m
+              </label>
+              <input
+                type="range"
+                min="0"
+                max="500"
+                step="25"
+                value={settings.smoothingWindowMeters}
+                onChange={(e) => update({ smoothingWindowMeters: parseInt(e.target.value, 10) })}
+                className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer accent-teal-600"
+              />
+            </div>
+
+            {/* Hysteresis */}
+            <div className="space-y-1">
+              <label className="text-xs font-medium text-gray-700 dark:text-gray-300">
+                Ignore climbs under: {settings.hysteresisMeters} m
+              </label>
+              <input
+                type="range"
+                min="0"
+                max="10"
+                step="0.5"
+                value={settings.hysteresisMeters}
+                onChange={(e) => update({ hysteresisMeters: parseFloat(e.target.value) })}
+                className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer accent-teal-600"
+              />
+            </div>
+          </div>
+
+          {/* DEM correction */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-2 text-xs font-medium text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={settings.useDEM}
+                  onChange={(e) => update({ useDEM: e.target.checked })}
+                  className="rounded"
+                />
+                Correct against DEM tiles (SRTM .hgt or GeoTIFF)
+              </label>
+              <label className="inline-flex items-center gap-1 px-2 py-1 text-xs text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700/30 rounded cursor-pointer">
+                <Upload className="w-3.5 h-3.5" />
+                Import tile
+                <input type="file" accept=".hgt,.tif,.tiff" multiple onChange={handleDEMUpload} className="hidden" />
+              </label>
+            </div>
+
+            {demTiles.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {demTiles.map(tile => (
+                  <span
+                    key={tile.name}
+                    className="inline-flex items-center gap-1 px-2 py-0.5 text-xs bg-teal-50 dark:bg-teal-900/30 text-teal-700 dark:text-teal-400 rounded"
+                  >
+                    {tile.name}
+                    <button onClick={() => handleDEMRemove(tile.name)} title="Remove tile">
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            {demError && <div className="text-xs text-red-600 dark:text-red-400">{demError}</div>}
+          </div>
+
+          {/* Info */}
+          <div className="text-xs text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-800/50 rounded p-2">
+            {outliersRemoved > 0 ? `${outliersRemoved} elevation spike${outliersRemoved === 1 ? '' : 's'} removed. ` : ''}
+            {settings.useDEM && demCorrectedPoints > 0 &&
+              `${Math.round((demCorrectedPoints / Math.max(1, totalPoints)) * 100)}% of the track corrected from DEM tiles.`}
+            {settings.useDEM && demCorrectedPoints === 0 && demTiles.length > 0 &&
+              'No loaded DEM tile covers this track - using GPX elevation.'}
+            {outliersRemoved === 0 && (!settings.useDEM || demTiles.length === 0) &&
+              'Smoothing and hysteresis remove GPS noise from the climb totals.'}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ElevationSmoothingControls;
@@ -7,10 +7,12 @@ import { useEffect, useMemo } from 'react';
 import { MapContainer, TileLayer, Polyline, Marker, Popup, useMap } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
-import type { Segment } from '../../shared/types';
+import type { Segment, MapTilePack } from '../../shared/types';
 import type { TrackPoint, RouteSegment } from '../utils/gpxSegmentation';
 import { splitTrackByCheckpoints } from '../utils/gpxSegmentation';
+import { LAYER_TILE_SOURCES, packIncludes } from '../utils/mapTilePacks';
 import MapLegend from './MapLegend';
+import CachedTileLayer from './CachedTileLayer';
 import type { MapLayerType } from './MapLayerSelector';
 
 // Tile layer configurations (all free, no API key required)
@@ -77,9 +79,10 @@ interface GPXMap2DViewProps {
   trackPoints: TrackPoint[];
   segments: Segment[];
   mapLayer: MapLayerType;
+  tilePack?: MapTilePack | null; // Offline tiles for this race, drawn in place of the tile server
 }
 
-export default function GPXMap2DView({ trackPoints, segments, mapLayer }: GPXMap2DViewProps) {
+export default function GPXMap2DView({ trackPoints, segments, mapLayer, tilePack = null }: GPXMap2DViewProps) {
   // Memoize track points to prevent unnecessary re-renders
   const memoizedTrackPoints = useMemo(() => trackPoints, [trackPoints]);
 
@@ -101,6 +104,7 @@ export default function GPXMap2DView({ trackPoints, segments, mapLayer }: GPXMap
 
   // Get current tile layer config
   const tileConfig = TILE_LAYERS[mapLayer];
+  const [baseSource, labelsSource] = LAYER_TILE_SOURCES[mapLayer];
 
   return (
     <div className="h-[600px] rounded-lg overflow-hidden border-2 border-gray-600 relative">
@@ -111,20 +115,38 @@ export default function GPXMap2DView({ trackPoints, segments, mapLayer }: GPXMap
         style={{ background: '#1e2639' }}
       >
         {/* Base Tile Layer */}
-        <TileLayer
-          key={mapLayer}
-          url={tileConfig.url}
-          attribution={tileConfig.attribution}
-          subdomains={mapLayer === 'street' ? ['a', 'b', 'c'] : []}
-        />
+        {packIncludes(tilePack, baseSource) ? (
+          <CachedTileLayer
+            key={mapLayer}
+            raceId={tilePack!.raceId}
+            source={baseSource}
+            attribution={tileConfig.attribution}
+          />
+        ) : (
+          <TileLayer
+            key={mapLayer}
+            url={tileConfig.url}
+            attribution={tileConfig.attribution}
+            subdomains={mapLayer === 'street' ? ['a', 'b', 'c'] : []}
+          />
+        )}
 
         {/* Labels overlay for hybrid mode */}
         {mapLayer === 'hybrid' && 'labelsUrl' in tileConfig && (
-          <TileLayer
-            url={tileConfig.labelsUrl}
-            attribution=""
-            pane="overlayPane"
-          />
+          packIncludes(tilePack, labelsSource) ? (
+            <CachedTileLayer
+              raceId={tilePack!.raceId}
+              source={labelsSource}
+              attribution=""
+              pane="overlayPane"
+            />
+          ) : (
+            <TileLayer
+              url={tileConfig.labelsUrl}
+              attribution=""
+              pane="overlayPane"
+            />
+          )
         )}
 
         {/* Multi-color Route Segments */}
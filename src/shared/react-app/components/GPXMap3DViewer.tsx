@@ -7,9 +7,11 @@ import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import Map, { Source, Layer, Marker } from 'react-map-gl/maplibre';
 import type { MapRef, ViewState } from 'react-map-gl/maplibre';
 import 'maplibre-gl/dist/maplibre-gl.css';
-import type { Segment } from '../../shared/types';
+import type { Segment, MapTilePack } from '../../shared/types';
 import type { TrackPoint, RouteSegment } from '../utils/gpxSegmentation';
 import { splitTrackByCheckpoints, calculateBearing, sampleTrackPoints } from '../utils/gpxSegmentation';
+import { getTerrainTileUrl } from '../utils/demTerrainProtocol';
+import { getMapTileUrl } from '../utils/mapTileProtocol';
 import FlyoverControls, { type PlaybackSpeed } from './FlyoverControls';
 import type { MapLayerType } from './MapLayerSelector';
 
@@ -18,9 +20,10 @@ interface GPXMap3DViewerProps {
   segments: Segment[];
   isFlyoverMode: boolean;
   mapLayer: MapLayerType;
+  tilePack?: MapTilePack | null; // Offline tiles for this race, served through a local protocol
 }
 
-export default function GPXMap3DViewer({ trackPoints, segments, isFlyoverMode, mapLayer }: GPXMap3DViewerProps) {
+export default function GPXMap3DViewer({ trackPoints, segments, isFlyoverMode, mapLayer, tilePack = null }: GPXMap3DViewerProps) {
   const mapRef = useRef<MapRef>(null);
   const animationFrameRef = useRef<number | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -46,6 +49,9 @@ export default function GPXMap3DViewer({ trackPoints, segments, isFlyoverMode, m
     [trackPoints, segments]
   );
 
+  // Stored DEM tiles are served locally so terrain works offline
+  const terrainTileUrl = useMemo(() => getTerrainTileUrl(), []);
+
   // Sample track points for flyover (every ~100m)
   const flyoverPoints = useMemo(
     () => sampleTrackPoints(trackPoints, 150), // Increased from 100 to 150 for smoother bearing changes
@@ -204,7 +210,7 @@ export default function GPXMap3DViewer({ trackPoints, segments, isFlyoverMode, m
     if (mapLayer === 'street') {
       baseStyle.sources.osm = {
         type: 'raster' as const,
-        tiles: ['https://tile.openstreetmap.org/{z}/{x}/{y}.png'],
+        tiles: [getMapTileUrl('osm', tilePack)],
         tileSize: 256,
         attribution: '&copy; OpenStreetMap Contributors',
       };
@@ -218,7 +224,7 @@ export default function GPXMap3DViewer({ trackPoints, segments, isFlyoverMode, m
     } else if (mapLayer === 'satellite') {
       baseStyle.sources.satellite = {
         type: 'raster' as const,
-        tiles: ['https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}'],
+        tiles: [getMapTileUrl('satellite', tilePack)],
         tileSize: 256,
         attribution: '&copy; Esri',
       };
@@ -233,14 +239,14 @@ export default function GPXMap3DViewer({ trackPoints, segments, isFlyoverMode, m
       // Satellite base
       baseStyle.sources.satellite = {
         type: 'raster' as const,
-        tiles: ['https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}'],
+        tiles: [getMapTileUrl('satellite', tilePack)],
         tileSize: 256,
         attribution: '&copy; Esri',
       };
       // Labels overlay
       baseStyle.sources.labels = {
         type: 'raster' as const,
-        tiles: ['https://a.basemaps.cartocdn.com/light_only_labels/{z}/{x}/{y}.png'],
+        tiles: [getMapTileUrl('labels', tilePack)],
         tileSize: 256,
       };
       baseStyle.layers.push(
@@ -262,7 +268,7 @@ export default function GPXMap3DViewer({ trackPoints, segments, isFlyoverMode, m
     }
 
     return baseStyle;
-  }, [mapLayer]);
+  }, [mapLayer, tilePack]);
 
   return (
     <div className="relative h-[600px] rounded-lg overflow-hidden border-2 border-gray-600">
@@ -279,7 +285,7 @@ export default function GPXMap3DViewer({ trackPoints, segments, isFlyoverMode, m
         <Source
           id="terrainSource"
           type="raster-dem"
-          tiles={['https://s3.amazonaws.com/elevation-tiles-prod/terrarium/{z}/{x}/{y}.png']}
+          tiles={[terrainTileUrl]}
           tileSize={256}
           encoding="terrarium"
         />
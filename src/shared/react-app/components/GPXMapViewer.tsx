@@ -3,12 +3,13 @@ import { Map, ChevronDown, ChevronUp, Loader2 } from 'lucide-react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import { localStorageService } from '../services/localStorage';
-import type { Segment } from '../../shared/types';
+import type { Segment, MapTilePack } from '../../shared/types';
 import type { TrackPoint } from '../utils/gpxSegmentation';
 import ViewModeSelector, { type ViewMode } from './ViewModeSelector';
 import MapLayerSelector, { type MapLayerType } from './MapLayerSelector';
 import GPXMap2DView from './GPXMap2DView';
 import GPXMap3DViewer from './GPXMap3DViewer';
+import OfflineMapPanel from './OfflineMapPanel';
 
 // Fix Leaflet default icon issue with Vite
 import markerIcon2x from 'leaflet/dist/images/marker-icon-2x.png';
@@ -23,11 +24,12 @@ L.Icon.Default.mergeOptions({
 });
 
 interface GPXMapViewerProps {
+  raceId: number;
   segments: Segment[];
   gpxFileKey?: string | null;
 }
 
-export default function GPXMapViewer({ segments, gpxFileKey }: GPXMapViewerProps) {
+export default function GPXMapViewer({ raceId, segments, gpxFileKey }: GPXMapViewerProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [viewMode, setViewMode] = useState<ViewMode>('2d');
   const [mapLayer, setMapLayer] = useState<MapLayerType>('street');
@@ -35,6 +37,7 @@ export default function GPXMapViewer({ segments, gpxFileKey }: GPXMapViewerProps
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [hasGPX, setHasGPX] = useState(false);
+  const [tilePack, setTilePack] = useState<MapTilePack | null>(null);
 
   // Load GPX data
   const loadGPXData = async () => {
@@ -103,6 +106,17 @@ export default function GPXMapViewer({ segments, gpxFileKey }: GPXMapViewerProps
     }
   };
 
+  // Load the race's offline map pack, if one has been downloaded
+  useEffect(() => {
+    if (!isExpanded) return;
+    localStorageService.getTilePack(raceId)
+      .then(setTilePack)
+      .catch(err => {
+        console.error('[GPX Map] Failed to load offline map pack:', err);
+        setTilePack(null);
+      });
+  }, [isExpanded, raceId]);
+
   // Load GPX data when expanded or when gpxFileKey changes
   useEffect(() => {
     if (isExpanded && gpxFileKey) {
@@ -193,7 +207,7 @@ export default function GPXMapViewer({ segments, gpxFileKey }: GPXMapViewerProps
 
               {/* Render appropriate map based on view mode */}
               {viewMode === '2d' && (
-                <GPXMap2DView trackPoints={trackPoints} segments={segments} mapLayer={mapLayer} />
+                <GPXMap2DView trackPoints={trackPoints} segments={segments} mapLayer={mapLayer} tilePack={tilePack} />
               )}
 
               {(viewMode === '3d' || viewMode === 'flyover') && (
@@ -202,8 +216,16 @@ export default function GPXMapViewer({ segments, gpxFileKey }: GPXMapViewerProps
                   segments={segments}
                   isFlyoverMode={viewMode === 'flyover'}
                   mapLayer={mapLayer}
+                  tilePack={tilePack}
                 />
               )}
+
+              <OfflineMapPanel
+                raceId={raceId}
+                trackPoints={trackPoints}
+                tilePack={tilePack}
+                onTilePackChange={setTilePack}
+              />
             </>
           )}
         </div>
@@ -0,0 +1,133 @@
+import { X, AlertCircle, AlertTriangle, Copy, RefreshCw } from 'lucide-react';
+import { RACE_EXPORT_FORMAT_VERSION, type RaceImportPreview } from '@/react-app/utils/importRace';
+
+interface ImportReviewModalProps {
+  preview: RaceImportPreview | null;
+  isImporting: boolean;
+  onClose: () => void;
+  onImportAsNew: () => void;
+  onReplaceExisting: () => void;
+}
+
+export default function ImportReviewModal({
+  preview,
+  isImporting,
+  onClose,
+  onImportAsNew,
+  onReplaceExisting,
+}: ImportReviewModalProps) {
+  if (!preview) return null;
+
+  const errors = preview.issues.filter(issue => issue.severity === 'error');
+  const warnings = preview.issues.filter(issue => issue.severity === 'warning');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div
+        className="absolute inset-0 bg-black/70 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      <div className="relative bg-white dark:bg-[#2d3548] coloursplash:bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-hidden flex flex-col border border-gray-200 dark:border-gray-700 coloursplash:border-splash-border">
+        <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-blue-500 via-purple-500 to-pink-500" />
+
+        <div className="p-6 overflow-y-auto">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white coloursplash:text-splash-text-primary">
+              Review Import
+            </h2>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary hover:text-gray-900 dark:hover:text-white coloursplash:hover:text-splash-text-primary hover:bg-gray-100 dark:hover:bg-[#333c52] coloursplash:hover:bg-splash-azure-light rounded-lg transition-all"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <p className="text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary mb-4">
+            <strong className="text-gray-900 dark:text-white coloursplash:text-splash-text-primary">{preview.data.race.name || 'Unnamed race'}</strong>
+            {' '}– {preview.data.segments.length} checkpoints
+            {preview.data.gpxFileContent ? ', with GPX route' : ''}
+          </p>
+
+          {preview.sourceFormatVersion < RACE_EXPORT_FORMAT_VERSION && (
+            <div className="mb-4 text-sm text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary">
+              This file was exported by an older version of UltraPlan and has been upgraded.
+            </div>
+          )}
+
+          {/* Errors */}
+          {errors.length > 0 && (
+            <div className="mb-4 p-4 bg-red-500/20 border border-red-500/50 rounded-lg text-red-400">
+              <div className="flex items-center gap-2 font-medium mb-2">
+                <AlertCircle className="w-5 h-5" />
+                {preview.canImport ? 'Some data could not be imported' : 'This race plan cannot be imported'}
+              </div>
+              <ul className="text-sm space-y-1">
+                {errors.map((issue, index) => (
+                  <li key={index}>
+                    <span className="font-medium">{issue.location}</span> · {issue.field}: {issue.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Warnings */}
+          {warnings.length > 0 && (
+            <div className="mb-4 p-4 bg-yellow-500/20 border border-yellow-500/50 rounded-lg text-yellow-500">
+              <div className="flex items-center gap-2 font-medium mb-2">
+                <AlertTriangle className="w-5 h-5" />
+                Warnings
+              </div>
+              <ul className="text-sm space-y-1">
+                {warnings.map((issue, index) => (
+                  <li key={index}>
+                    <span className="font-medium">{issue.location}</span> · {issue.field}: {issue.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Name Conflict */}
+          {preview.conflictingRace && preview.canImport && (
+            <div className="mb-4 p-3 bg-blue-500/10 border border-blue-500/30 rounded-lg text-sm text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary">
+              A race named <strong className="text-gray-900 dark:text-white coloursplash:text-splash-text-primary">{preview.conflictingRace.name}</strong> already exists.
+              Replacing it keeps its FIT files and auto-pace settings but overwrites its checkpoints.
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <button
+              onClick={onImportAsNew}
+              disabled={!preview.canImport || isImporting}
+              className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-gradient-to-r from-blue-500 to-purple-600 coloursplash:from-splash-azure coloursplash:to-splash-green hover:from-blue-600 hover:to-purple-700 text-white font-semibold rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Copy className="w-4 h-4" />
+              {isImporting ? 'Importing...' : 'Import as New Race'}
+            </button>
+
+            {preview.conflictingRace && (
+              <button
+                onClick={onReplaceExisting}
+                disabled={!preview.canImport || isImporting}
+                className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-red-600 hover:bg-red-700 text-white font-semibold rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <RefreshCw className="w-4 h-4" />
+                Replace Existing Race
+              </button>
+            )}
+
+            <button
+              onClick={onClose}
+              className="w-full px-4 py-2 text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary hover:bg-gray-100 dark:hover:bg-[#333c52] rounded-lg transition-all"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
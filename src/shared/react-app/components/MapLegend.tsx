@@ -1,18 +1,30 @@
 /**
  * Map Legend Component
- * Displays a legend overlay showing route segments with colors and distances
+ * Displays a legend overlay showing route segments with colors and distances,
+ * flagging checkpoints that couldn't be placed on the track confidently
  */
 
 import { useState } from 'react';
-import { ChevronDown, ChevronUp } from 'lucide-react';
+import { AlertTriangle, ChevronDown, ChevronUp } from 'lucide-react';
 import type { Segment } from '../../shared/types';
-import type { RouteSegment } from '../utils/gpxSegmentation';
+import type { CheckpointMatch, RouteSegment } from '../utils/gpxSegmentation';
 
 interface MapLegendProps {
   segments: Segment[];
   routeSegments: RouteSegment[];
 }
 
+function getMatchDescription(match: CheckpointMatch): string {
+  const parts = [
+    `Matched at ${match.trackDistanceMiles.toFixed(1)} mi on the track (expected ${match.expectedDistanceMiles.toFixed(1)} mi)`,
+    `${Math.round(match.offTrackMeters)} m from the route`,
+  ];
+  if (match.passes > 1) {
+    parts.push(`route passes here ${match.passes} times`);
+  }
+  return parts.join(', ');
+}
+
 export default function MapLegend({ segments, routeSegments }: MapLegendProps) {
   const [isExpanded, setIsExpanded] = useState(true);
   // Match route segments with segment data to get distances
@@ -28,8 +40,10 @@ export default function MapLegend({ segments, routeSegments }: MapLegendProps) {
       distanceMiles: segmentData?.segment_distance_miles || 0,
       distanceKm: segmentData?.segment_distance_km || 0,
       index: index,
+      match: routeSegment.match,
     };
   });
+  const uncertainCount = legendItems.filter(item => item.match && item.match.confidence !== 'high').length;
 
   if (legendItems.length === 0) {
     return null;
@@ -43,8 +57,14 @@ export default function MapLegend({ segments, routeSegments }: MapLegendProps) {
         className="w-full flex items-center justify-between gap-2 p-4 text-left hover:bg-gray-50/50 dark:hover:bg-gray-700/30 transition-colors rounded-t-lg"
         aria-label={isExpanded ? "Collapse route segments legend" : "Expand route segments legend"}
       >
-        <h3 className="text-gray-900 dark:text-white font-bold text-sm">
+        <h3 className="text-gray-900 dark:text-white font-bold text-sm flex items-center gap-1.5">
           Route Segments
+          {uncertainCount > 0 && (
+            <AlertTriangle
+              className="w-4 h-4 text-yellow-600 dark:text-yellow-400"
+              aria-label={`${uncertainCount} checkpoint${uncertainCount === 1 ? '' : 's'} matched with low confidence`}
+            />
+          )}
         </h3>
         {isExpanded ? (
           <ChevronUp className="w-5 h-5 text-gray-700 dark:text-gray-300 flex-shrink-0" />
@@ -76,6 +96,21 @@ export default function MapLegend({ segments, routeSegments }: MapLegendProps) {
                   <div className="text-gray-700 dark:text-gray-300 mt-0.5">
                     {item.distanceMiles.toFixed(1)} miles ({item.distanceKm.toFixed(1)} km)
                   </div>
+                  {item.match && item.match.confidence !== 'high' && (
+                    <div
+                      className={`flex items-center gap-1 mt-0.5 ${
+                        item.match.confidence === 'low'
+                          ? 'text-red-600 dark:text-red-400'
+                          : 'text-yellow-700 dark:text-yellow-400'
+                      }`}
+                      title={getMatchDescription(item.match)}
+                    >
+                      <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+                      <span className="truncate">
+                        {item.match.confidence === 'low' ? 'Check placement' : 'Approximate placement'}
+                      </span>
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
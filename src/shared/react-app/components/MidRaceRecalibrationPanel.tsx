@@ -0,0 +1,276 @@
+/**
+ * Mid-Race Recalibration Panel Component
+ * Uploads a partial FIT/GPX activity pulled from the watch during the race,
+ * compares the completed legs with the plan and rescales the remaining legs,
+ * previewing the new finish and cut-off risks before they're applied
+ */
+
+import { useMemo, useRef, useState } from 'react';
+import { ChevronDown, ChevronUp, Upload, Watch } from 'lucide-react';
+import type { ParsedFITData, Race, Segment } from '@/shared/types';
+import { localStorageService } from '@/react-app/services/localStorage';
+import { useUnit } from '@/react-app/contexts/UnitContext';
+import { formatDistance, formatPace } from '@/react-app/utils/unitConversions';
+import { formatDuration, formatTime, getDayOfWeek } from '@/react-app/utils/etaCalculations';
+import { formatCutoffBuffer } from '@/react-app/utils/cutoffAnalysis';
+import { recalibrateFromActivity } from '@/react-app/utils/midRaceRecalibration';
+
+interface MidRaceRecalibrationPanelProps {
+  race: Race;
+  segments: Segment[];
+  onApply: (times: Map<number, number>) => Promise<void>;
+}
+
+// Ratio against the plan, e.g. "12% slower", "4% faster", "On plan"
+function formatEffort(ratio: number): string {
+  const percent = Math.round((ratio - 1) * 100);
+  if (percent === 0) return 'On plan';
+  return `${Math.abs(percent)}% ${percent > 0 ? 'slower' : 'faster'}`;
+}
+
+export default function MidRaceRecalibrationPanel({ race, segments, onApply }: MidRaceRecalibrationPanelProps) {
+  const { useMiles } = useUnit();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [activity, setActivity] = useState<ParsedFITData | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [appliedMessage, setAppliedMessage] = useState<string | null>(null);
+
+  const gpxContent = race.gpx_file_key ? localStorageService.getGPXFile(race.gpx_file_key)?.content || null : null;
+  const result = useMemo(
+    () => (activity ? recalibrateFromActivity(race, segments, activity, gpxContent) : null),
+    [race, segments, activity, gpxContent]
+  );
+  const timezone = race.timezone ?? undefined;
+  const cutoffsByIndex = new Map(result?.cutoffReport?.checkpoints.map(checkpoint => [checkpoint.segmentIndex, checkpoint]) ?? []);
+
+  const formatWhen = (date: Date | null) =>
+    date ? `${getDayOfWeek(date, timezone).slice(0, 3)} ${formatTime(date, timezone)}` : '-';
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsParsing(true);
+    setAppliedMessage(null);
+    try {
+      const parsed = await localStorageService.parseActivityFile(file);
+      if (parsed.records.length === 0) {
+        throw new Error('This activity has no recorded track.');
+      }
+      setActivity(parsed);
+    } catch (error) {
+      console.error('Failed to read partial activity:', error);
+      alert(error instanceof Error ? error.message : 'Failed to read the activity file.');
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!result) return;
+    const times = new Map<number, number>();
+    result.remainingLegs.forEach(leg => {
+      if (leg.segmentId != null && leg.plannedMinutes > 0) times.set(leg.segmentId, leg.recalibratedMinutes);
+    });
+
+    setIsApplying(true);
+    try {
+      await onApply(times);
+      setAppliedMessage(`Rescaled ${times.size} remaining ${times.size === 1 ? 'leg' : 'legs'}. The previous plan is in Plan History.`);
+      setActivity(null);
+    } catch (error) {
+      console.error('Failed to apply recalibration:', error);
+      alert('Failed to update the remaining legs. Please try again.');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const finishDelta = result?.plannedFinish && result.recalibratedFinish
+    ? Math.round((result.recalibratedFinish.getTime() - result.plannedFinish.getTime()) / 60000)
+    : null;
+
+  return (
+    <div className="mb-8 bg-white dark:bg-[#2d3548] coloursplash:bg-white rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 coloursplash:border-splash-border p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white coloursplash:text-splash-text-primary flex items-center gap-2">
+            <Watch className="w-5 h-5" />
+            Mid-Race Recalibration
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary">
+            Upload a partial FIT or GPX from the watch to rescale the rest of the plan from how the race is going.
+          </p>
+        </div>
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium bg-blue-500 hover:bg-blue-600 coloursplash:bg-splash-azure text-white rounded-lg transition-all"
+        >
+          {isExpanded ? 'Hide' : 'Recalibrate'}
+          {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="mt-4 space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <input ref={fileInputRef} type="file" accept=".fit,.gpx" onChange={handleFileChange} className="hidden" />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isParsing}
+              className="inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-all disabled:opacity-50 min-h-[44px]"
+            >
+              <Upload className="w-4 h-4" />
+              {isParsing ? 'Reading...' : 'Upload partial activity'}
+            </button>
+            {activity && (
+              <span className="text-sm text-gray-600 dark:text-gray-400">
+                {activity.fileName} • {formatDistance(activity.totalDistance, useMiles)} • {formatDuration(Math.round(activity.totalTime / 60))}
+              </span>
+            )}
+          </div>
+
+          {appliedMessage && (
+            <p className="text-sm text-emerald-600 dark:text-emerald-400">{appliedMessage}</p>
+          )}
+
+          {activity && !result && (
+            <p className="text-sm text-amber-600 dark:text-amber-400">
+              This activity doesn't cover a whole leg with a planned time yet, so there's nothing to measure.
+            </p>
+          )}
+
+          {result && (
+            <>
+              {/* Summary */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                <div className="p-3 rounded-lg bg-gray-50 dark:bg-[#1e2639] coloursplash:bg-splash-bg-subtle">
+                  <div className="text-xs text-gray-500 dark:text-gray-400">Position on course</div>
+                  <div className="font-semibold text-gray-900 dark:text-white coloursplash:text-splash-text-primary">
+                    {formatDistance(result.alignment.courseMiles, useMiles)}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {result.alignment.method === 'gps'
+                      ? `Matched by GPS (watch ${formatDistance(result.alignment.activityMiles, useMiles)})`
+                      : 'From watch distance'}
+                  </div>
+                </div>
+                <div className="p-3 rounded-lg bg-gray-50 dark:bg-[#1e2639] coloursplash:bg-splash-bg-subtle">
+                  <div className="text-xs text-gray-500 dark:text-gray-400">Effort vs plan (GAP)</div>
+                  <div className="font-semibold text-gray-900 dark:text-white coloursplash:text-splash-text-primary">{formatEffort(result.effortRatio)}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    Fade {Math.round(result.fadePer10Miles * 1000) / 10}% per 10 mi
+                  </div>
+                </div>
+                <div className="p-3 rounded-lg bg-gray-50 dark:bg-[#1e2639] coloursplash:bg-splash-bg-subtle">
+                  <div className="text-xs text-gray-500 dark:text-gray-400">Finish</div>
+                  <div className="font-semibold text-gray-900 dark:text-white coloursplash:text-splash-text-primary">{formatWhen(result.recalibratedFinish)}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    Plan {formatWhen(result.plannedFinish)}
+                    {finishDelta !== null && finishDelta !== 0 && ` (${finishDelta > 0 ? '+' : '-'}${formatDuration(Math.abs(finishDelta))})`}
+                  </div>
+                </div>
+                <div className="p-3 rounded-lg bg-gray-50 dark:bg-[#1e2639] coloursplash:bg-splash-bg-subtle">
+                  <div className="text-xs text-gray-500 dark:text-gray-400">Tightest cut-off ahead</div>
+                  <div className={`font-semibold ${
+                    result.cutoffReport?.tightest?.risk === 'missed' ? 'text-red-600 dark:text-red-400'
+                      : result.cutoffReport?.tightest?.risk === 'warning' ? 'text-amber-600 dark:text-amber-400'
+                        : 'text-gray-900 dark:text-white coloursplash:text-splash-text-primary'
+                  }`}>
+                    {result.cutoffReport?.tightest
+                      ? `${result.cutoffReport.tightest.checkpointName}: ${formatCutoffBuffer(result.cutoffReport.tightest.bufferMinutes)}`
+                      : 'None'}
+                  </div>
+                </div>
+              </div>
+
+              {/* Completed legs */}
+              <div className="overflow-x-auto">
+                <h4 className="text-sm font-semibold text-gray-900 dark:text-white coloursplash:text-splash-text-primary mb-1">Completed legs</h4>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500 dark:text-gray-400 coloursplash:text-splash-text-muted border-b border-gray-200 dark:border-gray-700 coloursplash:border-splash-border">
+                      <th className="py-2 pr-3 font-medium">Checkpoint</th>
+                      <th className="py-2 pr-3 font-medium">Planned</th>
+                      <th className="py-2 pr-3 font-medium">Actual</th>
+                      <th className="py-2 pr-3 font-medium">Pace</th>
+                      <th className="py-2 pr-3 font-medium">GAP</th>
+                      <th className="py-2 font-medium">Effort</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.completedLegs.map(leg => (
+                      <tr key={leg.segmentIndex} className="border-b border-gray-100 dark:border-gray-700/50 text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-secondary">
+                        <td className="py-2 pr-3 font-medium text-gray-900 dark:text-white coloursplash:text-splash-text-primary">{leg.checkpointName}</td>
+                        <td className="py-2 pr-3">{formatDuration(Math.round(leg.plannedMinutes))}</td>
+                        <td className="py-2 pr-3">{formatDuration(Math.round(leg.split.actualTime))}</td>
+                        <td className="py-2 pr-3 whitespace-nowrap">
+                          {formatPace(leg.split.actualPace, useMiles)}
+                          <span className="text-xs text-gray-500 dark:text-gray-400"> vs {formatPace(leg.plannedPace, useMiles)}</span>
+                        </td>
+                        <td className="py-2 pr-3 whitespace-nowrap">{leg.split.avgGAP ? formatPace(leg.split.avgGAP, useMiles) : '-'}</td>
+                        <td className={`py-2 whitespace-nowrap ${leg.effortRatio > 1 ? 'text-amber-600 dark:text-amber-400' : 'text-emerald-600 dark:text-emerald-400'}`}>
+                          {formatEffort(leg.effortRatio)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Remaining legs */}
+              <div className="overflow-x-auto">
+                <h4 className="text-sm font-semibold text-gray-900 dark:text-white coloursplash:text-splash-text-primary mb-1">Remaining legs</h4>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500 dark:text-gray-400 coloursplash:text-splash-text-muted border-b border-gray-200 dark:border-gray-700 coloursplash:border-splash-border">
+                      <th className="py-2 pr-3 font-medium">Checkpoint</th>
+                      <th className="py-2 pr-3 font-medium">Planned</th>
+                      <th className="py-2 pr-3 font-medium">Recalibrated</th>
+                      <th className="py-2 font-medium">Cut-off</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.remainingLegs.map(leg => {
+                      const cutoff = cutoffsByIndex.get(leg.segmentIndex);
+                      return (
+                        <tr key={leg.segmentIndex} className="border-b border-gray-100 dark:border-gray-700/50 text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-secondary">
+                          <td className="py-2 pr-3 font-medium text-gray-900 dark:text-white coloursplash:text-splash-text-primary">{leg.checkpointName}</td>
+                          <td className="py-2 pr-3">{leg.plannedMinutes > 0 ? formatDuration(Math.round(leg.plannedMinutes)) : '-'}</td>
+                          <td className="py-2 pr-3">
+                            {leg.plannedMinutes > 0 ? formatDuration(Math.round(leg.recalibratedMinutes)) : '-'}
+                            {leg.plannedMinutes > 0 && <span className="text-xs text-gray-500 dark:text-gray-400"> ({formatEffort(leg.effortRatio)})</span>}
+                          </td>
+                          <td className={`py-2 whitespace-nowrap ${
+                            cutoff?.risk === 'missed' ? 'text-red-600 dark:text-red-400'
+                              : cutoff?.risk === 'warning' ? 'text-amber-600 dark:text-amber-400'
+                                : 'text-gray-600 dark:text-gray-400'
+                          }`}>
+                            {cutoff ? `${cutoff.formattedCutoff} • ${formatCutoffBuffer(cutoff.bufferMinutes)}` : '-'}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex justify-end">
+                <button
+                  onClick={handleApply}
+                  disabled={isApplying || result.remainingLegs.every(leg => leg.plannedMinutes <= 0)}
+                  className="px-4 py-2 text-sm font-semibold bg-emerald-500 hover:bg-emerald-600 text-white rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isApplying ? 'Applying...' : 'Rescale remaining legs'}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,288 @@
+/**
+ * Offline Map Panel Component
+ * Downloads map tiles for a corridor around the race route so the 2D and 3D
+ * maps work without a network, and manages the stored pack. Tiles come from
+ * download servers the user sets, since the public map servers don't allow bulk downloads.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Download, Trash2, X, WifiOff } from 'lucide-react';
+import type { MapTilePack, MapTileSourceId } from '@/shared/types';
+import type { TrackPoint } from '../utils/gpxSegmentation';
+import { localStorageService } from '../services/localStorage';
+import {
+  MAP_TILE_SOURCES,
+  MIN_PACK_ZOOM,
+  MAX_PACK_ZOOM,
+  MAX_PACK_TILES,
+  downloadTilePack,
+  estimateTilePack,
+  formatPackSize,
+  getTileDownloadUrls,
+  isTileUrlTemplate,
+  setTileDownloadUrls,
+  type TilePackOptions,
+  type TilePackProgress,
+} from '../utils/mapTilePacks';
+
+const BUFFER_OPTIONS_KM = [0.5, 1, 2, 5];
+const ZOOM_OPTIONS = Array.from({ length: MAX_PACK_ZOOM - MIN_PACK_ZOOM + 1 }, (_, i) => MIN_PACK_ZOOM + i);
+
+interface OfflineMapPanelProps {
+  raceId: number;
+  trackPoints: TrackPoint[];
+  tilePack: MapTilePack | null;
+  onTilePackChange: (pack: MapTilePack | null) => void;
+}
+
+export default function OfflineMapPanel({ raceId, trackPoints, tilePack, onTilePackChange }: OfflineMapPanelProps) {
+  const [showOptions, setShowOptions] = useState(false);
+  const [options, setOptions] = useState<TilePackOptions>({
+    sources: ['osm'],
+    minZoom: 10,
+    maxZoom: 15,
+    bufferKm: 1,
+  });
+  const [downloadUrls, setDownloadUrls] = useState(getTileDownloadUrls);
+  const [progress, setProgress] = useState<TilePackProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [totalCache, setTotalCache] = useState<{ bytes: number; packs: number } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Only layers with a download server are downloaded
+  const packOptions = useMemo(
+    () => ({ ...options, sources: options.sources.filter(source => isTileUrlTemplate(downloadUrls[source])) }),
+    [options, downloadUrls]
+  );
+  const estimatedTiles = useMemo(
+    () => (showOptions ? estimateTilePack(trackPoints, packOptions) : 0),
+    [showOptions, trackPoints, packOptions]
+  );
+
+  // Size of every race's pack, refreshed whenever this race's pack changes
+  useEffect(() => {
+    localStorageService.getTilePacks()
+      .then(packs => setTotalCache({ bytes: packs.reduce((sum, pack) => sum + pack.sizeBytes, 0), packs: packs.length }))
+      .catch(() => setTotalCache(null));
+  }, [tilePack]);
+
+  // Cancel a running download when the map is closed
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const toggleSource = (source: MapTileSourceId) => {
+    const sources = options.sources.includes(source)
+      ? options.sources.filter(s => s !== source)
+      : [...options.sources, source];
+    setOptions({ ...options, sources });
+  };
+
+  const updateDownloadUrl = (source: MapTileSourceId, url: string) => {
+    const urls = { ...downloadUrls, [source]: url.trim() || undefined };
+    setDownloadUrls(urls);
+    setTileDownloadUrls(urls);
+  };
+
+  const handleDownload = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress({ done: 0, total: estimatedTiles, failed: 0 });
+
+    try {
+      const pack = await downloadTilePack(raceId, trackPoints, packOptions, setProgress, controller.signal);
+      onTilePackChange(pack);
+      setShowOptions(false);
+    } catch (err) {
+      if (controller.signal.aborted) {
+        onTilePackChange(null);
+      } else {
+        console.error('[Offline Map] Download failed:', err);
+        setError(err instanceof Error ? err.message : 'Failed to download map');
+        onTilePackChange(null);
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm('Delete the offline map for this race?')) return;
+    try {
+      await localStorageService.deleteTilePack(raceId);
+      onTilePackChange(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete offline map');
+    }
+  };
+
+  const isDownloading = progress !== null;
+  const tooManyTiles = estimatedTiles > MAX_PACK_TILES;
+
+  return (
+    <div className="mt-4 p-4 bg-gray-50 dark:bg-[#1e2639] coloursplash:bg-splash-bg-subtle rounded-lg border border-gray-200 dark:border-gray-700 coloursplash:border-splash-border space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <WifiOff className="w-4 h-4 text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary" />
+          <h4 className="text-sm font-semibold text-gray-900 dark:text-white coloursplash:text-splash-text-primary">
+            Offline Map
+          </h4>
+        </div>
+        <div className="flex items-center gap-2">
+          {tilePack && !isDownloading && (
+            <button
+              onClick={handleDelete}
+              className="inline-flex items-center gap-1 px-3 py-1.5 text-xs text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-all"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+              Delete
+            </button>
+          )}
+          {!isDownloading && (
+            <button
+              onClick={() => setShowOptions(!showOptions)}
+              className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium bg-emerald-500 hover:bg-emerald-600 text-white rounded-lg transition-all"
+            >
+              <Download className="w-3.5 h-3.5" />
+              {tilePack ? 'Update map' : 'Download map for this race'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Stored pack */}
+      <p className="text-xs text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary">
+        {tilePack
+          ? `${tilePack.tileCount.toLocaleString()} tiles (${formatPackSize(tilePack.sizeBytes)}) saved for ` +
+            `${tilePack.sources.map(s => MAP_TILE_SOURCES[s].label).join(', ')} at zoom ${tilePack.minZoom}-${tilePack.maxZoom}, ` +
+            `${tilePack.bufferKm} km either side of the route.` +
+            (tilePack.failedTiles > 0 ? ` ${tilePack.failedTiles} tiles couldn't be downloaded.` : '')
+          : 'Maps load from the internet. Download the route corridor to view it without a connection.'}
+        {totalCache && totalCache.packs > 0 && (
+          <> All offline maps use {formatPackSize(totalCache.bytes)} across {totalCache.packs} race{totalCache.packs === 1 ? '' : 's'}.</>
+        )}
+      </p>
+
+      {/* Download options */}
+      {showOptions && !isDownloading && (
+        <div className="space-y-3 pt-2 border-t border-gray-200 dark:border-gray-700 coloursplash:border-splash-border">
+          <p className="text-xs text-yellow-700 dark:text-yellow-400">
+            The public servers behind the map layers don't allow bulk downloads (OpenStreetMap's tile usage
+            policy forbids them). Set a tile server whose terms allow offline use, such as a provider plan or
+            your own server, for each layer you want offline.
+          </p>
+          <div className="space-y-2">
+            {(Object.keys(MAP_TILE_SOURCES) as MapTileSourceId[]).map(source => (
+              <label key={source} className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-primary">
+                <span className="w-16 shrink-0">{MAP_TILE_SOURCES[source].label}</span>
+                <input
+                  type="url"
+                  value={downloadUrls[source] ?? ''}
+                  onChange={(e) => updateDownloadUrl(source, e.target.value)}
+                  placeholder="https://tiles.example.com/{z}/{x}/{y}.png"
+                  className="flex-1 min-w-0 px-2 py-1 bg-white dark:bg-[#2d3548] coloursplash:bg-white border border-gray-300 dark:border-gray-600 coloursplash:border-splash-border rounded"
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-4">
+            {(Object.keys(MAP_TILE_SOURCES) as MapTileSourceId[]).map(source => (
+              <label key={source} className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-primary">
+                <input
+                  type="checkbox"
+                  checked={packOptions.sources.includes(source)}
+                  disabled={!isTileUrlTemplate(downloadUrls[source])}
+                  onChange={() => toggleSource(source)}
+                  className="rounded"
+                />
+                {MAP_TILE_SOURCES[source].label}
+                {source === 'labels' && ' (hybrid view)'}
+              </label>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-xs text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-primary">
+            <label className="flex items-center gap-2">
+              Zoom
+              <select
+                value={options.minZoom}
+                onChange={(e) => {
+                  const minZoom = parseInt(e.target.value);
+                  setOptions({ ...options, minZoom, maxZoom: Math.max(minZoom, options.maxZoom) });
+                }}
+                className="px-2 py-1 bg-white dark:bg-[#2d3548] coloursplash:bg-white border border-gray-300 dark:border-gray-600 coloursplash:border-splash-border rounded"
+              >
+                {ZOOM_OPTIONS.map(zoom => <option key={zoom} value={zoom}>{zoom}</option>)}
+              </select>
+              to
+              <select
+                value={options.maxZoom}
+                onChange={(e) => {
+                  const maxZoom = parseInt(e.target.value);
+                  setOptions({ ...options, maxZoom, minZoom: Math.min(maxZoom, options.minZoom) });
+                }}
+                className="px-2 py-1 bg-white dark:bg-[#2d3548] coloursplash:bg-white border border-gray-300 dark:border-gray-600 coloursplash:border-splash-border rounded"
+              >
+                {ZOOM_OPTIONS.map(zoom => <option key={zoom} value={zoom}>{zoom}</option>)}
+              </select>
+            </label>
+
+            <label className="flex items-center gap-2">
+              Corridor
+              <select
+                value={options.bufferKm}
+                onChange={(e) => setOptions({ ...options, bufferKm: parseFloat(e.target.value) })}
+                className="px-2 py-1 bg-white dark:bg-[#2d3548] coloursplash:bg-white border border-gray-300 dark:border-gray-600 coloursplash:border-splash-border rounded"
+              >
+                {BUFFER_OPTIONS_KM.map(km => <option key={km} value={km}>{km} km each side</option>)}
+              </select>
+            </label>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <span className={`text-xs ${tooManyTiles ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400 coloursplash:text-splash-text-muted'}`}>
+              {estimatedTiles.toLocaleString()} tiles
+              {tooManyTiles && ` - over the ${MAX_PACK_TILES.toLocaleString()} tile limit, lower the maximum zoom or narrow the corridor`}
+            </span>
+            <button
+              onClick={handleDownload}
+              disabled={packOptions.sources.length === 0 || estimatedTiles === 0 || tooManyTiles}
+              className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download className="w-3.5 h-3.5" />
+              Download
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Progress */}
+      {isDownloading && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary">
+            <span>
+              Downloading {progress.done.toLocaleString()} / {progress.total.toLocaleString()} tiles
+              {progress.failed > 0 && ` (${progress.failed} failed)`}
+            </span>
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="inline-flex items-center gap-1 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+            >
+              <X className="w-3.5 h-3.5" />
+              Cancel
+            </button>
+          </div>
+          <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-emerald-500 transition-all"
+              style={{ width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
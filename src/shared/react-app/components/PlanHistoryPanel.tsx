@@ -0,0 +1,278 @@
+/**
+ * Plan History Panel Component
+ * Lists automatic and named snapshots of the race plan, compares one with the
+ * current plan checkpoint by checkpoint, and restores it whole or in part
+ */
+
+import { useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp, GitCompare, History, Pin, RotateCcw, Save, Trash2 } from 'lucide-react';
+import type { ElevationLabel, Race, Segment } from '@/shared/types';
+import { localStorageService } from '@/react-app/services/localStorage';
+import { diffPlans, PLAN_CHANGE_LABELS, type CheckpointDiff } from '@/react-app/utils/planHistory';
+
+interface PlanHistoryPanelProps {
+  race: Race;
+  segments: Segment[];
+  elevationLabels: ElevationLabel[];
+  onRestore: (snapshotId: string, segmentIds?: number[]) => Promise<void>;
+}
+
+const STATUS_CLASSES: Record<CheckpointDiff['status'], string> = {
+  added: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  removed: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300',
+  changed: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300',
+  unchanged: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300',
+};
+
+const formatSnapshotTime = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+export default function PlanHistoryPanel({ race, segments, elevationLabels, onRestore }: PlanHistoryPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [snapshotName, setSnapshotName] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  // Edits take auto snapshots, so re-read whenever the plan changes
+  const snapshots = useMemo(
+    () => (race.id ? localStorageService.getPlanSnapshots(race.id) : []),
+    [race, segments, elevationLabels, historyVersion]
+  );
+  const selected = snapshots.find(s => s.id === selectedId) ?? null;
+
+  const diff = useMemo(() => {
+    if (!selected || !race.id) return null;
+    return diffPlans(selected, {
+      race,
+      segments,
+      elevationLabels,
+      autoPaceSettings: localStorageService.getAutoPaceSettings(race.id),
+    });
+  }, [selected, race, segments, elevationLabels]);
+
+  const handleSave = () => {
+    if (!race.id) return;
+    const name = snapshotName.trim() || `Snapshot ${formatSnapshotTime(new Date().toISOString())}`;
+    localStorageService.createPlanSnapshot(race.id, name, 'named');
+    setSnapshotName('');
+    setHistoryVersion(v => v + 1);
+  };
+
+  const handleKeep = (snapshotId: string, name: string) => {
+    if (!race.id) return;
+    localStorageService.renamePlanSnapshot(race.id, snapshotId, name);
+    setHistoryVersion(v => v + 1);
+  };
+
+  const handleDelete = (snapshotId: string, name: string) => {
+    if (!race.id || !window.confirm(`Delete the snapshot "${name}"?`)) return;
+    localStorageService.deletePlanSnapshot(race.id, snapshotId);
+    if (selectedId === snapshotId) setSelectedId(null);
+    setHistoryVersion(v => v + 1);
+  };
+
+  const handleRestore = async (snapshotId: string, name: string, segmentIds?: number[]) => {
+    const what = segmentIds
+      ? `"${diff?.checkpoints.find(c => c.segmentId === segmentIds[0])?.checkpointName}" from "${name}"`
+      : `the whole plan from "${name}"`;
+    if (!window.confirm(`Restore ${what}? The current plan is saved as a snapshot first.`)) return;
+
+    setIsRestoring(true);
+    try {
+      await onRestore(snapshotId, segmentIds);
+      setHistoryVersion(v => v + 1);
+    } catch (error) {
+      console.error('Failed to restore snapshot:', error);
+      alert('Failed to restore the snapshot. Please try again.');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const changedCheckpoints = diff?.checkpoints.filter(c => c.status !== 'unchanged') ?? [];
+
+  return (
+    <div className="mb-8 bg-white dark:bg-[#2d3548] coloursplash:bg-white rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 coloursplash:border-splash-border p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white coloursplash:text-splash-text-primary flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Plan History
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary">
+            {snapshots.length > 0
+              ? `${snapshots.length} ${snapshots.length === 1 ? 'snapshot' : 'snapshots'}, latest ${formatSnapshotTime(snapshots[0].createdAt)}`
+              : 'Snapshots are saved automatically before edits and bulk changes.'}
+          </p>
+        </div>
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium bg-blue-500 hover:bg-blue-600 coloursplash:bg-splash-azure text-white rounded-lg transition-all"
+        >
+          {isExpanded ? 'Hide history' : 'History'}
+          {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="mt-4 space-y-4">
+          {/* Save a named snapshot */}
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={snapshotName}
+              onChange={(e) => setSnapshotName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              placeholder="e.g. Hand-tuned paces"
+              className="flex-1 min-w-[12rem] px-3 py-1.5 text-sm bg-white dark:bg-[#1e2639] coloursplash:bg-white border border-gray-300 dark:border-gray-600 coloursplash:border-splash-border rounded text-gray-900 dark:text-white coloursplash:text-splash-text-primary"
+            />
+            <button
+              onClick={handleSave}
+              className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-all"
+            >
+              <Save className="w-4 h-4" />
+              Save snapshot
+            </button>
+          </div>
+
+          {/* Snapshot list */}
+          {snapshots.length > 0 && (
+            <ul className="divide-y divide-gray-100 dark:divide-gray-700/50 text-sm">
+              {snapshots.map(snapshot => (
+                <li
+                  key={snapshot.id}
+                  className={`flex flex-wrap items-center justify-between gap-2 py-2 ${snapshot.id === selectedId ? 'bg-blue-50/60 dark:bg-blue-900/20' : ''}`}
+                >
+                  <span className="text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-secondary">
+                    <span className="font-medium text-gray-900 dark:text-white coloursplash:text-splash-text-primary">{snapshot.name}</span>
+                    {' • '}{formatSnapshotTime(snapshot.createdAt)}
+                    {snapshot.kind === 'auto' && (
+                      <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400">Auto</span>
+                    )}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <button
+                      onClick={() => setSelectedId(snapshot.id === selectedId ? null : snapshot.id)}
+                      className="inline-flex items-center gap-1 px-2 py-1 text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-primary hover:bg-gray-100 dark:hover:bg-[#333c52] rounded transition-all"
+                      aria-pressed={snapshot.id === selectedId}
+                    >
+                      <GitCompare className="w-4 h-4" />
+                      Compare
+                    </button>
+                    <button
+                      onClick={() => handleRestore(snapshot.id, snapshot.name)}
+                      disabled={isRestoring}
+                      className="inline-flex items-center gap-1 px-2 py-1 text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-primary hover:bg-gray-100 dark:hover:bg-[#333c52] rounded transition-all disabled:opacity-50"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      Restore
+                    </button>
+                    {snapshot.kind === 'auto' && (
+                      <button
+                        onClick={() => handleKeep(snapshot.id, snapshot.name)}
+                        className="p-1 text-gray-400 hover:text-blue-500 rounded transition-all"
+                        aria-label={`Keep ${snapshot.name}`}
+                        title="Keep this snapshot (auto snapshots are pruned)"
+                      >
+                        <Pin className="w-4 h-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleDelete(snapshot.id, snapshot.name)}
+                      className="p-1 text-gray-400 hover:text-red-500 rounded transition-all"
+                      aria-label={`Delete ${snapshot.name}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {/* Comparison with the current plan */}
+          {selected && diff && (
+            <div className="p-4 bg-gray-50 dark:bg-[#1e2639] coloursplash:bg-splash-bg-subtle rounded-lg border border-gray-200 dark:border-gray-700 coloursplash:border-splash-border space-y-3">
+              <h4 className="text-sm font-semibold text-gray-800 dark:text-gray-200 coloursplash:text-splash-text-primary">
+                "{selected.name}" → current plan
+              </h4>
+
+              {diff.changedCount === 0 && diff.raceChanges.length === 0 && (
+                <p className="text-sm text-gray-600 dark:text-gray-400">No differences.</p>
+              )}
+
+              {diff.raceChanges.length > 0 && (
+                <p className="text-sm text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-secondary">
+                  <span className="font-medium">Race settings changed:</span> {diff.raceChanges.join(', ')}
+                </p>
+              )}
+
+              {changedCheckpoints.length > 0 && (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500 dark:text-gray-400 coloursplash:text-splash-text-muted border-b border-gray-200 dark:border-gray-700 coloursplash:border-splash-border">
+                        <th className="py-2 pr-3 font-medium">Checkpoint</th>
+                        <th className="py-2 pr-3 font-medium">Changes (snapshot → now)</th>
+                        <th className="py-2 font-medium" />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {changedCheckpoints.map(checkpoint => (
+                        <tr key={checkpoint.segmentId} className="border-b border-gray-100 dark:border-gray-700/50 coloursplash:border-splash-border align-top">
+                          <td className="py-2 pr-3 text-gray-900 dark:text-white coloursplash:text-splash-text-primary whitespace-nowrap">
+                            {checkpoint.checkpointName}
+                            <span className={`ml-2 px-1.5 py-0.5 text-xs rounded ${STATUS_CLASSES[checkpoint.status]}`}>
+                              {checkpoint.status}
+                            </span>
+                          </td>
+                          <td className="py-2 pr-3 text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-secondary">
+                            {checkpoint.status === 'added' && 'Added since the snapshot'}
+                            {checkpoint.status === 'removed' && 'Deleted since the snapshot'}
+                            {checkpoint.changes.map(change => (
+                              <div key={change.field}>
+                                <span className="font-medium">{PLAN_CHANGE_LABELS[change.field]}:</span>{' '}
+                                <span className="text-gray-500 dark:text-gray-400 line-through">{change.before}</span>
+                                {' → '}
+                                {change.after}
+                              </div>
+                            ))}
+                          </td>
+                          <td className="py-2 text-right">
+                            {checkpoint.status !== 'added' && (
+                              <button
+                                onClick={() => handleRestore(selected.id, selected.name, [checkpoint.segmentId])}
+                                disabled={isRestoring}
+                                className="inline-flex items-center gap-1 px-2 py-1 text-xs text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-primary hover:bg-gray-100 dark:hover:bg-[#333c52] rounded transition-all disabled:opacity-50 whitespace-nowrap"
+                              >
+                                <RotateCcw className="w-3.5 h-3.5" />
+                                Restore
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {diff.checkpoints.length > changedCheckpoints.length && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 coloursplash:text-splash-text-muted">
+                  {diff.checkpoints.length - changedCheckpoints.length} checkpoints unchanged.
+                </p>
+              )}
+            </div>
+          )}
+
+          <p className="text-xs text-gray-500 dark:text-gray-400 coloursplash:text-splash-text-muted">
+            A snapshot is taken before the first edit after 10 minutes without one, and before auto-pace
+            recalculation, race nutrition plans, hydration goals and restores. The latest 20 auto snapshots are kept; named
+            and pinned ones stay until deleted. Restoring keeps the current GPX and FIT files.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,8 @@ import { Trash2, ChevronRight, Calendar, Clock } from 'lucide-react';
 import type { Race } from '@/shared/types';
 import { useUnit } from '../contexts/UnitContext';
 import { formatDistance } from '../utils/unitConversions';
+import { getUserTimezone } from '../utils/etaCalculations';
+import { getZonedDayKey, resolveTimeZone } from '../utils/timezone';
 
 interface RaceCardProps {
   race: Race;
@@ -15,26 +17,12 @@ export default function RaceCard({ race, onDelete, onClick }: RaceCardProps) {
     if (!race.start_date_time) return null;
 
     try {
-      // Get current date in browser's local timezone at midnight
-      const now = new Date();
-      const todayMidnight = new Date(
-        now.getFullYear(),
-        now.getMonth(),
-        now.getDate(),
-        0, 0, 0, 0
-      );
-
-      // Parse event date and set to midnight local time
-      const eventDate = new Date(race.start_date_time);
-      const eventMidnight = new Date(
-        eventDate.getFullYear(),
-        eventDate.getMonth(),
-        eventDate.getDate(),
-        0, 0, 0, 0
-      );
+      // Today's date in the browser's timezone, race day in the race's timezone
+      const todayKey = getZonedDayKey(new Date(), getUserTimezone());
+      const eventKey = getZonedDayKey(new Date(race.start_date_time), resolveTimeZone(race.timezone));
 
       // Calculate difference in days
-      const diffMs = eventMidnight.getTime() - todayMidnight.getTime();
+      const diffMs = new Date(`${eventKey}T00:00:00Z`).getTime() - new Date(`${todayKey}T00:00:00Z`).getTime();
       const diffDays = Math.round(diffMs / (1000 * 60 * 60 * 24));
 
       return diffDays;
@@ -47,17 +35,21 @@ export default function RaceCard({ race, onDelete, onClick }: RaceCardProps) {
   const formatEventDateTime = () => {
     if (!race.start_date_time) return null;
     const eventDate = new Date(race.start_date_time);
+    const timeZone = resolveTimeZone(race.timezone);
     return {
       date: eventDate.toLocaleDateString('en-US', {
         weekday: 'short',
         month: 'short',
         day: 'numeric',
         year: 'numeric',
+        timeZone,
       }),
       time: eventDate.toLocaleTimeString('en-US', {
         hour: 'numeric',
         minute: '2-digit',
         hour12: true,
+        timeZone,
+        timeZoneName: timeZone !== getUserTimezone() ? 'short' : undefined,
       }),
     };
   };
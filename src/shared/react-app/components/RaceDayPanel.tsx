@@ -0,0 +1,439 @@
+/**
+ * Race Day Panel Component
+ * Live race-day mode: log actual arrival and departure times and what was
+ * eaten, compare with the plan and re-forecast the remaining ETAs, cut-off
+ * buffers and energy balance. Everything is kept on this device, so it works
+ * without a connection.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp, LogIn, LogOut, MessageSquarePlus, Play, Timer, Trash2, Utensils } from 'lucide-react';
+import type { AthleteMetricsForEnergy, NutritionItem, Race, RaceDayLog, RaceDayLogEntry, Segment } from '@/shared/types';
+import { localStorageService } from '@/react-app/services/localStorage';
+import { useUnit } from '@/react-app/contexts/UnitContext';
+import { formatDistance } from '@/react-app/utils/unitConversions';
+import { formatTime, getDayOfWeek } from '@/react-app/utils/etaCalculations';
+import { formatCutoffBuffer } from '@/react-app/utils/cutoffAnalysis';
+import { getBonkRiskColor, getBonkRiskLabel, getGlycogenColor } from '@/react-app/utils/energyBalance';
+import { resolveTimeZone, toZonedDateTimeInput, zonedDateTimeToUtc } from '@/react-app/utils/timezone';
+import { buildRaceDayForecast, calculateRaceDayEnergy, getEatenItems, type RaceDayCheckpoint } from '@/react-app/utils/raceDay';
+
+interface RaceDayPanelProps {
+  race: Race;
+  segments: Segment[];
+  athleteMetrics: AthleteMetricsForEnergy | null; // Energy balance is only shown with a body weight
+}
+
+const inputClass =
+  'px-2 py-1 text-sm bg-white dark:bg-[#2d3548] coloursplash:bg-white border border-gray-300 dark:border-gray-600 coloursplash:border-splash-border rounded text-gray-900 dark:text-white coloursplash:text-splash-text-primary';
+
+const ENTRY_LABELS: Record<RaceDayLogEntry['type'], string> = {
+  start: 'Start',
+  arrival: 'Arrived',
+  departure: 'Left',
+  nutrition: 'Ate',
+  note: 'Note',
+};
+
+// Minutes against the plan, e.g. "+1h 05m", "-12m", "On plan"
+function formatDelta(minutes: number): string {
+  if (minutes === 0) return 'On plan';
+  const absolute = Math.abs(minutes);
+  const hours = Math.floor(absolute / 60);
+  const duration = hours > 0 ? `${hours}h ${(absolute % 60).toString().padStart(2, '0')}m` : `${absolute}m`;
+  return `${minutes > 0 ? '+' : '-'}${duration}`;
+}
+
+export default function RaceDayPanel({ race, segments, athleteMetrics }: RaceDayPanelProps) {
+  const { useMiles } = useUnit();
+  const [isExpanded, setIsExpanded] = useState(true);
+  const [log, setLog] = useState<RaceDayLog>(() => localStorageService.getRaceDayLog(race.id!));
+  const [now, setNow] = useState(() => new Date());
+  const [editingNutrition, setEditingNutrition] = useState<number | null>(null);
+  const [eatenDraft, setEatenDraft] = useState<NutritionItem[]>([]);
+  const [note, setNote] = useState('');
+
+  const timezone = race.timezone ?? undefined;
+  const timeZone = resolveTimeZone(race.timezone);
+
+  // Keep the forecast moving while the panel is open
+  useEffect(() => {
+    if (!isExpanded) return;
+    const interval = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(interval);
+  }, [isExpanded]);
+
+  useEffect(() => {
+    setLog(localStorageService.getRaceDayLog(race.id!));
+  }, [race.id]);
+
+  const forecast = useMemo(() => buildRaceDayForecast(race, segments, log, now), [race, segments, log, now]);
+  const energy = useMemo(
+    () => (athleteMetrics?.bodyWeightKg ? calculateRaceDayEnergy(segments, log, forecast, athleteMetrics) : []),
+    [segments, log, forecast, athleteMetrics]
+  );
+
+  const current = forecast.checkpoints.find(checkpoint => checkpoint.status === 'here')
+    ?? forecast.checkpoints.find(checkpoint => checkpoint.status === 'next')
+    ?? null;
+  const lastPassedIndex = forecast.checkpoints.reduce(
+    (last, checkpoint, index) => (checkpoint.status === 'passed' || checkpoint.status === 'here' ? index : last),
+    -1
+  );
+  const energyNow = lastPassedIndex >= 0 ? energy[lastPassedIndex] : null;
+  const energyFinish = energy.length > 0 ? energy[energy.length - 1] : null;
+  const segmentNames = new Map(segments.map(segment => [segment.id, segment.checkpoint_name]));
+
+  const formatWhen = (date: Date | null) =>
+    date ? `${getDayOfWeek(date, timezone).slice(0, 3)} ${formatTime(date, timezone)}` : '-';
+  const toInput = (date: Date | null) => (date ? toZonedDateTimeInput(date, timeZone) : '');
+  const fromInput = (value: string) => (value ? zonedDateTimeToUtc(value, timeZone).toISOString() : null);
+
+  const runAction = (action: () => RaceDayLog) => {
+    try {
+      setLog({ ...action() });
+      setNow(new Date());
+    } catch (error) {
+      console.error('Failed to update race-day log:', error);
+      alert('Failed to update the race-day log. Please try again.');
+    }
+  };
+
+  const handleSplit = (checkpoint: RaceDayCheckpoint, type: 'arrival' | 'departure', time: string | null) => {
+    if (checkpoint.segmentId == null) return;
+    runAction(() => localStorageService.recordRaceDaySplit(race.id!, checkpoint.segmentId!, type, time));
+  };
+
+  const handleEditNutrition = (segment: Segment) => {
+    setEditingNutrition(segment.id!);
+    setEatenDraft(getEatenItems(segment, log).map(item => ({ ...item })));
+  };
+
+  const handleSaveNutrition = (segmentId: number, eaten: NutritionItem[] | null) => {
+    runAction(() => localStorageService.recordRaceDayNutrition(race.id!, segmentId, eaten));
+    setEditingNutrition(null);
+  };
+
+  const handleAddNote = () => {
+    if (!note.trim()) return;
+    runAction(() => localStorageService.addRaceDayNote(race.id!, current?.segmentId ?? null, note.trim()));
+    setNote('');
+  };
+
+  const handleClear = () => {
+    if (!confirm('Clear every time, nutrition entry and note logged for this race?')) return;
+    localStorageService.clearRaceDayLog(race.id!);
+    setLog(localStorageService.getRaceDayLog(race.id!));
+  };
+
+  const describeEntry = (entry: RaceDayLogEntry): string => {
+    const where = entry.segmentId != null ? segmentNames.get(entry.segmentId) ?? 'Removed checkpoint' : null;
+    const time = entry.time ? formatWhen(new Date(entry.time)) : null;
+    switch (entry.type) {
+      case 'start':
+        return time ? `Started ${time}` : 'Start reset to plan';
+      case 'arrival':
+      case 'departure':
+        return `${ENTRY_LABELS[entry.type]} ${where}${time ? ` ${time}` : ' (cleared)'}`;
+      case 'nutrition':
+        return `${ENTRY_LABELS.nutrition} on the leg to ${where}: ${entry.note}`;
+      default:
+        return where ? `${where}: ${entry.note}` : entry.note ?? '';
+    }
+  };
+
+  const slowdownPercent = Math.round((forecast.slowdownFactor - 1) * 100);
+
+  return (
+    <div className="mb-8 bg-white dark:bg-[#2d3548] coloursplash:bg-white rounded-lg shadow-sm border-2 border-emerald-500 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white coloursplash:text-splash-text-primary flex items-center gap-2">
+            <Timer className="w-5 h-5" />
+            Race Day
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary">
+            {forecast.legsMeasured > 0
+              ? `${slowdownPercent === 0 ? 'On plan pace' : `${Math.abs(slowdownPercent)}% ${slowdownPercent > 0 ? 'slower' : 'faster'} than plan`} over ${forecast.legsMeasured} ${forecast.legsMeasured === 1 ? 'leg' : 'legs'}`
+              : 'Log arrival and departure times to re-forecast the rest of the race.'}
+            {forecast.finish && ` • Finish ${formatWhen(forecast.finish)}`}
+            {forecast.finishDeltaMinutes !== null && forecast.legsMeasured > 0 && ` (${formatDelta(forecast.finishDeltaMinutes)})`}
+          </p>
+        </div>
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium bg-blue-500 hover:bg-blue-600 coloursplash:bg-splash-azure text-white rounded-lg transition-all"
+        >
+          {isExpanded ? 'Hide' : 'Show'}
+          {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="mt-4 space-y-4">
+          {/* Start and quick taps for the current checkpoint */}
+          <div className="flex flex-wrap items-center gap-3 p-4 bg-gray-50 dark:bg-[#1e2639] coloursplash:bg-splash-bg-subtle rounded-lg border border-gray-200 dark:border-gray-700 coloursplash:border-splash-border">
+            <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-primary">
+              <label htmlFor="race-day-start">Started</label>
+              <input
+                id="race-day-start"
+                type="datetime-local"
+                value={toInput(log.startedAt ? new Date(log.startedAt) : null)}
+                onChange={(e) => runAction(() => localStorageService.setRaceDayStart(race.id!, fromInput(e.target.value)))}
+                className={inputClass}
+              />
+              {!log.startedAt && (
+                <button
+                  onClick={() => runAction(() => localStorageService.setRaceDayStart(race.id!, new Date().toISOString()))}
+                  className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium bg-emerald-500 hover:bg-emerald-600 text-white rounded-lg transition-all"
+                >
+                  <Play className="w-4 h-4" />
+                  Start now
+                </button>
+              )}
+            </div>
+
+            {current && (
+              <div className="flex flex-wrap items-center gap-2 ml-auto">
+                <span className="text-sm font-medium text-gray-900 dark:text-white coloursplash:text-splash-text-primary">
+                  {current.checkpointName}
+                  <span className="ml-1 font-normal text-gray-500 dark:text-gray-400">
+                    {current.status === 'here' ? '(at checkpoint)' : `(due ${formatWhen(current.arrival)})`}
+                  </span>
+                </span>
+                {current.status === 'next' && (
+                  <button
+                    onClick={() => handleSplit(current, 'arrival', new Date().toISOString())}
+                    className="inline-flex items-center gap-1 px-4 py-2 text-sm font-semibold bg-emerald-500 hover:bg-emerald-600 text-white rounded-lg transition-all min-h-[44px]"
+                  >
+                    <LogIn className="w-4 h-4" />
+                    Arrived now
+                  </button>
+                )}
+                {current.status === 'here' && (
+                  <button
+                    onClick={() => handleSplit(current, 'departure', new Date().toISOString())}
+                    className="inline-flex items-center gap-1 px-4 py-2 text-sm font-semibold bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-all min-h-[44px]"
+                  >
+                    <LogOut className="w-4 h-4" />
+                    Left now
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+            <div className="p-3 rounded-lg bg-gray-50 dark:bg-[#1e2639] coloursplash:bg-splash-bg-subtle">
+              <div className="text-xs text-gray-500 dark:text-gray-400">Forecast finish</div>
+              <div className="font-semibold text-gray-900 dark:text-white coloursplash:text-splash-text-primary">{formatWhen(forecast.finish)}</div>
+            </div>
+            <div className="p-3 rounded-lg bg-gray-50 dark:bg-[#1e2639] coloursplash:bg-splash-bg-subtle">
+              <div className="text-xs text-gray-500 dark:text-gray-400">Tightest cut-off ahead</div>
+              <div className={`font-semibold ${
+                forecast.tightestCutoff?.cutoffRisk === 'missed' ? 'text-red-600 dark:text-red-400'
+                  : forecast.tightestCutoff?.cutoffRisk === 'warning' ? 'text-amber-600 dark:text-amber-400'
+                    : 'text-gray-900 dark:text-white coloursplash:text-splash-text-primary'
+              }`}>
+                {forecast.tightestCutoff
+                  ? `${forecast.tightestCutoff.checkpointName}: ${formatCutoffBuffer(forecast.tightestCutoff.cutoffBufferMinutes!)}`
+                  : 'None'}
+              </div>
+            </div>
+            {energyNow && (
+              <div className="p-3 rounded-lg bg-gray-50 dark:bg-[#1e2639] coloursplash:bg-splash-bg-subtle">
+                <div className="text-xs text-gray-500 dark:text-gray-400">Glycogen now</div>
+                <div className={`font-semibold ${getGlycogenColor(energyNow.balance.estimatedGlycogenPercent)}`}>
+                  {energyNow.balance.estimatedGlycogenPercent}%
+                  <span className={`ml-1 text-xs font-normal ${getBonkRiskColor(energyNow.balance.bonkRisk)}`}>
+                    {getBonkRiskLabel(energyNow.balance.bonkRisk)}
+                  </span>
+                </div>
+              </div>
+            )}
+            {energyFinish && (
+              <div className="p-3 rounded-lg bg-gray-50 dark:bg-[#1e2639] coloursplash:bg-splash-bg-subtle">
+                <div className="text-xs text-gray-500 dark:text-gray-400">Glycogen at finish</div>
+                <div className={`font-semibold ${getGlycogenColor(energyFinish.balance.estimatedGlycogenPercent)}`}>
+                  {energyFinish.balance.estimatedGlycogenPercent}%
+                  <span className={`ml-1 text-xs font-normal ${getBonkRiskColor(energyFinish.balance.bonkRisk)}`}>
+                    {getBonkRiskLabel(energyFinish.balance.bonkRisk)}
+                  </span>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Splits against the plan */}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 dark:text-gray-400 coloursplash:text-splash-text-muted border-b border-gray-200 dark:border-gray-700 coloursplash:border-splash-border">
+                  <th className="py-2 pr-3 font-medium">Checkpoint</th>
+                  <th className="py-2 pr-3 font-medium">Plan</th>
+                  <th className="py-2 pr-3 font-medium">Arrived</th>
+                  <th className="py-2 pr-3 font-medium">Left</th>
+                  <th className="py-2 pr-3 font-medium">vs plan</th>
+                  <th className="py-2 pr-3 font-medium">Cut-off</th>
+                  <th className="py-2 font-medium">Eaten</th>
+                </tr>
+              </thead>
+              <tbody>
+                {forecast.checkpoints.map(checkpoint => {
+                  const segment = segments[checkpoint.segmentIndex];
+                  const split = log.splits.find(s => s.segmentId === checkpoint.segmentId);
+
+                  return (
+                    <tr
+                      key={checkpoint.segmentId ?? checkpoint.segmentIndex}
+                      className={`border-b border-gray-100 dark:border-gray-700/50 align-top ${
+                        checkpoint.status === 'here' || checkpoint.status === 'next' ? 'bg-emerald-50 dark:bg-emerald-900/20' : ''
+                      }`}
+                    >
+                      <td className="py-2 pr-3 text-gray-900 dark:text-white coloursplash:text-splash-text-primary">
+                        <div className="font-medium">{checkpoint.checkpointName}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">{formatDistance(checkpoint.distanceMiles, useMiles)}</div>
+                      </td>
+                      <td className="py-2 pr-3 text-gray-600 dark:text-gray-400 whitespace-nowrap">{formatWhen(checkpoint.plannedArrival)}</td>
+                      <td className="py-2 pr-3">
+                        <input
+                          type="datetime-local"
+                          value={toInput(checkpoint.actualArrival)}
+                          onChange={(e) => handleSplit(checkpoint, 'arrival', fromInput(e.target.value))}
+                          className={`${inputClass} w-44`}
+                          aria-label={`Arrival at ${checkpoint.checkpointName}`}
+                        />
+                        {!checkpoint.actualArrival && checkpoint.arrival && (
+                          <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">Forecast {formatWhen(checkpoint.arrival)}</div>
+                        )}
+                      </td>
+                      <td className="py-2 pr-3">
+                        <input
+                          type="datetime-local"
+                          value={toInput(checkpoint.actualDeparture)}
+                          onChange={(e) => handleSplit(checkpoint, 'departure', fromInput(e.target.value))}
+                          className={`${inputClass} w-44`}
+                          aria-label={`Departure from ${checkpoint.checkpointName}`}
+                        />
+                      </td>
+                      <td className={`py-2 pr-3 whitespace-nowrap ${
+                        (checkpoint.arrivalDeltaMinutes ?? 0) > 0 ? 'text-amber-600 dark:text-amber-400' : 'text-emerald-600 dark:text-emerald-400'
+                      }`}>
+                        {checkpoint.arrivalDeltaMinutes !== null ? formatDelta(checkpoint.arrivalDeltaMinutes) : '-'}
+                      </td>
+                      <td className={`py-2 pr-3 whitespace-nowrap ${
+                        checkpoint.cutoffRisk === 'missed' ? 'text-red-600 dark:text-red-400'
+                          : checkpoint.cutoffRisk === 'warning' ? 'text-amber-600 dark:text-amber-400'
+                            : 'text-gray-600 dark:text-gray-400'
+                      }`}>
+                        {checkpoint.cutoffBufferMinutes !== null ? formatCutoffBuffer(checkpoint.cutoffBufferMinutes) : '-'}
+                      </td>
+                      <td className="py-2 text-gray-600 dark:text-gray-400">
+                        {editingNutrition === checkpoint.segmentId ? (
+                          <div className="space-y-1 min-w-[12rem]">
+                            {eatenDraft.length === 0 && <p className="text-xs">No nutrition planned for this leg.</p>}
+                            {eatenDraft.map((item, itemIndex) => (
+                              <div key={item.id} className="flex items-center gap-2">
+                                <input
+                                  type="number"
+                                  min={0}
+                                  value={item.quantity}
+                                  onChange={(e) => setEatenDraft(eatenDraft.map((draft, i) =>
+                                    i === itemIndex ? { ...draft, quantity: Math.max(0, parseFloat(e.target.value) || 0) } : draft
+                                  ))}
+                                  className={`${inputClass} w-16`}
+                                  aria-label={`${item.productName} eaten`}
+                                />
+                                <span className="text-xs">{item.productName}</span>
+                              </div>
+                            ))}
+                            <div className="flex gap-2 pt-1">
+                              <button
+                                onClick={() => handleSaveNutrition(checkpoint.segmentId!, eatenDraft)}
+                                className="px-2 py-1 text-xs font-medium bg-blue-500 hover:bg-blue-600 text-white rounded transition-all"
+                              >
+                                Save
+                              </button>
+                              <button
+                                onClick={() => handleSaveNutrition(checkpoint.segmentId!, null)}
+                                className="px-2 py-1 text-xs text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-[#333c52] rounded transition-all"
+                              >
+                                As planned
+                              </button>
+                              <button
+                                onClick={() => setEditingNutrition(null)}
+                                className="px-2 py-1 text-xs text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-[#333c52] rounded transition-all"
+                              >
+                                Cancel
+                              </button>
+                            </div>
+                          </div>
+                        ) : (
+                          <button
+                            onClick={() => handleEditNutrition(segment)}
+                            disabled={checkpoint.segmentId == null}
+                            className="inline-flex items-center gap-1 text-xs hover:text-gray-900 dark:hover:text-white transition-all"
+                          >
+                            <Utensils className="w-3.5 h-3.5" />
+                            {split?.eaten ? 'Logged' : 'As planned'}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Timestamped log */}
+          <div>
+            <div className="flex items-center gap-2 mb-2">
+              <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddNote()}
+                placeholder="Add a note, e.g. Blister on left heel, changed socks"
+                className={`${inputClass} flex-1 min-w-0`}
+              />
+              <button
+                onClick={handleAddNote}
+                disabled={!note.trim()}
+                className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-primary hover:bg-gray-100 dark:hover:bg-[#333c52] rounded-lg transition-all disabled:opacity-50"
+              >
+                <MessageSquarePlus className="w-4 h-4" />
+                Add
+              </button>
+            </div>
+            {log.entries.length > 0 ? (
+              <ul className="max-h-60 overflow-y-auto space-y-1 text-sm">
+                {[...log.entries].reverse().map(entry => (
+                  <li key={entry.id} className="flex gap-3 text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-secondary">
+                    <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap pt-0.5">{formatWhen(new Date(entry.loggedAt))}</span>
+                    <span>{describeEntry(entry)}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Nothing logged yet.</p>
+            )}
+            <div className="flex items-center justify-between mt-3 text-xs text-gray-500 dark:text-gray-400">
+              <span>Saved on this device, so the log keeps working without signal.</span>
+              {log.entries.length > 0 && (
+                <button
+                  onClick={handleClear}
+                  className="inline-flex items-center gap-1 text-red-600 dark:text-red-400 hover:underline"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                  Clear log
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+/**
+ * Race Nutrition Optimizer Panel Component
+ * Plans nutrition for every leg at once, with variety, palate fatigue, drop bag
+ * and caffeine limits, and applies the plan to all checkpoints
+ */
+
+import { useMemo, useState } from 'react';
+import { AlertTriangle, Backpack, ChevronDown, ChevronUp, Sparkles } from 'lucide-react';
+import type { Race, Segment } from '@/shared/types';
+import {
+  DEFAULT_RACE_NUTRITION_OPTIONS,
+  getSmartFillProducts,
+  optimizeRaceNutrition,
+  raceNutritionPlanToItems,
+  type RaceNutritionOptions,
+} from '@/react-app/utils/raceNutritionOptimizer';
+
+interface RaceNutritionOptimizerPanelProps {
+  race: Race;
+  segments: Segment[];
+  bodyWeightKg: number; // 0 when unknown
+  onApply: (itemsBySegmentId: Map<number, string>) => Promise<void>;
+  onDropBagChange: (segmentId: number, dropBag: boolean) => Promise<void>;
+}
+
+const inputClass =
+  'w-20 px-2 py-1 text-sm bg-white dark:bg-[#2d3548] coloursplash:bg-white border border-gray-300 dark:border-gray-600 coloursplash:border-splash-border rounded text-gray-900 dark:text-white coloursplash:text-splash-text-primary';
+
+const coverageClass = (percent: number) =>
+  percent < 80
+    ? 'text-red-600 dark:text-red-400'
+    : percent < 90 || percent > 120
+      ? 'text-yellow-700 dark:text-yellow-400'
+      : 'text-green-700 dark:text-green-400';
+
+export default function RaceNutritionOptimizerPanel({
+  race,
+  segments,
+  bodyWeightKg,
+  onApply,
+  onDropBagChange,
+}: RaceNutritionOptimizerPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [maxProductsPerLeg, setMaxProductsPerLeg] = useState(DEFAULT_RACE_NUTRITION_OPTIONS.maxProductsPerLeg);
+  const [maxServingsPerProduct, setMaxServingsPerProduct] = useState(DEFAULT_RACE_NUTRITION_OPTIONS.maxServingsPerProduct);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const plan = useMemo(() => {
+    if (!isExpanded) return null;
+    const options: RaceNutritionOptions = { maxProductsPerLeg, maxServingsPerProduct, bodyWeightKg };
+    return optimizeRaceNutrition(race, segments, getSmartFillProducts(), options);
+  }, [isExpanded, race, segments, maxProductsPerLeg, maxServingsPerProduct, bodyWeightKg]);
+
+  const plannedCheckpoints = segments.filter(segment => segment.segment_nutrition_items).length;
+
+  const handleApply = async () => {
+    if (!plan) return;
+    if (plannedCheckpoints > 0 && !confirm(`Replace the nutrition on ${plannedCheckpoints} checkpoints with this plan?`)) {
+      return;
+    }
+
+    setIsApplying(true);
+    try {
+      const items = new Map<number, string>();
+      raceNutritionPlanToItems(plan).forEach((legItems, segmentId) => items.set(segmentId, JSON.stringify(legItems)));
+      await onApply(items);
+    } catch (error) {
+      console.error('Failed to apply nutrition plan:', error);
+      alert('Failed to apply nutrition plan. Please try again.');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleDropBagChange = async (segmentId: number, dropBag: boolean) => {
+    try {
+      await onDropBagChange(segmentId, dropBag);
+    } catch (error) {
+      console.error('Failed to update drop bag:', error);
+    }
+  };
+
+  return (
+    <div className="mb-8 bg-white dark:bg-[#2d3548] coloursplash:bg-white rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 coloursplash:border-splash-border p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white coloursplash:text-splash-text-primary flex items-center gap-2">
+            <Sparkles className="w-5 h-5" />
+            Race Nutrition Plan
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary">
+            Plan every leg at once, with variety across the race and a caffeine cap.
+          </p>
+        </div>
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium bg-blue-500 hover:bg-blue-600 coloursplash:bg-splash-azure text-white rounded-lg transition-all"
+        >
+          {isExpanded ? 'Hide plan' : 'Optimize race'}
+          {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </button>
+      </div>
+
+      {isExpanded && plan && (
+        <div className="mt-4 space-y-4">
+          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-primary">
+            <label className="flex items-center gap-2">
+              Products per leg
+              <input
+                type="number"
+                min={1}
+                max={8}
+                value={maxProductsPerLeg}
+                onChange={(e) => setMaxProductsPerLeg(Math.max(1, parseInt(e.target.value) || 1))}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              Max servings of one product per race
+              <input
+                type="number"
+                min={1}
+                value={maxServingsPerProduct}
+                onChange={(e) => setMaxServingsPerProduct(Math.max(1, parseInt(e.target.value) || 1))}
+                className={inputClass}
+              />
+            </label>
+            <span className={plan.totalCaffeineMg > 0 ? 'text-gray-700 dark:text-gray-300' : 'text-gray-500 dark:text-gray-400'}>
+              Caffeine {Math.round(plan.totalCaffeineMg)} / {Math.round(plan.caffeineCapMg)} mg
+              {!bodyWeightKg && ' (set body weight in Auto-Pace for a personal cap)'}
+            </span>
+          </div>
+
+          {plan.warnings.map(warning => (
+            <div key={warning} className="flex items-start gap-2 text-sm text-yellow-700 dark:text-yellow-400">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              {warning}
+            </div>
+          ))}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 dark:text-gray-400 coloursplash:text-splash-text-muted border-b border-gray-200 dark:border-gray-700 coloursplash:border-splash-border">
+                  <th className="py-2 pr-3 font-medium">Leg to</th>
+                  <th className="py-2 pr-3 font-medium">Products</th>
+                  <th className="py-2 pr-3 font-medium text-right">Carbs</th>
+                  <th className="py-2 pr-3 font-medium text-right">Sodium</th>
+                  <th className="py-2 pr-3 font-medium text-right">Water</th>
+                  <th className="py-2 font-medium text-center" title="Drop bag waiting at this checkpoint">Drop bag</th>
+                </tr>
+              </thead>
+              <tbody>
+                {plan.legs.map(leg => (
+                  <tr
+                    key={leg.segmentId ?? leg.segmentIndex}
+                    className="border-b border-gray-100 dark:border-gray-700/50 coloursplash:border-splash-border align-top"
+                  >
+                    <td className="py-2 pr-3 text-gray-900 dark:text-white coloursplash:text-splash-text-primary">
+                      {leg.checkpointName}
+                      {leg.restock && leg.segmentIndex > 0 && (
+                        <span className="block text-xs text-gray-500 dark:text-gray-400">Restocked</span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-3 text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-secondary">
+                      {leg.products.length > 0
+                        ? leg.products.map(item => `${item.quantity}× ${item.product.name}`).join(', ')
+                        : <span className="text-gray-400">—</span>}
+                      {leg.totals.caffeine > 0 && (
+                        <span className="block text-xs text-amber-600 dark:text-amber-400">{Math.round(leg.totals.caffeine)}mg caffeine</span>
+                      )}
+                    </td>
+                    <td className={`py-2 pr-3 text-right ${coverageClass(leg.coveragePercent.carbs)}`}>{leg.coveragePercent.carbs}%</td>
+                    <td className={`py-2 pr-3 text-right ${coverageClass(leg.coveragePercent.sodium)}`}>{leg.coveragePercent.sodium}%</td>
+                    <td className={`py-2 pr-3 text-right ${coverageClass(leg.coveragePercent.water)}`}>{leg.coveragePercent.water}%</td>
+                    <td className="py-2 text-center">
+                      {leg.segmentId != null && leg.segmentIndex < segments.length - 1 && (
+                        <input
+                          type="checkbox"
+                          checked={!!segments[leg.segmentIndex].drop_bag}
+                          onChange={(e) => handleDropBagChange(leg.segmentId!, e.target.checked)}
+                          aria-label={`Drop bag at ${leg.checkpointName}`}
+                        />
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {plan.productUsage.length > 0 && (
+            <div className="text-xs text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary">
+              <span className="font-medium">Race totals:</span>{' '}
+              {plan.productUsage.map(item => `${item.servings}× ${item.name}`).join(', ')}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400 coloursplash:text-splash-text-muted">
+              <Backpack className="w-3.5 h-3.5" />
+              Real food and bottled drinks are only planned after the start, a drop bag or a crewed checkpoint.
+            </p>
+            <button
+              onClick={handleApply}
+              disabled={isApplying || plan.productUsage.length === 0}
+              className="px-3 py-1.5 text-sm font-medium bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isApplying ? 'Applying...' : 'Apply to all checkpoints'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+/**
+ * Race Simulation Panel Component
+ *
+ * Shows the spread of likely outcomes from a Monte Carlo simulation of the plan:
+ * - P10/P50/P90 finish times with a distribution chart
+ * - P10/P50/P90 arrival at every checkpoint
+ * - Probability of missing each cut-off
+ */
+
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp, HelpCircle, RefreshCw } from 'lucide-react';
+import type { Segment, Stage } from '@/shared/types';
+import { simulateRace } from '../utils/raceSimulation';
+import { formatTime, getDayOfWeek } from '../utils/etaCalculations';
+import { getZonedDayKey, resolveTimeZone } from '../utils/timezone';
+
+interface RaceSimulationPanelProps {
+  segments: Segment[];
+  raceStartTime?: string | null;
+  timezone?: string | null;
+  fatigueFactor?: number; // Only applied when the fatigue curve is enabled
+  stages?: Stage[] | null;
+}
+
+function formatMinutes(minutes: number): string {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60);
+  const mins = rounded % 60;
+  return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
+}
+
+function getMissColor(probability: number): string {
+  if (probability >= 0.2) return 'text-red-600 dark:text-red-400';
+  if (probability >= 0.05) return 'text-yellow-700 dark:text-yellow-400';
+  return 'text-green-700 dark:text-green-400';
+}
+
+const RaceSimulationPanel: React.FC<RaceSimulationPanelProps> = ({
+  segments,
+  raceStartTime,
+  timezone,
+  fatigueFactor,
+  stages,
+}) => {
+  const [seed, setSeed] = useState(1);
+  const [showCheckpoints, setShowCheckpoints] = useState(false);
+
+  const result = useMemo(
+    () => simulateRace(segments, { raceStartTime, timezone, fatigueFactor, stages, seed }),
+    [segments, raceStartTime, timezone, fatigueFactor, stages, seed]
+  );
+
+  if (!result || result.plannedFinishMinutes <= 0) return null;
+
+  const start = raceStartTime ? new Date(raceStartTime) : null;
+  const timeZone = resolveTimeZone(timezone);
+
+  // Clock time for minutes after the start, with the day when it isn't the start day
+  const formatClock = (minutes: number): string | null => {
+    if (!start) return null;
+    const date = new Date(start.getTime() + minutes * 60000);
+    const time = formatTime(date, timeZone);
+    return getZonedDayKey(date, timeZone) === getZonedDayKey(start, timeZone)
+      ? time
+      : `${getDayOfWeek(date, timeZone).slice(0, 3)} ${time}`;
+  };
+
+  const maxCount = Math.max(...result.finishHistogram.map(bucket => bucket.count), 1);
+  const finishCards: Array<{ label: string; minutes: number; description: string }> = [
+    { label: 'P10 (good day)', minutes: result.finishMinutes.p10, description: '1 in 10 runs finish faster' },
+    { label: 'P50 (median)', minutes: result.finishMinutes.p50, description: 'Half of runs finish faster' },
+    { label: 'P90 (bad day)', minutes: result.finishMinutes.p90, description: '9 in 10 runs finish faster' },
+  ];
+
+  return (
+    <div className="bg-white dark:bg-[#1e2639] rounded-lg p-4 shadow-md dark:shadow-none border border-gray-200 dark:border-gray-700/50">
+      {/* Header with left accent bar */}
+      <div className="flex items-center justify-between gap-2 mb-4 pb-2 border-b border-gray-200 dark:border-gray-700/50">
+        <div className="flex items-center gap-2">
+          <div className="w-1 h-6 bg-gradient-to-b from-purple-500 to-pink-500 rounded-full"></div>
+          <h3 className="text-sm font-semibold text-gray-600 dark:text-gray-400 uppercase tracking-wider">
+            Finish Time Probability
+          </h3>
+          <div className="group relative">
+            <HelpCircle className="w-4 h-4 cursor-help text-gray-400" />
+            <div className="absolute z-50 bottom-full left-1/2 -translate-x-1/2 mb-2 px-3 py-2 bg-gray-900 text-white text-xs rounded-lg shadow-lg opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none w-64">
+              <div className="font-semibold mb-1">Race Simulation</div>
+              <p>
+                Runs the plan {result.runs.toLocaleString()} times with random variation in pace (wider for
+                low-confidence auto pace and technical terrain), overall form, fatigue, night-time slowdown and
+                checkpoint stop times.
+              </p>
+              <div className="absolute top-full left-1/2 -translate-x-1/2 border-8 border-transparent border-t-gray-900"></div>
+            </div>
+          </div>
+        </div>
+        <button
+          onClick={() => setSeed(seed + 1)}
+          className="flex items-center gap-1 px-2 py-1 text-xs text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700/30 rounded transition-colors"
+          title="Run the simulation again with new random samples"
+        >
+          <RefreshCw className="w-3.5 h-3.5" />
+          Re-run
+        </button>
+      </div>
+
+      {/* Finish Percentiles */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        {finishCards.map(card => (
+          <div
+            key={card.label}
+            className="bg-gray-50 dark:bg-[#2a3244] rounded-lg p-4 border border-gray-200 dark:border-gray-700/50"
+            title={card.description}
+          >
+            <div className="text-sm font-medium text-purple-600 dark:text-purple-400 mb-2">
+              {card.label}
+            </div>
+            <div className="text-2xl font-bold text-gray-900 dark:text-white">
+              {formatMinutes(card.minutes)}
+            </div>
+            {formatClock(card.minutes) && (
+              <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Finish {formatClock(card.minutes)}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Distribution */}
+      <div className="mb-4">
+        <div className="flex items-end gap-0.5 h-20">
+          {result.finishHistogram.map((bucket, index) => {
+            const inRange = bucket.toMinutes >= result.finishMinutes.p10 && bucket.fromMinutes <= result.finishMinutes.p90;
+            return (
+              <div
+                key={index}
+                className={`flex-1 rounded-t ${inRange ? 'bg-purple-500/70' : 'bg-gray-300 dark:bg-gray-600'}`}
+                style={{ height: `${(bucket.count / maxCount) * 100}%` }}
+                title={`${formatMinutes(bucket.fromMinutes)} – ${formatMinutes(bucket.toMinutes)}: ${bucket.count} runs`}
+              />
+            );
+          })}
+        </div>
+        <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+          <span>{formatMinutes(result.finishHistogram[0].fromMinutes)}</span>
+          <span>Plan: {formatMinutes(result.plannedFinishMinutes)}</span>
+          <span>{formatMinutes(result.finishHistogram[result.finishHistogram.length - 1].toMinutes)}</span>
+        </div>
+      </div>
+
+      {result.anyCutoffMissProbability !== null && (
+        <div className="flex items-center justify-between p-3 mb-3 bg-gray-50 dark:bg-[#2a3244] rounded-lg text-sm border border-gray-200 dark:border-gray-700/50">
+          <span className="text-gray-700 dark:text-gray-300">Chance of making every cut-off</span>
+          <span className={`font-bold ${getMissColor(result.anyCutoffMissProbability)}`}>
+            {Math.round((1 - result.anyCutoffMissProbability) * 100)}%
+          </span>
+        </div>
+      )}
+
+      {/* Checkpoint Percentiles Toggle */}
+      <button
+        onClick={() => setShowCheckpoints(!showCheckpoints)}
+        className="w-full flex items-center justify-between p-3 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700/30 rounded-lg transition-colors border border-gray-200 dark:border-gray-700/50"
+      >
+        <span className="font-medium">Checkpoint arrival ranges</span>
+        {showCheckpoints ? (
+          <ChevronUp className="w-4 h-4" />
+        ) : (
+          <ChevronDown className="w-4 h-4" />
+        )}
+      </button>
+
+      {showCheckpoints && (
+        <div className="space-y-2 mt-3">
+          {result.checkpoints.map(cp => (
+            <div
+              key={cp.segmentId}
+              className="p-3 bg-gray-50 dark:bg-[#2a3244] rounded-lg text-sm border border-gray-200 dark:border-gray-700/50"
+            >
+              <div className="flex items-center justify-between">
+                <span className="text-gray-700 dark:text-gray-300">{cp.checkpointName}</span>
+                {cp.cutoffMissProbability !== null && (
+                  <span className={`text-xs font-semibold ${getMissColor(cp.cutoffMissProbability)}`}>
+                    {Math.round(cp.cutoffMissProbability * 100)}% miss cut-off
+                  </span>
+                )}
+              </div>
+              <div className="grid grid-cols-3 gap-2 text-xs text-gray-500 dark:text-gray-400 mt-1">
+                {(['p10', 'p50', 'p90'] as const).map(key => (
+                  <span key={key}>
+                    <span className="font-medium uppercase">{key}</span>{' '}
+                    {formatClock(cp.arrivalMinutes[key]) ?? formatMinutes(cp.arrivalMinutes[key])}
+                  </span>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RaceSimulationPanel;
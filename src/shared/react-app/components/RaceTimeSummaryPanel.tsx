@@ -3,15 +3,26 @@
  *
  * Displays comprehensive time breakdown showing:
  * - Running time (actual moving time)
- * - Aid station time (checkpoint stops)
+ * - Aid station time (checkpoint stops and planned sleep)
  * - Total race time
+ * - Cut-off buffers per checkpoint
+ * - Per-stage times, overnight stops and nutrition for stage races
  */
 
 import React, { useState } from 'react';
-import { Coffee, ChevronDown, ChevronUp, HelpCircle } from 'lucide-react';
+import { Coffee, ChevronDown, ChevronUp, HelpCircle, AlertTriangle, Tent } from 'lucide-react';
 import type { RaceTimeSummary } from '../utils/raceTimeSummary';
 import { formatTimeSummary, calculateRunningTimePercentage, calculateAverageCheckpointTime, calculateAveragePace, formatPace } from '../utils/raceTimeSummary';
-import { calculateTotalTimeWithFatigue } from '../utils/fatigueCurve';
+import { calculateTotalTimeWithFatigue, type SleepDebtPoint } from '../utils/fatigueCurve';
+import { formatCutoffBuffer, getCutoffWarningMinutes, type CutoffReport, type CutoffRisk } from '../utils/cutoffAnalysis';
+import { formatDuration, formatTime, getDayOfWeek } from '../utils/etaCalculations';
+import type { StageSummary } from '../utils/stageCalculations';
+
+const CUTOFF_RISK_STYLES: Record<CutoffRisk, string> = {
+  safe: 'text-green-700 dark:text-green-400',
+  warning: 'text-yellow-700 dark:text-yellow-400',
+  missed: 'text-red-600 dark:text-red-400',
+};
 
 interface RaceTimeSummaryPanelProps {
   summary: RaceTimeSummary;
@@ -20,6 +31,13 @@ interface RaceTimeSummaryPanelProps {
   fatigueFactor?: number;  // e.g., 3.0 for 3% per 10 miles
   basePace?: number;       // Base pace in min/mile
   showFatigueCurve?: boolean;  // Whether fatigue curve is enabled
+  sleepDebt?: SleepDebtPoint[];  // Sleep debt slowdown from the sleep plan
+  // Cut-off analysis
+  cutoffReport?: CutoffReport | null;
+  onCutoffWarningChange?: (minutes: number) => void;
+  // Stage races
+  stageSummaries?: StageSummary[];
+  timezone?: string | null;
 }
 
 const RaceTimeSummaryPanel: React.FC<RaceTimeSummaryPanelProps> = ({
@@ -28,12 +46,23 @@ const RaceTimeSummaryPanel: React.FC<RaceTimeSummaryPanelProps> = ({
   fatigueFactor,
   basePace,
   showFatigueCurve = false,
+  sleepDebt,
+  cutoffReport,
+  onCutoffWarningChange,
+  stageSummaries = [],
+  timezone,
 }) => {
   const [showBreakdown, setShowBreakdown] = useState(initialShowBreakdown);
+  const [showStages, setShowStages] = useState(true);
+  const [showCutoffs, setShowCutoffs] = useState(false);
+  const cutoffsAtRisk = cutoffReport?.checkpoints.filter(cp => cp.risk !== 'safe').length ?? 0;
   const formatted = formatTimeSummary(summary);
   const runningPercentage = calculateRunningTimePercentage(summary);
   const avgCheckpointTime = calculateAverageCheckpointTime(summary);
   const avgPace = calculateAveragePace(summary);
+  const overnightMinutes = stageSummaries.reduce((sum, stage) => sum + Math.max(0, stage.overnightMinutes ?? 0), 0);
+  const formatStageTime = (date: Date) =>
+    `${getDayOfWeek(date, timezone ?? undefined).slice(0, 3)} ${formatTime(date, timezone ?? undefined)}`;
 
   return (
     <div className="bg-white dark:bg-[#1e2639] rounded-lg p-4 shadow-md dark:shadow-none border border-gray-200 dark:border-gray-700/50">
@@ -77,6 +106,11 @@ const RaceTimeSummaryPanel: React.FC<RaceTimeSummaryPanelProps> = ({
               {summary.checkpointBreakdown.length} stops • avg {Math.round(avgCheckpointTime)} min
             </div>
           )}
+          {summary.totalSleepMinutes > 0 && (
+            <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              + {formatDuration(summary.totalSleepMinutes)} planned sleep
+            </div>
+          )}
         </div>
 
         {/* Total Race Time Card */}
@@ -95,6 +129,11 @@ const RaceTimeSummaryPanel: React.FC<RaceTimeSummaryPanelProps> = ({
               </div>
             </div>
           </div>
+          {overnightMinutes > 0 && (
+            <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              + {formatDuration(overnightMinutes)} overnight across {stageSummaries.length} stages
+            </div>
+          )}
         </div>
 
         {/* Estimated Finish Time (Fatigue Adjusted) Card */}
@@ -117,6 +156,7 @@ const RaceTimeSummaryPanel: React.FC<RaceTimeSummaryPanelProps> = ({
                   <p className="mb-2">
                     <strong>Total Race Time</strong> assumes constant pace throughout.
                     <strong> Fatigue-Adjusted</strong> applies a {fatigueFactor}% pace increase per 10 miles.
+                    {sleepDebt?.some(point => point.penaltyPercent > 0) && ' Sleep debt from the sleep plan slows it further.'}
                   </p>
                   <p className="text-orange-300">
                     Formula: pace degrades by {fatigueFactor}% for every 10 miles,
@@ -135,10 +175,11 @@ const RaceTimeSummaryPanel: React.FC<RaceTimeSummaryPanelProps> = ({
                 const fatigueTimeMinutes = calculateTotalTimeWithFatigue(
                   basePace,
                   summary.totalDistanceMiles,
-                  fatigueFactor
+                  fatigueFactor,
+                  sleepDebt
                 );
-                // Add checkpoint time
-                const totalWithCheckpoints = fatigueTimeMinutes + summary.totalCheckpointTimeMinutes;
+                // Add checkpoint and sleep time
+                const totalWithCheckpoints = fatigueTimeMinutes + summary.totalCheckpointTimeMinutes + summary.totalSleepMinutes;
                 const hours = Math.floor(totalWithCheckpoints / 60);
                 const minutes = Math.round(totalWithCheckpoints % 60);
                 return `${hours}h ${minutes}m`;
@@ -148,12 +189,13 @@ const RaceTimeSummaryPanel: React.FC<RaceTimeSummaryPanelProps> = ({
             {/* Difference from base total */}
             <div className="text-xs text-orange-500 dark:text-orange-400 mt-1">
               {(() => {
-                const baseTimeMinutes = summary.totalRunningTimeMinutes + summary.totalCheckpointTimeMinutes;
+                const baseTimeMinutes = summary.totalRaceTimeMinutes;
                 const fatigueTimeMinutes = calculateTotalTimeWithFatigue(
                   basePace,
                   summary.totalDistanceMiles,
-                  fatigueFactor
-                ) + summary.totalCheckpointTimeMinutes;
+                  fatigueFactor,
+                  sleepDebt
+                ) + summary.totalCheckpointTimeMinutes + summary.totalSleepMinutes;
                 const diff = fatigueTimeMinutes - baseTimeMinutes;
                 const diffHours = Math.floor(diff / 60);
                 const diffMins = Math.round(diff % 60);
@@ -164,6 +206,87 @@ const RaceTimeSummaryPanel: React.FC<RaceTimeSummaryPanelProps> = ({
         )}
       </div>
 
+      {/* Stages */}
+      {stageSummaries.length > 0 && (
+        <div className="mb-3">
+          <button
+            onClick={() => setShowStages(!showStages)}
+            className="w-full flex items-center justify-between p-3 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700/30 rounded-lg transition-colors border border-gray-200 dark:border-gray-700/50"
+          >
+            <span className="font-medium">Stages</span>
+            {showStages ? (
+              <ChevronUp className="w-4 h-4" />
+            ) : (
+              <ChevronDown className="w-4 h-4" />
+            )}
+          </button>
+
+          {showStages && (
+            <div className="space-y-2 mt-3">
+              {stageSummaries.map((stage) => {
+                const risk: CutoffRisk | null = stage.cutoffBufferMinutes === null
+                  ? null
+                  : stage.cutoffBufferMinutes < 0
+                    ? 'missed'
+                    : stage.cutoffBufferMinutes < (cutoffReport?.warningThresholdMinutes ?? getCutoffWarningMinutes())
+                      ? 'warning'
+                      : 'safe';
+
+                return (
+                  <div
+                    key={stage.stage.id}
+                    className="p-3 bg-gray-50 dark:bg-[#2a3244] rounded-lg text-sm border border-gray-200 dark:border-gray-700/50"
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-gray-900 dark:text-white">
+                        {stage.stage.name}
+                      </span>
+                      <span className="text-gray-700 dark:text-gray-300">
+                        {stage.distanceMiles.toFixed(1)} mi • {formatDuration(Math.round(stage.movingMinutes + stage.checkpointMinutes))}
+                      </span>
+                    </div>
+
+                    <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      {stage.start && stage.finish
+                        ? `Start ${formatStageTime(stage.start)} • finish ${formatStageTime(stage.finish)}`
+                        : 'Set a race start time to see stage times'}
+                      {stage.cutoff && (
+                        <>
+                          {' • cut-off '}{formatStageTime(stage.cutoff)}
+                          {risk && stage.cutoffBufferMinutes !== null && (
+                            <span className={`ml-1 font-medium ${CUTOFF_RISK_STYLES[risk]}`}>
+                              ({formatCutoffBuffer(stage.cutoffBufferMinutes)})
+                            </span>
+                          )}
+                        </>
+                      )}
+                    </div>
+
+                    <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Nutrition: {Math.round(stage.nutrition.carbsGrams)}g carbs • {Math.round(stage.nutrition.sodiumMg)}mg sodium •{' '}
+                      {(stage.nutrition.waterMl / 1000).toFixed(1)}L fluid • {Math.round(stage.nutrition.calories)} kcal
+                    </div>
+
+                    {stage.index < stageSummaries.length - 1 && (
+                      <div className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400 mt-2">
+                        <Tent className="w-3.5 h-3.5 text-emerald-500" />
+                        {stage.stage.camp_name || 'Overnight stop'}
+                        {stage.stage.sleep_minutes ? ` • ${formatDuration(stage.stage.sleep_minutes)} sleep` : ''}
+                        {stage.overnightMinutes !== null && (
+                          stage.overnightMinutes < 0
+                            ? <span className="text-red-600 dark:text-red-400"> • arrives {formatDuration(-stage.overnightMinutes)} after the next stage starts</span>
+                            : ` • ${formatDuration(stage.overnightMinutes)} until the next start`
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Checkpoint stop times Toggle */}
       {summary.checkpointBreakdown.length > 0 && (
         <>
@@ -207,6 +330,82 @@ const RaceTimeSummaryPanel: React.FC<RaceTimeSummaryPanelProps> = ({
         </>
       )}
 
+      {/* Cut-off Buffers */}
+      {cutoffReport && cutoffReport.checkpoints.length > 0 && (
+        <div className="mt-3">
+          <button
+            onClick={() => setShowCutoffs(!showCutoffs)}
+            className={`w-full flex items-center justify-between p-3 text-sm rounded-lg transition-colors border ${cutoffsAtRisk > 0
+              ? 'text-yellow-700 dark:text-yellow-400 border-yellow-500/50 bg-yellow-500/10 hover:bg-yellow-500/20'
+              : 'text-gray-600 dark:text-gray-400 border-gray-200 dark:border-gray-700/50 hover:bg-gray-100 dark:hover:bg-gray-700/30'
+              }`}
+          >
+            <span className="flex items-center gap-2 font-medium">
+              {cutoffsAtRisk > 0 && <AlertTriangle className="w-4 h-4" />}
+              Cut-off buffers
+              {cutoffReport.tightest && (
+                <span className="font-normal">
+                  · tightest {formatCutoffBuffer(cutoffReport.tightest.bufferMinutes)} at {cutoffReport.tightest.checkpointName}
+                </span>
+              )}
+            </span>
+            {showCutoffs ? (
+              <ChevronUp className="w-4 h-4" />
+            ) : (
+              <ChevronDown className="w-4 h-4" />
+            )}
+          </button>
+
+          {showCutoffs && (
+            <div className="space-y-2 mt-3">
+              {onCutoffWarningChange && (
+                <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+                  Warn when less than
+                  <input
+                    type="number"
+                    min={0}
+                    step={5}
+                    value={cutoffReport.warningThresholdMinutes}
+                    onChange={(e) => onCutoffWarningChange(Math.max(0, parseInt(e.target.value) || 0))}
+                    className="w-16 px-2 py-1 bg-gray-50 dark:bg-[#2a3244] border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white rounded"
+                  />
+                  min in hand
+                </label>
+              )}
+
+              {cutoffReport.checkpoints.map((cp) => (
+                <div
+                  key={cp.segmentId}
+                  className="p-3 bg-gray-50 dark:bg-[#2a3244] rounded-lg text-sm border border-gray-200 dark:border-gray-700/50"
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="text-gray-700 dark:text-gray-300">
+                      {cp.checkpointName}
+                    </span>
+                    <span className={`font-medium ${CUTOFF_RISK_STYLES[cp.risk]}`}>
+                      {formatCutoffBuffer(cp.bufferMinutes)}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Arrive {cp.formattedArrival} • cut-off {cp.formattedCutoff}
+                    {cp.slowestPaceMinPerMile
+                      ? ` • slowest avg pace ${formatPace(cp.slowestPaceMinPerMile)} /mi`
+                      : ' • not reachable with planned stops'}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {cutoffReport && cutoffReport.unparsed.length > 0 && (
+        <div className="text-xs text-yellow-700 dark:text-yellow-400 p-3 bg-yellow-500/10 rounded-lg border border-yellow-500/40 mt-3">
+          Couldn't read the cut-off for {cutoffReport.unparsed.map(cp => `${cp.checkpointName} ("${cp.value}")`).join(', ')}.
+          Use a time like 14:45, 6:00 AM or Day 2 06:00.
+        </div>
+      )}
+
       {/* Info Note */}
       {summary.totalCheckpointTimeMinutes === 0 && (
         <div className="text-xs text-gray-500 dark:text-gray-400 italic p-3 bg-gray-50 dark:bg-[#2a3244] rounded-lg border border-gray-200 dark:border-gray-700/50 mt-4">
@@ -0,0 +1,281 @@
+/**
+ * Route Variant Panel Component
+ * Switches between a race's route variants (bad-weather alternatives, optional
+ * loops) and compares their distance, ascent and predicted finish
+ */
+
+import { useMemo, useState } from 'react';
+import { GitBranch, Plus, Edit2, Trash2, Check, X, BarChart3 } from 'lucide-react';
+import type { Race, Segment } from '@/shared/types';
+import { useUnit } from '@/react-app/contexts/UnitContext';
+import { formatDistance, formatElevation, metersToFeet } from '@/react-app/utils/unitConversions';
+import { formatDuration } from '@/react-app/utils/etaCalculations';
+import { getRouteVariantStats, diffRouteVariants, type RouteVariantStats } from '@/react-app/utils/routeVariants';
+
+interface RouteVariantPanelProps {
+  race: Race;
+  segments: Segment[]; // Active variant's checkpoints, so the comparison refreshes as they're edited
+  onCreate: (name: string, copyCheckpoints: boolean) => Promise<unknown>;
+  onSwitch: (variantId: number) => Promise<void>;
+  onRename: (variantId: number, name: string) => Promise<void>;
+  onDelete: (variantId: number) => Promise<void>;
+}
+
+export default function RouteVariantPanel({ race, segments, onCreate, onSwitch, onRename, onDelete }: RouteVariantPanelProps) {
+  const { useMiles } = useUnit();
+  const [isAdding, setIsAdding] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [copyCheckpoints, setCopyCheckpoints] = useState(true);
+  const [renamingId, setRenamingId] = useState<number | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [showComparison, setShowComparison] = useState(false);
+
+  const variants = race.route_variants ?? [];
+
+  const stats = useMemo(
+    () => (showComparison ? getRouteVariantStats(race) : []),
+    [showComparison, race, segments]
+  );
+  const baseline = stats.find(s => s.isActive) ?? stats[0];
+
+  const handleAdd = async () => {
+    if (!newName.trim()) return;
+    await onCreate(newName.trim(), copyCheckpoints);
+    setNewName('');
+    setIsAdding(false);
+  };
+
+  const handleRename = async (variantId: number) => {
+    if (renameValue.trim()) {
+      await onRename(variantId, renameValue.trim());
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = async (variantId: number, name: string) => {
+    if (!window.confirm(`Delete the "${name}" route with its GPX file and checkpoints?`)) return;
+    await onDelete(variantId);
+  };
+
+  const formatSigned = (value: number, format: (abs: number) => string) =>
+    `${value > 0 ? '+' : value < 0 ? '-' : '±'}${format(Math.abs(value))}`;
+
+  const renderDiff = (variantStats: RouteVariantStats) => {
+    if (!baseline || variantStats === baseline) {
+      return <span className="text-gray-400 dark:text-gray-500">Current</span>;
+    }
+    const diff = diffRouteVariants(variantStats, baseline);
+    return (
+      <div className="space-y-0.5">
+        <div>{formatSigned(diff.distanceMiles, d => formatDistance(d, useMiles))}</div>
+        {diff.ascentMeters !== null && (
+          <div>{formatSigned(diff.ascentMeters, a => formatElevation(metersToFeet(a), useMiles))}</div>
+        )}
+        {diff.finishMinutes !== null && (
+          <div className={diff.finishMinutes > 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}>
+            {formatSigned(Math.round(diff.finishMinutes), formatDuration)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="mb-8 bg-white dark:bg-[#2d3548] coloursplash:bg-white rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 coloursplash:border-splash-border p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <h3 className="text-lg font-bold text-gray-900 dark:text-white coloursplash:text-splash-text-primary flex items-center gap-2">
+          <GitBranch className="w-5 h-5" />
+          Route Variants
+        </h3>
+        <div className="flex items-center gap-2">
+          {variants.length > 1 && (
+            <button
+              onClick={() => setShowComparison(!showComparison)}
+              className="inline-flex items-center gap-1 px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-primary hover:bg-gray-100 dark:hover:bg-[#333c52] coloursplash:hover:bg-splash-azure-light rounded-lg transition-all"
+              aria-pressed={showComparison}
+            >
+              <BarChart3 className="w-4 h-4" />
+              {showComparison ? 'Hide comparison' : 'Compare'}
+            </button>
+          )}
+          {!isAdding && (
+            <button
+              onClick={() => setIsAdding(true)}
+              className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium bg-blue-500 hover:bg-blue-600 coloursplash:bg-splash-azure text-white rounded-lg transition-all"
+            >
+              <Plus className="w-4 h-4" />
+              Add route
+            </button>
+          )}
+        </div>
+      </div>
+
+      {variants.length === 0 && !isAdding && (
+        <p className="text-sm text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary">
+          This race has a single route. Add a bad-weather alternative or optional loop to plan it with its own GPX and checkpoints.
+        </p>
+      )}
+
+      {/* Variant switcher */}
+      {variants.length > 0 && (
+        <div className="flex flex-wrap gap-2" role="tablist" aria-label="Route variants">
+          {variants.map(variant => {
+            const isActive = variant.id === race.active_route_variant_id;
+
+            if (renamingId === variant.id) {
+              return (
+                <div key={variant.id} className="flex items-center gap-1">
+                  <input
+                    type="text"
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleRename(variant.id)}
+                    className="px-2 py-1 text-sm bg-white dark:bg-[#1e2639] coloursplash:bg-white border border-gray-300 dark:border-gray-600 coloursplash:border-splash-border rounded text-gray-900 dark:text-white coloursplash:text-splash-text-primary"
+                    autoFocus
+                  />
+                  <button onClick={() => handleRename(variant.id)} className="p-1 text-green-600 dark:text-green-400" aria-label="Save name">
+                    <Check className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => setRenamingId(null)} className="p-1 text-gray-500" aria-label="Cancel rename">
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            }
+
+            return (
+              <div
+                key={variant.id}
+                className={`group inline-flex items-center gap-1 rounded-lg border transition-all ${
+                  isActive
+                    ? 'bg-emerald-500 border-emerald-500 text-white'
+                    : 'bg-gray-50 dark:bg-[#1e2639] coloursplash:bg-splash-bg-subtle border-gray-300 dark:border-gray-600 coloursplash:border-splash-border text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-primary'
+                }`}
+              >
+                <button
+                  role="tab"
+                  aria-selected={isActive}
+                  onClick={() => !isActive && onSwitch(variant.id)}
+                  className="px-3 py-1.5 text-sm font-medium"
+                  title={variant.gpx_file_key ? undefined : 'No GPX uploaded for this route yet'}
+                >
+                  {variant.name}
+                  {!variant.gpx_file_key && <span className="ml-1 opacity-70">(no GPX)</span>}
+                </button>
+                <button
+                  onClick={() => {
+                    setRenamingId(variant.id);
+                    setRenameValue(variant.name);
+                  }}
+                  className="p-1 opacity-60 hover:opacity-100"
+                  aria-label={`Rename ${variant.name}`}
+                >
+                  <Edit2 className="w-3.5 h-3.5" />
+                </button>
+                {!isActive && (
+                  <button
+                    onClick={() => handleDelete(variant.id, variant.name)}
+                    className="p-1 pr-2 opacity-60 hover:opacity-100 hover:text-red-500"
+                    aria-label={`Delete ${variant.name}`}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Add variant */}
+      {isAdding && (
+        <div className="mt-3 p-3 bg-gray-50 dark:bg-[#1e2639] coloursplash:bg-splash-bg-subtle rounded-lg border border-gray-200 dark:border-gray-700 coloursplash:border-splash-border space-y-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder="e.g. Bad weather route"
+            className="w-full px-3 py-2 text-sm bg-white dark:bg-[#2d3548] coloursplash:bg-white border border-gray-300 dark:border-gray-600 coloursplash:border-splash-border rounded text-gray-900 dark:text-white coloursplash:text-splash-text-primary"
+            autoFocus
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-primary">
+            <input
+              type="checkbox"
+              checked={copyCheckpoints}
+              onChange={(e) => setCopyCheckpoints(e.target.checked)}
+              className="rounded"
+            />
+            Copy checkpoints from the current route
+          </label>
+          {variants.length === 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 coloursplash:text-splash-text-muted">
+              The current GPX and checkpoints become the "Main route".
+            </p>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={handleAdd}
+              disabled={!newName.trim()}
+              className="px-3 py-1.5 text-sm font-medium bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Add and switch
+            </button>
+            <button
+              onClick={() => setIsAdding(false)}
+              className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-[#333c52] rounded-lg transition-all"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Comparison */}
+      {showComparison && stats.length > 1 && (
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 dark:text-gray-400 coloursplash:text-splash-text-muted border-b border-gray-200 dark:border-gray-700 coloursplash:border-splash-border">
+                <th className="py-2 pr-4 font-medium">Route</th>
+                <th className="py-2 pr-4 font-medium">Distance</th>
+                <th className="py-2 pr-4 font-medium">Ascent</th>
+                <th className="py-2 pr-4 font-medium">Checkpoints</th>
+                <th className="py-2 pr-4 font-medium">Predicted finish</th>
+                <th className="py-2 font-medium">vs {baseline?.variant.name}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stats.map(variantStats => (
+                <tr
+                  key={variantStats.variant.id}
+                  className="border-b border-gray-100 dark:border-gray-700/50 coloursplash:border-splash-border text-gray-900 dark:text-white coloursplash:text-splash-text-primary align-top"
+                >
+                  <td className="py-2 pr-4 font-medium">{variantStats.variant.name}</td>
+                  <td className="py-2 pr-4">{formatDistance(variantStats.distanceMiles, useMiles)}</td>
+                  <td className="py-2 pr-4">
+                    {variantStats.ascentMeters !== null
+                      ? formatElevation(metersToFeet(variantStats.ascentMeters), useMiles)
+                      : '—'}
+                  </td>
+                  <td className="py-2 pr-4">{variantStats.checkpointCount}</td>
+                  <td className="py-2 pr-4">
+                    {variantStats.summary.totalRunningTimeMinutes > 0
+                      ? formatDuration(Math.round(variantStats.summary.totalRaceTimeMinutes))
+                      : '—'}
+                  </td>
+                  <td className="py-2 text-xs text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary">
+                    {renderDiff(variantStats)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400 coloursplash:text-splash-text-muted">
+            Predicted finish includes checkpoint stops and uses each route's own checkpoint paces.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
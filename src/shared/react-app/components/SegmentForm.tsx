@@ -33,6 +33,7 @@ import {
 } from "../utils/giDistressPredictor";
 import { analyzeSegmentEccentricLoad } from "../utils/eccentricLoadCalculator";
 import { calculateSegmentElevation } from "../utils/elevationCalculations";
+import { DEFAULT_AWAKE_HOURS_AT_START, getMidLegSleepDebtPercent, trackHoursAwake } from "../utils/sleepStrategy";
 
 interface SegmentFormProps {
   onSubmit: (data: {
@@ -61,11 +62,15 @@ interface SegmentFormProps {
     id?: number;
     checkpoint_name: string;
     segment_distance_miles?: number;
+    predicted_segment_time_minutes?: number | null;
+    checkpoint_time_minutes?: number | null;
+    sleep_minutes?: number | null;
     carb_goal_per_hour?: number | null;
     sodium_goal_per_hour?: number | null;
     water_goal_per_hour?: number | null;
     segment_nutrition_items?: string | null;
     nutrition_plan?: string | null;
+    stage_id?: number | null;
   }>;
   initialData?: {
     checkpoint_name?: string;
@@ -512,14 +517,16 @@ export default function SegmentForm({
           segment_order: existingSegments.length,
         };
 
-        // Derive pace for this new segment
-        const result = deriveSegmentPace(
-          tempSegment,
-          existingSegments.length,
-          config.config,
-          gpxContent || null,
-          fitData
-        );
+        // Sleep debt carried into this leg from the checkpoints (and overnight stops) before it
+        const tracker = trackHoursAwake(existingSegments, race.awake_hours_at_start ?? DEFAULT_AWAKE_HOURS_AT_START, race);
+        existingSegments.forEach((seg, index) => tracker.advance(index, seg.predicted_segment_time_minutes || 0));
+
+        // Derive pace for this new segment, with sleep debt at mid-leg as auto-pace applies it
+        const rested = deriveSegmentPace(tempSegment, existingSegments.length, config.config, gpxContent || null, fitData);
+        const sleepDebtPercent = getMidLegSleepDebtPercent(tracker.hoursAwake(), rested.paceMinPerMile * distance);
+        const result = sleepDebtPercent > 0
+          ? deriveSegmentPace(tempSegment, existingSegments.length, config.config, gpxContent || null, fitData, sleepDebtPercent)
+          : rested;
 
         setCalculatedAutoPace(result.paceMinPerMile);
         setCalculatedConfidence(result.confidence);
@@ -1502,13 +1509,14 @@ export default function SegmentForm({
           Cut Off Time
         </label>
         <input
-          type="time"
+          type="text"
           value={cutoffTime}
+          placeholder="e.g. 14:45, 6:00 AM or Day 2 06:00"
           onChange={(e) => setCutoffTime(e.target.value)}
           className="w-full max-w-md px-4 py-2.5 bg-gray-50 dark:bg-[#3a4458] coloursplash:bg-white border border-gray-300 dark:border-gray-600 coloursplash:border-splash-border text-gray-900 dark:text-white coloursplash:text-splash-text-primary placeholder-gray-400 dark:placeholder-gray-500 rounded-lg focus:ring-2 focus:ring-blue-500 coloursplash:focus:ring-splash-azure focus:border-transparent transition-all"
         />
         <div className="text-xs text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-muted mt-1">
-          Optional: Set the checkpoint cut-off time
+          Optional: Local time at the race. Add a day for multi-day races (e.g. Day 2 06:00 or Sat 06:00)
         </div>
       </div>
 
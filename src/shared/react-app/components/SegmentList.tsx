@@ -18,9 +18,16 @@ import {
   ArrowUpDown,
   AlertTriangle,
   Ruler,
+  Sunset,
+  Flashlight,
+  Globe,
 } from "lucide-react";
-import type { Segment, SupportCrewMember, NutritionItem, ParsedFITData, SegmentComparisonData } from "@/shared/types";
-import { calculateSegmentETA } from "@/react-app/utils/etaCalculations";
+import type { Segment, Stage, SupportCrewMember, NutritionItem, ParsedFITData, SegmentComparisonData } from "@/shared/types";
+import { calculateSegmentETA, formatTime as formatClockTime, getDayOfWeek, getUserTimezone } from "@/react-app/utils/etaCalculations";
+import { getTimeZoneAbbreviation, getZonedDayKey, resolveTimeZone } from "@/react-app/utils/timezone";
+import { formatCutoffBuffer, formatCutoffLabel, type CutoffReport } from "@/react-app/utils/cutoffAnalysis";
+import { formatSunEventTime, getLightConditionLabel } from "@/react-app/utils/solarCalculations";
+import { getSegmentStageIndexes, isStageRace } from "@/react-app/utils/stageCalculations";
 import WeatherIcon from "@/react-app/components/WeatherIcon";
 import NutritionEditModal from "@/react-app/components/NutritionEditModal";
 import CheckpointEditModal from "@/react-app/components/CheckpointEditModal";
@@ -69,7 +76,9 @@ interface SegmentListProps {
   onEditEmergencyContact?: () => void;
   raceStartTime?: string | null;
   timezone?: string | null;
+  stages?: Stage[] | null;
   fitComparisonData?: ParsedFITData | null;
+  cutoffReport?: CutoffReport | null;
 }
 
 export default function SegmentList({
@@ -80,7 +89,10 @@ export default function SegmentList({
   emergencyContactPhone,
   onEditEmergencyContact,
   raceStartTime,
+  timezone,
+  stages,
   fitComparisonData,
+  cutoffReport,
 }: SegmentListProps) {
   const { useMiles } = useUnit();
   const [editingId, setEditingId] = useState<number | null>(null);
@@ -103,6 +115,14 @@ export default function SegmentList({
     const saved = localStorage.getItem('show_inter_segment_distances');
     return saved === 'true';
   });
+  const [showHomeTime, setShowHomeTime] = useState<boolean>(() => {
+    const saved = localStorage.getItem('eta_show_home_time');
+    return saved === 'true';
+  });
+
+  // ETAs are shown in race-local time; crew following from home can add their own timezone alongside
+  const homeTimezone = getUserTimezone();
+  const raceTimezoneDiffersFromHome = resolveTimeZone(timezone) !== homeTimezone;
 
   // Load GPX file if available
   useEffect(() => {
@@ -313,11 +333,22 @@ export default function SegmentList({
     localStorage.setItem('show_inter_segment_distances', newValue.toString());
   };
 
+  const toggleHomeTime = () => {
+    const newValue = !showHomeTime;
+    setShowHomeTime(newValue);
+    localStorage.setItem('eta_show_home_time', newValue.toString());
+  };
+
   // Get segments in display order
   const displaySegments = useMemo(() => {
     return reverseOrder ? [...segments].reverse() : segments;
   }, [segments, reverseOrder]);
 
+  const stageIndexes = useMemo(
+    () => (isStageRace(stages) ? getSegmentStageIndexes(segments, stages) : null),
+    [segments, stages]
+  );
+
   const saveCheckpointEdit = async (data: {
     checkpoint_name: string;
     segment_distance_miles: number;
@@ -406,6 +437,25 @@ export default function SegmentList({
             </span>
           </button>
         )}
+
+        {/* Home Time Toggle */}
+        {raceStartTime && raceTimezoneDiffersFromHome && segments.length > 0 && (
+          <button
+            onClick={toggleHomeTime}
+            className={`flex items-center gap-2 px-3 sm:px-4 py-2 bg-white dark:bg-[#2d3548] border-2 rounded-lg transition-all min-h-[44px] w-full sm:w-auto ${showHomeTime
+              ? 'border-blue-500/60 hover:border-blue-500/80'
+              : 'border-gray-300 dark:border-gray-600 hover:border-blue-500/40'
+              }`}
+            title={showHomeTime ? "Show race-local times only" : `Also show ETAs in your timezone (${homeTimezone})`}
+            aria-label="Toggle home timezone ETA display"
+          >
+            <Globe className={`w-4 h-4 ${showHomeTime ? 'text-blue-400' : 'text-gray-400'}`} />
+            <span className={`text-xs sm:text-sm font-semibold ${showHomeTime ? 'text-blue-400 coloursplash:text-splash-azure' : 'text-gray-400'
+              }`}>
+              {showHomeTime ? "Home Time On" : "Home Time Off"}
+            </span>
+          </button>
+        )}
       </div>
 
       {segments.length === 0 ? (
@@ -458,6 +508,11 @@ export default function SegmentList({
                             <h4 className="text-base sm:text-lg font-bold text-gray-900 dark:text-white coloursplash:text-splash-text-primary break-words">
                               {segment.checkpoint_name}
                             </h4>
+                            {stageIndexes && stages && (
+                              <span className="text-xs px-2 py-0.5 bg-emerald-500/15 text-emerald-700 dark:text-emerald-400 coloursplash:text-splash-text-secondary rounded font-medium">
+                                {stages[stageIndexes[originalIndex]].name}
+                              </span>
+                            )}
                             <button
                               onClick={() => setEditingCheckpoint(segment)}
                               className="p-1.5 text-gray-400 dark:text-gray-500 coloursplash:text-splash-azure hover:text-blue-500 dark:hover:text-blue-400 coloursplash:hover:bg-splash-azure-light hover:bg-blue-500/10 rounded-lg transition-all"
@@ -652,11 +707,15 @@ export default function SegmentList({
                               const eta = calculateSegmentETA(
                                 raceStartTime,
                                 segments,
-                                originalIndex
+                                originalIndex,
+                                timezone,
+                                stages
                               );
 
                               if (!eta) return null;
 
+                              const cutoff = cutoffReport?.checkpoints.find(c => c.segmentId === segment.id);
+
                               return (
                                 <div className="mt-2 flex items-center gap-3 flex-wrap">
                                   <div className="inline-flex items-center gap-2 px-3 py-1.5 bg-blue-500/20 border border-blue-500/40 rounded-lg">
@@ -669,24 +728,48 @@ export default function SegmentList({
                                         <span className="text-sm text-gray-900 dark:text-white font-bold">
                                           {eta.formattedTime}
                                         </span>
+                                        {raceTimezoneDiffersFromHome && (
+                                          <span className="text-xs text-gray-600 dark:text-gray-400">
+                                            {" "}{eta.timeZoneName}
+                                          </span>
+                                        )}
                                       </div>
                                       {eta.crossesMidnight && (
                                         <span className="text-xs text-yellow-400 font-medium">
                                           {eta.dayOfWeek}
                                         </span>
                                       )}
-                                      <div className="flex items-center gap-1">
+                                      {showHomeTime && raceTimezoneDiffersFromHome && (
+                                        <span
+                                          className="text-xs text-gray-900 dark:text-gray-300 font-medium"
+                                          title={`Your timezone (${homeTimezone})`}
+                                        >
+                                          Home: {formatClockTime(eta.eta, homeTimezone)} {getTimeZoneAbbreviation(eta.eta, homeTimezone)}
+                                          {getZonedDayKey(eta.eta, homeTimezone) !== getZonedDayKey(eta.eta, eta.timeZone) &&
+                                            ` (${getDayOfWeek(eta.eta, homeTimezone).slice(0, 3)})`}
+                                        </span>
+                                      )}
+                                      <div
+                                        className="flex items-center gap-1"
+                                        title={eta.sunTimes
+                                          ? `Sunrise ${formatSunEventTime(eta.sunTimes.sunrise, timezone)} · Sunset ${formatSunEventTime(eta.sunTimes.sunset, timezone)} · Civil dusk ${formatSunEventTime(eta.sunTimes.civilDusk, timezone)} · ${eta.moonIllumination.phaseName} (${Math.round(eta.moonIllumination.fraction * 100)}% lit)`
+                                          : 'Add checkpoint locations for accurate sunrise/sunset times'}
+                                      >
                                         <span className="text-xs text-gray-900 dark:text-gray-300 font-medium">
-                                          {eta.isDaylight ? 'Daylight' : 'Night'}
+                                          {getLightConditionLabel(eta.lightCondition)}
                                         </span>
                                         {eta.isDaylight ? (
                                           <Sun
                                             className="w-4 h-4 text-yellow-400"
                                           />
-                                        ) : (
+                                        ) : eta.isNight ? (
                                           <Moon
                                             className="w-4 h-4 text-purple-400"
                                           />
+                                        ) : (
+                                          <Sunset
+                                            className="w-4 h-4 text-orange-400"
+                                          />
                                         )}
                                       </div>
 
@@ -699,23 +782,72 @@ export default function SegmentList({
                                           segment={segment}
                                           eta={eta.eta}
                                           raceStartTime={raceStartTime}
+                                          timezone={timezone}
                                         />
                                       </div>
                                     </div>
                                   </div>
 
+                                  {/* Headtorch Warning */}
+                                  {eta.needsHeadtorch && (
+                                    <div
+                                      className="inline-flex items-center gap-2 px-3 py-1.5 bg-purple-500/20 border border-purple-500/40 rounded-lg"
+                                      title={`About ${eta.darkMinutes} min of this leg is after dusk or before dawn`}
+                                    >
+                                      <Flashlight className="w-4 h-4 text-purple-400" />
+                                      <span className="text-xs text-gray-900 dark:text-white font-medium">
+                                        Headtorch{eta.darkMinutes < eta.segmentTimeMinutes ? ` (${eta.darkMinutes} min dark)` : ''}
+                                      </span>
+                                    </div>
+                                  )}
+
                                   {/* Cut-off Time Display */}
                                   {segment.cutoff_time && (
                                     <div className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg" style={{ backgroundColor: '#bf7f05' }}>
                                       <span className="text-sm font-bold text-white">
-                                        Cut off time: {(() => {
-                                          // Format time from 24h to 12h format
-                                          const [hours, minutes] = segment.cutoff_time.split(':');
-                                          const hour = parseInt(hours);
-                                          const period = hour >= 12 ? 'pm' : 'am';
-                                          const displayHour = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour;
-                                          return `${displayHour}:${minutes} ${period}`;
-                                        })()}
+                                        Cut off time: {cutoff ? cutoff.formattedCutoff : formatCutoffLabel(segment.cutoff_time)}
+                                      </span>
+                                    </div>
+                                  )}
+
+                                  {/* Cut-off Buffer */}
+                                  {cutoff && (
+                                    <div
+                                      className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-lg border ${cutoff.risk === 'missed'
+                                        ? 'bg-red-500/20 border-red-500/50'
+                                        : cutoff.risk === 'warning'
+                                          ? 'bg-yellow-500/20 border-yellow-500/50'
+                                          : 'bg-green-500/20 border-green-500/40'
+                                        }`}
+                                      title={cutoff.slowestPaceMinPerMile
+                                        ? `Slowest average pace from the start that still makes this cut-off: ${formatPace(cutoff.slowestPaceMinPerMile, useMiles)}`
+                                        : 'This cut-off cannot be made with the planned checkpoint stops'}
+                                    >
+                                      <span className={`text-xs font-semibold ${cutoff.risk === 'missed'
+                                        ? 'text-red-600 dark:text-red-400'
+                                        : cutoff.risk === 'warning'
+                                          ? 'text-yellow-700 dark:text-yellow-400'
+                                          : 'text-green-700 dark:text-green-400'
+                                        }`}>
+                                        {formatCutoffBuffer(cutoff.bufferMinutes)}
+                                      </span>
+                                    </div>
+                                  )}
+
+                                  {/* Cut-off Warning Band */}
+                                  {cutoff && cutoff.risk !== 'safe' && (
+                                    <div className={`w-full flex items-start gap-2 px-3 py-2 rounded-lg text-xs ${cutoff.risk === 'missed'
+                                      ? 'bg-red-500/10 border border-red-500/40 text-red-600 dark:text-red-400'
+                                      : 'bg-yellow-500/10 border border-yellow-500/40 text-yellow-700 dark:text-yellow-400'
+                                      }`}>
+                                      <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                                      <span>
+                                        {cutoff.risk === 'missed'
+                                          ? `Planned arrival misses the cut-off by ${Math.abs(cutoff.bufferMinutes)} min.`
+                                          : `Only ${cutoff.bufferMinutes} min in hand (warning below ${cutoffReport!.warningThresholdMinutes} min).`}
+                                        {cutoff.slowestPaceMinPerMile && cutoff.plannedPaceMinPerMile && (
+                                          <> Average pace to here must be {formatPace(cutoff.slowestPaceMinPerMile, useMiles)} or faster (planned {formatPace(cutoff.plannedPaceMinPerMile, useMiles)}).</>
+                                        )}
                                       </span>
                                     </div>
                                   )}
@@ -747,6 +879,11 @@ export default function SegmentList({
                               + {formatTime(segment.checkpoint_time_minutes)} at CP
                             </div>
                           )}
+                          {!!segment.sleep_minutes && (
+                            <div className="text-xs sm:text-sm text-indigo-400 coloursplash:text-splash-text-secondary mt-1">
+                              + {formatTime(segment.sleep_minutes)} sleep
+                            </div>
+                          )}
                         </div>
 
                         <div
@@ -0,0 +1,233 @@
+/**
+ * Sleep Strategy Panel Component
+ * Picks sleep stations and sleep lengths for 100+ and 200 mile races, and shows
+ * the effect on arrival times, night legs, cut-offs and sleep debt
+ */
+
+import { useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp, Moon } from 'lucide-react';
+import type { Race, Segment } from '@/shared/types';
+import { calculateSegmentETA, formatDuration, formatTime, getDayOfWeek } from '@/react-app/utils/etaCalculations';
+import { formatCutoffBuffer, type CutoffReport } from '@/react-app/utils/cutoffAnalysis';
+import { getCheckpointStopMinutes } from '@/react-app/utils/raceTimeSummary';
+import {
+  calculateSleepDebt,
+  DEFAULT_AWAKE_HOURS_AT_START,
+  SLEEP_PRESETS,
+  summarizeSleepPlan,
+} from '@/react-app/utils/sleepStrategy';
+
+interface SleepStrategyPanelProps {
+  race: Race;
+  segments: Segment[];
+  cutoffReport: CutoffReport | null;
+  onSleepChange: (segmentId: number, sleepMinutes: number | null) => Promise<void>;
+  onAwakeHoursChange: (hours: number | null) => Promise<void>;
+}
+
+const inputClass =
+  'px-2 py-1 text-sm bg-white dark:bg-[#2d3548] coloursplash:bg-white border border-gray-300 dark:border-gray-600 coloursplash:border-splash-border rounded text-gray-900 dark:text-white coloursplash:text-splash-text-primary';
+
+export default function SleepStrategyPanel({
+  race,
+  segments,
+  cutoffReport,
+  onSleepChange,
+  onAwakeHoursChange,
+}: SleepStrategyPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const awakeHoursAtStart = race.awake_hours_at_start ?? DEFAULT_AWAKE_HOURS_AT_START;
+  const debts = useMemo(
+    () => calculateSleepDebt(segments, awakeHoursAtStart, race),
+    [segments, awakeHoursAtStart, race]
+  );
+  const summary = useMemo(() => summarizeSleepPlan(segments, debts, race), [segments, debts, race]);
+  const etas = useMemo(
+    () => segments.map((_, index) => calculateSegmentETA(race.start_date_time, segments, index, race.timezone, race.stages)),
+    [race.start_date_time, race.timezone, race.stages, segments]
+  );
+
+  const nightLegs = etas.filter(eta => eta?.needsHeadtorch).length;
+  const darkMinutes = etas.reduce((sum, eta) => sum + (eta?.darkMinutes ?? 0), 0);
+  const timezone = race.timezone ?? undefined;
+
+  const handleSleepChange = async (segmentId: number, value: string) => {
+    try {
+      await onSleepChange(segmentId, value === '' ? null : parseInt(value));
+    } catch (error) {
+      console.error('Failed to update sleep:', error);
+      alert('Failed to update sleep. Please try again.');
+    }
+  };
+
+  const handleAwakeHoursChange = async (value: string) => {
+    const hours = parseFloat(value);
+    try {
+      await onAwakeHoursChange(value === '' || isNaN(hours) ? null : Math.max(0, hours));
+    } catch (error) {
+      console.error('Failed to update hours awake:', error);
+    }
+  };
+
+  // Sleep options: the presets, plus the checkpoint's own length if it isn't one
+  const sleepOptions = (current: number | null | undefined) => {
+    const options = SLEEP_PRESETS.map(preset => ({
+      minutes: preset.minutes,
+      label: `${preset.label} (${formatDuration(preset.minutes)})`,
+    }));
+    if (current && !options.some(option => option.minutes === current)) {
+      options.push({ minutes: current, label: formatDuration(current) });
+    }
+    return options;
+  };
+
+  return (
+    <div className="mb-8 bg-white dark:bg-[#2d3548] coloursplash:bg-white rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 coloursplash:border-splash-border p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white coloursplash:text-splash-text-primary flex items-center gap-2">
+            <Moon className="w-5 h-5" />
+            Sleep Strategy
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary">
+            {summary.sleepStations > 0
+              ? `${formatDuration(summary.totalSleepMinutes)} sleep at ${summary.sleepStations} ${summary.sleepStations === 1 ? 'station' : 'stations'}`
+              : 'No sleep planned. Pick sleep stations for 100+ mile races.'}
+            {summary.peakPenaltyPercent > 0 && ` • sleep debt up to +${summary.peakPenaltyPercent.toFixed(0)}% pace`}
+          </p>
+        </div>
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium bg-blue-500 hover:bg-blue-600 coloursplash:bg-splash-azure text-white rounded-lg transition-all"
+        >
+          {isExpanded ? 'Hide plan' : 'Plan sleep'}
+          {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="mt-4 space-y-4">
+          {/* Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div className="p-3 bg-gray-50 dark:bg-[#1e2639] coloursplash:bg-splash-bg-subtle rounded-lg">
+              <div className="text-xs text-gray-500 dark:text-gray-400 coloursplash:text-splash-text-muted">Longest awake</div>
+              <div className="text-lg font-semibold text-gray-900 dark:text-white coloursplash:text-splash-text-primary">
+                {summary.longestAwakeHours.toFixed(1)}h
+              </div>
+            </div>
+            <div className="p-3 bg-gray-50 dark:bg-[#1e2639] coloursplash:bg-splash-bg-subtle rounded-lg">
+              <div className="text-xs text-gray-500 dark:text-gray-400 coloursplash:text-splash-text-muted">Sleep debt cost</div>
+              <div className="text-lg font-semibold text-gray-900 dark:text-white coloursplash:text-splash-text-primary">
+                {summary.addedMovingMinutes >= 1 ? `+${formatDuration(Math.round(summary.addedMovingMinutes))}` : 'None'}
+              </div>
+            </div>
+            <div className="p-3 bg-gray-50 dark:bg-[#1e2639] coloursplash:bg-splash-bg-subtle rounded-lg">
+              <div className="text-xs text-gray-500 dark:text-gray-400 coloursplash:text-splash-text-muted">Night legs</div>
+              <div className="text-lg font-semibold text-gray-900 dark:text-white coloursplash:text-splash-text-primary">
+                {race.start_date_time ? `${nightLegs} • ${formatDuration(darkMinutes)} dark` : '—'}
+              </div>
+            </div>
+            <div className="p-3 bg-gray-50 dark:bg-[#1e2639] coloursplash:bg-splash-bg-subtle rounded-lg">
+              <div className="text-xs text-gray-500 dark:text-gray-400 coloursplash:text-splash-text-muted">Tightest cut-off</div>
+              <div className="text-lg font-semibold text-gray-900 dark:text-white coloursplash:text-splash-text-primary">
+                {cutoffReport?.tightest
+                  ? `${formatCutoffBuffer(cutoffReport.tightest.bufferMinutes)} at ${cutoffReport.tightest.checkpointName}`
+                  : '—'}
+              </div>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-primary">
+            <label htmlFor="awake-hours-at-start">Awake before the start</label>
+            <input
+              id="awake-hours-at-start"
+              type="number"
+              min={0}
+              step={0.5}
+              value={race.awake_hours_at_start ?? ''}
+              placeholder={String(DEFAULT_AWAKE_HOURS_AT_START)}
+              onChange={(e) => handleAwakeHoursChange(e.target.value)}
+              className={`${inputClass} w-20`}
+            />
+            <span className="text-gray-500 dark:text-gray-400 coloursplash:text-splash-text-muted">hours</span>
+          </div>
+
+          {/* Per-checkpoint plan */}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 dark:text-gray-400 coloursplash:text-splash-text-muted border-b border-gray-200 dark:border-gray-700 coloursplash:border-splash-border">
+                  <th className="py-2 pr-3 font-medium">Checkpoint</th>
+                  <th className="py-2 pr-3 font-medium">Arrive</th>
+                  <th className="py-2 pr-3 font-medium">Awake</th>
+                  <th className="py-2 pr-3 font-medium">Sleep debt</th>
+                  <th className="py-2 pr-3 font-medium">Sleep</th>
+                  <th className="py-2 font-medium">Cut-off</th>
+                </tr>
+              </thead>
+              <tbody>
+                {segments.map((segment, index) => {
+                  const eta = etas[index];
+                  const debt = debts[index];
+                  const cutoff = cutoffReport?.checkpoints.find(cp => cp.segmentIndex === index);
+                  const arrival = eta ? new Date(eta.eta.getTime() - getCheckpointStopMinutes(segment) * 60000) : null;
+
+                  return (
+                    <tr
+                      key={segment.id ?? index}
+                      className={`border-b border-gray-100 dark:border-gray-700/50 coloursplash:border-splash-border ${segment.sleep_minutes ? 'bg-indigo-50/60 dark:bg-indigo-900/20' : ''}`}
+                    >
+                      <td className="py-2 pr-3 text-gray-900 dark:text-white coloursplash:text-splash-text-primary">
+                        {segment.checkpoint_name}
+                      </td>
+                      <td className="py-2 pr-3 text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-secondary whitespace-nowrap">
+                        {arrival ? (
+                          <>
+                            {getDayOfWeek(arrival, timezone).slice(0, 3)} {formatTime(arrival, timezone)}
+                            {eta?.needsHeadtorch && (
+                              <Moon className="inline w-3.5 h-3.5 ml-1 text-indigo-500" aria-label="Night leg" />
+                            )}
+                          </>
+                        ) : '—'}
+                      </td>
+                      <td className="py-2 pr-3 text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-secondary">
+                        {debt.hoursAwakeOnArrival.toFixed(1)}h
+                      </td>
+                      <td className={`py-2 pr-3 ${debt.penaltyPercent >= 10 ? 'text-red-600 dark:text-red-400' : debt.penaltyPercent > 0 ? 'text-yellow-700 dark:text-yellow-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                        {debt.penaltyPercent > 0 ? `+${debt.penaltyPercent.toFixed(0)}%` : '—'}
+                      </td>
+                      <td className="py-2 pr-3">
+                        {segment.id != null && (
+                          <select
+                            value={segment.sleep_minutes ?? ''}
+                            onChange={(e) => handleSleepChange(segment.id!, e.target.value)}
+                            className={inputClass}
+                            aria-label={`Sleep at ${segment.checkpoint_name}`}
+                          >
+                            <option value="">No sleep</option>
+                            {sleepOptions(segment.sleep_minutes).map(option => (
+                              <option key={option.minutes} value={option.minutes}>{option.label}</option>
+                            ))}
+                          </select>
+                        )}
+                      </td>
+                      <td className={`py-2 whitespace-nowrap ${cutoff?.risk === 'missed' ? 'text-red-600 dark:text-red-400' : cutoff?.risk === 'warning' ? 'text-yellow-700 dark:text-yellow-400' : 'text-gray-700 dark:text-gray-300'}`}>
+                        {cutoff ? formatCutoffBuffer(cutoff.bufferMinutes) : '—'}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <p className="text-xs text-gray-500 dark:text-gray-400 coloursplash:text-splash-text-muted">
+            Pace slows 1% for every hour awake past 16 hours. Each minute of sleep repays three minutes awake.
+            Sleep is added to the checkpoint stop, so arrival times and cut-off buffers after it move with it.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
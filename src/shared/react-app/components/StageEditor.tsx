@@ -0,0 +1,267 @@
+/**
+ * Stage Editor Component
+ * Splits a race into stages for multi-day races, with each stage's start time,
+ * finish cut-off and overnight camp
+ */
+
+import { useState } from 'react';
+import { CalendarDays, Plus, Trash2 } from 'lucide-react';
+import type { Race, Segment, Stage } from '@/shared/types';
+import { resolveTimeZone, toZonedDateTimeInput, zonedDateTimeToUtc } from '@/react-app/utils/timezone';
+import { assignSegmentsToStages, getStageFinishSegmentIds, isStageRace } from '@/react-app/utils/stageCalculations';
+
+interface StageEditorProps {
+  race: Race;
+  segments: Segment[];
+  onSave: (stages: Stage[] | null, stageIds: Map<number, number>) => Promise<void>;
+}
+
+const inputClass =
+  'w-full px-2 py-1.5 text-sm bg-white dark:bg-[#2d3548] coloursplash:bg-white border border-gray-300 dark:border-gray-600 coloursplash:border-splash-border rounded text-gray-900 dark:text-white coloursplash:text-splash-text-primary';
+const labelClass = 'block text-xs text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary mb-1';
+
+export default function StageEditor({ race, segments, onSave }: StageEditorProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftStages, setDraftStages] = useState<Stage[]>([]);
+  const [finishIds, setFinishIds] = useState<Array<number | null>>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const timeZone = resolveTimeZone(race.timezone);
+  const checkpoints = segments.filter(segment => segment.id != null);
+  const positionOf = (segmentId: number | null) => checkpoints.findIndex(segment => segment.id === segmentId);
+
+  const startEditing = () => {
+    if (isStageRace(race.stages)) {
+      setDraftStages(race.stages);
+      setFinishIds(getStageFinishSegmentIds(checkpoints, race.stages));
+    } else {
+      // Start with two stages split at the middle checkpoint
+      setDraftStages([
+        { id: 1, name: 'Stage 1', start_date_time: null, cutoff_date_time: null, camp_name: null, sleep_minutes: 480 },
+        { id: 2, name: 'Stage 2', start_date_time: null, cutoff_date_time: null, camp_name: null, sleep_minutes: null },
+      ]);
+      setFinishIds([checkpoints[Math.floor((checkpoints.length - 1) / 2)].id!, null]);
+    }
+    setIsEditing(true);
+  };
+
+  const updateStage = (index: number, changes: Partial<Stage>) => {
+    setDraftStages(draftStages.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)));
+  };
+
+  const addStage = () => {
+    // Split the current last stage at its middle checkpoint
+    const firstOfLast = positionOf(finishIds[finishIds.length - 2] ?? null) + 1;
+    const splitAt = firstOfLast + Math.floor((checkpoints.length - 1 - firstOfLast) / 2);
+    const id = Math.max(...draftStages.map(stage => stage.id)) + 1;
+
+    setDraftStages([
+      ...draftStages.map((stage, i) =>
+        i === draftStages.length - 1 ? { ...stage, sleep_minutes: stage.sleep_minutes ?? 480 } : stage
+      ),
+      { id, name: `Stage ${draftStages.length + 1}`, start_date_time: null, cutoff_date_time: null, camp_name: null, sleep_minutes: null },
+    ]);
+    setFinishIds([...finishIds.slice(0, -1), checkpoints[splitAt].id!, null]);
+  };
+
+  const removeStage = (index: number) => {
+    // The stage's checkpoints join the one before it (or after, for the first stage)
+    const mergedFinish = index > 0 ? index - 1 : 0;
+    setDraftStages(draftStages.filter((_, i) => i !== index));
+    setFinishIds(finishIds.filter((_, i) => i !== mergedFinish));
+  };
+
+  const toIsoOrNull = (value: string) => (value ? zonedDateTimeToUtc(value, timeZone).toISOString() : null);
+  const toInput = (iso: string | null | undefined) => (iso ? toZonedDateTimeInput(new Date(iso), timeZone) : '');
+
+  const handleSave = async (stages: Stage[] | null) => {
+    setIsSaving(true);
+    try {
+      await onSave(stages, stages ? assignSegmentsToStages(checkpoints, stages, finishIds) : new Map());
+      setIsEditing(false);
+    } catch (error) {
+      console.error('Failed to save stages:', error);
+      alert('Failed to save stages. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const lastStageCheckpoints = checkpoints.length - 1 - positionOf(finishIds[finishIds.length - 2] ?? null);
+
+  return (
+    <div className="mb-8 bg-white dark:bg-[#2d3548] coloursplash:bg-white rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 coloursplash:border-splash-border p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white coloursplash:text-splash-text-primary flex items-center gap-2">
+            <CalendarDays className="w-5 h-5" />
+            Stages
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary">
+            {isStageRace(race.stages)
+              ? `${race.stages.length} stages with overnight stops`
+              : 'Single-day race. Split a multi-day race into stages with their own start times and overnight camps.'}
+          </p>
+        </div>
+        {!isEditing && (
+          <button
+            onClick={startEditing}
+            disabled={checkpoints.length < 2}
+            title={checkpoints.length < 2 ? 'Add at least two checkpoints first' : undefined}
+            className="px-3 py-1.5 text-sm font-medium bg-blue-500 hover:bg-blue-600 coloursplash:bg-splash-azure text-white rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isStageRace(race.stages) ? 'Edit stages' : 'Split into stages'}
+          </button>
+        )}
+      </div>
+
+      {isEditing && (
+        <div className="mt-4 space-y-3">
+          {draftStages.map((stage, index) => {
+            const isLast = index === draftStages.length - 1;
+            const firstPosition = positionOf(finishIds[index - 1] ?? null) + 1;
+            // Leave at least one checkpoint for the next stage
+            const nextFinishPosition = index + 1 === draftStages.length - 1
+              ? checkpoints.length - 1
+              : positionOf(finishIds[index + 1] ?? null);
+
+            return (
+              <div
+                key={stage.id}
+                className="p-4 bg-gray-50 dark:bg-[#1e2639] coloursplash:bg-splash-bg-subtle rounded-lg border border-gray-200 dark:border-gray-700 coloursplash:border-splash-border"
+              >
+                <div className="flex items-center gap-2 mb-3">
+                  <input
+                    type="text"
+                    value={stage.name}
+                    onChange={(e) => updateStage(index, { name: e.target.value })}
+                    className={`${inputClass} font-semibold`}
+                    aria-label={`Stage ${index + 1} name`}
+                  />
+                  {draftStages.length > 2 && (
+                    <button
+                      onClick={() => removeStage(index)}
+                      className="p-1.5 text-gray-400 hover:text-red-500 rounded-lg transition-all"
+                      aria-label={`Remove ${stage.name}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                  <div>
+                    <label className={labelClass}>Finishes at</label>
+                    {isLast ? (
+                      <div className="px-2 py-1.5 text-sm text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-primary">
+                        {checkpoints[checkpoints.length - 1].checkpoint_name} (race finish)
+                      </div>
+                    ) : (
+                      <select
+                        value={finishIds[index] ?? ''}
+                        onChange={(e) => setFinishIds(finishIds.map((id, i) => (i === index ? parseInt(e.target.value) : id)))}
+                        className={inputClass}
+                      >
+                        {checkpoints.slice(firstPosition, nextFinishPosition).map(segment => (
+                          <option key={segment.id} value={segment.id}>{segment.checkpoint_name}</option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className={labelClass}>Start</label>
+                    <input
+                      type="datetime-local"
+                      value={toInput(stage.start_date_time)}
+                      onChange={(e) => updateStage(index, { start_date_time: toIsoOrNull(e.target.value) })}
+                      className={inputClass}
+                    />
+                    {!stage.start_date_time && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 coloursplash:text-splash-text-muted mt-1">
+                        {index === 0 ? 'Race start time' : 'After the overnight stop'}
+                      </p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className={labelClass}>Stage cut-off</label>
+                    <input
+                      type="datetime-local"
+                      value={toInput(stage.cutoff_date_time)}
+                      onChange={(e) => updateStage(index, { cutoff_date_time: toIsoOrNull(e.target.value) })}
+                      className={inputClass}
+                    />
+                  </div>
+
+                  {!isLast && (
+                    <>
+                      <div>
+                        <label className={labelClass}>Overnight camp</label>
+                        <input
+                          type="text"
+                          value={stage.camp_name ?? ''}
+                          onChange={(e) => updateStage(index, { camp_name: e.target.value || null })}
+                          placeholder="e.g. Refuge du Lac"
+                          className={inputClass}
+                        />
+                      </div>
+                      <div>
+                        <label className={labelClass}>Sleep (hours)</label>
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.5}
+                          value={stage.sleep_minutes != null ? stage.sleep_minutes / 60 : ''}
+                          onChange={(e) => updateStage(index, {
+                            sleep_minutes: e.target.value === '' ? null : Math.max(0, Math.round(parseFloat(e.target.value) * 60)),
+                          })}
+                          className={inputClass}
+                        />
+                      </div>
+                    </>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <button
+              onClick={addStage}
+              disabled={lastStageCheckpoints < 2}
+              className="inline-flex items-center gap-1 px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-primary hover:bg-gray-100 dark:hover:bg-[#333c52] rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Plus className="w-4 h-4" />
+              Add stage
+            </button>
+            <div className="flex gap-2">
+              {isStageRace(race.stages) && (
+                <button
+                  onClick={() => handleSave(null)}
+                  disabled={isSaving}
+                  className="px-3 py-1.5 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-all"
+                >
+                  Make single-day
+                </button>
+              )}
+              <button
+                onClick={() => setIsEditing(false)}
+                className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-[#333c52] rounded-lg transition-all"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => handleSave(draftStages)}
+                disabled={isSaving || draftStages.some(stage => !stage.name.trim())}
+                className="px-3 py-1.5 text-sm font-medium bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Save stages
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,400 @@
+/**
+ * Sweat Rate Panel Component
+ * Logs sweat-rate tests from training runs and sets each segment's water and
+ * sodium goals from the personal sweat-rate model and the forecast at its ETA
+ */
+
+import { useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp, CloudSun, Droplets, Plus, Trash2 } from 'lucide-react';
+import type { Race, Segment, SweatTest, SweatTestIntensity } from '@/shared/types';
+import { localStorageService } from '@/react-app/services/localStorage';
+import { fetchCheckpointWeather, getWeatherCacheKey } from '@/react-app/services/weatherService';
+import { getCachedWeather, setCachedWeather } from '@/react-app/services/weatherCache';
+import { calculateSegmentETA, resolveSegmentCoordinates } from '@/react-app/utils/etaCalculations';
+import {
+  buildSweatRateModel,
+  calculateSweatRate,
+  getHydrationGoals,
+  INTENSITY_LEVELS,
+} from '@/react-app/utils/sweatRateModel';
+
+interface SweatRatePanelProps {
+  race: Race;
+  segments: Segment[];
+  onApplyGoals: (goals: Map<number, { water_goal_per_hour: number; sodium_goal_per_hour: number }>) => Promise<void>;
+}
+
+const inputClass =
+  'w-full px-2 py-1.5 text-sm bg-white dark:bg-[#2d3548] coloursplash:bg-white border border-gray-300 dark:border-gray-600 coloursplash:border-splash-border rounded text-gray-900 dark:text-white coloursplash:text-splash-text-primary';
+const labelClass = 'block text-xs text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary mb-1';
+
+const EMPTY_FORM = {
+  date: new Date().toISOString().slice(0, 10),
+  durationMinutes: '',
+  preWeightKg: '',
+  postWeightKg: '',
+  fluidInMl: '',
+  urineMl: '',
+  temperatureC: '',
+  intensity: 'moderate' as SweatTestIntensity,
+  sweatSodiumMgPerL: '',
+};
+
+export default function SweatRatePanel({ race, segments, onApplyGoals }: SweatRatePanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [tests, setTests] = useState<SweatTest[]>(() => localStorageService.getSweatTests());
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [raceIntensity, setRaceIntensity] = useState<SweatTestIntensity>('moderate');
+  const [fallbackTemperatureC, setFallbackTemperatureC] = useState(15);
+  const [forecastTemperatures, setForecastTemperatures] = useState<Array<number | null>>([]);
+  const [isLoadingForecast, setIsLoadingForecast] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const model = useMemo(() => buildSweatRateModel(tests), [tests]);
+
+  // Leg temperature: mean of the forecasts at both ends, or the fallback without any
+  const legs = useMemo(() => segments.map((segment, index) => {
+    const ends = [index > 0 ? forecastTemperatures[index - 1] : null, forecastTemperatures[index]]
+      .filter((t): t is number => t != null);
+    const temperatureC = ends.length > 0 ? ends.reduce((sum, t) => sum + t, 0) / ends.length : fallbackTemperatureC;
+    return {
+      segment,
+      temperatureC,
+      forecast: ends.length > 0,
+      goals: model ? getHydrationGoals(model, temperatureC, raceIntensity) : null,
+    };
+  }), [segments, forecastTemperatures, fallbackTemperatureC, model, raceIntensity]);
+
+  const formValid = ['durationMinutes', 'preWeightKg', 'postWeightKg', 'fluidInMl', 'temperatureC']
+    .every(field => form[field as keyof typeof form] !== '' && !isNaN(parseFloat(form[field as keyof typeof form])));
+
+  const handleAddTest = () => {
+    if (!formValid) return;
+    const test: SweatTest = {
+      id: `sweat-${Date.now()}`,
+      date: form.date,
+      durationMinutes: parseFloat(form.durationMinutes),
+      preWeightKg: parseFloat(form.preWeightKg),
+      postWeightKg: parseFloat(form.postWeightKg),
+      fluidInMl: parseFloat(form.fluidInMl),
+      urineMl: form.urineMl ? parseFloat(form.urineMl) : undefined,
+      temperatureC: parseFloat(form.temperatureC),
+      intensity: form.intensity,
+      sweatSodiumMgPerL: form.sweatSodiumMgPerL ? parseFloat(form.sweatSodiumMgPerL) : undefined,
+      createdAt: new Date().toISOString(),
+    };
+    if (calculateSweatRate(test) === null) {
+      alert('This test gives no sweat loss. Check the weights and fluid drunk.');
+      return;
+    }
+    localStorageService.saveSweatTest(test);
+    setTests(localStorageService.getSweatTests());
+    setForm(EMPTY_FORM);
+    setShowForm(false);
+  };
+
+  const handleDeleteTest = (testId: string) => {
+    localStorageService.deleteSweatTest(testId);
+    setTests(localStorageService.getSweatTests());
+  };
+
+  const handleLoadForecast = async () => {
+    if (!race.start_date_time) return;
+    setIsLoadingForecast(true);
+
+    const raceStart = new Date(race.start_date_time);
+    const temperatures: Array<number | null> = [];
+
+    // One checkpoint at a time; the cache makes repeat loads instant
+    for (let index = 0; index < segments.length; index++) {
+      const eta = calculateSegmentETA(race.start_date_time, segments, index, race.timezone, race.stages);
+      const coordinates = resolveSegmentCoordinates(segments, index);
+      if (!eta || !coordinates) {
+        temperatures.push(null);
+        continue;
+      }
+
+      try {
+        const cacheKey = getWeatherCacheKey(coordinates.latitude, coordinates.longitude, eta.eta);
+        let weather = getCachedWeather(cacheKey);
+        if (!weather) {
+          weather = await fetchCheckpointWeather(coordinates.latitude, coordinates.longitude, eta.eta, raceStart, race.timezone);
+          setCachedWeather(cacheKey, weather);
+        }
+        temperatures.push(weather.available && weather.data ? weather.data.temperature : null);
+      } catch (error) {
+        console.error('Error loading weather:', error);
+        temperatures.push(null);
+      }
+    }
+
+    setForecastTemperatures(temperatures);
+    setIsLoadingForecast(false);
+  };
+
+  const handleApply = async () => {
+    const goals = new Map<number, { water_goal_per_hour: number; sodium_goal_per_hour: number }>();
+    for (const leg of legs) {
+      if (leg.segment.id != null && leg.goals) {
+        goals.set(leg.segment.id, {
+          water_goal_per_hour: leg.goals.waterGoalPerHour,
+          sodium_goal_per_hour: leg.goals.sodiumGoalPerHour,
+        });
+      }
+    }
+
+    setIsApplying(true);
+    try {
+      await onApplyGoals(goals);
+    } catch (error) {
+      console.error('Failed to apply hydration goals:', error);
+      alert('Failed to apply hydration goals. Please try again.');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const forecastCount = forecastTemperatures.filter(t => t != null).length;
+
+  return (
+    <div className="mb-8 bg-white dark:bg-[#2d3548] coloursplash:bg-white rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 coloursplash:border-splash-border p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white coloursplash:text-splash-text-primary flex items-center gap-2">
+            <Droplets className="w-5 h-5" />
+            Sweat Rate & Hydration
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 coloursplash:text-splash-text-secondary">
+            {model
+              ? `Personal model from ${model.testCount} sweat ${model.testCount === 1 ? 'test' : 'tests'}: ~${getHydrationGoals(model, 20, 'moderate').sweatRateMlPerHour} ml/hr at 20°C, moderate effort`
+              : 'Log sweat tests from training runs to set water and sodium goals from your own sweat rate.'}
+          </p>
+        </div>
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="inline-flex items-center gap-1 px-3 py-1.5 text-sm font-medium bg-blue-500 hover:bg-blue-600 coloursplash:bg-splash-azure text-white rounded-lg transition-all"
+        >
+          {isExpanded ? 'Hide' : 'Sweat tests'}
+          {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="mt-4 space-y-5">
+          {/* Logged tests */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-sm font-semibold text-gray-800 dark:text-gray-200 coloursplash:text-splash-text-primary">Sweat tests</h4>
+              {!showForm && (
+                <button
+                  onClick={() => setShowForm(true)}
+                  className="inline-flex items-center gap-1 px-2 py-1 text-sm text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-primary hover:bg-gray-100 dark:hover:bg-[#333c52] rounded-lg transition-all"
+                >
+                  <Plus className="w-4 h-4" />
+                  Log test
+                </button>
+              )}
+            </div>
+
+            {showForm && (
+              <div className="p-4 mb-3 bg-gray-50 dark:bg-[#1e2639] coloursplash:bg-splash-bg-subtle rounded-lg border border-gray-200 dark:border-gray-700 coloursplash:border-splash-border">
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                  <div>
+                    <label className={labelClass}>Date</label>
+                    <input type="date" value={form.date} onChange={(e) => setForm({ ...form, date: e.target.value })} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Duration (min)</label>
+                    <input type="number" min={1} value={form.durationMinutes} onChange={(e) => setForm({ ...form, durationMinutes: e.target.value })} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Weight before (kg)</label>
+                    <input type="number" step={0.1} value={form.preWeightKg} onChange={(e) => setForm({ ...form, preWeightKg: e.target.value })} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Weight after (kg)</label>
+                    <input type="number" step={0.1} value={form.postWeightKg} onChange={(e) => setForm({ ...form, postWeightKg: e.target.value })} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Fluid drunk (ml)</label>
+                    <input type="number" min={0} value={form.fluidInMl} onChange={(e) => setForm({ ...form, fluidInMl: e.target.value })} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Urine (ml, optional)</label>
+                    <input type="number" min={0} value={form.urineMl} onChange={(e) => setForm({ ...form, urineMl: e.target.value })} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Temperature (°C)</label>
+                    <input type="number" value={form.temperatureC} onChange={(e) => setForm({ ...form, temperatureC: e.target.value })} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Intensity</label>
+                    <select value={form.intensity} onChange={(e) => setForm({ ...form, intensity: e.target.value as SweatTestIntensity })} className={inputClass}>
+                      {INTENSITY_LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className={labelClass}>Sweat sodium (mg/L, optional)</label>
+                    <input type="number" min={0} value={form.sweatSodiumMgPerL} onChange={(e) => setForm({ ...form, sweatSodiumMgPerL: e.target.value })} className={inputClass} />
+                  </div>
+                </div>
+                <div className="flex justify-end gap-2 mt-3">
+                  <button
+                    onClick={() => { setShowForm(false); setForm(EMPTY_FORM); }}
+                    className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-[#333c52] rounded-lg transition-all"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleAddTest}
+                    disabled={!formValid}
+                    className="px-3 py-1.5 text-sm font-medium bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Save test
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {tests.length > 0 ? (
+              <ul className="divide-y divide-gray-100 dark:divide-gray-700/50 text-sm">
+                {tests.map(test => {
+                  const rate = calculateSweatRate(test);
+                  return (
+                    <li key={test.id} className="flex items-center justify-between py-2 text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-secondary">
+                      <span>
+                        {test.date} • {test.durationMinutes} min • {test.temperatureC}°C • {test.intensity}
+                        {test.sweatSodiumMgPerL ? ` • ${test.sweatSodiumMgPerL} mg/L sodium` : ''}
+                      </span>
+                      <span className="flex items-center gap-3">
+                        <span className="font-semibold text-gray-900 dark:text-white coloursplash:text-splash-text-primary">
+                          {rate !== null ? `${Math.round(rate)} ml/hr` : '—'}
+                        </span>
+                        <button
+                          onClick={() => handleDeleteTest(test.id)}
+                          className="p-1 text-gray-400 hover:text-red-500 rounded transition-all"
+                          aria-label={`Delete sweat test from ${test.date}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            ) : (
+              !showForm && (
+                <p className="text-sm text-gray-500 dark:text-gray-400 coloursplash:text-splash-text-muted">
+                  Weigh yourself nude before and after a run of at least an hour, and note everything you drank.
+                </p>
+              )
+            )}
+
+            {model && (
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400 coloursplash:text-splash-text-muted">
+                {model.temperatureFitted
+                  ? `+${Math.round(model.temperatureSlope)} ml/hr per °C from your tests`
+                  : `Typical +${model.temperatureSlope} ml/hr per °C (log tests in different temperatures to personalise)`}
+                {' • '}
+                {model.intensityFitted
+                  ? `+${Math.round(model.intensitySlope)} ml/hr per effort level from your tests`
+                  : 'typical effect of effort'}
+                {' • '}
+                {model.sodiumMeasured ? `${Math.round(model.sweatSodiumMgPerL)} mg/L sweat sodium` : 'typical 950 mg/L sweat sodium'}
+                {model.rSquared !== null && ` • R² ${model.rSquared.toFixed(2)}`}
+              </p>
+            )}
+          </div>
+
+          {/* Per-segment goals */}
+          {model && (
+            <div>
+              <div className="flex flex-wrap items-end gap-3 mb-3">
+                <div>
+                  <label className={labelClass}>Race effort</label>
+                  <select value={raceIntensity} onChange={(e) => setRaceIntensity(e.target.value as SweatTestIntensity)} className={inputClass}>
+                    {INTENSITY_LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Temperature without a forecast (°C)</label>
+                  <input
+                    type="number"
+                    value={fallbackTemperatureC}
+                    onChange={(e) => setFallbackTemperatureC(parseFloat(e.target.value) || 0)}
+                    className={`${inputClass} w-24`}
+                  />
+                </div>
+                <button
+                  onClick={handleLoadForecast}
+                  disabled={isLoadingForecast || !race.start_date_time}
+                  title={!race.start_date_time ? 'Set a race start time first' : undefined}
+                  className="inline-flex items-center gap-1 px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-primary border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-[#333c52] rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <CloudSun className="w-4 h-4" />
+                  {isLoadingForecast ? 'Loading forecast...' : 'Use forecast at ETAs'}
+                </button>
+                {forecastTemperatures.length > 0 && (
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    Forecast for {forecastCount} of {segments.length} checkpoints
+                  </span>
+                )}
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500 dark:text-gray-400 coloursplash:text-splash-text-muted border-b border-gray-200 dark:border-gray-700 coloursplash:border-splash-border">
+                      <th className="py-2 pr-3 font-medium">Leg to</th>
+                      <th className="py-2 pr-3 font-medium text-right">Temp</th>
+                      <th className="py-2 pr-3 font-medium text-right">Sweat rate</th>
+                      <th className="py-2 pr-3 font-medium text-right">Water goal</th>
+                      <th className="py-2 font-medium text-right">Sodium goal</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {legs.map(({ segment, temperatureC, forecast, goals }, index) => (
+                      <tr key={segment.id ?? index} className="border-b border-gray-100 dark:border-gray-700/50 coloursplash:border-splash-border">
+                        <td className="py-2 pr-3 text-gray-900 dark:text-white coloursplash:text-splash-text-primary">{segment.checkpoint_name}</td>
+                        <td className={`py-2 pr-3 text-right ${forecast ? 'text-gray-700 dark:text-gray-300' : 'text-gray-400'}`}>
+                          {temperatureC.toFixed(0)}°C
+                        </td>
+                        <td className="py-2 pr-3 text-right text-gray-700 dark:text-gray-300">{goals?.sweatRateMlPerHour} ml/hr</td>
+                        <td className="py-2 pr-3 text-right text-gray-700 dark:text-gray-300">
+                          {segment.water_goal_per_hour != null && segment.water_goal_per_hour !== goals?.waterGoalPerHour && (
+                            <span className="text-gray-400 line-through mr-1">{segment.water_goal_per_hour}</span>
+                          )}
+                          {goals?.waterGoalPerHour} ml/hr
+                        </td>
+                        <td className="py-2 text-right text-gray-700 dark:text-gray-300">
+                          {segment.sodium_goal_per_hour != null && segment.sodium_goal_per_hour !== goals?.sodiumGoalPerHour && (
+                            <span className="text-gray-400 line-through mr-1">{segment.sodium_goal_per_hour}</span>
+                          )}
+                          {goals?.sodiumGoalPerHour} mg/hr
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex flex-wrap items-center justify-between gap-2 mt-3">
+                <p className="text-xs text-gray-500 dark:text-gray-400 coloursplash:text-splash-text-muted">
+                  Goals replace about 75% of sweat losses (up to 1 L/hr) and 60% of sodium.
+                </p>
+                <button
+                  onClick={handleApply}
+                  disabled={isApplying}
+                  className="px-3 py-1.5 text-sm font-medium bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isApplying ? 'Applying...' : 'Apply goals to all checkpoints'}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
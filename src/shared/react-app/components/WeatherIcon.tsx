@@ -20,9 +20,10 @@ interface WeatherIconProps {
   segment: Segment;
   eta: Date;
   raceStartTime: string;
+  timezone?: string | null;
 }
 
-export default function WeatherIcon({ segment, eta, raceStartTime }: WeatherIconProps) {
+export default function WeatherIcon({ segment, eta, raceStartTime, timezone }: WeatherIconProps) {
   const [weather, setWeather] = useState<WeatherStatus | null>(null);
   const [loading, setLoading] = useState(true);
 
@@ -71,7 +72,8 @@ export default function WeatherIcon({ segment, eta, raceStartTime }: WeatherIcon
           segment.latitude,
           segment.longitude,
           eta,
-          raceStart
+          raceStart,
+          timezone
         );
 
         // Cache the result
@@ -90,7 +92,7 @@ export default function WeatherIcon({ segment, eta, raceStartTime }: WeatherIcon
     }
 
     loadWeather();
-  }, [segment.latitude, segment.longitude, eta, raceStartTime]);
+  }, [segment.latitude, segment.longitude, eta, raceStartTime, timezone]);
 
   // Loading state
   if (loading) {
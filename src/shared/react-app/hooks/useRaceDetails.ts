@@ -1,7 +1,9 @@
 import { useEffect, useState } from 'react';
 import { localStorageService } from '@/react-app/services/localStorage';
-import type { Race, Segment, ElevationLabel } from '@/shared/types';
+import type { Race, Segment, ElevationLabel, Stage } from '@/shared/types';
 import { getCoordinatesFromGPX, coordinatesToPlusCode } from '@/react-app/utils/plusCodes';
+import type { ProposedSegment } from '@/react-app/utils/gpxWaypoints';
+import { fillGPXElevationFromDEM, loadDEMTiles } from '@/react-app/utils/demTiles';
 
 export function useRaceDetails(raceId: string) {
   const [race, setRace] = useState<Race | null>(null);
@@ -26,7 +28,8 @@ export function useRaceDetails(raceId: string) {
   };
 
   useEffect(() => {
-    fetchRaceDetails();
+    // Read offline terrain first so the elevation profile is corrected against it
+    loadDEMTiles().then(fetchRaceDetails);
   }, [raceId]);
 
   const updateRace = async (updates: {
@@ -39,6 +42,8 @@ export function useRaceDetails(raceId: string) {
     mandatory_kit?: string | null;
     logo_url?: string | null;
     fit_comparison_file_key?: string | null;
+    awake_hours_at_start?: number | null;
+    bib_number?: string | null;
   }) => {
     try {
       const updated = localStorageService.updateRace(parseInt(raceId), updates);
@@ -120,6 +125,28 @@ export function useRaceDetails(raceId: string) {
     }
   };
 
+  // Create several checkpoints at once (e.g. from GPX waypoints), appended after existing ones
+  const createSegments = async (proposed: ProposedSegment[]) => {
+    try {
+      const created: Segment[] = [];
+      proposed.forEach((data, index) => {
+        created.push(localStorageService.createSegment({
+          race_id: parseInt(raceId),
+          checkpoint_name: data.checkpoint_name,
+          segment_distance_miles: data.segment_distance_miles,
+          segment_order: segments.length + index,
+          plusCode: data.plusCode,
+          latitude: data.latitude,
+          longitude: data.longitude,
+        }));
+      });
+      setSegments([...segments, ...created]);
+    } catch (error) {
+      console.error('Failed to create segments:', error);
+      throw error;
+    }
+  };
+
   const updateSegment = async (segmentId: number, updates: {
     checkpoint_name?: string;
     segment_distance_miles?: number;
@@ -132,6 +159,13 @@ export function useRaceDetails(raceId: string) {
     map_reference?: string;
     cutoff_time?: string;
     checkpoint_time_minutes?: number;
+    sleep_minutes?: number | null;
+    drop_bag?: boolean | null;
+    drop_bag_items?: string | null;
+    crew_drive_minutes?: number | null;
+    crew_drive_miles?: number | null;
+    crew_handover?: string | null;
+    crew_notes?: string | null;
     support_crew_present?: boolean;
     support_crew_names?: string;
     support_crew_members?: string;
@@ -159,7 +193,14 @@ export function useRaceDetails(raceId: string) {
 
   const uploadGPX = async (file: File) => {
     try {
-      await localStorageService.setGPXFile(parseInt(raceId), file);
+      // Fill in missing elevation from stored DEM tiles before the file is normalized
+      const { content, filled } = await fillGPXElevationFromDEM(await file.text());
+      const gpxFile = filled > 0 ? new File([content], file.name, { type: file.type }) : file;
+      if (filled > 0) {
+        console.log(`[GPX] Filled elevation for ${filled} points from DEM tiles`);
+      }
+
+      await localStorageService.setGPXFile(parseInt(raceId), gpxFile);
       await fetchRaceDetails(); // Refresh to show updated GPX file key
       // Regenerate Plus Codes for existing segments after GPX upload
       await regeneratePlusCodes();
@@ -169,6 +210,136 @@ export function useRaceDetails(raceId: string) {
     }
   };
 
+  const createRouteVariant = async (name: string, copyCheckpoints: boolean) => {
+    try {
+      const variant = localStorageService.createRouteVariant(parseInt(raceId), name, copyCheckpoints);
+      if (variant) {
+        // New variants open straight away so their GPX can be uploaded
+        localStorageService.switchRouteVariant(parseInt(raceId), variant.id);
+      }
+      fetchRaceDetails();
+      return variant;
+    } catch (error) {
+      console.error('Failed to create route variant:', error);
+      throw error;
+    }
+  };
+
+  const switchRouteVariant = async (variantId: number) => {
+    try {
+      localStorageService.switchRouteVariant(parseInt(raceId), variantId);
+      fetchRaceDetails();
+    } catch (error) {
+      console.error('Failed to switch route variant:', error);
+      throw error;
+    }
+  };
+
+  const renameRouteVariant = async (variantId: number, name: string) => {
+    try {
+      const updated = localStorageService.renameRouteVariant(parseInt(raceId), variantId, name);
+      if (updated) {
+        setRace(updated);
+      }
+    } catch (error) {
+      console.error('Failed to rename route variant:', error);
+      throw error;
+    }
+  };
+
+  const deleteRouteVariant = async (variantId: number) => {
+    try {
+      const updated = localStorageService.deleteRouteVariant(parseInt(raceId), variantId);
+      if (updated) {
+        setRace(updated);
+      }
+    } catch (error) {
+      console.error('Failed to delete route variant:', error);
+      throw error;
+    }
+  };
+
+  const updateStages = async (stages: Stage[] | null, stageIds: Map<number, number>) => {
+    try {
+      localStorageService.setRaceStages(parseInt(raceId), stages, stageIds);
+      fetchRaceDetails();
+    } catch (error) {
+      console.error('Failed to update stages:', error);
+      throw error;
+    }
+  };
+
+  const updateSegmentNutrition = async (itemsBySegmentId: Map<number, string>) => {
+    try {
+      localStorageService.createPlanSnapshot(parseInt(raceId), 'Before race nutrition plan', 'auto');
+      itemsBySegmentId.forEach((items, segmentId) => {
+        localStorageService.updateSegment(segmentId, { segment_nutrition_items: items });
+      });
+      fetchRaceDetails();
+    } catch (error) {
+      console.error('Failed to update segment nutrition:', error);
+      throw error;
+    }
+  };
+
+  const updateHydrationGoals = async (goals: Map<number, { water_goal_per_hour: number; sodium_goal_per_hour: number }>) => {
+    try {
+      localStorageService.createPlanSnapshot(parseInt(raceId), 'Before sweat-rate hydration goals', 'auto');
+      goals.forEach((segmentGoals, segmentId) => {
+        localStorageService.updateSegment(segmentId, segmentGoals);
+      });
+      fetchRaceDetails();
+    } catch (error) {
+      console.error('Failed to update hydration goals:', error);
+      throw error;
+    }
+  };
+
+  const updateCrewDrives = async (drives: Map<number, { crew_drive_minutes: number; crew_drive_miles: number }>) => {
+    try {
+      localStorageService.createPlanSnapshot(parseInt(raceId), 'Before crew drive estimates', 'auto');
+      drives.forEach((drive, segmentId) => {
+        localStorageService.updateSegment(segmentId, drive);
+      });
+      fetchRaceDetails();
+    } catch (error) {
+      console.error('Failed to update crew drives:', error);
+      throw error;
+    }
+  };
+
+  // New predicted times for the remaining legs, set through the pace each leg uses
+  const recalibrateSegments = async (times: Map<number, number>) => {
+    try {
+      localStorageService.createPlanSnapshot(parseInt(raceId), 'Before mid-race recalibration', 'auto');
+      times.forEach((minutes, segmentId) => {
+        const segment = segments.find(s => s.id === segmentId);
+        if (!segment || segment.segment_distance_miles <= 0) return;
+
+        // The predicted time follows from the pace
+        const pace = minutes / segment.segment_distance_miles;
+        localStorageService.updateSegment(segmentId, segment.use_auto_pace && segment.auto_derived_pace
+          ? { auto_derived_pace: pace }
+          : { custom_pace_min_per_mile: pace });
+      });
+      fetchRaceDetails();
+    } catch (error) {
+      console.error('Failed to recalibrate segments:', error);
+      throw error;
+    }
+  };
+
+  // Whole plan, or only the given checkpoints
+  const restorePlanSnapshot = async (snapshotId: string, segmentIds?: number[]) => {
+    try {
+      localStorageService.restorePlanSnapshot(parseInt(raceId), snapshotId, segmentIds);
+      fetchRaceDetails();
+    } catch (error) {
+      console.error('Failed to restore plan snapshot:', error);
+      throw error;
+    }
+  };
+
   const createElevationLabel = async (data: { distance_miles: number; label: string }) => {
     try {
       const newLabel = localStorageService.createElevationLabel({
@@ -265,9 +436,20 @@ export function useRaceDetails(raceId: string) {
     loading,
     updateRace,
     createSegment,
+    createSegments,
     updateSegment,
     deleteSegment,
     uploadGPX,
+    createRouteVariant,
+    switchRouteVariant,
+    renameRouteVariant,
+    deleteRouteVariant,
+    updateStages,
+    updateSegmentNutrition,
+    updateHydrationGoals,
+    updateCrewDrives,
+    recalibrateSegments,
+    restorePlanSnapshot,
     createElevationLabel,
     updateElevationLabel,
     deleteElevationLabel,
@@ -3,11 +3,16 @@ import { createRoot } from "react-dom/client";
 import { HelmetProvider } from "react-helmet-async";
 import "@/react-app/index.css";
 import App from "@/react-app/App.tsx";
+import { localStorageService } from "@/react-app/services/localStorage";
 
-createRoot(document.getElementById("root")!).render(
-  <StrictMode>
-    <HelmetProvider>
-      <App />
-    </HelmetProvider>
-  </StrictMode>
-);
+// Race data is read synchronously by hooks and components, so load it from
+// IndexedDB (and run migrations) before the first render
+localStorageService.init().finally(() => {
+  createRoot(document.getElementById("root")!).render(
+    <StrictMode>
+      <HelmetProvider>
+        <App />
+      </HelmetProvider>
+    </StrictMode>
+  );
+});
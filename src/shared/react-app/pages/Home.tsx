@@ -6,7 +6,8 @@ import { useRaces } from '@/react-app/hooks/useRaces';
 import RaceCard from '@/react-app/components/RaceCard';
 import CreateRaceModal from '@/react-app/components/CreateRaceModal';
 import Footer from '@/react-app/components/Footer';
-import { importFromJSON, createRaceFromImport } from '@/react-app/utils/importRace';
+import ImportReviewModal from '@/react-app/components/ImportReviewModal';
+import { importFromJSON, createRaceFromImport, replaceRaceFromImport, type RaceImportPreview } from '@/react-app/utils/importRace';
 import { SAMPLE_RACES } from '@/react-app/utils/sampleData';
 
 export default function Home() {
@@ -14,6 +15,7 @@ export default function Home() {
   const { races, loading, createRace, deleteRace, refreshRaces } = useRaces();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  const [importPreview, setImportPreview] = useState<RaceImportPreview | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Load sample data on first app launch
@@ -52,10 +54,14 @@ export default function Home() {
 
     setIsImporting(true);
     try {
-      const importedData = await importFromJSON(file);
-      const createdRace = await createRaceFromImport(importedData);
-      await refreshRaces();
-      navigate(`/race/${createdRace.id}`);
+      const preview = await importFromJSON(file);
+
+      // Clean files with no name clash import straight away; otherwise let the user review
+      if (preview.issues.length === 0 && !preview.conflictingRace) {
+        await completeImport(preview, 'new');
+      } else {
+        setImportPreview(preview);
+      }
     } catch (error) {
       alert(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
@@ -67,6 +73,22 @@ export default function Home() {
     }
   };
 
+  const completeImport = async (preview: RaceImportPreview, mode: 'new' | 'replace') => {
+    setIsImporting(true);
+    try {
+      const race = mode === 'replace' && preview.conflictingRace?.id
+        ? await replaceRaceFromImport(preview.conflictingRace.id, preview.data)
+        : await createRaceFromImport(preview.data);
+      setImportPreview(null);
+      await refreshRaces();
+      navigate(`/race/${race.id}`);
+    } catch (error) {
+      alert(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex flex-col items-center justify-center min-h-screen bg-gray-50 dark:bg-[#1e2639] coloursplash:bg-splash-bg-page">
@@ -195,6 +217,14 @@ export default function Home() {
           )}
         </div>
 
+        <ImportReviewModal
+          preview={importPreview}
+          isImporting={isImporting}
+          onClose={() => setImportPreview(null)}
+          onImportAsNew={() => importPreview && completeImport(importPreview, 'new')}
+          onReplaceExisting={() => importPreview && completeImport(importPreview, 'replace')}
+        />
+
         <CreateRaceModal
           isOpen={isModalOpen}
           onClose={() => setIsModalOpen(false)}
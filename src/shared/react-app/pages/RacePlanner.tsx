@@ -1,15 +1,17 @@
 import { useParams, useNavigate } from 'react-router';
 import { Helmet } from 'react-helmet-async';
-import { ArrowLeft, Edit2, Save, X, Download, User, Phone, Calendar, ChevronDown, ChevronUp, Info, Upload } from 'lucide-react';
-import { useState, useEffect, useRef } from 'react';
+import { ArrowLeft, Edit2, Save, X, Download, User, Phone, Calendar, ChevronDown, ChevronUp, Info, Upload, Timer } from 'lucide-react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { useRaceDetails } from '@/react-app/hooks/useRaceDetails';
 import SegmentForm from '@/react-app/components/SegmentForm';
 import SegmentList from '@/react-app/components/SegmentList';
 import ElevationChart from '@/react-app/components/ElevationChart';
 import GPXMapViewer from '@/react-app/components/GPXMapViewer';
 import Footer from '@/react-app/components/Footer';
-import { exportToJSON, exportToCSV, exportToPDF } from '@/react-app/utils/exportRace';
+import { exportToJSON, exportToCSV, exportToPDF, exportToGPX, exportToFITCourse } from '@/react-app/utils/exportRace';
 import { formatRaceStartTime, getUserTimezone } from '@/react-app/utils/etaCalculations';
+import { resolveTimeZone, toZonedDateTimeInput, zonedDateTimeToUtc } from '@/react-app/utils/timezone';
+import { analyzeCutoffs, getCutoffWarningMinutes, setCutoffWarningMinutes as saveCutoffWarningMinutes } from '@/react-app/utils/cutoffAnalysis';
 import { useUnit } from '@/react-app/contexts/UnitContext';
 import { formatDistance, getDistanceUnitName, inputToMiles } from '@/react-app/utils/unitConversions';
 import { Tooltip } from '@/react-app/components/Tooltip';
@@ -19,19 +21,36 @@ import GPSDeviceDisplay from '@/react-app/components/GPSDeviceDisplay';
 import RaceComparisonDashboard from '@/react-app/components/RaceComparisonDashboard';
 import { AutoPaceSetup } from '@/react-app/components/AutoPaceSetup';
 import RaceTimeSummaryPanel from '@/react-app/components/RaceTimeSummaryPanel';
+import RaceSimulationPanel from '@/react-app/components/RaceSimulationPanel';
 import { calculateRaceTimeSummary } from '@/react-app/utils/raceTimeSummary';
+import { calculateStageSummaries } from '@/react-app/utils/stageCalculations';
+import { calculateSleepDebt, DEFAULT_AWAKE_HOURS_AT_START, getSleepDebtPoints } from '@/react-app/utils/sleepStrategy';
 import EccentricLoadSummary from '@/react-app/components/EccentricLoadSummary';
 import EnergyBalancePanel from '@/react-app/components/EnergyBalancePanel';
+import CheckpointProposalModal from '@/react-app/components/CheckpointProposalModal';
+import RouteVariantPanel from '@/react-app/components/RouteVariantPanel';
+import PlanHistoryPanel from '@/react-app/components/PlanHistoryPanel';
+import StageEditor from '@/react-app/components/StageEditor';
+import SleepStrategyPanel from '@/react-app/components/SleepStrategyPanel';
+import RaceNutritionOptimizerPanel from '@/react-app/components/RaceNutritionOptimizerPanel';
+import SweatRatePanel from '@/react-app/components/SweatRatePanel';
+import DropBagPanel from '@/react-app/components/DropBagPanel';
+import CrewItineraryPanel from '@/react-app/components/CrewItineraryPanel';
+import RaceDayPanel from '@/react-app/components/RaceDayPanel';
+import MidRaceRecalibrationPanel from '@/react-app/components/MidRaceRecalibrationPanel';
+import { proposeCheckpointsFromGPX, proposalsToSegments, type CheckpointProposal, type CheckpointProposalSet } from '@/react-app/utils/gpxWaypoints';
 
 export default function RacePlanner() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { useMiles } = useUnit();
-  const { race, segments, elevationLabels, loading, updateRace, createSegment, updateSegment, deleteSegment, uploadGPX, regeneratePlusCodes, refresh } = useRaceDetails(id!);
+  const { race, segments, elevationLabels, loading, updateRace, createSegment, createSegments, updateSegment, deleteSegment, uploadGPX, regeneratePlusCodes, refresh, createRouteVariant, switchRouteVariant, renameRouteVariant, deleteRouteVariant, updateStages, updateSegmentNutrition, updateHydrationGoals, updateCrewDrives, recalibrateSegments, restorePlanSnapshot } = useRaceDetails(id!);
   const [isEditing, setIsEditing] = useState(false);
   const [editName, setEditName] = useState('');
   const [editDistance, setEditDistance] = useState('');
   const [showExportMenu, setShowExportMenu] = useState(false);
+  // Race-day mode opens by itself once anything has been logged for this race
+  const [isRaceDayMode, setIsRaceDayMode] = useState(() => localStorageService.getRaceDayLog(parseInt(id!)).entries.length > 0);
   const [isEditingEmergency, setIsEditingEmergency] = useState(false);
   const [emergencyName, setEmergencyName] = useState('');
   const [emergencyPhone, setEmergencyPhone] = useState('');
@@ -47,6 +66,10 @@ export default function RacePlanner() {
   const [customKitItem, setCustomKitItem] = useState('');
   const [addingCustomItem, setAddingCustomItem] = useState(false);
 
+  // Checkpoints proposed from GPX waypoints, awaiting review
+  const [checkpointProposals, setCheckpointProposals] = useState<CheckpointProposalSet | null>(null);
+  const [isCreatingCheckpoints, setIsCreatingCheckpoints] = useState(false);
+
   // FIT file upload ref
   const fitFileInputRef = useRef<HTMLInputElement>(null);
 
@@ -54,6 +77,9 @@ export default function RacePlanner() {
   const [showFatigueCurve, setShowFatigueCurve] = useState(false);
   const [fatigueRate, setFatigueRate] = useState(3.0); // Default 3% per 10 miles
 
+  // Cut-off warning band - shared between SegmentList and RaceTimeSummaryPanel
+  const [cutoffWarningMinutes, setCutoffWarningMinutes] = useState<number>(getCutoffWarningMinutes);
+
   // Automatically regenerate Plus Codes when segments are loaded and don't have Plus Codes
   useEffect(() => {
     if (!loading && race && race.gpx_file_key && segments.length > 0) {
@@ -96,6 +122,11 @@ export default function RacePlanner() {
     };
   }, [race]);
 
+  const cutoffReport = useMemo(
+    () => race ? analyzeCutoffs(race.start_date_time, segments, race.timezone, cutoffWarningMinutes, race.stages) : null,
+    [race, segments, cutoffWarningMinutes]
+  );
+
   if (loading || !race) {
     return (
       <div className="flex items-center justify-center min-h-screen bg-white dark:bg-[#1e2639] coloursplash:bg-splash-bg-page">
@@ -169,12 +200,8 @@ export default function RacePlanner() {
 
     // Set timing fields
     if (race.start_date_time) {
-      // Convert ISO string to datetime-local format (YYYY-MM-DDTHH:mm)
-      const date = new Date(race.start_date_time);
-      const localDateTime = new Date(date.getTime() - date.getTimezoneOffset() * 60000)
-        .toISOString()
-        .slice(0, 16);
-      setEditStartDateTime(localDateTime);
+      // Convert ISO string to datetime-local format (YYYY-MM-DDTHH:mm) in the race timezone
+      setEditStartDateTime(toZonedDateTimeInput(new Date(race.start_date_time), resolveTimeZone(race.timezone)));
     } else {
       setEditStartDateTime('');
     }
@@ -190,7 +217,7 @@ export default function RacePlanner() {
     await updateRace({
       name: editName,
       distance_miles: distanceInMiles,
-      start_date_time: editStartDateTime ? new Date(editStartDateTime).toISOString() : null,
+      start_date_time: editStartDateTime ? zonedDateTimeToUtc(editStartDateTime, resolveTimeZone(editTimezone)).toISOString() : null,
       timezone: editTimezone || null,
       logo_url: editLogoUrl || null,
     });
@@ -213,19 +240,35 @@ export default function RacePlanner() {
     setIsEditingEmergency(true);
   };
 
-  const handleExport = async (format: 'json' | 'csv' | 'pdf') => {
+  const handleExport = async (format: 'json' | 'csv' | 'pdf' | 'gpx' | 'gpx-legs' | 'gpx-watch' | 'fit-course') => {
     if (!race) return;
 
-    switch (format) {
-      case 'json':
-        exportToJSON(race, segments, elevationLabels);
-        break;
-      case 'csv':
-        exportToCSV(race, segments);
-        break;
-      case 'pdf':
-        await exportToPDF(race, segments, elevationLabels);
-        break;
+    try {
+      switch (format) {
+        case 'json':
+          exportToJSON(race, segments, elevationLabels);
+          break;
+        case 'csv':
+          exportToCSV(race, segments);
+          break;
+        case 'pdf':
+          await exportToPDF(race, segments, elevationLabels);
+          break;
+        case 'gpx':
+          exportToGPX(race, segments);
+          break;
+        case 'gpx-legs':
+          exportToGPX(race, segments, { splitByCheckpoint: true });
+          break;
+        case 'gpx-watch':
+          exportToGPX(race, segments, { maxTrackPoints: 2000 });
+          break;
+        case 'fit-course':
+          exportToFITCourse(race, segments);
+          break;
+      }
+    } catch (error) {
+      alert(`Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
     setShowExportMenu(false);
   };
@@ -305,12 +348,41 @@ export default function RacePlanner() {
     setFatigueRate(rate);
   };
 
+  const handleCutoffWarningChange = (minutes: number) => {
+    setCutoffWarningMinutes(minutes);
+    saveCutoffWarningMinutes(minutes);
+  };
+
   // GPX upload handler with tracking
   const handleGPXUpload = async (file: File) => {
+    // Read waypoints from the original file - normalization on upload strips them
+    const originalContent = await file.text();
     await uploadGPX(file);
+
+    const proposalSet = proposeCheckpointsFromGPX(originalContent);
+    if (proposalSet && proposalSet.waypointCount > 0) {
+      setCheckpointProposals(proposalSet);
+    }
     // Track GPX upload for admin usage analytics
   };
 
+  const lastCheckpointDistance = segments.length > 0
+    ? Math.max(...segments.map(s => s.cumulative_distance_miles))
+    : 0;
+
+  const handleCreateProposedCheckpoints = async (proposals: CheckpointProposal[]) => {
+    setIsCreatingCheckpoints(true);
+    try {
+      await createSegments(proposalsToSegments(proposals, lastCheckpointDistance));
+      setCheckpointProposals(null);
+    } catch (error) {
+      console.error('Failed to create checkpoints from GPX:', error);
+      alert('Failed to create checkpoints. Please try again.');
+    } finally {
+      setIsCreatingCheckpoints(false);
+    }
+  };
+
   return (
     <>
       <Helmet>
@@ -335,6 +407,18 @@ export default function RacePlanner() {
               </button>
 
               <div className="flex flex-wrap gap-2 sm:gap-3">
+                <button
+                  onClick={() => setIsRaceDayMode(!isRaceDayMode)}
+                  aria-pressed={isRaceDayMode}
+                  className={`inline-flex items-center gap-1 sm:gap-2 px-3 sm:px-4 py-2 font-semibold rounded-lg transition-all text-sm sm:text-base min-h-[44px] ${
+                    isRaceDayMode
+                      ? 'bg-emerald-500 hover:bg-emerald-600 text-white shadow-lg'
+                      : 'bg-white dark:bg-[#2d3548] coloursplash:bg-white text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-primary border border-gray-300 dark:border-gray-600 coloursplash:border-splash-border hover:bg-gray-50 dark:hover:bg-[#333c52]'
+                  }`}
+                >
+                  <Timer className="w-4 h-4" />
+                  Race Day
+                </button>
                 <div className="relative">
                   <button
                     onClick={() => setShowExportMenu(!showExportMenu)}
@@ -346,7 +430,7 @@ export default function RacePlanner() {
                   </button>
 
                   {showExportMenu && (
-                    <div className="absolute right-0 mt-2 w-48 bg-white dark:bg-[#2d3548] coloursplash:bg-white rounded-lg shadow-xl border border-gray-300 dark:border-gray-700 coloursplash:border-splash-border py-2 z-20">
+                    <div className="absolute right-0 mt-2 w-64 bg-white dark:bg-[#2d3548] coloursplash:bg-white rounded-lg shadow-xl border border-gray-300 dark:border-gray-700 coloursplash:border-splash-border py-2 z-20">
                       <button
                         onClick={() => handleExport('csv')}
                         className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-primary hover:bg-gray-100 dark:hover:bg-[#333c52] coloursplash:hover:bg-splash-azure-light transition-colors"
@@ -359,6 +443,30 @@ export default function RacePlanner() {
                       >
                         Export as PDF
                       </button>
+                      <button
+                        onClick={() => handleExport('gpx')}
+                        className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-primary hover:bg-gray-100 dark:hover:bg-[#333c52] coloursplash:hover:bg-splash-azure-light transition-colors"
+                      >
+                        Export as GPX
+                      </button>
+                      <button
+                        onClick={() => handleExport('gpx-legs')}
+                        className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-primary hover:bg-gray-100 dark:hover:bg-[#333c52] coloursplash:hover:bg-splash-azure-light transition-colors"
+                      >
+                        Export as GPX (track per leg)
+                      </button>
+                      <button
+                        onClick={() => handleExport('gpx-watch')}
+                        className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-primary hover:bg-gray-100 dark:hover:bg-[#333c52] coloursplash:hover:bg-splash-azure-light transition-colors"
+                      >
+                        Export as GPX (simplified for watch)
+                      </button>
+                      <button
+                        onClick={() => handleExport('fit-course')}
+                        className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 coloursplash:text-splash-text-primary hover:bg-gray-100 dark:hover:bg-[#333c52] coloursplash:hover:bg-splash-azure-light transition-colors"
+                      >
+                        Export as FIT Course (Garmin/Coros)
+                      </button>
                     </div>
                   )}
                 </div>
@@ -537,18 +645,78 @@ export default function RacePlanner() {
             )}
           </div>
 
+          {/* Live race-day splits and re-forecast */}
+          {isRaceDayMode && segments.length > 0 && (() => {
+            const athleteSettings = race.id ? localStorageService.getAutoPaceSettings(race.id)?.athleteSettings : null;
+            return (
+              <RaceDayPanel
+                race={race}
+                segments={segments}
+                athleteMetrics={athleteSettings?.bodyWeightKg
+                  ? { bodyWeightKg: athleteSettings.bodyWeightKg, gearWeightKg: athleteSettings.gearWeightKg || 0 }
+                  : null}
+              />
+            );
+          })()}
+
+          {/* Route Variants */}
+          <RouteVariantPanel
+            race={race}
+            segments={segments}
+            onCreate={createRouteVariant}
+            onSwitch={switchRouteVariant}
+            onRename={renameRouteVariant}
+            onDelete={deleteRouteVariant}
+          />
+
+          {/* Plan History */}
+          <PlanHistoryPanel race={race} segments={segments} elevationLabels={elevationLabels} onRestore={restorePlanSnapshot} />
+
+          {/* Stages */}
+          <StageEditor race={race} segments={segments} onSave={updateStages} />
+
+          {/* Sleep Strategy */}
+          {segments.length > 0 && (
+            <SleepStrategyPanel
+              race={race}
+              segments={segments}
+              cutoffReport={cutoffReport}
+              onSleepChange={(segmentId, sleepMinutes) => updateSegment(segmentId, { sleep_minutes: sleepMinutes })}
+              onAwakeHoursChange={(hours) => updateRace({
+                name: race.name,
+                distance_miles: race.distance_miles,
+                awake_hours_at_start: hours,
+              })}
+            />
+          )}
+
           {/* Race Time Summary Panel */}
           {segments.length > 0 && (() => {
             const summary = calculateRaceTimeSummary(segments, race);
             // Get base pace from first segment with custom pace
             const basePace = segments.find(s => s.custom_pace_min_per_mile)?.custom_pace_min_per_mile || 10;
             return (
-              <div className="mb-8">
+              <div className="mb-8 space-y-4">
                 <RaceTimeSummaryPanel
                   summary={summary}
                   showFatigueCurve={showFatigueCurve}
                   fatigueFactor={fatigueRate}
                   basePace={basePace}
+                  sleepDebt={getSleepDebtPoints(
+                    segments,
+                    calculateSleepDebt(segments, race.awake_hours_at_start ?? DEFAULT_AWAKE_HOURS_AT_START, race)
+                  )}
+                  cutoffReport={cutoffReport}
+                  onCutoffWarningChange={handleCutoffWarningChange}
+                  stageSummaries={calculateStageSummaries(race, segments)}
+                  timezone={race.timezone}
+                />
+                <RaceSimulationPanel
+                  segments={segments}
+                  raceStartTime={race.start_date_time}
+                  timezone={race.timezone}
+                  fatigueFactor={showFatigueCurve ? fatigueRate : undefined}
+                  stages={race.stages}
                 />
               </div>
             );
@@ -629,6 +797,11 @@ export default function RacePlanner() {
             </div>
           )}
 
+          {/* Mid-Race Recalibration */}
+          {segments.length > 0 && (
+            <MidRaceRecalibrationPanel race={race} segments={segments} onApply={recalibrateSegments} />
+          )}
+
           {/* Auto-Pace Setup */}
           <div className="mb-8">
             <AutoPaceSetup
@@ -656,6 +829,7 @@ export default function RacePlanner() {
 
           {/* GPX Map Viewer */}
           <GPXMapViewer
+            raceId={race.id!}
             segments={segments}
             gpxFileKey={race.gpx_file_key}
           />
@@ -752,6 +926,47 @@ export default function RacePlanner() {
             return null;
           })()}
 
+          {/* Hydration goals from the personal sweat-rate model */}
+          {segments.length > 0 && (
+            <SweatRatePanel race={race} segments={segments} onApplyGoals={updateHydrationGoals} />
+          )}
+
+          {/* Race-wide nutrition plan */}
+          {segments.length > 0 && (
+            <RaceNutritionOptimizerPanel
+              race={race}
+              segments={segments}
+              bodyWeightKg={(race.id ? localStorageService.getAutoPaceSettings(race.id) : null)?.athleteSettings?.bodyWeightKg || 0}
+              onApply={updateSegmentNutrition}
+              onDropBagChange={(segmentId, dropBag) => updateSegment(segmentId, { drop_bag: dropBag })}
+            />
+          )}
+
+          {/* Drop bag packing lists and labels */}
+          {segments.length > 1 && (
+            <DropBagPanel
+              race={race}
+              segments={segments}
+              onDropBagChange={(segmentId, dropBag) => updateSegment(segmentId, { drop_bag: dropBag })}
+              onKitItemsChange={(segmentId, items) => updateSegment(segmentId, { drop_bag_items: items })}
+              onBibChange={(bibNumber) => updateRace({
+                name: race.name,
+                distance_miles: race.distance_miles,
+                bib_number: bibNumber,
+              })}
+            />
+          )}
+
+          {/* Support crew drives, rendezvous checks and crew sheet */}
+          {segments.some(segment => segment.support_crew_present) && (
+            <CrewItineraryPanel
+              race={race}
+              segments={segments}
+              onCrewStopChange={(segmentId, data) => updateSegment(segmentId, data)}
+              onEstimateDrives={updateCrewDrives}
+            />
+          )}
+
           {/* Eccentric Load Analysis & Energy Balance - Below Mandatory Gear */}
           {segments.length > 0 && (() => {
             const gpxContent = race.gpx_file_key ? localStorageService.getGPXFile(race.gpx_file_key)?.content || null : null;
@@ -803,7 +1018,9 @@ export default function RacePlanner() {
                 onEditEmergencyContact={startEditingEmergency}
                 raceStartTime={race.start_date_time}
                 timezone={race.timezone}
+                stages={race.stages}
                 fitComparisonData={fitComparisonData}
+                cutoffReport={cutoffReport}
               />
             </div>
 
@@ -887,6 +1104,15 @@ export default function RacePlanner() {
           </div>
         )}
 
+        <CheckpointProposalModal
+          proposalSet={checkpointProposals}
+          existingDistanceMiles={lastCheckpointDistance}
+          existingCount={segments.length}
+          isCreating={isCreatingCheckpoints}
+          onClose={() => setCheckpointProposals(null)}
+          onCreate={handleCreateProposedCheckpoints}
+        />
+
         <Footer />
       </div>
     </>
@@ -53,9 +53,16 @@ export async function importCommunityPlan(
         custom_pace_min_per_mile: segment.custom_pace_min_per_mile || undefined,
         cutoff_time: segment.cutoff_time || undefined,
         checkpoint_time_minutes: segment.checkpoint_time_minutes || undefined,
+        sleep_minutes: segment.sleep_minutes || undefined,
         support_crew_present: segment.support_crew_present || undefined,
         support_crew_names: segment.support_crew_names || undefined,
         support_crew_members: segment.support_crew_members || undefined,
+        drop_bag: segment.drop_bag || undefined,
+        drop_bag_items: segment.drop_bag_items || undefined,
+        crew_drive_minutes: segment.crew_drive_minutes ?? undefined,
+        crew_drive_miles: segment.crew_drive_miles ?? undefined,
+        crew_handover: segment.crew_handover || undefined,
+        crew_notes: segment.crew_notes || undefined,
         plusCode: segment.plusCode || undefined,
         latitude: segment.latitude !== null ? segment.latitude : undefined,
         longitude: segment.longitude !== null ? segment.longitude : undefined,
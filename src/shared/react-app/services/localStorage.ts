@@ -1,6 +1,9 @@
-import type { Race, Segment, ElevationLabel, ParsedFITData, FITRecord, UserNutritionProduct, NutritionProductsExport, RecentlyUsedProduct, AutoPaceSettings } from '@/shared/types';
+import type { Race, Segment, ElevationLabel, ParsedFITData, FITRecord, UserNutritionProduct, NutritionProductsExport, RecentlyUsedProduct, AutoPaceSettings, WorkspaceData, WorkspaceRestoreMode, WorkspaceRestoreResult, StoredDEMTile, MapTilePack, RouteVariant, Stage, SweatTest, PlanSnapshot, PlanSnapshotKind, NutritionItem, RaceDayLog, RaceDayLogEntry, RaceDaySplit } from '@/shared/types';
 import FitParser from 'fit-file-parser';
-import { normalizeGPX, getGPXStats } from '../utils/gpxPruner';
+import { normalizeGPX, getGPXStats, parseGPXActivity } from '../utils/gpxPruner';
+import { PersistentStore, LocalStorageBackend, TileStore, DEMStore, createStorageBackend } from './storageBackend';
+import { runMigrations, formatMigrationReport, CURRENT_SCHEMA_VERSION } from './schemaMigrations';
+import type { MigrationReport, MigrationSnapshot } from './schemaMigrations';
 
 const STORAGE_KEYS = {
   RACES: 'ultra_planner_races',
@@ -11,191 +14,221 @@ const STORAGE_KEYS = {
   RECENTLY_USED_PRODUCTS: 'ultra_planner_recently_used_products',
   AUTO_PACE_SETTINGS: 'ultra_planner_auto_pace_settings', // Prefix for auto-pace settings
   GAP_PROFILE: 'ultra_planner_gap_profile', // GAP Profile storage
+  SWEAT_TESTS: 'ultra_planner_sweat_tests',
+  PLAN_HISTORY: 'ultra_planner_plan_history', // Prefix for per-race plan snapshots
+  RACE_DAY: 'ultra_planner_race_day', // Prefix for per-race race-day logs
+  SCHEMA_VERSION: 'ultra_planner_schema_version',
+  MIGRATION_SNAPSHOT: 'ultra_planner_migration_snapshot', // Races/segments before the last migration
 };
 
+// Kept in window.localStorage (not the backend) so it can be read before hydration
+const BACKEND_MIGRATION_FLAG = 'ultra_planner_storage_backend';
+
+// Keys owned by this service: race data, per-race settings and GPX/FIT blobs
+const isServiceKey = (key: string): boolean =>
+  Object.values(STORAGE_KEYS).includes(key) ||
+  key.startsWith(`${STORAGE_KEYS.AUTO_PACE_SETTINGS}_`) ||
+  key.startsWith(`${STORAGE_KEYS.PLAN_HISTORY}_`) ||
+  key.startsWith(`${STORAGE_KEYS.RACE_DAY}_`) ||
+  key.startsWith('gpx_') ||
+  key.startsWith('fit_');
+
+// Plan history: auto snapshots kept per race, and the quiet spell after which an edit takes a new one
+const MAX_AUTO_PLAN_SNAPSHOTS = 20;
+const AUTO_SNAPSHOT_INTERVAL_MS = 10 * 60 * 1000;
+
 // Utility functions
 const milesToKm = (miles: number) => miles * 1.60934;
 
+// Checkpoints on the same course: same race and same route variant
+const onSameRoute = (segment: Segment, other: { race_id: number; route_variant_id?: number | null }) =>
+  segment.race_id === other.race_id && (segment.route_variant_id ?? null) === (other.route_variant_id ?? null);
+
+// GPX files referenced by a race: the active route plus every route variant
+const getRaceGPXKeys = (race: Race): string[] =>
+  [race.gpx_file_key, ...(race.route_variants ?? []).map(variant => variant.gpx_file_key)]
+    .filter((key): key is string => !!key);
+
 class LocalStorageService {
-  constructor() {
-    this.migrateWhat3WordsToPlusCodes();
-    this.migrateRaceTimingFields();
-    this.migrateRaceUserIdField();
-    this.migrateCheckpointTimeField();
-    this.migrateFITComparisonField();
-    this.migrateFITAutoPaceField();
-    this.migrateAutoPaceFields();
-  }
+  private store = new PersistentStore(createStorageBackend(isServiceKey));
+  private tileStore = new TileStore();
+  private demStore = new DEMStore();
+  private initPromise: Promise<void> | null = null;
+  private lastAutoSnapshotAt = new Map<number, number>(); // Race ID → time of its last auto snapshot
 
-  private getNextId(): number {
-    const currentId = parseInt(localStorage.getItem(STORAGE_KEYS.NEXT_ID) || '1');
-    localStorage.setItem(STORAGE_KEYS.NEXT_ID, (currentId + 1).toString());
-    return currentId;
-  }
+  /**
+   * Load stored data into memory and run data migrations.
+   * Must resolve before any other method is called (see main.tsx).
+   */
+  init(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = (async () => {
+        try {
+          await this.store.hydrate();
+        } catch (error) {
+          console.error('[Storage] Failed to open IndexedDB, falling back to localStorage:', error);
+          this.store = new PersistentStore(new LocalStorageBackend(isServiceKey));
+          await this.store.hydrate();
+        }
+        await this.migrateToStorageBackend();
 
-  private getCurrentTimestamp(): string {
-    return new Date().toISOString();
+        await this.runSchemaMigrations();
+      })();
+    }
+    return this.initPromise;
   }
 
-  // Migration function to convert what3words to plusCode
-  private migrateWhat3WordsToPlusCodes(): void {
-    const segments = this.getSegments();
-    let updated = false;
-
-    segments.forEach(segment => {
-      // @ts-ignore - migrating old data
-      if ('what3words' in segment) {
-        // @ts-ignore - migrating old data
-        delete segment.what3words;
-        // @ts-ignore - adding new field
-        segment.plusCode = null;
-        updated = true;
-      }
-    });
+  /**
+   * Name of the active storage engine ('indexeddb' or 'localstorage')
+   */
+  getStorageBackendType() {
+    return this.store.backendType;
+  }
 
-    if (updated) {
-      localStorage.setItem(STORAGE_KEYS.SEGMENTS, JSON.stringify(segments));
-      console.log('[Migration] Migrated what3words to plusCode fields');
-    }
+  /**
+   * Approximate bytes used by races, segments, settings and GPX/FIT files
+   */
+  getStorageUsageBytes(): number {
+    return this.store.getUsageBytes();
   }
 
-  // Migration function to add timing fields to existing races
-  private migrateRaceTimingFields(): void {
-    const races = this.getRaces();
-    let updated = false;
+  // One-time copy of existing ultra_planner_* keys and GPX/FIT blobs from
+  // window.localStorage into IndexedDB. The originals are only removed once
+  // the copy has been committed, so a failed migration loses nothing.
+  private async migrateToStorageBackend(): Promise<void> {
+    if (this.store.backendType !== 'indexeddb') return;
+    if (localStorage.getItem(BACKEND_MIGRATION_FLAG) === 'indexeddb') return;
 
-    races.forEach(race => {
-      if (!('start_date_time' in race)) {
-        // @ts-ignore - adding new field
-        race.start_date_time = null;
-        updated = true;
+    const legacyEntries: Array<[string, string]> = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && isServiceKey(key)) {
+        const value = localStorage.getItem(key);
+        // Never overwrite data that already exists in IndexedDB
+        if (value !== null && this.store.getItem(key) === null) {
+          legacyEntries.push([key, value]);
+        }
       }
-      if (!('timezone' in race)) {
-        // @ts-ignore - adding new field
-        race.timezone = null;
-        updated = true;
+    }
+
+    try {
+      if (legacyEntries.length > 0) {
+        await this.store.commitMany(legacyEntries);
+        console.log('[Migration] Moved', legacyEntries.length, 'keys from localStorage to IndexedDB');
       }
-    });
 
-    if (updated) {
-      localStorage.setItem(STORAGE_KEYS.RACES, JSON.stringify(races));
-      console.log('[Migration] Added timing fields to existing races');
+      legacyEntries.forEach(([key]) => localStorage.removeItem(key));
+      localStorage.setItem(BACKEND_MIGRATION_FLAG, 'indexeddb');
+    } catch (error) {
+      console.error('[Migration] Failed to move data to IndexedDB, will retry next launch:', error);
     }
   }
 
-  // Migration function to add userId field to existing races
-  private migrateRaceUserIdField(): void {
-    const races = this.getRaces();
-    let updated = false;
-
-    races.forEach(race => {
-      if (!('userId' in race)) {
-        // @ts-ignore - adding new field
-        race.userId = undefined;
-        updated = true;
-      }
-    });
+  // ============================================
+  // SCHEMA MIGRATIONS
+  // ============================================
 
-    if (updated) {
-      localStorage.setItem(STORAGE_KEYS.RACES, JSON.stringify(races));
-      console.log('[Migration] Added userId field to existing races');
-    }
+  /**
+   * Schema version of the stored races and segments.
+   * Data saved before versioning was introduced reports 0.
+   */
+  getSchemaVersion(): number {
+    return parseInt(this.store.getItem(STORAGE_KEYS.SCHEMA_VERSION) || '0');
   }
 
-  // Migration function to add checkpoint_time_minutes field to existing segments
-  private migrateCheckpointTimeField(): void {
-    const segments = this.getSegments();
-    let updated = false;
+  /**
+   * Dry run: report what migrating the stored data would change without saving anything
+   * @param fromVersion - Version to migrate from (defaults to the stored version)
+   */
+  previewSchemaMigrations(fromVersion: number = this.getSchemaVersion()): MigrationReport {
+    return runMigrations(this.getRaces(), this.getSegments(), fromVersion);
+  }
 
-    segments.forEach(segment => {
-      if (!('checkpoint_time_minutes' in segment)) {
-        // @ts-ignore - adding new field
-        segment.checkpoint_time_minutes = null;
-        updated = true;
-      }
-    });
+  /**
+   * Snapshot of races and segments taken before the last migration, if any
+   */
+  getMigrationSnapshot(): MigrationSnapshot | null {
+    const snapshot = this.store.getItem(STORAGE_KEYS.MIGRATION_SNAPSHOT);
+    return snapshot ? JSON.parse(snapshot) : null;
+  }
 
-    if (updated) {
-      localStorage.setItem(STORAGE_KEYS.SEGMENTS, JSON.stringify(segments));
-      console.log('[Migration] Added checkpoint_time_minutes field to existing segments');
+  /**
+   * Restore races, segments and schema version from the pre-migration snapshot.
+   * Migrations newer than the restored version run again on the next launch.
+   * @returns true if a snapshot was restored
+   */
+  rollbackSchemaMigration(): boolean {
+    const snapshot = this.getMigrationSnapshot();
+    if (!snapshot) {
+      console.warn('[Migration] No pre-migration snapshot to roll back to');
+      return false;
     }
+
+    this.store.setItem(STORAGE_KEYS.RACES, JSON.stringify(snapshot.races));
+    this.store.setItem(STORAGE_KEYS.SEGMENTS, JSON.stringify(snapshot.segments));
+    this.store.setItem(STORAGE_KEYS.SCHEMA_VERSION, snapshot.fromVersion.toString());
+    this.store.removeItem(STORAGE_KEYS.MIGRATION_SNAPSHOT);
+    console.log(`[Migration] Rolled back schema v${snapshot.toVersion} to v${snapshot.fromVersion}`);
+    return true;
   }
 
-  // Migration function to add fit_comparison_file_key field to existing races
-  private migrateFITComparisonField(): void {
-    const races = this.getRaces();
-    let updated = false;
+  // Run every registered migration newer than the stored schema version.
+  // The previous data is snapshotted first, and the migration is abandoned if
+  // it would make previously valid records fail RaceSchema/SegmentSchema.
+  private async runSchemaMigrations(): Promise<void> {
+    const fromVersion = this.getSchemaVersion();
+    if (fromVersion >= CURRENT_SCHEMA_VERSION) return;
 
-    races.forEach(race => {
-      if (!('fit_comparison_file_key' in race)) {
-        // @ts-ignore - adding new field
-        race.fit_comparison_file_key = null;
-        updated = true;
-      }
-    });
+    const races = this.getRaces();
+    const segments = this.getSegments();
 
-    if (updated) {
-      localStorage.setItem(STORAGE_KEYS.RACES, JSON.stringify(races));
-      console.log('[Migration] Added fit_comparison_file_key field to existing races');
+    // Fresh install: nothing to migrate
+    if (races.length === 0 && segments.length === 0) {
+      this.store.setItem(STORAGE_KEYS.SCHEMA_VERSION, CURRENT_SCHEMA_VERSION.toString());
+      return;
     }
-  }
 
-  // Migration function to add fit_autopace_file_key field to existing races
-  private migrateFITAutoPaceField(): void {
-    const races = this.getRaces();
-    let updated = false;
+    const report = runMigrations(races, segments, fromVersion);
+    console.log('[Migration]', formatMigrationReport(report));
 
-    races.forEach(race => {
-      if (!('fit_autopace_file_key' in race)) {
-        // @ts-ignore - adding new field
-        race.fit_autopace_file_key = null;
-        updated = true;
-      }
-    });
+    if (report.regressions.length > 0) {
+      console.error('[Migration] Migration would invalidate existing records, keeping schema v' + fromVersion);
+      return;
+    }
 
-    if (updated) {
-      localStorage.setItem(STORAGE_KEYS.RACES, JSON.stringify(races));
-      console.log('[Migration] Added fit_autopace_file_key field to existing races');
+    const snapshot: MigrationSnapshot = {
+      createdAt: this.getCurrentTimestamp(),
+      fromVersion,
+      toVersion: report.toVersion,
+      races,
+      segments,
+    };
+
+    try {
+      await this.store.commit(STORAGE_KEYS.MIGRATION_SNAPSHOT, JSON.stringify(snapshot));
+      await this.store.commitMany([
+        [STORAGE_KEYS.RACES, JSON.stringify(report.races)],
+        [STORAGE_KEYS.SEGMENTS, JSON.stringify(report.segments)],
+        [STORAGE_KEYS.SCHEMA_VERSION, report.toVersion.toString()],
+      ]);
+    } catch (error) {
+      console.error('[Migration] Failed to save migrated data, will retry next launch:', error);
     }
   }
 
-  // Migration function to add auto-pace fields to existing segments
-  private migrateAutoPaceFields(): void {
-    const segments = this.getSegments();
-    let updated = false;
-
-    segments.forEach(segment => {
-      if (!('auto_derived_pace' in segment)) {
-        // @ts-ignore - adding new field
-        segment.auto_derived_pace = null;
-        updated = true;
-      }
-      if (!('use_auto_pace' in segment)) {
-        // @ts-ignore - adding new field
-        segment.use_auto_pace = null;
-        updated = true;
-      }
-      if (!('auto_pace_confidence' in segment)) {
-        // @ts-ignore - adding new field
-        segment.auto_pace_confidence = null;
-        updated = true;
-      }
-      if (!('auto_pace_reasoning' in segment)) {
-        // @ts-ignore - adding new field
-        segment.auto_pace_reasoning = null;
-        updated = true;
-      }
-    });
+  private getNextId(): number {
+    const currentId = parseInt(this.store.getItem(STORAGE_KEYS.NEXT_ID) || '1');
+    this.store.setItem(STORAGE_KEYS.NEXT_ID, (currentId + 1).toString());
+    return currentId;
+  }
 
-    if (updated) {
-      localStorage.setItem(STORAGE_KEYS.SEGMENTS, JSON.stringify(segments));
-      console.log('[Migration] Added auto-pace fields to existing segments');
-    }
+  private getCurrentTimestamp(): string {
+    return new Date().toISOString();
   }
 
   // Race operations
   getRaces(): Race[] {
-    const races = localStorage.getItem(STORAGE_KEYS.RACES);
+    const races = this.store.getItem(STORAGE_KEYS.RACES);
     return races ? JSON.parse(races) : [];
   }
 
@@ -213,6 +246,11 @@ class LocalStorageService {
     emergency_contact_phone?: string | null;
     mandatory_kit?: string | null;
     logo_url?: string | null;
+    route_variants?: RouteVariant[] | null; // GPX files are attached afterwards, per variant
+    active_route_variant_id?: number | null;
+    stages?: Stage[] | null;
+    awake_hours_at_start?: number | null;
+    bib_number?: string | null;
     userId?: string;
   }): Race {
     const races = this.getRaces();
@@ -229,12 +267,19 @@ class LocalStorageService {
       timezone: data.timezone || null,
       mandatory_kit: data.mandatory_kit || null,
       logo_url: data.logo_url || null,
+      route_variants: data.route_variants?.length
+        ? data.route_variants.map(variant => ({ ...variant, gpx_file_key: null }))
+        : null,
+      active_route_variant_id: data.route_variants?.length ? data.active_route_variant_id ?? data.route_variants[0].id : null,
+      stages: data.stages?.length ? data.stages : null,
+      awake_hours_at_start: data.awake_hours_at_start ?? null,
+      bib_number: data.bib_number || null,
       created_at: this.getCurrentTimestamp(),
       updated_at: this.getCurrentTimestamp(),
     };
 
     races.unshift(newRace);
-    localStorage.setItem(STORAGE_KEYS.RACES, JSON.stringify(races));
+    this.store.setItem(STORAGE_KEYS.RACES, JSON.stringify(races));
 
     return newRace;
   }
@@ -250,6 +295,8 @@ class LocalStorageService {
     logo_url?: string | null;
     fit_comparison_file_key?: string | null;
     fit_autopace_file_key?: string | null;
+    awake_hours_at_start?: number | null;
+    bib_number?: string | null;
     userId?: string;
   }): Race | null {
     const races = this.getRaces();
@@ -257,6 +304,7 @@ class LocalStorageService {
 
     if (raceIndex === -1) return null;
 
+    this.snapshotBeforeEdit(id);
     const oldRace = races[raceIndex];
 
     const updatedRace = {
@@ -274,12 +322,14 @@ class LocalStorageService {
       ...(data.logo_url !== undefined && { logo_url: data.logo_url || null }),
       ...(data.fit_comparison_file_key !== undefined && { fit_comparison_file_key: data.fit_comparison_file_key || null }),
       ...(data.fit_autopace_file_key !== undefined && { fit_autopace_file_key: data.fit_autopace_file_key || null }),
+      ...(data.awake_hours_at_start !== undefined && { awake_hours_at_start: data.awake_hours_at_start }),
+      ...(data.bib_number !== undefined && { bib_number: data.bib_number || null }),
       ...(data.userId !== undefined && { userId: data.userId }),
       updated_at: this.getCurrentTimestamp(),
     };
 
     races[raceIndex] = updatedRace;
-    localStorage.setItem(STORAGE_KEYS.RACES, JSON.stringify(races));
+    this.store.setItem(STORAGE_KEYS.RACES, JSON.stringify(races));
 
     return updatedRace;
   }
@@ -291,28 +341,36 @@ class LocalStorageService {
 
     if (filteredRaces.length === races.length) return false;
 
-    // Delete associated GPX file if it exists
-    if (race?.gpx_file_key) {
-      console.log('[LocalStorage] Deleting GPX file:', race.gpx_file_key);
-      localStorage.removeItem(race.gpx_file_key);
+    // Delete associated GPX files (every route variant) if they exist
+    for (const fileKey of race ? new Set(getRaceGPXKeys(race)) : []) {
+      console.log('[LocalStorage] Deleting GPX file:', fileKey);
+      this.store.removeItem(fileKey);
     }
 
     // Delete associated FIT comparison file if it exists
     if (race?.fit_comparison_file_key) {
       console.log('[LocalStorage] Deleting FIT comparison file:', race.fit_comparison_file_key);
-      localStorage.removeItem(race.fit_comparison_file_key);
+      this.store.removeItem(race.fit_comparison_file_key);
     }
 
     // Delete associated FIT autopace file if it exists
     if (race?.fit_autopace_file_key) {
       console.log('[LocalStorage] Deleting FIT autopace file:', race.fit_autopace_file_key);
-      localStorage.removeItem(race.fit_autopace_file_key);
+      this.store.removeItem(race.fit_autopace_file_key);
     }
 
-    // Delete auto-pace settings for this race
+    // Delete auto-pace settings, plan history and the race-day log for this race
     this.deleteAutoPaceSettings(id);
+    this.store.removeItem(this.getPlanHistoryKey(id));
+    this.store.removeItem(this.getRaceDayKey(id));
+    this.lastAutoSnapshotAt.delete(id);
+
+    // Delete the offline map pack for this race
+    this.tileStore.removePack(id).catch(error => {
+      console.error('[LocalStorage] Failed to delete offline map pack:', id, error);
+    });
 
-    localStorage.setItem(STORAGE_KEYS.RACES, JSON.stringify(filteredRaces));
+    this.store.setItem(STORAGE_KEYS.RACES, JSON.stringify(filteredRaces));
 
     // Also delete related segments and elevation labels
     this.deleteSegmentsByRaceId(id);
@@ -321,16 +379,219 @@ class LocalStorageService {
     return true;
   }
 
+  // Route variant operations
+  getRouteVariants(raceId: number): RouteVariant[] {
+    return this.getRace(raceId)?.route_variants ?? [];
+  }
+
+  private getActiveRouteVariantId(raceId: number): number | null {
+    return this.getRace(raceId)?.active_route_variant_id ?? null;
+  }
+
+  /**
+   * Add a route variant to a race.
+   * The first variant added also turns the race's current GPX and checkpoints
+   * into a "Main route" variant. Copied checkpoints keep their plan but lose
+   * their coordinates, which are regenerated from the new variant's GPX.
+   */
+  createRouteVariant(raceId: number, name: string, copyCheckpoints: boolean): RouteVariant | null {
+    const races = this.getRaces();
+    const raceIndex = races.findIndex(race => race.id === raceId);
+
+    if (raceIndex === -1) return null;
+
+    const race = races[raceIndex];
+    let segments = this.getSegments();
+    let variants = race.route_variants ?? [];
+    let activeVariantId = race.active_route_variant_id ?? null;
+
+    if (variants.length === 0) {
+      const mainRoute: RouteVariant = {
+        id: 1,
+        name: 'Main route',
+        gpx_file_key: race.gpx_file_key ?? null,
+        created_at: race.created_at ?? this.getCurrentTimestamp(),
+      };
+      variants = [mainRoute];
+      activeVariantId = mainRoute.id;
+      segments = segments.map(segment =>
+        segment.race_id === raceId ? { ...segment, route_variant_id: mainRoute.id } : segment
+      );
+    }
+
+    const variant: RouteVariant = {
+      id: Math.max(...variants.map(v => v.id)) + 1,
+      name,
+      gpx_file_key: null,
+      created_at: this.getCurrentTimestamp(),
+    };
+
+    if (copyCheckpoints) {
+      const activeSegments = segments
+        .filter(segment => onSameRoute(segment, { race_id: raceId, route_variant_id: activeVariantId }))
+        .sort((a, b) => a.segment_order - b.segment_order);
+      for (const segment of activeSegments) {
+        segments.push({
+          ...segment,
+          id: this.getNextId(),
+          route_variant_id: variant.id,
+          plusCode: null,
+          latitude: null,
+          longitude: null,
+          created_at: this.getCurrentTimestamp(),
+          updated_at: this.getCurrentTimestamp(),
+        });
+      }
+    }
+
+    races[raceIndex] = {
+      ...race,
+      route_variants: [...variants, variant],
+      active_route_variant_id: activeVariantId,
+      updated_at: this.getCurrentTimestamp(),
+    };
+    this.store.setItem(STORAGE_KEYS.SEGMENTS, JSON.stringify(segments));
+    this.store.setItem(STORAGE_KEYS.RACES, JSON.stringify(races));
+
+    return variant;
+  }
+
+  /**
+   * Make a route variant the one shown in the planner
+   */
+  switchRouteVariant(raceId: number, variantId: number): Race | null {
+    return this.updateRouteVariants(raceId, (race, variants) => {
+      const variant = variants.find(v => v.id === variantId);
+      if (!variant) return null;
+      return { ...race, active_route_variant_id: variant.id, gpx_file_key: variant.gpx_file_key };
+    });
+  }
+
+  renameRouteVariant(raceId: number, variantId: number, name: string): Race | null {
+    return this.updateRouteVariants(raceId, (race, variants) => ({
+      ...race,
+      route_variants: variants.map(v => (v.id === variantId ? { ...v, name } : v)),
+    }));
+  }
+
+  /**
+   * Delete a route variant with its GPX file and checkpoints.
+   * The active variant can't be deleted - switch to another one first.
+   */
+  deleteRouteVariant(raceId: number, variantId: number): Race | null {
+    const updated = this.updateRouteVariants(raceId, (race, variants) => {
+      const variant = variants.find(v => v.id === variantId);
+      if (!variant || race.active_route_variant_id === variantId) return null;
+
+      if (variant.gpx_file_key) {
+        console.log('[LocalStorage] Deleting route variant GPX file:', variant.gpx_file_key);
+        this.store.removeItem(variant.gpx_file_key);
+      }
+      return { ...race, route_variants: variants.filter(v => v.id !== variantId) };
+    });
+
+    if (updated) {
+      const segments = this.getSegments()
+        .filter(segment => !onSameRoute(segment, { race_id: raceId, route_variant_id: variantId }));
+      this.store.setItem(STORAGE_KEYS.SEGMENTS, JSON.stringify(segments));
+    }
+    return updated;
+  }
+
+  /**
+   * Replace all of a race's route variants, e.g. with those of an imported plan.
+   * The GPX files of the current routes are deleted and the new variants start
+   * without one; checkpoints are left for the caller to replace. Pass null
+   * variants to make it a single-route race.
+   */
+  setRouteVariants(raceId: number, variants: RouteVariant[] | null, activeVariantId: number | null): Race | null {
+    const races = this.getRaces();
+    const raceIndex = races.findIndex(race => race.id === raceId);
+
+    if (raceIndex === -1) return null;
+
+    for (const fileKey of new Set(getRaceGPXKeys(races[raceIndex]))) {
+      console.log('[LocalStorage] Deleting GPX file:', fileKey);
+      this.store.removeItem(fileKey);
+    }
+
+    const hasVariants = !!variants && variants.length > 0;
+    races[raceIndex] = {
+      ...races[raceIndex],
+      gpx_file_key: null,
+      route_variants: hasVariants ? variants.map(variant => ({ ...variant, gpx_file_key: null })) : null,
+      active_route_variant_id: hasVariants ? activeVariantId ?? variants[0].id : null,
+      updated_at: this.getCurrentTimestamp(),
+    };
+    this.store.setItem(STORAGE_KEYS.RACES, JSON.stringify(races));
+
+    return races[raceIndex];
+  }
+
+  // Apply a change to a race's route variants, returns null if the race or variant doesn't exist
+  private updateRouteVariants(
+    raceId: number,
+    update: (race: Race, variants: RouteVariant[]) => Race | null
+  ): Race | null {
+    const races = this.getRaces();
+    const raceIndex = races.findIndex(race => race.id === raceId);
+
+    if (raceIndex === -1 || !races[raceIndex].route_variants) return null;
+
+    const updatedRace = update(races[raceIndex], races[raceIndex].route_variants!);
+    if (!updatedRace) return null;
+
+    races[raceIndex] = { ...updatedRace, updated_at: this.getCurrentTimestamp() };
+    this.store.setItem(STORAGE_KEYS.RACES, JSON.stringify(races));
+
+    return races[raceIndex];
+  }
+
+  // Stage operations
+  /**
+   * Split a race into stages, or pass null stages to make it a single-day race again.
+   * stageIds gives the stage of each of the active route's checkpoints. Checkpoints
+   * on other routes keep their stage only if it still exists.
+   */
+  setRaceStages(raceId: number, stages: Stage[] | null, stageIds: Map<number, number>): Race | null {
+    const races = this.getRaces();
+    const raceIndex = races.findIndex(race => race.id === raceId);
+
+    if (raceIndex === -1) return null;
+
+    this.snapshotBeforeEdit(raceId);
+    const stageIdSet = new Set(stages?.map(stage => stage.id));
+    const segments = this.getSegments().map(segment => {
+      if (segment.race_id !== raceId) return segment;
+      if (!stages) return { ...segment, stage_id: null };
+      if (segment.id != null && stageIds.has(segment.id)) {
+        return { ...segment, stage_id: stageIds.get(segment.id)! };
+      }
+      return segment.stage_id != null && !stageIdSet.has(segment.stage_id)
+        ? { ...segment, stage_id: null }
+        : segment;
+    });
+
+    races[raceIndex] = { ...races[raceIndex], stages, updated_at: this.getCurrentTimestamp() };
+    this.store.setItem(STORAGE_KEYS.SEGMENTS, JSON.stringify(segments));
+    this.store.setItem(STORAGE_KEYS.RACES, JSON.stringify(races));
+
+    return races[raceIndex];
+  }
+
   // Segment operations
   getSegments(): Segment[] {
-    const segments = localStorage.getItem(STORAGE_KEYS.SEGMENTS);
+    const segments = this.store.getItem(STORAGE_KEYS.SEGMENTS);
     return segments ? JSON.parse(segments) : [];
   }
 
-  getSegmentsByRaceId(raceId: number): Segment[] {
+  /**
+   * Checkpoints of a race, in order. Defaults to the active route variant.
+   */
+  getSegmentsByRaceId(raceId: number, routeVariantId: number | null = this.getActiveRouteVariantId(raceId)): Segment[] {
     const segments = this.getSegments();
     return segments
-      .filter(segment => segment.race_id === raceId)
+      .filter(segment => onSameRoute(segment, { race_id: raceId, route_variant_id: routeVariantId }))
       .sort((a, b) => a.segment_order - b.segment_order);
   }
 
@@ -343,28 +604,48 @@ class LocalStorageService {
     carb_goal_per_hour?: number | null;
     sodium_goal_per_hour?: number | null;
     water_goal_per_hour?: number | null;
+    caffeine_goal_per_hour?: number | null;
     segment_nutrition_items?: string;
     notes?: string;
     map_reference?: string;
     segment_order: number;
     custom_pace_min_per_mile?: number | null;
+    terrain_factor?: number | null;
+    auto_derived_pace?: number | null;
+    use_auto_pace?: boolean | null;
+    auto_pace_confidence?: 'high' | 'medium' | 'low' | null;
+    auto_pace_reasoning?: string | null;
     cutoff_time?: string;
     checkpoint_time_minutes?: number | null;
+    sleep_minutes?: number | null;
     support_crew_present?: boolean;
     support_crew_names?: string;
     support_crew_members?: string;
+    drop_bag?: boolean | null;
+    drop_bag_items?: string;
+    crew_drive_minutes?: number | null;
+    crew_drive_miles?: number | null;
+    crew_handover?: string;
+    crew_notes?: string;
     plusCode?: string;
     latitude?: number;
     longitude?: number;
+    route_variant_id?: number | null; // Defaults to the race's active route variant
+    stage_id?: number | null;
   }): Segment {
     console.log('[localStorage.createSegment] Received data:', data);
     console.log('[localStorage.createSegment] carb_goal_per_hour:', data.carb_goal_per_hour);
     console.log('[localStorage.createSegment] segment_nutrition_items:', data.segment_nutrition_items);
+    this.snapshotBeforeEdit(data.race_id);
     const segments = this.getSegments();
+    const route = {
+      race_id: data.race_id,
+      route_variant_id: data.route_variant_id !== undefined ? data.route_variant_id : this.getActiveRouteVariantId(data.race_id),
+    };
 
     // Calculate cumulative distance
     const previousSegments = segments
-      .filter(s => s.race_id === data.race_id && s.segment_order < data.segment_order)
+      .filter(s => onSameRoute(s, route) && s.segment_order < data.segment_order)
       .sort((a, b) => b.segment_order - a.segment_order);
 
     const cumulative_distance_miles = previousSegments.length > 0
@@ -376,7 +657,9 @@ class LocalStorageService {
     // Calculate predicted time using custom pace if provided
     // If use_auto_pace is enabled, use auto_derived_pace instead of custom_pace_min_per_mile
     let predicted_segment_time_minutes: number | null = null;
-    if (data.custom_pace_min_per_mile !== undefined && data.custom_pace_min_per_mile !== null) {
+    if (data.use_auto_pace && data.auto_derived_pace) {
+      predicted_segment_time_minutes = data.auto_derived_pace * data.segment_distance_miles;
+    } else if (data.custom_pace_min_per_mile !== undefined && data.custom_pace_min_per_mile !== null) {
       predicted_segment_time_minutes = data.custom_pace_min_per_mile * data.segment_distance_miles;
     }
 
@@ -393,26 +676,41 @@ class LocalStorageService {
       carb_goal_per_hour: data.carb_goal_per_hour !== undefined ? data.carb_goal_per_hour : null,
       sodium_goal_per_hour: data.sodium_goal_per_hour !== undefined ? data.sodium_goal_per_hour : null,
       water_goal_per_hour: data.water_goal_per_hour !== undefined ? data.water_goal_per_hour : null,
+      caffeine_goal_per_hour: data.caffeine_goal_per_hour !== undefined ? data.caffeine_goal_per_hour : null,
       segment_nutrition_items: data.segment_nutrition_items || null,
       notes: data.notes || null,
       map_reference: data.map_reference || null,
       segment_order: data.segment_order,
       predicted_segment_time_minutes,
       custom_pace_min_per_mile: data.custom_pace_min_per_mile !== undefined ? data.custom_pace_min_per_mile : null,
+      terrain_factor: data.terrain_factor !== undefined ? data.terrain_factor : null,
+      auto_derived_pace: data.auto_derived_pace !== undefined ? data.auto_derived_pace : null,
+      use_auto_pace: data.use_auto_pace !== undefined ? data.use_auto_pace : null,
+      auto_pace_confidence: data.auto_pace_confidence || null,
+      auto_pace_reasoning: data.auto_pace_reasoning || null,
       cutoff_time: data.cutoff_time || null,
       checkpoint_time_minutes: data.checkpoint_time_minutes !== undefined ? data.checkpoint_time_minutes : null,
+      sleep_minutes: data.sleep_minutes ?? null,
       support_crew_present: data.support_crew_present || null,
       support_crew_names: data.support_crew_names || null,
       support_crew_members: data.support_crew_members || null,
+      drop_bag: data.drop_bag ?? null,
+      drop_bag_items: data.drop_bag_items || null,
+      crew_drive_minutes: data.crew_drive_minutes ?? null,
+      crew_drive_miles: data.crew_drive_miles ?? null,
+      crew_handover: data.crew_handover || null,
+      crew_notes: data.crew_notes || null,
       plusCode: data.plusCode || null,
       latitude: data.latitude || null,
       longitude: data.longitude || null,
+      route_variant_id: route.route_variant_id,
+      stage_id: data.stage_id ?? null,
       created_at: this.getCurrentTimestamp(),
       updated_at: this.getCurrentTimestamp(),
     };
 
     segments.push(newSegment);
-    localStorage.setItem(STORAGE_KEYS.SEGMENTS, JSON.stringify(segments));
+    this.store.setItem(STORAGE_KEYS.SEGMENTS, JSON.stringify(segments));
     return newSegment;
   }
 
@@ -430,9 +728,16 @@ class LocalStorageService {
     custom_pace_min_per_mile?: number | null;
     cutoff_time?: string;
     checkpoint_time_minutes?: number | null;
+    sleep_minutes?: number | null;
     support_crew_present?: boolean;
     support_crew_names?: string;
     support_crew_members?: string;
+    drop_bag?: boolean | null;
+    drop_bag_items?: string | null;
+    crew_drive_minutes?: number | null;
+    crew_drive_miles?: number | null;
+    crew_handover?: string | null;
+    crew_notes?: string | null;
     plusCode?: string | null;
     latitude?: number | null;
     longitude?: number | null;
@@ -447,6 +752,7 @@ class LocalStorageService {
     if (segmentIndex === -1) return null;
 
     const segment = segments[segmentIndex];
+    this.snapshotBeforeEdit(segment.race_id);
     const updatedSegment = { ...segment, ...updates, updated_at: this.getCurrentTimestamp() };
 
     // Recalculate distance fields if segment_distance_miles changed
@@ -455,7 +761,7 @@ class LocalStorageService {
 
       // Recalculate cumulative distance
       const previousSegments = segments
-        .filter(s => s.race_id === segment.race_id && s.segment_order < segment.segment_order)
+        .filter(s => onSameRoute(s, segment) && s.segment_order < segment.segment_order)
         .sort((a, b) => b.segment_order - a.segment_order);
 
       updatedSegment.cumulative_distance_miles = previousSegments.length > 0
@@ -480,12 +786,12 @@ class LocalStorageService {
       // Now recalculate cumulative distances for all subsequent segments
       const subsequentSegments = segments
         .map((s, index) => ({ segment: s, index }))
-        .filter(({ segment: s }) => s.race_id === segment.race_id && s.segment_order > segment.segment_order)
+        .filter(({ segment: s }) => onSameRoute(s, segment) && s.segment_order > segment.segment_order)
         .sort((a, b) => a.segment.segment_order - b.segment.segment_order);
 
       subsequentSegments.forEach(({ segment: subSegment, index: subIndex }) => {
         const prevSegments = segments
-          .filter(s => s.race_id === segment.race_id && s.segment_order < subSegment.segment_order)
+          .filter(s => onSameRoute(s, segment) && s.segment_order < subSegment.segment_order)
           .sort((a, b) => b.segment_order - a.segment_order);
 
         const newCumulativeMiles = prevSegments.length > 0
@@ -517,29 +823,36 @@ class LocalStorageService {
       }
     }
 
-    localStorage.setItem(STORAGE_KEYS.SEGMENTS, JSON.stringify(segments));
+    this.store.setItem(STORAGE_KEYS.SEGMENTS, JSON.stringify(segments));
     return segments[segmentIndex];
   }
 
   deleteSegment(id: number): boolean {
     const segments = this.getSegments();
-    const filteredSegments = segments.filter(segment => segment.id !== id);
+    const deleted = segments.find(segment => segment.id === id);
 
-    if (filteredSegments.length === segments.length) return false;
+    if (!deleted) return false;
 
-    localStorage.setItem(STORAGE_KEYS.SEGMENTS, JSON.stringify(filteredSegments));
+    this.snapshotBeforeEdit(deleted.race_id);
+    const filteredSegments = segments.filter(segment => segment.id !== id);
+    this.store.setItem(STORAGE_KEYS.SEGMENTS, JSON.stringify(filteredSegments));
     return true;
   }
 
-  deleteSegmentsByRaceId(raceId: number): void {
+  /**
+   * Delete a race's checkpoints: those of one route variant, or of every route if none is given
+   */
+  deleteSegmentsByRaceId(raceId: number, routeVariantId?: number | null): void {
     const segments = this.getSegments();
-    const filteredSegments = segments.filter(segment => segment.race_id !== raceId);
-    localStorage.setItem(STORAGE_KEYS.SEGMENTS, JSON.stringify(filteredSegments));
+    const filteredSegments = segments.filter(segment => routeVariantId === undefined
+      ? segment.race_id !== raceId
+      : !onSameRoute(segment, { race_id: raceId, route_variant_id: routeVariantId }));
+    this.store.setItem(STORAGE_KEYS.SEGMENTS, JSON.stringify(filteredSegments));
   }
 
   // Elevation label operations
   getElevationLabels(): ElevationLabel[] {
-    const labels = localStorage.getItem(STORAGE_KEYS.ELEVATION_LABELS);
+    const labels = this.store.getItem(STORAGE_KEYS.ELEVATION_LABELS);
     return labels ? JSON.parse(labels) : [];
   }
 
@@ -566,7 +879,7 @@ class LocalStorageService {
     };
 
     labels.push(newLabel);
-    localStorage.setItem(STORAGE_KEYS.ELEVATION_LABELS, JSON.stringify(labels));
+    this.store.setItem(STORAGE_KEYS.ELEVATION_LABELS, JSON.stringify(labels));
     return newLabel;
   }
 
@@ -583,7 +896,7 @@ class LocalStorageService {
     };
 
     labels[labelIndex] = updatedLabel;
-    localStorage.setItem(STORAGE_KEYS.ELEVATION_LABELS, JSON.stringify(labels));
+    this.store.setItem(STORAGE_KEYS.ELEVATION_LABELS, JSON.stringify(labels));
     return updatedLabel;
   }
 
@@ -593,14 +906,14 @@ class LocalStorageService {
 
     if (filteredLabels.length === labels.length) return false;
 
-    localStorage.setItem(STORAGE_KEYS.ELEVATION_LABELS, JSON.stringify(filteredLabels));
+    this.store.setItem(STORAGE_KEYS.ELEVATION_LABELS, JSON.stringify(filteredLabels));
     return true;
   }
 
   deleteElevationLabelsByRaceId(raceId: number): void {
     const labels = this.getElevationLabels();
     const filteredLabels = labels.filter(label => label.race_id !== raceId);
-    localStorage.setItem(STORAGE_KEYS.ELEVATION_LABELS, JSON.stringify(filteredLabels));
+    this.store.setItem(STORAGE_KEYS.ELEVATION_LABELS, JSON.stringify(filteredLabels));
   }
 
   // GPX file operations (simplified for local storage)
@@ -609,9 +922,11 @@ class LocalStorageService {
       console.log('[LocalStorage] Starting GPX upload for race:', raceId, 'File:', file.name);
 
       const reader = new FileReader();
-      reader.onload = () => {
+      reader.onload = async () => {
         try {
-          const fileKey = `gpx_${raceId}`;
+          // Each route variant keeps its own GPX file
+          const activeVariantId = this.getActiveRouteVariantId(raceId);
+          const fileKey = activeVariantId !== null ? `gpx_${raceId}_v${activeVariantId}` : `gpx_${raceId}`;
           let content = reader.result as string;
 
           console.log('[LocalStorage] File read complete. Original size:', (content.length / 1024).toFixed(1) + 'KB');
@@ -639,9 +954,9 @@ class LocalStorageService {
           // Clean up old GPX file for this race if it exists
           const races = this.getRaces();
           const race = races.find(r => r.id === raceId);
-          if (race?.gpx_file_key) {
+          if (race?.gpx_file_key && race.gpx_file_key !== fileKey) {
             console.log('[LocalStorage] Removing old GPX file:', race.gpx_file_key);
-            localStorage.removeItem(race.gpx_file_key);
+            this.store.removeItem(race.gpx_file_key);
           }
 
           // Clean up orphaned GPX files (files not referenced by any race)
@@ -649,24 +964,23 @@ class LocalStorageService {
 
           // Try to save the new file
           try {
-            localStorage.setItem(fileKey, JSON.stringify(fileData));
-            console.log('[LocalStorage] GPX file saved to localStorage with key:', fileKey);
+            await this.store.commit(fileKey, JSON.stringify(fileData));
+            console.log('[LocalStorage] GPX file saved to storage with key:', fileKey);
           } catch (quotaError) {
             // If quota exceeded, try one more cleanup and retry
             if (quotaError instanceof DOMException && quotaError.name === 'QuotaExceededError') {
               console.log('[LocalStorage] Quota exceeded, attempting aggressive cleanup...');
 
               // Remove all GPX files except the one we're trying to save
-              for (let i = 0; i < localStorage.length; i++) {
-                const key = localStorage.key(i);
-                if (key && key.startsWith('gpx_') && key !== fileKey) {
+              for (const key of this.store.keys()) {
+                if (key.startsWith('gpx_') && key !== fileKey) {
                   console.log('[LocalStorage] Removing GPX file to free space:', key);
-                  localStorage.removeItem(key);
+                  this.store.removeItem(key);
                 }
               }
 
               // Try one more time
-              localStorage.setItem(fileKey, JSON.stringify(fileData));
+              await this.store.commit(fileKey, JSON.stringify(fileData));
               console.log('[LocalStorage] GPX file saved after cleanup');
             } else {
               throw quotaError;
@@ -677,8 +991,11 @@ class LocalStorageService {
           const raceIndex = races.findIndex(race => race.id === raceId);
           if (raceIndex !== -1) {
             races[raceIndex].gpx_file_key = fileKey;
+            races[raceIndex].route_variants = races[raceIndex].route_variants?.map(variant =>
+              variant.id === activeVariantId ? { ...variant, gpx_file_key: fileKey } : variant
+            ) ?? null;
             races[raceIndex].updated_at = this.getCurrentTimestamp();
-            localStorage.setItem(STORAGE_KEYS.RACES, JSON.stringify(races));
+            this.store.setItem(STORAGE_KEYS.RACES, JSON.stringify(races));
             console.log('[LocalStorage] Race updated with GPX file key');
           } else {
             console.error('[LocalStorage] Race not found with id:', raceId);
@@ -705,22 +1022,60 @@ class LocalStorageService {
   // Helper to clean up GPX files that are no longer referenced
   private cleanupOrphanedGPXFiles(): void {
     const races = this.getRaces();
-    const validGPXKeys = new Set(races.map(r => r.gpx_file_key).filter(Boolean));
+    const validGPXKeys = new Set(races.flatMap(getRaceGPXKeys));
 
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && key.startsWith('gpx_') && !validGPXKeys.has(key)) {
+    for (const key of this.store.keys()) {
+      if (key.startsWith('gpx_') && !validGPXKeys.has(key)) {
         console.log('[LocalStorage] Removing orphaned GPX file:', key);
-        localStorage.removeItem(key);
+        this.store.removeItem(key);
       }
     }
   }
 
   getGPXFile(fileKey: string): { name: string; content: string; type: string } | null {
-    const fileData = localStorage.getItem(fileKey);
+    const fileData = this.store.getItem(fileKey);
     return fileData ? JSON.parse(fileData) : null;
   }
 
+  // DEM tile operations - offline elevation rasters, shared by every race and kept in a separate IndexedDB database
+  saveDEMTile(tile: StoredDEMTile): Promise<void> {
+    return this.demStore.putTiles([tile]);
+  }
+
+  getDEMTiles(): Promise<StoredDEMTile[]> {
+    return this.demStore.getTiles();
+  }
+
+  deleteDEMTile(name: string): Promise<void> {
+    return this.demStore.removeTile(name);
+  }
+
+  // Offline map tile packs - kept in a separate IndexedDB database and read on demand
+  getTilePacks(): Promise<MapTilePack[]> {
+    return this.tileStore.getPacks();
+  }
+
+  async getTilePack(raceId: number): Promise<MapTilePack | null> {
+    const packs = await this.tileStore.getPacks();
+    return packs.find(pack => pack.raceId === raceId) ?? null;
+  }
+
+  saveTilePack(pack: MapTilePack): Promise<void> {
+    return this.tileStore.putPack(pack);
+  }
+
+  getMapTile(raceId: number, tileKey: string): Promise<Blob | null> {
+    return this.tileStore.getTile(raceId, tileKey);
+  }
+
+  saveMapTiles(raceId: number, tiles: Array<[string, Blob]>): Promise<void> {
+    return this.tileStore.putTiles(raceId, tiles);
+  }
+
+  deleteTilePack(raceId: number): Promise<void> {
+    return this.tileStore.removePack(raceId);
+  }
+
   // FIT file operations
   private async parseFITFile(file: File): Promise<ParsedFITData> {
     // NOTE: DO NOT use speedUnit/lengthUnit - the library doesn't properly convert
@@ -916,6 +1271,17 @@ class LocalStorageService {
     });
   }
 
+  /**
+   * Parse a FIT or GPX activity without storing it, e.g. a partial activity
+   * pulled from the watch mid-race
+   */
+  async parseActivityFile(file: File): Promise<ParsedFITData> {
+    if (file.name.toLowerCase().endsWith('.gpx')) {
+      return parseGPXActivity(await file.text(), file.name);
+    }
+    return this.parseFITFile(file);
+  }
+
   setFITFile(raceId: number, file: File): Promise<string> {
     return new Promise(async (resolve, reject) => {
       try {
@@ -961,7 +1327,7 @@ class LocalStorageService {
         const race = races.find(r => r.id === raceId);
         if (race?.fit_comparison_file_key) {
           console.log('[LocalStorage] Removing old FIT file:', race.fit_comparison_file_key);
-          localStorage.removeItem(race.fit_comparison_file_key);
+          this.store.removeItem(race.fit_comparison_file_key);
         }
 
         // Clean up orphaned FIT files
@@ -969,24 +1335,23 @@ class LocalStorageService {
 
         // Try to save the new file
         try {
-          localStorage.setItem(fileKey, JSON.stringify(fileData));
-          console.log('[LocalStorage] FIT file saved to localStorage with key:', fileKey);
+          await this.store.commit(fileKey, JSON.stringify(fileData));
+          console.log('[LocalStorage] FIT file saved to storage with key:', fileKey);
         } catch (quotaError) {
           // If quota exceeded, try cleanup and retry
           if (quotaError instanceof DOMException && quotaError.name === 'QuotaExceededError') {
             console.log('[LocalStorage] Quota exceeded, attempting cleanup...');
 
             // Remove all FIT files except the one we're trying to save
-            for (let i = 0; i < localStorage.length; i++) {
-              const key = localStorage.key(i);
-              if (key && key.startsWith('fit_') && key !== fileKey) {
+            for (const key of this.store.keys()) {
+              if (key.startsWith('fit_') && key !== fileKey) {
                 console.log('[LocalStorage] Removing FIT file to free space:', key);
-                localStorage.removeItem(key);
+                this.store.removeItem(key);
               }
             }
 
             // Try one more time
-            localStorage.setItem(fileKey, JSON.stringify(fileData));
+            await this.store.commit(fileKey, JSON.stringify(fileData));
             console.log('[LocalStorage] FIT file saved after cleanup');
           } else {
             throw quotaError;
@@ -1008,7 +1373,7 @@ class LocalStorageService {
   }
 
   getFITFile(fileKey: string): ParsedFITData | null {
-    const fileData = localStorage.getItem(fileKey);
+    const fileData = this.store.getItem(fileKey);
     if (!fileData) return null;
 
     try {
@@ -1029,7 +1394,7 @@ class LocalStorageService {
 
   deleteFITFile(fileKey: string): void {
     console.log('[LocalStorage] Deleting FIT file:', fileKey);
-    localStorage.removeItem(fileKey);
+    this.store.removeItem(fileKey);
   }
 
   // Helper to clean up FIT files that are no longer referenced
@@ -1041,11 +1406,10 @@ class LocalStorageService {
       ...races.map(r => r.fit_autopace_file_key).filter(Boolean)
     ]);
 
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && key.startsWith('fit_') && !validFITKeys.has(key)) {
+    for (const key of this.store.keys()) {
+      if (key.startsWith('fit_') && !validFITKeys.has(key)) {
         console.log('[LocalStorage] Removing orphaned FIT file:', key);
-        localStorage.removeItem(key);
+        this.store.removeItem(key);
       }
     }
   }
@@ -1058,7 +1422,7 @@ class LocalStorageService {
    * Get user's saved custom nutrition products
    */
   getUserNutritionProducts(): UserNutritionProduct[] {
-    const stored = localStorage.getItem(STORAGE_KEYS.USER_NUTRITION_PRODUCTS);
+    const stored = this.store.getItem(STORAGE_KEYS.USER_NUTRITION_PRODUCTS);
     if (!stored) return [];
     try {
       return JSON.parse(stored);
@@ -1080,7 +1444,7 @@ class LocalStorageService {
       products.push(product);
     }
 
-    localStorage.setItem(STORAGE_KEYS.USER_NUTRITION_PRODUCTS, JSON.stringify(products));
+    this.store.setItem(STORAGE_KEYS.USER_NUTRITION_PRODUCTS, JSON.stringify(products));
   }
 
   /**
@@ -1089,7 +1453,7 @@ class LocalStorageService {
   deleteUserNutritionProduct(productId: string): void {
     const products = this.getUserNutritionProducts();
     const filtered = products.filter(p => p.id !== productId);
-    localStorage.setItem(STORAGE_KEYS.USER_NUTRITION_PRODUCTS, JSON.stringify(filtered));
+    this.store.setItem(STORAGE_KEYS.USER_NUTRITION_PRODUCTS, JSON.stringify(filtered));
   }
 
   /**
@@ -1131,7 +1495,7 @@ class LocalStorageService {
       }
     }
 
-    localStorage.setItem(STORAGE_KEYS.USER_NUTRITION_PRODUCTS, JSON.stringify(existing));
+    this.store.setItem(STORAGE_KEYS.USER_NUTRITION_PRODUCTS, JSON.stringify(existing));
     return { imported, skipped, updated };
   }
 
@@ -1185,14 +1549,14 @@ class LocalStorageService {
       .sort((a, b) => new Date(b.lastUsedAt).getTime() - new Date(a.lastUsedAt).getTime())
       .slice(0, 10);
 
-    localStorage.setItem(STORAGE_KEYS.RECENTLY_USED_PRODUCTS, JSON.stringify(sorted));
+    this.store.setItem(STORAGE_KEYS.RECENTLY_USED_PRODUCTS, JSON.stringify(sorted));
   }
 
   /**
    * Get recently used products (sorted by most recent)
    */
   getRecentlyUsedProducts(): RecentlyUsedProduct[] {
-    const stored = localStorage.getItem(STORAGE_KEYS.RECENTLY_USED_PRODUCTS);
+    const stored = this.store.getItem(STORAGE_KEYS.RECENTLY_USED_PRODUCTS);
     if (!stored) return [];
     try {
       const products = JSON.parse(stored);
@@ -1209,7 +1573,7 @@ class LocalStorageService {
    * Clear recently used products
    */
   clearRecentlyUsedProducts(): void {
-    localStorage.removeItem(STORAGE_KEYS.RECENTLY_USED_PRODUCTS);
+    this.store.removeItem(STORAGE_KEYS.RECENTLY_USED_PRODUCTS);
   }
 
   // ============================================
@@ -1221,7 +1585,7 @@ class LocalStorageService {
    */
   getAutoPaceSettings(raceId: number): AutoPaceSettings | null {
     const key = `${STORAGE_KEYS.AUTO_PACE_SETTINGS}_${raceId}`;
-    const stored = localStorage.getItem(key);
+    const stored = this.store.getItem(key);
     if (!stored) return null;
     try {
       return JSON.parse(stored);
@@ -1235,7 +1599,7 @@ class LocalStorageService {
    */
   saveAutoPaceSettings(raceId: number, settings: AutoPaceSettings): void {
     const key = `${STORAGE_KEYS.AUTO_PACE_SETTINGS}_${raceId}`;
-    localStorage.setItem(key, JSON.stringify(settings));
+    this.store.setItem(key, JSON.stringify(settings));
     console.log('[LocalStorage] Auto-pace settings saved for race:', raceId);
   }
 
@@ -1244,7 +1608,7 @@ class LocalStorageService {
    */
   deleteAutoPaceSettings(raceId: number): void {
     const key = `${STORAGE_KEYS.AUTO_PACE_SETTINGS}_${raceId}`;
-    localStorage.removeItem(key);
+    this.store.removeItem(key);
     console.log('[LocalStorage] Auto-pace settings deleted for race:', raceId);
   }
 
@@ -1281,29 +1645,28 @@ class LocalStorageService {
         const race = races.find(r => r.id === raceId);
         if (race?.fit_autopace_file_key) {
           console.log('[LocalStorage] Removing old auto-pace FIT file:', race.fit_autopace_file_key);
-          localStorage.removeItem(race.fit_autopace_file_key);
+          this.store.removeItem(race.fit_autopace_file_key);
         }
 
         // Try to save the new file
         try {
-          localStorage.setItem(fileKey, JSON.stringify(fileData));
-          console.log('[LocalStorage] Auto-pace FIT file saved to localStorage with key:', fileKey);
+          await this.store.commit(fileKey, JSON.stringify(fileData));
+          console.log('[LocalStorage] Auto-pace FIT file saved to storage with key:', fileKey);
         } catch (quotaError) {
           // If quota exceeded, try cleanup and retry
           if (quotaError instanceof DOMException && quotaError.name === 'QuotaExceededError') {
             console.log('[LocalStorage] Quota exceeded, attempting cleanup...');
 
             // Remove all auto-pace FIT files except the one we're trying to save
-            for (let i = 0; i < localStorage.length; i++) {
-              const key = localStorage.key(i);
-              if (key && key.startsWith('fit_autopace_') && key !== fileKey) {
+            for (const key of this.store.keys()) {
+              if (key.startsWith('fit_autopace_') && key !== fileKey) {
                 console.log('[LocalStorage] Removing auto-pace FIT file to free space:', key);
-                localStorage.removeItem(key);
+                this.store.removeItem(key);
               }
             }
 
             // Try one more time
-            localStorage.setItem(fileKey, JSON.stringify(fileData));
+            await this.store.commit(fileKey, JSON.stringify(fileData));
             console.log('[LocalStorage] Auto-pace FIT file saved after cleanup');
           } else {
             throw quotaError;
@@ -1367,7 +1730,7 @@ class LocalStorageService {
     distanceCovered: number;
   }): void {
     try {
-      localStorage.setItem(STORAGE_KEYS.GAP_PROFILE, JSON.stringify(profile));
+      this.store.setItem(STORAGE_KEYS.GAP_PROFILE, JSON.stringify(profile));
       console.log('[LocalStorage] GAP profile saved');
     } catch (error) {
       console.error('[LocalStorage] Error saving GAP profile:', error);
@@ -1396,7 +1759,7 @@ class LocalStorageService {
     distanceCovered: number;
   } | null {
     try {
-      const data = localStorage.getItem(STORAGE_KEYS.GAP_PROFILE);
+      const data = this.store.getItem(STORAGE_KEYS.GAP_PROFILE);
       if (!data) return null;
       return JSON.parse(data);
     } catch (error) {
@@ -1409,9 +1772,638 @@ class LocalStorageService {
    * Delete GAP profile from localStorage
    */
   deleteGAPProfile(): void {
-    localStorage.removeItem(STORAGE_KEYS.GAP_PROFILE);
+    this.store.removeItem(STORAGE_KEYS.GAP_PROFILE);
     console.log('[LocalStorage] GAP profile deleted');
   }
+
+  // ============================================
+  // SWEAT TEST OPERATIONS
+  // ============================================
+
+  /**
+   * Get the user's logged sweat-rate tests, newest first
+   */
+  getSweatTests(): SweatTest[] {
+    const stored = this.store.getItem(STORAGE_KEYS.SWEAT_TESTS);
+    if (!stored) return [];
+    try {
+      const tests: SweatTest[] = JSON.parse(stored);
+      return tests.sort((a, b) => b.date.localeCompare(a.date));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Add or update a sweat-rate test
+   */
+  saveSweatTest(test: SweatTest): void {
+    const tests = this.getSweatTests();
+    const existingIndex = tests.findIndex(t => t.id === test.id);
+
+    if (existingIndex >= 0) {
+      tests[existingIndex] = test;
+    } else {
+      tests.push(test);
+    }
+
+    this.store.setItem(STORAGE_KEYS.SWEAT_TESTS, JSON.stringify(tests));
+  }
+
+  /**
+   * Delete a sweat-rate test
+   */
+  deleteSweatTest(testId: string): void {
+    const tests = this.getSweatTests().filter(t => t.id !== testId);
+    this.store.setItem(STORAGE_KEYS.SWEAT_TESTS, JSON.stringify(tests));
+  }
+
+  // ============================================
+  // PLAN HISTORY OPERATIONS
+  // ============================================
+
+  private getPlanHistoryKey(raceId: number): string {
+    return `${STORAGE_KEYS.PLAN_HISTORY}_${raceId}`;
+  }
+
+  /**
+   * Get the saved snapshots of a race plan, newest first
+   */
+  getPlanSnapshots(raceId: number): PlanSnapshot[] {
+    const stored = this.store.getItem(this.getPlanHistoryKey(raceId));
+    if (!stored) return [];
+    try {
+      const snapshots: PlanSnapshot[] = JSON.parse(stored);
+      return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Save a snapshot of a race plan: the race, checkpoints of every route variant,
+   * elevation labels and auto-pace settings.
+   * Only the newest auto snapshots are kept, and an auto snapshot identical to
+   * the latest snapshot isn't saved.
+   * @returns the snapshot, or null if the race doesn't exist or nothing changed
+   */
+  createPlanSnapshot(raceId: number, name: string, kind: PlanSnapshotKind = 'named'): PlanSnapshot | null {
+    const race = this.getRace(raceId);
+    if (!race) return null;
+
+    const snapshot: PlanSnapshot = {
+      id: `plan-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      raceId,
+      name,
+      kind,
+      createdAt: this.getCurrentTimestamp(),
+      race,
+      segments: this.getSegments().filter(segment => segment.race_id === raceId),
+      elevationLabels: this.getElevationLabelsByRaceId(raceId),
+      autoPaceSettings: this.getAutoPaceSettings(raceId),
+    };
+
+    const snapshots = this.getPlanSnapshots(raceId);
+    if (kind === 'auto') {
+      this.lastAutoSnapshotAt.set(raceId, Date.now());
+      const planContent = (s: PlanSnapshot) => JSON.stringify([s.race, s.segments, s.elevationLabels, s.autoPaceSettings]);
+      if (snapshots.length > 0 && planContent(snapshots[0]) === planContent(snapshot)) {
+        return null;
+      }
+    }
+
+    const autoSnapshots = [snapshot, ...snapshots].filter(s => s.kind === 'auto').slice(0, MAX_AUTO_PLAN_SNAPSHOTS);
+    const kept = [snapshot, ...snapshots].filter(s => s.kind === 'named' || autoSnapshots.includes(s));
+    this.store.setItem(this.getPlanHistoryKey(raceId), JSON.stringify(kept));
+
+    return snapshot;
+  }
+
+  /**
+   * Rename a snapshot, which also keeps it from being pruned
+   */
+  renamePlanSnapshot(raceId: number, snapshotId: string, name: string): void {
+    const snapshots = this.getPlanSnapshots(raceId)
+      .map(s => (s.id === snapshotId ? { ...s, name, kind: 'named' as const } : s));
+    this.store.setItem(this.getPlanHistoryKey(raceId), JSON.stringify(snapshots));
+  }
+
+  /**
+   * Delete a snapshot
+   */
+  deletePlanSnapshot(raceId: number, snapshotId: string): void {
+    const snapshots = this.getPlanSnapshots(raceId).filter(s => s.id !== snapshotId);
+    this.store.setItem(this.getPlanHistoryKey(raceId), JSON.stringify(snapshots));
+  }
+
+  /**
+   * Restore a race plan from a snapshot, after taking a snapshot of the current plan.
+   *
+   * - whole plan (no segmentIds): race settings, checkpoints, elevation labels and
+   *   auto-pace settings. GPX/FIT files and route variants stay as they are now,
+   *   and checkpoints of route variants added since the snapshot are kept.
+   * - segmentIds: only those checkpoints, re-adding any deleted since the snapshot
+   *
+   * Checkpoints of route variants deleted since the snapshot are not restored.
+   * @returns the race, or null if the race or snapshot doesn't exist
+   */
+  restorePlanSnapshot(raceId: number, snapshotId: string, segmentIds?: number[]): Race | null {
+    const races = this.getRaces();
+    const raceIndex = races.findIndex(race => race.id === raceId);
+    const snapshot = this.getPlanSnapshots(raceId).find(s => s.id === snapshotId);
+
+    if (raceIndex === -1 || !snapshot) return null;
+
+    this.createPlanSnapshot(raceId, `Before restoring "${snapshot.name}"`, 'auto');
+
+    const race = races[raceIndex];
+    const currentVariantIds = new Set((race.route_variants ?? []).map(v => v.id));
+    const onCurrentRoute = (segment: Segment) => race.route_variants
+      ? segment.route_variant_id != null && currentVariantIds.has(segment.route_variant_id)
+      : segment.route_variant_id == null;
+    const snapshotSegments = snapshot.segments.filter(onCurrentRoute);
+
+    let segments = this.getSegments();
+
+    if (segmentIds) {
+      const restored = snapshotSegments.filter(segment => segment.id != null && segmentIds.includes(segment.id));
+      for (const segment of restored) {
+        const index = segments.findIndex(s => s.id === segment.id);
+        const restoredSegment = { ...segment, updated_at: this.getCurrentTimestamp() };
+        if (index >= 0) {
+          segments[index] = restoredSegment;
+        } else {
+          segments.push(restoredSegment);
+        }
+      }
+
+      // Restored distances change the cumulative distance of every later checkpoint
+      const routes = new Set(restored.map(segment => segment.route_variant_id ?? null));
+      routes.forEach(routeVariantId => {
+        let cumulativeMiles = 0;
+        segments
+          .filter(s => onSameRoute(s, { race_id: raceId, route_variant_id: routeVariantId }))
+          .sort((a, b) => a.segment_order - b.segment_order)
+          .forEach(s => {
+            cumulativeMiles += s.segment_distance_miles;
+            s.cumulative_distance_miles = cumulativeMiles;
+            s.cumulative_distance_km = milesToKm(cumulativeMiles);
+          });
+      });
+
+      this.store.setItem(STORAGE_KEYS.SEGMENTS, JSON.stringify(segments));
+      return race;
+    }
+
+    // Keep checkpoints of route variants the snapshot doesn't know about
+    const snapshotVariantIds = new Set((snapshot.race.route_variants ?? []).map(v => v.id));
+    const inSnapshot = (segment: Segment) =>
+      segment.route_variant_id == null || snapshotVariantIds.has(segment.route_variant_id);
+    segments = [
+      ...segments.filter(segment => segment.race_id !== raceId || !inSnapshot(segment)),
+      ...snapshotSegments,
+    ];
+
+    races[raceIndex] = {
+      ...snapshot.race,
+      id: race.id,
+      userId: race.userId,
+      gpx_file_key: race.gpx_file_key,
+      fit_comparison_file_key: race.fit_comparison_file_key,
+      fit_autopace_file_key: race.fit_autopace_file_key,
+      route_variants: race.route_variants,
+      active_route_variant_id: race.active_route_variant_id,
+      created_at: race.created_at,
+      updated_at: this.getCurrentTimestamp(),
+    };
+
+    const labels = [
+      ...this.getElevationLabels().filter(label => label.race_id !== raceId),
+      ...snapshot.elevationLabels,
+    ];
+
+    this.store.setItem(STORAGE_KEYS.RACES, JSON.stringify(races));
+    this.store.setItem(STORAGE_KEYS.SEGMENTS, JSON.stringify(segments));
+    this.store.setItem(STORAGE_KEYS.ELEVATION_LABELS, JSON.stringify(labels));
+    if (snapshot.autoPaceSettings) {
+      this.saveAutoPaceSettings(raceId, { ...snapshot.autoPaceSettings, fitFileKey: race.fit_autopace_file_key || undefined });
+    } else {
+      this.deleteAutoPaceSettings(raceId);
+    }
+
+    console.log('[LocalStorage] Restored plan snapshot:', snapshot.name, 'for race:', raceId);
+    return races[raceIndex];
+  }
+
+  // Snapshot the plan before the first edit after a quiet spell, so a burst of
+  // edits (or a bulk recalculation) can be undone as one
+  private snapshotBeforeEdit(raceId: number): void {
+    if (!this.lastAutoSnapshotAt.has(raceId)) {
+      const latestAuto = this.getPlanSnapshots(raceId).find(s => s.kind === 'auto');
+      this.lastAutoSnapshotAt.set(raceId, latestAuto ? new Date(latestAuto.createdAt).getTime() : 0);
+    }
+    if (Date.now() - this.lastAutoSnapshotAt.get(raceId)! < AUTO_SNAPSHOT_INTERVAL_MS) return;
+
+    this.createPlanSnapshot(raceId, 'Before edits', 'auto');
+  }
+
+  // ============================================
+  // RACE DAY OPERATIONS
+  // ============================================
+
+  private getRaceDayKey(raceId: number): string {
+    return `${STORAGE_KEYS.RACE_DAY}_${raceId}`;
+  }
+
+  /**
+   * Get a race's race-day log (empty if nothing has been recorded)
+   */
+  getRaceDayLog(raceId: number): RaceDayLog {
+    const empty: RaceDayLog = { raceId, startedAt: null, splits: [], entries: [] };
+    const stored = this.store.getItem(this.getRaceDayKey(raceId));
+    if (!stored) return empty;
+    try {
+      return { ...empty, ...JSON.parse(stored) };
+    } catch {
+      return empty;
+    }
+  }
+
+  /**
+   * Record the actual start time (null goes back to the planned start)
+   */
+  setRaceDayStart(raceId: number, startedAt: string | null): RaceDayLog {
+    const log = this.getRaceDayLog(raceId);
+    log.startedAt = startedAt;
+    return this.appendRaceDayEntry(log, { type: 'start', segmentId: null, time: startedAt });
+  }
+
+  /**
+   * Record an actual arrival or departure time at a checkpoint (null clears it)
+   */
+  recordRaceDaySplit(raceId: number, segmentId: number, type: 'arrival' | 'departure', time: string | null): RaceDayLog {
+    const log = this.getRaceDayLog(raceId);
+    const split = this.getOrAddRaceDaySplit(log, segmentId);
+    if (type === 'arrival') {
+      split.arrivedAt = time;
+    } else {
+      split.departedAt = time;
+    }
+    return this.appendRaceDayEntry(log, { type, segmentId, time });
+  }
+
+  /**
+   * Record what was actually eaten on the leg into a checkpoint (null follows the plan)
+   */
+  recordRaceDayNutrition(raceId: number, segmentId: number, eaten: NutritionItem[] | null): RaceDayLog {
+    const log = this.getRaceDayLog(raceId);
+    this.getOrAddRaceDaySplit(log, segmentId).eaten = eaten;
+    const note = eaten
+      ? eaten.filter(item => item.quantity > 0).map(item => `${item.quantity}× ${item.productName}`).join(', ') || 'Nothing eaten'
+      : 'As planned';
+    return this.appendRaceDayEntry(log, { type: 'nutrition', segmentId, time: null, note });
+  }
+
+  /**
+   * Add a free-text note to the race-day log
+   */
+  addRaceDayNote(raceId: number, segmentId: number | null, note: string): RaceDayLog {
+    return this.appendRaceDayEntry(this.getRaceDayLog(raceId), { type: 'note', segmentId, time: null, note });
+  }
+
+  /**
+   * Delete a race's race-day log
+   */
+  clearRaceDayLog(raceId: number): void {
+    this.store.removeItem(this.getRaceDayKey(raceId));
+  }
+
+  private getOrAddRaceDaySplit(log: RaceDayLog, segmentId: number): RaceDaySplit {
+    let split = log.splits.find(s => s.segmentId === segmentId);
+    if (!split) {
+      split = { segmentId, arrivedAt: null, departedAt: null, eaten: null };
+      log.splits.push(split);
+    }
+    return split;
+  }
+
+  private appendRaceDayEntry(log: RaceDayLog, entry: Omit<RaceDayLogEntry, 'id' | 'loggedAt'>): RaceDayLog {
+    log.entries.push({
+      id: `rd-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      loggedAt: this.getCurrentTimestamp(),
+      ...entry,
+    });
+    this.store.setItem(this.getRaceDayKey(log.raceId), JSON.stringify(log));
+    return log;
+  }
+
+  // ============================================
+  // WORKSPACE BACKUP OPERATIONS
+  // ============================================
+
+  /**
+   * Collect everything this service stores for a full-workspace backup.
+   * Only GPX/FIT files, plan history and race-day logs of existing races are
+   * included. The migration snapshot stays on this device.
+   */
+  getWorkspaceData(): WorkspaceData {
+    const races = this.getRaces();
+    const referencedFiles = new Set(
+      races.flatMap(race => [...getRaceGPXKeys(race), race.fit_comparison_file_key, race.fit_autopace_file_key])
+    );
+    const settingsPrefix = `${STORAGE_KEYS.AUTO_PACE_SETTINGS}_`;
+    const files: Record<string, string> = {};
+    const autoPaceSettings: Record<string, AutoPaceSettings> = {};
+    const planHistory: Record<string, PlanSnapshot[]> = {};
+    const raceDayLogs: Record<string, RaceDayLog> = {};
+
+    for (const race of races) {
+      if (race.id === undefined) continue;
+      const snapshots = this.getPlanSnapshots(race.id);
+      if (snapshots.length > 0) {
+        planHistory[race.id] = snapshots;
+      }
+      const log = this.getRaceDayLog(race.id);
+      if (log.startedAt || log.entries.length > 0) {
+        raceDayLogs[race.id] = log;
+      }
+    }
+
+    for (const key of this.store.keys()) {
+      if (referencedFiles.has(key)) {
+        files[key] = this.store.getItem(key)!;
+      } else if (key.startsWith(settingsPrefix)) {
+        const raceId = key.slice(settingsPrefix.length);
+        const settings = this.getAutoPaceSettings(parseInt(raceId));
+        if (settings) {
+          autoPaceSettings[raceId] = settings;
+        }
+      }
+    }
+
+    return {
+      schemaVersion: this.getSchemaVersion(),
+      races,
+      segments: this.getSegments(),
+      elevationLabels: this.getElevationLabels(),
+      files,
+      autoPaceSettings,
+      userNutritionProducts: this.getUserNutritionProducts(),
+      recentlyUsedProducts: this.getRecentlyUsedProducts(),
+      gapProfile: this.getGAPProfile(),
+      sweatTests: this.getSweatTests(),
+      planHistory,
+      raceDayLogs,
+    };
+  }
+
+  /**
+   * Restore a full-workspace backup.
+   *
+   * - replace: the archived workspace replaces the stored races, files and
+   *   settings, keeping its IDs. Offline terrain tiles are kept.
+   * - merge: archived races are added alongside existing ones with fresh IDs;
+   *   segments, labels, files, auto-pace settings, plan history and race-day
+   *   logs are remapped to match
+   *
+   * When replace restores a race that's still on this device, its plan history
+   * is combined with the archived one and its race-day log is kept, as either may
+   * be newer than the backup (e.g. splits logged on race day).
+   *
+   * All data is committed in one write, so a failure (e.g. quota) leaves the
+   * existing workspace untouched.
+   */
+  async restoreWorkspaceData(data: WorkspaceData, mode: WorkspaceRestoreMode): Promise<WorkspaceRestoreResult> {
+    // Bring archived races/segments up to the current schema first
+    const migrated = runMigrations(data.races, data.segments, data.schemaVersion);
+    if (migrated.validationIssues.length > 0) {
+      console.warn('[LocalStorage] Restoring records that fail validation:', formatMigrationReport(migrated));
+    }
+
+    const settingsPrefix = `${STORAGE_KEYS.AUTO_PACE_SETTINGS}_`;
+    const entries: Array<[string, string]> = [];
+    const raceIdMap: Record<number, number> = {};
+    const fileKeyMap: Record<string, string> = {};
+
+    const archivedSnapshots = Object.values(data.planHistory ?? {}).flat();
+
+    // Replace keeps archived IDs so links still work; merge allocates fresh IDs to avoid collisions
+    let nextId = mode === 'replace'
+      ? Math.max(
+          0,
+          ...migrated.races.map(r => r.id ?? 0),
+          ...migrated.segments.map(s => s.id ?? 0),
+          ...data.elevationLabels.map(l => l.id ?? 0),
+          ...archivedSnapshots.flatMap(snapshot => [
+            ...snapshot.segments.map(s => s.id ?? 0),
+            ...snapshot.elevationLabels.map(l => l.id ?? 0),
+          ])
+        ) + 1
+      : parseInt(this.store.getItem(STORAGE_KEYS.NEXT_ID) || '1');
+    const allocateId = (archivedId: number | undefined) =>
+      mode === 'replace' && archivedId !== undefined ? archivedId : nextId++;
+
+    const restoredRaces = migrated.races.map(race => {
+      const id = allocateId(race.id);
+      if (race.id !== undefined) {
+        raceIdMap[race.id] = id;
+      }
+
+      // Re-key attached files to match the restored race ID
+      const restored: Race = { ...race, id };
+      const fileFields = [
+        ['gpx_file_key', `gpx_${id}`],
+        ['fit_comparison_file_key', `fit_${id}`],
+        ['fit_autopace_file_key', `fit_autopace_${id}`],
+      ] as const;
+      for (const [field, fileKey] of fileFields) {
+        const archivedKey = race[field];
+        if (archivedKey && data.files[archivedKey]) {
+          entries.push([fileKey, data.files[archivedKey]]);
+          fileKeyMap[archivedKey] = fileKey;
+          restored[field] = fileKey;
+        } else {
+          restored[field] = null;
+        }
+      }
+
+      // Route variant GPX files, reusing the active route's file when it's the same one
+      if (race.route_variants) {
+        restored.route_variants = race.route_variants.map(variant => {
+          const archivedKey = variant.gpx_file_key;
+          if (!archivedKey || !data.files[archivedKey]) {
+            return { ...variant, gpx_file_key: null };
+          }
+          if (!fileKeyMap[archivedKey]) {
+            fileKeyMap[archivedKey] = `gpx_${id}_v${variant.id}`;
+            entries.push([fileKeyMap[archivedKey], data.files[archivedKey]]);
+          }
+          return { ...variant, gpx_file_key: fileKeyMap[archivedKey] };
+        });
+      }
+      return restored;
+    });
+
+    // Segments and labels deleted since a snapshot was taken are only in plan history,
+    // so IDs are remapped on first sight and reused for every later reference
+    const segmentIdMap: Record<number, number> = {};
+    const labelIdMap: Record<number, number> = {};
+    const remapId = (idMap: Record<number, number>, archivedId: number | undefined) => {
+      if (archivedId === undefined) return allocateId(archivedId);
+      if (idMap[archivedId] === undefined) {
+        idMap[archivedId] = allocateId(archivedId);
+      }
+      return idMap[archivedId];
+    };
+
+    const restoredSegments = migrated.segments
+      .filter(segment => segment.race_id in raceIdMap)
+      .map(segment => ({ ...segment, id: remapId(segmentIdMap, segment.id), race_id: raceIdMap[segment.race_id] }));
+
+    const restoredLabels = data.elevationLabels
+      .filter(label => label.race_id in raceIdMap)
+      .map(label => ({ ...label, id: remapId(labelIdMap, label.id), race_id: raceIdMap[label.race_id] }));
+
+    for (const [archivedRaceId, settings] of Object.entries(data.autoPaceSettings)) {
+      const raceId = raceIdMap[parseInt(archivedRaceId)];
+      if (raceId === undefined) continue;
+      const fitFileKey = settings.fitFileKey ? fileKeyMap[settings.fitFileKey] : undefined;
+      entries.push([`${settingsPrefix}${raceId}`, JSON.stringify({ ...settings, fitFileKey })]);
+    }
+
+    // A race still on this device: same ID and created at the same time as the archived one
+    const currentRaces = new Map(this.getRaces().map(race => [race.id, race]));
+    const isOnDevice = (race: Race) =>
+      mode === 'replace' && currentRaces.get(race.id)?.created_at === race.created_at;
+
+    for (const [archivedRaceId, raceId] of Object.entries(raceIdMap)) {
+      const race = restoredRaces.find(restored => restored.id === raceId)!;
+
+      const archivedHistory = (data.planHistory?.[archivedRaceId] ?? []).map(snapshot => ({
+        ...snapshot,
+        raceId,
+        race: { ...snapshot.race, id: raceId },
+        segments: snapshot.segments.map(segment => ({ ...segment, id: remapId(segmentIdMap, segment.id), race_id: raceId })),
+        elevationLabels: snapshot.elevationLabels.map(label => ({ ...label, id: remapId(labelIdMap, label.id), race_id: raceId })),
+      }));
+      const deviceHistory = isOnDevice(race) ? this.getPlanSnapshots(raceId) : [];
+      const deviceSnapshotIds = new Set(deviceHistory.map(snapshot => snapshot.id));
+      const planHistory = [...deviceHistory, ...archivedHistory.filter(snapshot => !deviceSnapshotIds.has(snapshot.id))];
+      if (planHistory.length > 0) {
+        entries.push([this.getPlanHistoryKey(raceId), JSON.stringify(planHistory)]);
+      }
+
+      const deviceLog = isOnDevice(race) ? this.getRaceDayLog(raceId) : null;
+      const archivedLog = data.raceDayLogs?.[archivedRaceId];
+      if (deviceLog && deviceLog.entries.length > 0) {
+        entries.push([this.getRaceDayKey(raceId), JSON.stringify(deviceLog)]);
+      } else if (archivedLog) {
+        entries.push([this.getRaceDayKey(raceId), JSON.stringify({
+          ...archivedLog,
+          raceId,
+          splits: archivedLog.splits.map(split => ({ ...split, segmentId: remapId(segmentIdMap, split.segmentId) })),
+          entries: archivedLog.entries.map(entry => ({
+            ...entry,
+            segmentId: entry.segmentId === null ? null : remapId(segmentIdMap, entry.segmentId),
+          })),
+        })]);
+      }
+    }
+
+    let nutritionProductsImported = 0;
+
+    if (mode === 'replace') {
+      entries.push(
+        [STORAGE_KEYS.RACES, JSON.stringify(restoredRaces)],
+        [STORAGE_KEYS.SEGMENTS, JSON.stringify(restoredSegments)],
+        [STORAGE_KEYS.ELEVATION_LABELS, JSON.stringify(restoredLabels)],
+        [STORAGE_KEYS.USER_NUTRITION_PRODUCTS, JSON.stringify(data.userNutritionProducts)],
+        [STORAGE_KEYS.RECENTLY_USED_PRODUCTS, JSON.stringify(data.recentlyUsedProducts)],
+        [STORAGE_KEYS.SWEAT_TESTS, JSON.stringify(data.sweatTests)]
+      );
+      if (data.gapProfile) {
+        entries.push([STORAGE_KEYS.GAP_PROFILE, JSON.stringify(data.gapProfile)]);
+      }
+      nutritionProductsImported = data.userNutritionProducts.length;
+    } else {
+      // Combine usage counts for products used in both workspaces
+      const recentlyUsed = new Map(this.getRecentlyUsedProducts().map(p => [p.productName, p]));
+      for (const product of data.recentlyUsedProducts) {
+        const existing = recentlyUsed.get(product.productName);
+        recentlyUsed.set(product.productName, existing
+          ? {
+              productName: product.productName,
+              usageCount: existing.usageCount + product.usageCount,
+              lastUsedAt: existing.lastUsedAt > product.lastUsedAt ? existing.lastUsedAt : product.lastUsedAt,
+            }
+          : product);
+      }
+      const mergedRecentlyUsed = Array.from(recentlyUsed.values())
+        .sort((a, b) => new Date(b.lastUsedAt).getTime() - new Date(a.lastUsedAt).getTime())
+        .slice(0, 10);
+
+      entries.push(
+        [STORAGE_KEYS.RACES, JSON.stringify([...this.getRaces(), ...restoredRaces])],
+        [STORAGE_KEYS.SEGMENTS, JSON.stringify([...this.getSegments(), ...restoredSegments])],
+        [STORAGE_KEYS.ELEVATION_LABELS, JSON.stringify([...this.getElevationLabels(), ...restoredLabels])],
+        [STORAGE_KEYS.RECENTLY_USED_PRODUCTS, JSON.stringify(mergedRecentlyUsed)]
+      );
+      // Sweat tests merge by id; the current copy wins
+      const currentSweatTests = this.getSweatTests();
+      const currentSweatTestIds = new Set(currentSweatTests.map(test => test.id));
+      entries.push([STORAGE_KEYS.SWEAT_TESTS, JSON.stringify([
+        ...currentSweatTests,
+        ...data.sweatTests.filter(test => !currentSweatTestIds.has(test.id)),
+      ])]);
+      // Keep the current GAP profile; only fill it in if there isn't one
+      if (data.gapProfile && !this.getGAPProfile()) {
+        entries.push([STORAGE_KEYS.GAP_PROFILE, JSON.stringify(data.gapProfile)]);
+      }
+    }
+
+    entries.push(
+      [STORAGE_KEYS.NEXT_ID, nextId.toString()],
+      [STORAGE_KEYS.SCHEMA_VERSION, migrated.toVersion.toString()]
+    );
+
+    // Replace only clears the kinds of data the archive holds; offline terrain
+    // and anything else kept on this device is left alone
+    const isArchivedKey = (key: string) =>
+      key.startsWith('gpx_') ||
+      key.startsWith('fit_') ||
+      key.startsWith(settingsPrefix) ||
+      key.startsWith(`${STORAGE_KEYS.PLAN_HISTORY}_`) ||
+      key.startsWith(`${STORAGE_KEYS.RACE_DAY}_`) ||
+      key === STORAGE_KEYS.GAP_PROFILE ||
+      key === STORAGE_KEYS.MIGRATION_SNAPSHOT; // Races/segments of the replaced workspace
+    const staleKeys = mode === 'replace'
+      ? this.store.keys().filter(key => isArchivedKey(key) && !entries.some(([entryKey]) => entryKey === key))
+      : [];
+
+    await this.store.commitMany(entries);
+    staleKeys.forEach(key => this.store.removeItem(key));
+    if (mode === 'replace') {
+      // The current races are gone, and restored races may reuse their ids
+      this.tileStore.clear().catch(error => {
+        console.error('[LocalStorage] Failed to clear offline map packs:', error);
+      });
+    }
+
+    if (mode === 'merge') {
+      // Nutrition library merges by product name, same as a products file import
+      nutritionProductsImported = this.importNutritionProducts(data.userNutritionProducts).imported;
+    }
+
+    console.log('[LocalStorage] Workspace restored:', mode, restoredRaces.length, 'races,', Object.keys(fileKeyMap).length, 'files');
+
+    return {
+      racesRestored: restoredRaces.length,
+      segmentsRestored: restoredSegments.length,
+      filesRestored: Object.keys(fileKeyMap).length,
+      nutritionProductsImported,
+      raceIdMap,
+    };
+  }
 }
 
 export const localStorageService = new LocalStorageService();
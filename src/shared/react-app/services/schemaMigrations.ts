@@ -0,0 +1,278 @@
+/**
+ * Schema Migrations
+ *
+ * Ordered registry of data migrations for stored races and segments.
+ * Each step is tagged with the schema version it produces and must be idempotent:
+ * running it against data that is already migrated changes nothing.
+ *
+ * LocalStorageService stores the current schema version and only runs steps
+ * newer than it, taking a snapshot of the previous data first so a bad
+ * migration can be rolled back.
+ */
+
+import { RaceSchema, SegmentSchema } from '@/shared/types';
+import type { Race, Segment } from '@/shared/types';
+
+type StoredRecord = Record<string, unknown>;
+
+export interface MigrationStep {
+  version: number;
+  description: string;
+  /** Mutates the race in place, returns true if anything changed */
+  migrateRace?: (race: StoredRecord) => boolean;
+  /** Mutates the segment in place, returns true if anything changed */
+  migrateSegment?: (segment: StoredRecord) => boolean;
+}
+
+export interface MigrationStepReport {
+  version: number;
+  description: string;
+  racesChanged: number;
+  segmentsChanged: number;
+}
+
+export interface MigrationValidationIssue {
+  entity: 'race' | 'segment';
+  id: number | null;
+  name: string;
+  issues: string[];
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  steps: MigrationStepReport[];
+  /** Records that fail schema validation after migration */
+  validationIssues: MigrationValidationIssue[];
+  /** Records that were valid before migration but are not afterwards */
+  regressions: MigrationValidationIssue[];
+  races: Race[];
+  segments: Segment[];
+}
+
+export interface MigrationSnapshot {
+  createdAt: string;
+  fromVersion: number;
+  toVersion: number;
+  races: Race[];
+  segments: Segment[];
+}
+
+/**
+ * Add fields that are missing from a stored record, returns true if any were added
+ */
+function addMissingFields(record: StoredRecord, defaults: StoredRecord): boolean {
+  let changed = false;
+  for (const [field, value] of Object.entries(defaults)) {
+    if (!(field in record)) {
+      record[field] = value;
+      changed = true;
+    }
+  }
+  return changed;
+}
+
+// ============================================
+// MIGRATION REGISTRY
+// ============================================
+
+export const MIGRATIONS: MigrationStep[] = [
+  {
+    version: 1,
+    description: 'Replace what3words with Plus Code field',
+    migrateSegment: segment => {
+      if (!('what3words' in segment)) return false;
+      delete segment.what3words;
+      segment.plusCode = null;
+      return true;
+    },
+  },
+  {
+    version: 2,
+    description: 'Add race start time and timezone fields',
+    migrateRace: race => addMissingFields(race, { start_date_time: null, timezone: null }),
+  },
+  {
+    version: 3,
+    description: 'Add race userId field',
+    // userId is optional, so an explicit undefined is enough to mark it as migrated
+    migrateRace: race => addMissingFields(race, { userId: undefined }),
+  },
+  {
+    version: 4,
+    description: 'Add checkpoint stop time field',
+    migrateSegment: segment => addMissingFields(segment, { checkpoint_time_minutes: null }),
+  },
+  {
+    version: 5,
+    description: 'Add FIT comparison file key',
+    migrateRace: race => addMissingFields(race, { fit_comparison_file_key: null }),
+  },
+  {
+    version: 6,
+    description: 'Add FIT auto-pace file key',
+    migrateRace: race => addMissingFields(race, { fit_autopace_file_key: null }),
+  },
+  {
+    version: 7,
+    description: 'Add auto-pace segment fields',
+    migrateSegment: segment => addMissingFields(segment, {
+      auto_derived_pace: null,
+      use_auto_pace: null,
+      auto_pace_confidence: null,
+      auto_pace_reasoning: null,
+    }),
+  },
+  {
+    version: 8,
+    description: 'Add route variant fields',
+    migrateRace: race => addMissingFields(race, { route_variants: null, active_route_variant_id: null }),
+    migrateSegment: segment => addMissingFields(segment, { route_variant_id: null }),
+  },
+  {
+    version: 9,
+    description: 'Add stage race fields',
+    migrateRace: race => addMissingFields(race, { stages: null }),
+    migrateSegment: segment => addMissingFields(segment, { stage_id: null }),
+  },
+  {
+    version: 10,
+    description: 'Add sleep strategy fields',
+    migrateRace: race => addMissingFields(race, { awake_hours_at_start: null }),
+    migrateSegment: segment => addMissingFields(segment, { sleep_minutes: null }),
+  },
+  {
+    version: 11,
+    description: 'Add drop bag flag',
+    migrateSegment: segment => addMissingFields(segment, { drop_bag: null }),
+  },
+  {
+    version: 12,
+    description: 'Add drop bag planner fields',
+    migrateRace: race => addMissingFields(race, { bib_number: null }),
+    migrateSegment: segment => addMissingFields(segment, { drop_bag_items: null }),
+  },
+  {
+    version: 13,
+    description: 'Add crew itinerary fields',
+    migrateSegment: segment => addMissingFields(segment, {
+      crew_drive_minutes: null,
+      crew_drive_miles: null,
+      crew_handover: null,
+      crew_notes: null,
+    }),
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS.reduce((max, step) => Math.max(max, step.version), 0);
+
+// ============================================
+// VALIDATION
+// ============================================
+
+function validateRecords(races: StoredRecord[], segments: StoredRecord[]): MigrationValidationIssue[] {
+  const issues: MigrationValidationIssue[] = [];
+
+  for (const race of races) {
+    const result = RaceSchema.safeParse(race);
+    if (!result.success) {
+      issues.push({
+        entity: 'race',
+        id: typeof race.id === 'number' ? race.id : null,
+        name: String(race.name ?? 'Unnamed race'),
+        issues: result.error.issues.map(issue => `${issue.path.join('.') || 'race'}: ${issue.message}`),
+      });
+    }
+  }
+
+  for (const segment of segments) {
+    const result = SegmentSchema.safeParse(segment);
+    if (!result.success) {
+      issues.push({
+        entity: 'segment',
+        id: typeof segment.id === 'number' ? segment.id : null,
+        name: String(segment.checkpoint_name ?? 'Unnamed checkpoint'),
+        issues: result.error.issues.map(issue => `${issue.path.join('.') || 'segment'}: ${issue.message}`),
+      });
+    }
+  }
+
+  return issues;
+}
+
+const issueKey = (issue: MigrationValidationIssue) => `${issue.entity}:${issue.id}`;
+
+// ============================================
+// RUNNER
+// ============================================
+
+/**
+ * Apply every migration newer than fromVersion to copies of the given data.
+ * Pure: the input arrays are not modified, so this doubles as a dry run.
+ */
+export function runMigrations(
+  races: Race[],
+  segments: Segment[],
+  fromVersion: number
+): MigrationReport {
+  const migratedRaces: StoredRecord[] = races.map(race => ({ ...race }));
+  const migratedSegments: StoredRecord[] = segments.map(segment => ({ ...segment }));
+  const issuesBefore = new Set(validateRecords(migratedRaces, migratedSegments).map(issueKey));
+
+  const pendingSteps = MIGRATIONS
+    .filter(step => step.version > fromVersion)
+    .sort((a, b) => a.version - b.version);
+
+  const steps: MigrationStepReport[] = pendingSteps.map(step => {
+    let racesChanged = 0;
+    let segmentsChanged = 0;
+
+    if (step.migrateRace) {
+      migratedRaces.forEach(race => {
+        if (step.migrateRace!(race)) racesChanged++;
+      });
+    }
+    if (step.migrateSegment) {
+      migratedSegments.forEach(segment => {
+        if (step.migrateSegment!(segment)) segmentsChanged++;
+      });
+    }
+
+    return { version: step.version, description: step.description, racesChanged, segmentsChanged };
+  });
+
+  const validationIssues = validateRecords(migratedRaces, migratedSegments);
+
+  return {
+    fromVersion,
+    toVersion: Math.max(fromVersion, CURRENT_SCHEMA_VERSION),
+    steps,
+    validationIssues,
+    regressions: validationIssues.filter(issue => !issuesBefore.has(issueKey(issue))),
+    races: migratedRaces as Race[],
+    segments: migratedSegments as Segment[],
+  };
+}
+
+/**
+ * Format a migration report for logging
+ */
+export function formatMigrationReport(report: MigrationReport): string {
+  const lines = [`Schema v${report.fromVersion} → v${report.toVersion}`];
+
+  if (report.steps.length === 0) {
+    lines.push('  No migrations pending');
+  }
+  report.steps.forEach(step => {
+    lines.push(`  v${step.version} ${step.description}: ${step.racesChanged} races, ${step.segmentsChanged} segments changed`);
+  });
+
+  if (report.validationIssues.length > 0) {
+    lines.push(`  ${report.validationIssues.length} records fail validation (${report.regressions.length} caused by this migration)`);
+    report.validationIssues.forEach(issue => {
+      lines.push(`    ${issue.entity} "${issue.name}" (#${issue.id ?? '?'}): ${issue.issues.join('; ')}`);
+    });
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,486 @@
+/**
+ * Storage Backend
+ *
+ * Pluggable persistence layer for LocalStorageService.
+ *
+ * - StorageBackend: async key/value interface implemented by each engine
+ * - LocalStorageBackend: window.localStorage (~5 MB quota, used as a fallback)
+ * - IndexedDBBackend: IndexedDB object store (large GPX strings and FIT records)
+ * - PersistentStore: in-memory cache hydrated from a backend at startup so the
+ *   service can keep its synchronous read API while writes persist in the background
+ * - TileStore: separate IndexedDB database for offline map tiles, read on demand
+ *   and never loaded into memory
+ * - DEMStore: separate IndexedDB database for elevation rasters, stored as binary
+ *   and only read when terrain data is needed
+ */
+
+import type { MapTilePack, StoredDEMTile } from '@/shared/types';
+
+export type StorageBackendType = 'localstorage' | 'indexeddb';
+
+export interface StorageBackend {
+  readonly type: StorageBackendType;
+  getAll(): Promise<Map<string, string>>;
+  set(key: string, value: string): Promise<void>;
+  setMany(entries: Array<[string, string]>): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+// ============================================
+// LOCALSTORAGE BACKEND
+// ============================================
+
+export class LocalStorageBackend implements StorageBackend {
+  readonly type = 'localstorage' as const;
+
+  /**
+   * @param isOwnKey - Only keys matching this predicate are loaded, so settings
+   * owned by other modules (theme, units, weather cache) are left alone
+   */
+  constructor(private isOwnKey: (key: string) => boolean) {}
+
+  async getAll(): Promise<Map<string, string>> {
+    const entries = new Map<string, string>();
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && this.isOwnKey(key)) {
+        const value = localStorage.getItem(key);
+        if (value !== null) {
+          entries.set(key, value);
+        }
+      }
+    }
+    return entries;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    localStorage.setItem(key, value);
+  }
+
+  async setMany(entries: Array<[string, string]>): Promise<void> {
+    for (const [key, value] of entries) {
+      localStorage.setItem(key, value);
+    }
+  }
+
+  async remove(key: string): Promise<void> {
+    localStorage.removeItem(key);
+  }
+}
+
+// ============================================
+// INDEXEDDB BACKEND
+// ============================================
+
+const IDB_DATABASE_NAME = 'ultra_planner';
+const IDB_DATABASE_VERSION = 1;
+const IDB_STORE_NAME = 'kv';
+
+export class IndexedDBBackend implements StorageBackend {
+  readonly type = 'indexeddb' as const;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Check whether IndexedDB can be used in this environment
+   * (unavailable in some private browsing modes)
+   */
+  static isAvailable(): boolean {
+    try {
+      return typeof indexedDB !== 'undefined' && indexedDB !== null;
+    } catch {
+      return false;
+    }
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(IDB_DATABASE_NAME, IDB_DATABASE_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(IDB_STORE_NAME)) {
+            db.createObjectStore(IDB_STORE_NAME);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async transaction(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => void
+  ): Promise<void> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(IDB_STORE_NAME, mode);
+      run(tx.objectStore(IDB_STORE_NAME));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  async getAll(): Promise<Map<string, string>> {
+    const entries = new Map<string, string>();
+    await this.transaction('readonly', store => {
+      const request = store.openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          entries.set(String(cursor.key), cursor.value as string);
+          cursor.continue();
+        }
+      };
+    });
+    return entries;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.transaction('readwrite', store => {
+      store.put(value, key);
+    });
+  }
+
+  async setMany(entries: Array<[string, string]>): Promise<void> {
+    await this.transaction('readwrite', store => {
+      for (const [key, value] of entries) {
+        store.put(value, key);
+      }
+    });
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.transaction('readwrite', store => {
+      store.delete(key);
+    });
+  }
+}
+
+/**
+ * Pick the best available backend (IndexedDB, falling back to localStorage)
+ */
+export function createStorageBackend(isOwnKey: (key: string) => boolean): StorageBackend {
+  if (IndexedDBBackend.isAvailable()) {
+    return new IndexedDBBackend();
+  }
+  console.warn('[Storage] IndexedDB unavailable, falling back to localStorage');
+  return new LocalStorageBackend(isOwnKey);
+}
+
+// ============================================
+// PERSISTENT STORE (SYNC CACHE)
+// ============================================
+
+export class PersistentStore {
+  private cache = new Map<string, string>();
+  private pendingWrites = new Set<Promise<void>>();
+
+  constructor(private backend: StorageBackend) {}
+
+  get backendType(): StorageBackendType {
+    return this.backend.type;
+  }
+
+  /**
+   * Load every entry from the backend into memory. Must complete before reads.
+   */
+  async hydrate(): Promise<void> {
+    this.cache = await this.backend.getAll();
+  }
+
+  getItem(key: string): string | null {
+    return this.cache.has(key) ? this.cache.get(key)! : null;
+  }
+
+  /**
+   * Update the cache immediately and persist in the background.
+   * Persistence failures are logged; use commit() when the caller must know.
+   */
+  setItem(key: string, value: string): void {
+    this.cache.set(key, value);
+    this.track(this.backend.set(key, value).catch(error => {
+      console.error('[Storage] Failed to persist key:', key, error);
+    }));
+  }
+
+  /**
+   * Update the cache and resolve once the value is persisted.
+   * On failure the previous value is restored and the backend error is rethrown
+   * (e.g. a DOMException named 'QuotaExceededError').
+   */
+  async commit(key: string, value: string): Promise<void> {
+    const previous = this.getItem(key);
+    this.cache.set(key, value);
+    try {
+      await this.track(this.backend.set(key, value));
+    } catch (error) {
+      if (previous === null) {
+        this.cache.delete(key);
+      } else {
+        this.cache.set(key, previous);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Write several entries in one backend call (single transaction on IndexedDB).
+   * On failure every cached value is restored, as with commit().
+   */
+  async commitMany(entries: Array<[string, string]>): Promise<void> {
+    const previous = entries.map(([key]) => [key, this.getItem(key)] as const);
+    for (const [key, value] of entries) {
+      this.cache.set(key, value);
+    }
+    try {
+      await this.track(this.backend.setMany(entries));
+    } catch (error) {
+      for (const [key, value] of previous.reverse()) {
+        if (value === null) {
+          this.cache.delete(key);
+        } else {
+          this.cache.set(key, value);
+        }
+      }
+      throw error;
+    }
+  }
+
+  removeItem(key: string): void {
+    this.cache.delete(key);
+    this.track(this.backend.remove(key).catch(error => {
+      console.error('[Storage] Failed to remove key:', key, error);
+    }));
+  }
+
+  keys(): string[] {
+    return Array.from(this.cache.keys());
+  }
+
+  /**
+   * Approximate size of stored data in bytes (UTF-16, as the browser counts it)
+   */
+  getUsageBytes(): number {
+    let total = 0;
+    for (const [key, value] of this.cache) {
+      total += (key.length + value.length) * 2;
+    }
+    return total;
+  }
+
+  /**
+   * Wait until every queued write has reached the backend
+   */
+  async flush(): Promise<void> {
+    await Promise.all(Array.from(this.pendingWrites));
+  }
+
+  private track(write: Promise<void>): Promise<void> {
+    this.pendingWrites.add(write);
+    const settle = () => { this.pendingWrites.delete(write); };
+    write.then(settle, settle);
+    return write;
+  }
+}
+
+// ============================================
+// TILE STORE (OFFLINE MAPS)
+// ============================================
+
+const TILE_DATABASE_NAME = 'ultra_planner_tiles';
+const TILE_DATABASE_VERSION = 1;
+const TILE_STORE_NAME = 'tiles';
+const PACK_STORE_NAME = 'packs';
+
+/**
+ * Map tile images and pack metadata, keyed by race.
+ * Tile packs run to hundreds of megabytes, so unlike PersistentStore nothing is
+ * cached in memory - every read goes to IndexedDB.
+ */
+export class TileStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!IndexedDBBackend.isAvailable()) {
+      return Promise.reject(new Error('Offline maps need IndexedDB, which is unavailable in this browser'));
+    }
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(TILE_DATABASE_NAME, TILE_DATABASE_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(TILE_STORE_NAME)) {
+            db.createObjectStore(TILE_STORE_NAME);
+          }
+          if (!db.objectStoreNames.contains(PACK_STORE_NAME)) {
+            db.createObjectStore(PACK_STORE_NAME);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async transaction(
+    storeName: string,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => void
+  ): Promise<void> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(storeName, mode);
+      run(tx.objectStore(storeName));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  private static tileKey(raceId: number, tileKey: string): string {
+    return `${raceId}/${tileKey}`;
+  }
+
+  async getTile(raceId: number, tileKey: string): Promise<Blob | null> {
+    let tile: Blob | null = null;
+    await this.transaction(TILE_STORE_NAME, 'readonly', store => {
+      const request = store.get(TileStore.tileKey(raceId, tileKey));
+      request.onsuccess = () => {
+        tile = (request.result as Blob | undefined) ?? null;
+      };
+    });
+    return tile;
+  }
+
+  async putTiles(raceId: number, tiles: Array<[string, Blob]>): Promise<void> {
+    await this.transaction(TILE_STORE_NAME, 'readwrite', store => {
+      for (const [tileKey, blob] of tiles) {
+        store.put(blob, TileStore.tileKey(raceId, tileKey));
+      }
+    });
+  }
+
+  async getPacks(): Promise<MapTilePack[]> {
+    let packs: MapTilePack[] = [];
+    await this.transaction(PACK_STORE_NAME, 'readonly', store => {
+      const request = store.getAll();
+      request.onsuccess = () => {
+        packs = request.result as MapTilePack[];
+      };
+    });
+    return packs;
+  }
+
+  async putPack(pack: MapTilePack): Promise<void> {
+    await this.transaction(PACK_STORE_NAME, 'readwrite', store => {
+      store.put(pack, pack.raceId);
+    });
+  }
+
+  /**
+   * Remove a race's pack metadata and every tile stored for it
+   */
+  async removePack(raceId: number): Promise<void> {
+    await this.transaction(PACK_STORE_NAME, 'readwrite', store => {
+      store.delete(raceId);
+    });
+    await this.transaction(TILE_STORE_NAME, 'readwrite', store => {
+      // Every tile key of this race sorts between the bare prefix and the prefix plus '\uffff'
+      store.delete(IDBKeyRange.bound(`${raceId}/`, `${raceId}/\uffff`));
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.transaction(PACK_STORE_NAME, 'readwrite', store => store.clear());
+    await this.transaction(TILE_STORE_NAME, 'readwrite', store => store.clear());
+  }
+}
+
+// ============================================
+// DEM STORE (OFFLINE TERRAIN)
+// ============================================
+
+const DEM_DATABASE_NAME = 'ultra_planner_dem';
+const DEM_DATABASE_VERSION = 1;
+const DEM_STORE_NAME = 'tiles';
+
+/**
+ * Elevation rasters, keyed by tile name. An SRTM1 tile is 25 MB of samples, so
+ * they're kept as typed arrays rather than strings in PersistentStore and only
+ * read when terrain data is needed.
+ */
+export class DEMStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!IndexedDBBackend.isAvailable()) {
+      return Promise.reject(new Error('Offline terrain needs IndexedDB, which is unavailable in this browser'));
+    }
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DEM_DATABASE_NAME, DEM_DATABASE_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(DEM_STORE_NAME)) {
+            db.createObjectStore(DEM_STORE_NAME);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async transaction(mode: IDBTransactionMode, run: (store: IDBObjectStore) => void): Promise<void> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(DEM_STORE_NAME, mode);
+      run(tx.objectStore(DEM_STORE_NAME));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  async getTiles(): Promise<StoredDEMTile[]> {
+    let tiles: StoredDEMTile[] = [];
+    await this.transaction('readonly', store => {
+      const request = store.getAll();
+      request.onsuccess = () => {
+        tiles = request.result as StoredDEMTile[];
+      };
+    });
+    return tiles;
+  }
+
+  async putTiles(tiles: StoredDEMTile[]): Promise<void> {
+    await this.transaction('readwrite', store => {
+      for (const tile of tiles) {
+        store.put(tile, tile.name);
+      }
+    });
+  }
+
+  async removeTile(name: string): Promise<void> {
+    await this.transaction('readwrite', store => {
+      store.delete(name);
+    });
+  }
+}
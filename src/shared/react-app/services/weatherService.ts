@@ -7,6 +7,8 @@
  * API Documentation: https://open-meteo.com/en/docs
  */
 
+import { getZonedDayKey, getZonedParts, resolveTimeZone } from '@/react-app/utils/timezone';
+
 export interface WeatherData {
   condition: 'clear' | 'partly-cloudy' | 'cloudy' | 'rain' | 'thunderstorm' | 'snow' | 'fog' | 'windy' | 'rain-showers' | 'snow-showers';
   temperature: number; // Celsius
@@ -48,12 +50,14 @@ export function mapWeatherCodeToCondition(weatherCode: number): { condition: Wea
 
 /**
  * Fetch weather data for a checkpoint at a specific date/time
+ * @param timezone IANA timezone of the race; the ETA's day and hour are looked up in it
  */
 export async function fetchCheckpointWeather(
   latitude: number,
   longitude: number,
   etaDateTime: Date,
-  raceStartDateTime: Date
+  raceStartDateTime: Date,
+  timezone?: string | null
 ): Promise<WeatherStatus> {
   const now = new Date();
   const daysUntilRace = Math.floor(
@@ -79,8 +83,12 @@ export async function fetchCheckpointWeather(
   }
 
   try {
+    // Ask for hourly data in the race timezone so the ETA's wall-clock day and hour line up
+    const timeZone = resolveTimeZone(timezone);
+    const etaParts = getZonedParts(etaDateTime, timeZone);
+
     // Format date for API (YYYY-MM-DD)
-    const dateStr = etaDateTime.toISOString().split('T')[0];
+    const dateStr = getZonedDayKey(etaDateTime, timeZone);
 
     // Determine if we need historical or forecast API
     const apiType = daysUntilRace < 0 ? 'archive' : 'forecast';
@@ -93,7 +101,7 @@ export async function fetchCheckpointWeather(
     url.searchParams.append('latitude', latitude.toFixed(6));
     url.searchParams.append('longitude', longitude.toFixed(6));
     url.searchParams.append('hourly', 'temperature_2m,precipitation,weathercode,windspeed_10m,cloudcover');
-    url.searchParams.append('timezone', 'auto');
+    url.searchParams.append('timezone', timeZone);
     url.searchParams.append('start_date', dateStr);
     url.searchParams.append('end_date', dateStr);
 
@@ -106,7 +114,7 @@ export async function fetchCheckpointWeather(
     const data = await response.json();
 
     // Find the closest hour to the ETA
-    const etaHour = etaDateTime.getHours();
+    const etaHour = etaParts.hour;
     const hourlyData = data.hourly;
 
     if (!hourlyData || !hourlyData.time || hourlyData.time.length === 0) {
@@ -189,7 +197,8 @@ export function getUnavailableMessage(weather: WeatherStatus | null): string {
 
 /**
  * Generate a cache key for weather data
+ * Keyed on the UTC hour, so it doesn't depend on the browser or race timezone
  */
 export function getWeatherCacheKey(lat: number, lng: number, date: Date): string {
-  return `weather_${lat.toFixed(4)}_${lng.toFixed(4)}_${date.toISOString().split('T')[0]}_${date.getHours()}`;
+  return `weather_${lat.toFixed(4)}_${lng.toFixed(4)}_${date.toISOString().slice(0, 13)}`;
 }
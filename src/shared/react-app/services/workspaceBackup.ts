@@ -0,0 +1,197 @@
+/**
+ * Workspace Backup Service
+ * Exports and restores the whole workspace as a single zip archive:
+ * every race with its segments, elevation labels and GPX/FIT files, per-race
+ * auto-pace settings, plan history and race-day logs, the nutrition library,
+ * recently used products, the GAP profile and the product intolerance log.
+ *
+ * Archive layout:
+ *   manifest.json                 format/schema versions and counts
+ *   races.json, segments.json, elevation-labels.json
+ *   auto-pace-settings.json       keyed by race ID
+ *   plan-history.json             snapshots keyed by race ID
+ *   race-day-logs.json            keyed by race ID
+ *   nutrition-products.json, recently-used-products.json
+ *   gap-profile.json              only if a profile exists
+ *   product-intolerances.json
+ *   files/<file key>.json         stored GPX/FIT entries
+ */
+
+import { localStorageService } from './localStorage';
+import { CURRENT_SCHEMA_VERSION } from './schemaMigrations';
+import { createZip, readZip } from '../utils/zipArchive';
+import { getProductIntolerances, restoreProductIntolerances } from '../utils/productIntoleranceLog';
+import type {
+  ProductIntolerance,
+  WorkspaceData,
+  WorkspaceRestoreMode,
+  WorkspaceRestoreResult,
+} from '@/shared/types';
+
+const ARCHIVE_FORMAT = 'ultraplan-workspace';
+const ARCHIVE_FORMAT_VERSION = 1;
+const FILES_FOLDER = 'files/';
+
+interface WorkspaceManifest {
+  format: typeof ARCHIVE_FORMAT;
+  formatVersion: number;
+  schemaVersion: number;
+  exportedAt: string;
+  counts: {
+    races: number;
+    segments: number;
+    files: number;
+    nutritionProducts: number;
+    intolerances: number;
+  };
+}
+
+export interface WorkspaceArchive {
+  manifest: WorkspaceManifest;
+  workspace: WorkspaceData;
+  productIntolerances: ProductIntolerance[];
+}
+
+export interface WorkspaceArchiveRestoreResult extends WorkspaceRestoreResult {
+  intolerancesRestored: number;
+}
+
+/**
+ * Download the whole workspace as a zip archive
+ */
+export function exportWorkspaceArchive(): WorkspaceManifest {
+  const workspace = localStorageService.getWorkspaceData();
+  const productIntolerances = getProductIntolerances();
+
+  const manifest: WorkspaceManifest = {
+    format: ARCHIVE_FORMAT,
+    formatVersion: ARCHIVE_FORMAT_VERSION,
+    schemaVersion: workspace.schemaVersion,
+    exportedAt: new Date().toISOString(),
+    counts: {
+      races: workspace.races.length,
+      segments: workspace.segments.length,
+      files: Object.keys(workspace.files).length,
+      nutritionProducts: workspace.userNutritionProducts.length,
+      intolerances: productIntolerances.length,
+    },
+  };
+
+  const json = (value: unknown) => JSON.stringify(value, null, 2);
+  const entries = [
+    { name: 'manifest.json', content: json(manifest) },
+    { name: 'races.json', content: json(workspace.races) },
+    { name: 'segments.json', content: json(workspace.segments) },
+    { name: 'elevation-labels.json', content: json(workspace.elevationLabels) },
+    { name: 'auto-pace-settings.json', content: json(workspace.autoPaceSettings) },
+    { name: 'nutrition-products.json', content: json(workspace.userNutritionProducts) },
+    { name: 'recently-used-products.json', content: json(workspace.recentlyUsedProducts) },
+    { name: 'product-intolerances.json', content: json(productIntolerances) },
+    { name: 'sweat-tests.json', content: json(workspace.sweatTests) },
+    { name: 'plan-history.json', content: json(workspace.planHistory) },
+    { name: 'race-day-logs.json', content: json(workspace.raceDayLogs) },
+  ];
+  if (workspace.gapProfile) {
+    entries.push({ name: 'gap-profile.json', content: json(workspace.gapProfile) });
+  }
+  // Stored file entries are already JSON, so they go in unchanged
+  for (const [fileKey, content] of Object.entries(workspace.files)) {
+    entries.push({ name: `${FILES_FOLDER}${fileKey}.json`, content });
+  }
+
+  const blob = createZip(entries);
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `ultraplan_workspace_${manifest.exportedAt.slice(0, 10)}.zip`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+
+  console.log('[WorkspaceBackup] Exported workspace archive:', manifest.counts);
+  return manifest;
+}
+
+/**
+ * Read and validate a workspace archive without changing any stored data
+ */
+export async function readWorkspaceArchive(file: File): Promise<WorkspaceArchive> {
+  const entries = readZip(await file.arrayBuffer());
+  const decoder = new TextDecoder();
+  const texts = new Map(entries.map(entry => [entry.name, decoder.decode(entry.data)]));
+
+  const readJSON = <T>(name: string, fallback?: T): T => {
+    const text = texts.get(name);
+    if (text === undefined) {
+      if (fallback !== undefined) return fallback;
+      throw new Error(`Workspace archive is missing ${name}`);
+    }
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      throw new Error(`Workspace archive contains invalid JSON in ${name}`);
+    }
+  };
+
+  const manifest = readJSON<WorkspaceManifest>('manifest.json');
+  if (manifest.format !== ARCHIVE_FORMAT) {
+    throw new Error('This file is not an UltraPlan workspace archive');
+  }
+  if (manifest.formatVersion > ARCHIVE_FORMAT_VERSION || manifest.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error('This workspace archive was created by a newer version of UltraPlan. Please update the app.');
+  }
+
+  const files: Record<string, string> = {};
+  for (const [name, text] of texts) {
+    if (name.startsWith(FILES_FOLDER) && name.endsWith('.json')) {
+      files[name.slice(FILES_FOLDER.length, -'.json'.length)] = text;
+    }
+  }
+
+  const workspace: WorkspaceData = {
+    schemaVersion: manifest.schemaVersion,
+    races: readJSON('races.json'),
+    segments: readJSON('segments.json'),
+    elevationLabels: readJSON('elevation-labels.json', []),
+    files,
+    autoPaceSettings: readJSON('auto-pace-settings.json', {}),
+    userNutritionProducts: readJSON('nutrition-products.json', []),
+    recentlyUsedProducts: readJSON('recently-used-products.json', []),
+    gapProfile: readJSON<Record<string, unknown> | null>('gap-profile.json', null),
+    sweatTests: readJSON('sweat-tests.json', []),
+    planHistory: readJSON('plan-history.json', {}),
+    raceDayLogs: readJSON('race-day-logs.json', {}),
+  };
+
+  if (!Array.isArray(workspace.races) || !Array.isArray(workspace.segments)) {
+    throw new Error('Workspace archive has invalid race data');
+  }
+
+  return {
+    manifest,
+    workspace,
+    productIntolerances: readJSON('product-intolerances.json', []),
+  };
+}
+
+/**
+ * Restore a workspace archive, merging with or replacing the current workspace
+ */
+export async function restoreWorkspaceArchive(
+  archive: WorkspaceArchive,
+  mode: WorkspaceRestoreMode
+): Promise<WorkspaceArchiveRestoreResult> {
+  console.log('[WorkspaceBackup] Restoring archive from', archive.manifest.exportedAt, 'mode:', mode);
+
+  const result = await localStorageService.restoreWorkspaceData(archive.workspace, mode);
+
+  // Point intolerance entries at the restored race IDs
+  const intolerances = archive.productIntolerances.map(intolerance => ({
+    ...intolerance,
+    raceId: intolerance.raceId !== undefined ? result.raceIdMap[intolerance.raceId] : undefined,
+  }));
+  const intolerancesRestored = restoreProductIntolerances(intolerances, mode === 'replace');
+
+  return { ...result, intolerancesRestored };
+}
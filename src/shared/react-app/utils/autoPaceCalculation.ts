@@ -6,12 +6,14 @@
  * - Elevation gain/loss effects on pace
  * - Historical heart rate zones at different gradients
  * - Fatigue modeling based on distance completed
+ * - Sleep debt on long races (utils/sleepStrategy.ts)
  * - Terrain-adjusted pace predictions
  */
 
 import type {
   ParsedFITData,
   FITRecord,
+  Race,
   Segment,
   HRZones,
   PowerZones,
@@ -20,6 +22,7 @@ import type {
   AthleteSettings
 } from '@/shared/types';
 import { calculateSegmentElevation } from './elevationCalculations';
+import { DEFAULT_AWAKE_HOURS_AT_START, getMidLegSleepDebtPercent, trackHoursAwake } from './sleepStrategy';
 
 // ============================================
 // TYPES
@@ -52,6 +55,7 @@ export interface DerivedPaceResult {
     basePace: number;
     elevationAdjustment: number;
     fatigueAdjustment: number;
+    sleepDebtAdjustment: number;
     totalAdjustment: number;
   };
   reasoning: string;
@@ -896,7 +900,8 @@ export function deriveSegmentPace(
   segmentIndex: number,
   config: AutoPaceConfig,
   gpxContent: string | null,
-  fitData?: ParsedFITData
+  fitData?: ParsedFITData,
+  sleepDebtPercent: number = 0
 ): DerivedPaceResult {
   const terrainData = getSegmentTerrainData(segment, segmentIndex, gpxContent);
 
@@ -994,6 +999,14 @@ export function deriveSegmentPace(
     reasoning.push(`+${Math.round(fatigueAdjustment * 60)}s fatigue`);
   }
 
+  // 3b. Sleep debt adjustment (see utils/sleepStrategy.ts)
+  const sleepDebtAdjustment = sleepDebtPercent > 0 ? config.baselineFlat * (sleepDebtPercent / 100) : 0;
+  adjustedPace += sleepDebtAdjustment;
+
+  if (sleepDebtAdjustment > 0.08) {
+    reasoning.push(`+${Math.round(sleepDebtAdjustment * 60)}s sleep debt`);
+  }
+
   // 4. Blend with historical data if available
   let finalPace = adjustedPace;
 
@@ -1053,7 +1066,8 @@ export function deriveSegmentPace(
       basePace: config.baselineFlat,
       elevationAdjustment,
       fatigueAdjustment: isNaN(fatigueAdjustment) ? 0 : fatigueAdjustment,
-      totalAdjustment: elevationAdjustment + terrainAdjustment + (isNaN(fatigueAdjustment) ? 0 : fatigueAdjustment),
+      sleepDebtAdjustment,
+      totalAdjustment: elevationAdjustment + terrainAdjustment + (isNaN(fatigueAdjustment) ? 0 : fatigueAdjustment) + sleepDebtAdjustment,
     },
     reasoning: reasoning.length > 0 ? reasoning.join(', ') : 'Standard terrain',
     suggestedHRZone,       // NEW
@@ -1110,21 +1124,35 @@ function determineConfidence(
 
 /**
  * Apply auto-pacing to all segments at once
+ * Sleep debt builds up from the derived leg times, the race's sleep stations and
+ * (in a stage race) the overnight stops between stages
  */
 export async function applyAutoPacingToRace(
   segments: Segment[],
   fitData: ParsedFITData,
-  gpxContent: string | null
+  gpxContent: string | null,
+  awakeHoursAtStart: number = DEFAULT_AWAKE_HOURS_AT_START,
+  race?: Pick<Race, 'start_date_time' | 'stages'> | null
 ): Promise<Map<number, DerivedPaceResult>> {
   const config = analyzeFITForPacing(fitData);
   const results = new Map<number, DerivedPaceResult>();
+  const tracker = trackHoursAwake(segments, awakeHoursAtStart, race);
 
   for (let i = 0; i < segments.length; i++) {
     const segment = segments[i];
+    const distance = segment.segment_distance_miles || 0;
+
+    // Sleep debt at mid-leg, from the leg time before any debt
+    const rested = deriveSegmentPace(segment, i, config, gpxContent, fitData);
+    const sleepDebtPercent = getMidLegSleepDebtPercent(tracker.hoursAwake(), rested.paceMinPerMile * distance);
+    const result = sleepDebtPercent > 0
+      ? deriveSegmentPace(segment, i, config, gpxContent, fitData, sleepDebtPercent)
+      : rested;
+
     if (segment.id !== undefined) {
-      const result = deriveSegmentPace(segment, i, config, gpxContent, fitData);
       results.set(segment.id, result);
     }
+    tracker.advance(i, result.paceMinPerMile * distance);
   }
 
   return results;
@@ -86,6 +86,13 @@ export function getCaffeineRecommendation(
   };
 }
 
+/**
+ * Most caffeine to plan across a whole race (6 mg/kg, or 400mg without a body weight)
+ */
+export function getMaxCaffeineMg(bodyWeightKg: number): number {
+  return bodyWeightKg > 0 ? bodyWeightKg * 6 : 400;
+}
+
 /**
  * Get caffeine status based on current intake vs recommendations
  */
@@ -181,7 +188,7 @@ export function shouldConsumeCaffeineInSegment(
   bodyWeightKg: number
 ): { recommended: boolean; reason: string } {
   const percentComplete = (cumulativeDistanceMiles / totalDistanceMiles) * 100;
-  const maxCaffeine = bodyWeightKg > 0 ? bodyWeightKg * 6 : 400;
+  const maxCaffeine = getMaxCaffeineMg(bodyWeightKg);
 
   // Don't recommend if already at max
   if (currentCaffeineMg >= maxCaffeine) {
@@ -0,0 +1,201 @@
+/**
+ * Crew Itinerary
+ *
+ * Builds the support crew's plan for the day: every checkpoint the crew goes
+ * to, how long the drive from their last stop takes, when they'll be set up,
+ * and the window in which the runner is expected to arrive.
+ *
+ * The crew leaves the start when the race starts and leaves each stop when the
+ * runner does, so a handover only works if drive + setup fits inside the
+ * runner's time over the same stretch. Handovers the crew can't make in time
+ * are flagged as impossible.
+ */
+
+import type { Race, Segment, SupportCrewMember } from '@/shared/types';
+import { calculateSegmentETA } from './etaCalculations';
+import { calculateDistance } from './gpxSegmentation';
+import { getCoordinatesFromGPX } from './plusCodes';
+import { getCheckpointStopMinutes } from './raceTimeSummary';
+import { rollUpLegNutrition, type DropBagNutrition } from './dropBags';
+
+// Straight-line distance to road distance, and average speed on mixed roads
+export const CREW_ROAD_FACTOR = 1.4;
+export const CREW_AVERAGE_SPEED_MPH = 30;
+
+// Parking, walking in and setting up before the runner can be met
+export const CREW_SETUP_MINUTES = 15;
+
+// Runner arrival window around the plan, as a share of the stretch since the crew's last stop
+const RUNNER_EARLY_FRACTION = 0.1;
+const RUNNER_LATE_FRACTION = 0.2;
+
+const METERS_PER_MILE = 1609.344;
+
+export type CrewStopStatus = 'ok' | 'tight' | 'impossible' | 'unknown';
+
+export interface CrewDrive {
+  minutes: number;
+  miles: number;
+}
+
+export interface CrewStop {
+  segmentIndex: number;
+  segmentId: number | null;
+  checkpointName: string;
+  distanceMiles: number; // Cumulative course distance of the checkpoint
+  previousStopName: string; // Where the crew drives from ("Start" for the first stop)
+  drive: CrewDrive | null; // Null until a drive time is entered or estimated
+  crewMembers: SupportCrewMember[];
+  crewLeaves: Date | null; // Leaves the previous stop with the runner
+  crewReady: Date | null; // Parked and set up
+  runnerArrival: { earliest: Date; expected: Date; latest: Date } | null;
+  runnerDeparts: Date | null;
+  bufferMinutes: number | null; // Set up this long before the expected arrival (negative is late)
+  status: CrewStopStatus;
+  handover: string; // Free-text handover list
+  nutrition: DropBagNutrition[]; // Nutrition for the legs to the next crew stop
+  notes: string; // Parking and access notes
+}
+
+export const CREW_STATUS_LABELS: Record<CrewStopStatus, string> = {
+  ok: 'On time',
+  tight: 'Tight',
+  impossible: 'Impossible',
+  unknown: 'No drive time',
+};
+
+/**
+ * Support crew members listed at a checkpoint
+ */
+export function parseCrewMembers(segment: Pick<Segment, 'support_crew_members'>): SupportCrewMember[] {
+  if (!segment.support_crew_members) return [];
+  try {
+    const members: SupportCrewMember[] = JSON.parse(segment.support_crew_members);
+    return Array.isArray(members) ? members : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Rough drive between two points from the straight-line distance
+ */
+export function estimateCrewDrive(
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number }
+): CrewDrive {
+  const straightMiles = calculateDistance(
+    { lat: from.latitude, lng: from.longitude },
+    { lat: to.latitude, lng: to.longitude }
+  ) / METERS_PER_MILE;
+  const miles = straightMiles * CREW_ROAD_FACTOR;
+
+  return {
+    miles: Math.round(miles * 10) / 10,
+    minutes: Math.round((miles / CREW_AVERAGE_SPEED_MPH) * 60),
+  };
+}
+
+/**
+ * Estimated drive into every crew checkpoint from the previous one (or the
+ * start), keyed by segment id. Checkpoints without saved coordinates are
+ * placed on the GPX route by distance; stops that can't be located are left out.
+ */
+export function estimateCrewDrives(segments: Segment[], gpxContent: string | null): Map<number, CrewDrive> {
+  const drives = new Map<number, CrewDrive>();
+  const locate = (distanceMiles: number, segment?: Segment) => {
+    if (segment?.latitude != null && segment.longitude != null) {
+      return { latitude: segment.latitude, longitude: segment.longitude };
+    }
+    return gpxContent ? getCoordinatesFromGPX(gpxContent, distanceMiles) : null;
+  };
+
+  let previous = locate(0);
+  for (const segment of segments) {
+    if (!segment.support_crew_present) continue;
+
+    const position = locate(segment.cumulative_distance_miles, segment);
+    if (segment.id != null && previous && position) {
+      drives.set(segment.id, estimateCrewDrive(previous, position));
+    }
+    previous = position;
+  }
+
+  return drives;
+}
+
+/**
+ * The crew's plan for every crewed checkpoint, in course order
+ */
+export function buildCrewItinerary(race: Race, segments: Segment[]): CrewStop[] {
+  const stops: CrewStop[] = [];
+  const crewIndexes = segments
+    .map((segment, index) => (segment.support_crew_present ? index : -1))
+    .filter(index => index >= 0);
+
+  let previousName = 'Start';
+  let crewLeaves: Date | null = race.start_date_time ? new Date(race.start_date_time) : null;
+
+  crewIndexes.forEach((segmentIndex, position) => {
+    const segment = segments[segmentIndex];
+    const drive = segment.crew_drive_minutes != null
+      ? { minutes: segment.crew_drive_minutes, miles: segment.crew_drive_miles ?? 0 }
+      : null;
+
+    const eta = calculateSegmentETA(race.start_date_time, segments, segmentIndex, race.timezone, race.stages);
+    const runnerDeparts = eta?.eta ?? null;
+    const expected = runnerDeparts
+      ? new Date(runnerDeparts.getTime() - getCheckpointStopMinutes(segment) * 60000)
+      : null;
+
+    let runnerArrival: CrewStop['runnerArrival'] = null;
+    if (expected && crewLeaves) {
+      const stretchMs = Math.max(0, expected.getTime() - crewLeaves.getTime());
+      runnerArrival = {
+        earliest: new Date(expected.getTime() - stretchMs * RUNNER_EARLY_FRACTION),
+        expected,
+        latest: new Date(expected.getTime() + stretchMs * RUNNER_LATE_FRACTION),
+      };
+    }
+
+    const crewReady = drive && crewLeaves
+      ? new Date(crewLeaves.getTime() + (drive.minutes + CREW_SETUP_MINUTES) * 60000)
+      : null;
+
+    let status: CrewStopStatus = 'unknown';
+    let bufferMinutes: number | null = null;
+    if (crewReady && runnerArrival) {
+      bufferMinutes = Math.round((runnerArrival.expected.getTime() - crewReady.getTime()) / 60000);
+      status = crewReady <= runnerArrival.earliest
+        ? 'ok'
+        : crewReady <= runnerArrival.expected ? 'tight' : 'impossible';
+    }
+
+    const nextCrewIndex = crewIndexes[position + 1] ?? segments.length - 1;
+    const { nutrition } = rollUpLegNutrition(segments.slice(segmentIndex + 1, nextCrewIndex + 1));
+
+    stops.push({
+      segmentIndex,
+      segmentId: segment.id ?? null,
+      checkpointName: segment.checkpoint_name,
+      distanceMiles: segment.cumulative_distance_miles,
+      previousStopName: previousName,
+      drive,
+      crewMembers: parseCrewMembers(segment),
+      crewLeaves,
+      crewReady,
+      runnerArrival,
+      runnerDeparts,
+      bufferMinutes,
+      status,
+      handover: segment.crew_handover?.trim() ?? '',
+      nutrition,
+      notes: segment.crew_notes?.trim() ?? '',
+    });
+
+    previousName = segment.checkpoint_name;
+    crewLeaves = runnerDeparts;
+  });
+
+  return stops;
+}
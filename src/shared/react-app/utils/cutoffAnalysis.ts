@@ -0,0 +1,316 @@
+/**
+ * Cutoff Analysis Utilities
+ *
+ * Parses checkpoint cutoff times into absolute times and compares them with
+ * planned arrival times to show:
+ * - Minutes in hand at each cutoff
+ * - The slowest average pace that still makes each cutoff
+ * - Which checkpoints fall inside the warning band
+ *
+ * Cutoffs are entered as wall-clock times at the race ("14:45", "6:00 AM"), optionally
+ * with a day ("Day 2 06:00", "Sat 6am", "+1 06:00"). Without a day, each cutoff is taken
+ * as the first occurrence after the race start and the previous checkpoint's cutoff,
+ * which handles multi-day races as long as cutoffs are in checkpoint order.
+ */
+
+import type { Segment, Stage } from '@/shared/types';
+import { calculateSegmentETA, formatTime, getDayOfWeek } from './etaCalculations';
+import { getStageClocks } from './stageCalculations';
+import { getCheckpointStopMinutes } from './raceTimeSummary';
+import { getZonedDayKey, resolveTimeZone, zonedDateTimeToUtc } from './timezone';
+
+export const DEFAULT_CUTOFF_WARNING_MINUTES = 30;
+const WARNING_STORAGE_KEY = 'cutoff_buffer_warning_minutes';
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+export type CutoffDay =
+  | { type: 'relative'; offset: number } // Days after the race start day
+  | { type: 'weekday'; weekday: number } // 0 = Sunday
+  | { type: 'date'; date: string }; // "YYYY-MM-DD"
+
+export interface ParsedCutoff {
+  hours: number; // 0-23
+  minutes: number;
+  day: CutoffDay | null;
+}
+
+export type CutoffRisk = 'safe' | 'warning' | 'missed';
+
+export interface CheckpointCutoffAnalysis {
+  segmentId: number;
+  segmentIndex: number;
+  checkpointName: string;
+  cutoff: Date;
+  arrival: Date; // Planned arrival, before any stop at the checkpoint
+  bufferMinutes: number; // Negative when the plan misses the cutoff
+  slowestPaceMinPerMile: number | null; // Average moving pace from the start that arrives exactly at the cutoff
+  plannedPaceMinPerMile: number | null; // Average planned moving pace from the start
+  risk: CutoffRisk;
+  formattedCutoff: string; // "Sat 6:00 AM" - day shown when it isn't the start day
+  formattedArrival: string;
+}
+
+export interface CutoffReport {
+  checkpoints: CheckpointCutoffAnalysis[];
+  unparsed: Array<{ segmentId: number; checkpointName: string; value: string }>;
+  tightest: CheckpointCutoffAnalysis | null;
+  warningThresholdMinutes: number;
+}
+
+// ============================================
+// WARNING THRESHOLD
+// ============================================
+
+/**
+ * Get the user's cut-off warning threshold in minutes
+ */
+export function getCutoffWarningMinutes(): number {
+  const saved = parseInt(localStorage.getItem(WARNING_STORAGE_KEY) || '', 10);
+  return isNaN(saved) || saved < 0 ? DEFAULT_CUTOFF_WARNING_MINUTES : saved;
+}
+
+/**
+ * Save the user's cut-off warning threshold in minutes
+ */
+export function setCutoffWarningMinutes(minutes: number): void {
+  localStorage.setItem(WARNING_STORAGE_KEY, Math.max(0, Math.round(minutes)).toString());
+}
+
+// ============================================
+// PARSING
+// ============================================
+
+/**
+ * Parse a cutoff string such as "14:45", "6:00 AM", "6am", "Day 2 06:00",
+ * "Sat 06:00", "06:00 +1" or "2026-08-29 14:45"
+ * @returns null if no time can be read
+ */
+export function parseCutoffTime(value: string | null | undefined): ParsedCutoff | null {
+  if (!value) return null;
+  let text = value.trim().toLowerCase();
+  if (!text) return null;
+
+  let day: CutoffDay | null = null;
+
+  const isoMatch = text.match(/^(\d{4}-\d{2}-\d{2})[\sT]+/);
+  if (isoMatch) {
+    day = { type: 'date', date: isoMatch[1] };
+    text = text.slice(isoMatch[0].length);
+  } else {
+    const relativeMatch = text.match(/\bday\s*(\d+)\b|(?:^|\s)\+(\d+)\s*d?(?:ays?)?\b/);
+    const weekdayMatch = text.match(/\b(sun|mon|tue|wed|thu|fri|sat)[a-z]*\.?/);
+    if (relativeMatch) {
+      const offset = relativeMatch[1] !== undefined ? parseInt(relativeMatch[1], 10) - 1 : parseInt(relativeMatch[2], 10);
+      day = { type: 'relative', offset: Math.max(0, offset) };
+      text = text.replace(relativeMatch[0], ' ');
+    } else if (weekdayMatch) {
+      day = { type: 'weekday', weekday: WEEKDAYS.indexOf(weekdayMatch[1]) };
+      text = text.replace(weekdayMatch[0], ' ');
+    }
+  }
+
+  text = text.replace(/[,@()]/g, ' ').replace(/\s+/g, ' ').trim();
+
+  if (text === 'noon' || text === 'midday') return { hours: 12, minutes: 0, day };
+  if (text === 'midnight') return { hours: 0, minutes: 0, day };
+
+  const timeMatch = text.match(/^(\d{1,2})(?:[:.h](\d{2}))?(?::\d{2})?\s*(a\.?m\.?|p\.?m\.?)?$/);
+  if (!timeMatch) return null;
+
+  let hours = parseInt(timeMatch[1], 10);
+  const minutes = timeMatch[2] !== undefined ? parseInt(timeMatch[2], 10) : 0;
+  const period = timeMatch[3]?.replace(/\./g, '');
+
+  // A bare number without minutes or am/pm is too ambiguous to treat as a time
+  if (timeMatch[2] === undefined && !period) return null;
+  if (minutes > 59) return null;
+
+  if (period) {
+    if (hours < 1 || hours > 12) return null;
+    if (period === 'am' && hours === 12) hours = 0;
+    if (period === 'pm' && hours !== 12) hours += 12;
+  } else if (hours > 23) {
+    return null;
+  }
+
+  return { hours, minutes, day };
+}
+
+/**
+ * Format a stored cutoff for display (e.g., "6:00 AM", "Day 2 6:00 AM")
+ * Unreadable values are returned as entered
+ */
+export function formatCutoffLabel(value: string | null | undefined): string {
+  if (!value) return '';
+  const parsed = parseCutoffTime(value);
+  if (!parsed) return value;
+
+  const period = parsed.hours >= 12 ? 'PM' : 'AM';
+  const displayHour = parsed.hours % 12 === 0 ? 12 : parsed.hours % 12;
+  const time = `${displayHour}:${parsed.minutes.toString().padStart(2, '0')} ${period}`;
+
+  if (!parsed.day) return time;
+  switch (parsed.day.type) {
+    case 'relative': return `Day ${parsed.day.offset + 1} ${time}`;
+    case 'weekday': return `${WEEKDAYS[parsed.day.weekday].charAt(0).toUpperCase()}${WEEKDAYS[parsed.day.weekday].slice(1)} ${time}`;
+    case 'date': return `${parsed.day.date} ${time}`;
+    default: return time;
+  }
+}
+
+// ============================================
+// RESOLVING TO ABSOLUTE TIMES
+// ============================================
+
+function addDays(dayKey: string, days: number): string {
+  const date = new Date(`${dayKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+function atWallClock(dayKey: string, parsed: ParsedCutoff, timeZone: string): Date {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return zonedDateTimeToUtc(`${dayKey}T${pad(parsed.hours)}:${pad(parsed.minutes)}`, timeZone);
+}
+
+/**
+ * Resolve each segment's cutoff to an absolute time in the race timezone
+ * @returns One entry per segment, null where there's no cutoff or it can't be parsed
+ */
+export function resolveCutoffTimes(
+  raceStartTime: string,
+  segments: Segment[],
+  timezone?: string | null
+): Array<Date | null> {
+  const timeZone = resolveTimeZone(timezone);
+  const start = new Date(raceStartTime);
+  const startDayKey = getZonedDayKey(start, timeZone);
+  let previousCutoff: Date | null = null;
+
+  return segments.map(segment => {
+    const parsed = parseCutoffTime(segment.cutoff_time);
+    if (!parsed) return null;
+
+    let cutoff: Date;
+    if (parsed.day?.type === 'date') {
+      cutoff = atWallClock(parsed.day.date, parsed, timeZone);
+    } else if (parsed.day?.type === 'relative') {
+      cutoff = atWallClock(addDays(startDayKey, parsed.day.offset), parsed, timeZone);
+    } else {
+      // First matching day on or after the start day that is after the start and the previous cutoff
+      const targetWeekday = parsed.day?.type === 'weekday' ? parsed.day.weekday : null;
+      let dayKey = startDayKey;
+      cutoff = atWallClock(dayKey, parsed, timeZone);
+      for (let i = 0; i < 21; i++) {
+        const weekdayMatches = targetWeekday === null || new Date(`${dayKey}T00:00:00Z`).getUTCDay() === targetWeekday;
+        const afterStart = cutoff.getTime() > start.getTime();
+        const afterPrevious = !previousCutoff || cutoff.getTime() >= previousCutoff.getTime();
+        if (weekdayMatches && afterStart && afterPrevious) break;
+        dayKey = addDays(dayKey, 1);
+        cutoff = atWallClock(dayKey, parsed, timeZone);
+      }
+    }
+
+    if (isNaN(cutoff.getTime())) return null;
+    previousCutoff = cutoff;
+    return cutoff;
+  });
+}
+
+// ============================================
+// ANALYSIS
+// ============================================
+
+/**
+ * Compare each checkpoint's cutoff with its planned arrival time
+ * @param warningThresholdMinutes Buffers below this are flagged as a warning
+ * @param stages Stages of a multi-day race; slowest paces are measured from each stage's start
+ * @returns null if the race has no start time
+ */
+export function analyzeCutoffs(
+  raceStartTime: string | null | undefined,
+  segments: Segment[],
+  timezone?: string | null,
+  warningThresholdMinutes: number = getCutoffWarningMinutes(),
+  stages?: Stage[] | null
+): CutoffReport | null {
+  if (!raceStartTime) return null;
+
+  const timeZone = resolveTimeZone(timezone);
+  const start = new Date(raceStartTime);
+  if (isNaN(start.getTime())) return null;
+
+  const cutoffs = resolveCutoffTimes(raceStartTime, segments, timeZone);
+  const stageClocks = getStageClocks(raceStartTime, segments, stages);
+  const startDayKey = getZonedDayKey(start, timeZone);
+  const checkpoints: CheckpointCutoffAnalysis[] = [];
+  const unparsed: CutoffReport['unparsed'] = [];
+  let stopMinutesBefore = 0;
+
+  segments.forEach((segment, index) => {
+    const cutoff = cutoffs[index];
+    const eta = cutoff ? calculateSegmentETA(raceStartTime, segments, index, timeZone, stages) : null;
+    const stageClock = stageClocks?.[index];
+    if (stageClock?.firstSegmentIndex === index) {
+      stopMinutesBefore = 0;
+    }
+
+    if (segment.cutoff_time && !cutoff) {
+      unparsed.push({ segmentId: segment.id!, checkpointName: segment.checkpoint_name, value: segment.cutoff_time });
+    }
+
+    if (cutoff && eta) {
+      const stopMinutes = getCheckpointStopMinutes(segment);
+      const arrival = new Date(eta.eta.getTime() - stopMinutes * 60000);
+      const bufferMinutes = Math.round((cutoff.getTime() - arrival.getTime()) / 60000);
+
+      // Keep the planned stops, and spread the remaining time over the distance covered (this stage's, in a stage race)
+      const clockStart = stageClock?.start ?? start;
+      const stageFirst = stageClock ? segments[stageClock.firstSegmentIndex] : null;
+      const distanceBefore = stageFirst ? (stageFirst.cumulative_distance_miles || 0) - (stageFirst.segment_distance_miles || 0) : 0;
+      const distance = (segment.cumulative_distance_miles || 0) - distanceBefore;
+      const availableMovingMinutes = (cutoff.getTime() - clockStart.getTime()) / 60000 - stopMinutesBefore;
+      const plannedMovingMinutes = (arrival.getTime() - clockStart.getTime()) / 60000 - stopMinutesBefore;
+
+      const risk: CutoffRisk = bufferMinutes < 0 ? 'missed' : bufferMinutes < warningThresholdMinutes ? 'warning' : 'safe';
+      const formatWithDay = (date: Date) => getZonedDayKey(date, timeZone) === startDayKey
+        ? formatTime(date, timeZone)
+        : `${getDayOfWeek(date, timeZone).slice(0, 3)} ${formatTime(date, timeZone)}`;
+
+      checkpoints.push({
+        segmentId: segment.id!,
+        segmentIndex: index,
+        checkpointName: segment.checkpoint_name,
+        cutoff,
+        arrival,
+        bufferMinutes,
+        slowestPaceMinPerMile: distance > 0 && availableMovingMinutes > 0 ? availableMovingMinutes / distance : null,
+        plannedPaceMinPerMile: distance > 0 && plannedMovingMinutes > 0 ? plannedMovingMinutes / distance : null,
+        risk,
+        formattedCutoff: formatWithDay(cutoff),
+        formattedArrival: formatWithDay(arrival),
+      });
+    }
+
+    stopMinutesBefore += getCheckpointStopMinutes(segment);
+  });
+
+  const tightest = checkpoints.reduce<CheckpointCutoffAnalysis | null>(
+    (min, checkpoint) => (!min || checkpoint.bufferMinutes < min.bufferMinutes ? checkpoint : min),
+    null
+  );
+
+  return { checkpoints, unparsed, tightest, warningThresholdMinutes };
+}
+
+/**
+ * Format a cutoff buffer (e.g., "1h 15m in hand", "20m over")
+ */
+export function formatCutoffBuffer(bufferMinutes: number): string {
+  const absolute = Math.abs(bufferMinutes);
+  const hours = Math.floor(absolute / 60);
+  const minutes = absolute % 60;
+  const duration = hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+  return bufferMinutes >= 0 ? `${duration} in hand` : `${duration} over`;
+}
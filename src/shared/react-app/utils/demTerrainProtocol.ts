@@ -0,0 +1,101 @@
+/**
+ * Offline terrain for MapLibre
+ * Serves stored DEM tiles as Terrarium-encoded raster-dem tiles through a custom
+ * protocol, so the 3D viewer has terrain without a network. Map tiles the stored
+ * rasters don't cover fall back to the online Terrarium tiles, then to flat terrain.
+ */
+
+import maplibregl from 'maplibre-gl';
+import { hasDEMCoverage, getLoadedDEMTiles, sampleDEMElevation, type DEMTileBounds } from './demTiles';
+
+export const LOCAL_TERRAIN_PROTOCOL = 'ultraplan-dem';
+export const ONLINE_TERRAIN_TILES = 'https://s3.amazonaws.com/elevation-tiles-prod/terrarium/{z}/{x}/{y}.png';
+
+const TILE_SIZE = 256;
+
+let protocolRegistered = false;
+
+/**
+ * Geographic bounds of a web-mercator tile
+ */
+function getTileBounds(z: number, x: number, y: number): DEMTileBounds {
+  const n = 2 ** z;
+  const lat = (row: number) => (Math.atan(Math.sinh(Math.PI * (1 - (2 * row) / n))) * 180) / Math.PI;
+  return {
+    north: lat(y),
+    south: lat(y + 1),
+    west: (x / n) * 360 - 180,
+    east: ((x + 1) / n) * 360 - 180,
+  };
+}
+
+/**
+ * Render a Terrarium PNG for a tile from the stored rasters
+ * Terrarium packs height as (R * 256 + G + B / 256) - 32768 metres.
+ */
+async function renderTerrariumTile(bounds: DEMTileBounds): Promise<ArrayBuffer> {
+  const canvas = new OffscreenCanvas(TILE_SIZE, TILE_SIZE);
+  const context = canvas.getContext('2d')!;
+  const image = context.createImageData(TILE_SIZE, TILE_SIZE);
+
+  const mercatorNorth = Math.log(Math.tan(Math.PI / 4 + (bounds.north * Math.PI) / 360));
+  const mercatorSouth = Math.log(Math.tan(Math.PI / 4 + (bounds.south * Math.PI) / 360));
+
+  for (let row = 0; row < TILE_SIZE; row++) {
+    // Rows are evenly spaced in mercator y, not latitude
+    const mercatorY = mercatorNorth + ((row + 0.5) / TILE_SIZE) * (mercatorSouth - mercatorNorth);
+    const lat = (2 * Math.atan(Math.exp(mercatorY)) - Math.PI / 2) * (180 / Math.PI);
+
+    for (let col = 0; col < TILE_SIZE; col++) {
+      const lng = bounds.west + ((col + 0.5) / TILE_SIZE) * (bounds.east - bounds.west);
+      const value = (sampleDEMElevation(lat, lng) ?? 0) + 32768;
+      const index = (row * TILE_SIZE + col) * 4;
+      image.data[index] = Math.floor(value / 256);
+      image.data[index + 1] = Math.floor(value) % 256;
+      image.data[index + 2] = Math.floor((value - Math.floor(value)) * 256);
+      image.data[index + 3] = 255;
+    }
+  }
+
+  context.putImageData(image, 0, 0);
+  const blob = await canvas.convertToBlob({ type: 'image/png' });
+  return blob.arrayBuffer();
+}
+
+async function loadTerrainTile(url: string, signal: AbortSignal): Promise<ArrayBuffer> {
+  const match = url.match(/(\d+)\/(\d+)\/(\d+)$/);
+  if (!match) throw new Error(`Invalid terrain tile URL: ${url}`);
+
+  const [z, x, y] = match.slice(1).map(Number);
+  const bounds = getTileBounds(z, x, y);
+  if (hasDEMCoverage(bounds)) {
+    return renderTerrariumTile(bounds);
+  }
+
+  try {
+    const response = await fetch(ONLINE_TERRAIN_TILES.replace('{z}', `${z}`).replace('{x}', `${x}`).replace('{y}', `${y}`), { signal });
+    if (response.ok) return response.arrayBuffer();
+  } catch (error) {
+    if (signal.aborted) throw error;
+    // Offline - fall through to flat terrain
+  }
+  return renderTerrariumTile(bounds);
+}
+
+/**
+ * Terrain tile URL template for the raster-dem source
+ * Uses the local protocol when DEM tiles are stored, otherwise the online tiles.
+ */
+export function getTerrainTileUrl(): string {
+  if (getLoadedDEMTiles().length === 0) {
+    return ONLINE_TERRAIN_TILES;
+  }
+
+  if (!protocolRegistered) {
+    maplibregl.addProtocol(LOCAL_TERRAIN_PROTOCOL, async (params: { url: string }, abortController: AbortController) => ({
+      data: await loadTerrainTile(params.url, abortController.signal),
+    }));
+    protocolRegistered = true;
+  }
+  return `${LOCAL_TERRAIN_PROTOCOL}://{z}/{x}/{y}`;
+}
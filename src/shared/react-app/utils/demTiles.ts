@@ -0,0 +1,492 @@
+/**
+ * DEM (digital elevation model) tile utilities
+ * Imports elevation rasters (SRTM .hgt or GeoTIFF), keeps them in their own
+ * IndexedDB database (read on demand) and samples elevations from them, so GPX
+ * elevation can be corrected or filled in and 3D terrain rendered without a network.
+ *
+ * Every raster is held as a grid of Int16 metre samples: row 0 is the northern
+ * edge and each sample sits at north - row * latStep, west + col * lngStep.
+ */
+
+import { localStorageService } from '../services/localStorage';
+
+const DEM_VOID = -32768;
+// 26M samples is a full SRTM1 tile plus a margin - bigger rasters should be cropped first
+const MAX_SAMPLES = 26_000_000;
+
+export interface DEMTile {
+  name: string;
+  north: number;
+  west: number;
+  latStep: number;
+  lngStep: number;
+  width: number;
+  height: number;
+  data: Int16Array;
+}
+
+export interface DEMTileBounds {
+  north: number;
+  south: number;
+  west: number;
+  east: number;
+}
+
+// Tiles read from storage by loadDEMTiles(), keyed by name
+const loadedTiles = new Map<string, DEMTile>();
+let loadPromise: Promise<void> | null = null;
+let tileVersion = 0;
+
+// ============================================
+// SRTM .HGT
+// ============================================
+
+/**
+ * Read the south-west corner from an .hgt file name
+ * @returns null if the name isn't in the N00E000 form
+ */
+export function parseHGTTileName(fileName: string): { south: number; west: number } | null {
+  const match = fileName.toUpperCase().match(/([NS])(\d{1,2})([EW])(\d{1,3})/);
+  if (!match) return null;
+
+  const [, latHemisphere, lat, lngHemisphere, lng] = match;
+  return {
+    south: latHemisphere === 'S' ? -parseInt(lat, 10) : parseInt(lat, 10),
+    west: lngHemisphere === 'W' ? -parseInt(lng, 10) : parseInt(lng, 10),
+  };
+}
+
+/**
+ * Parse an SRTM .hgt tile
+ * .hgt tiles cover one degree square; the name gives the south-west corner
+ * (e.g., N56W004.hgt) and the data is big-endian 16-bit metres, north row first.
+ * @throws Error if the name or size isn't a valid .hgt tile
+ */
+export function parseHGT(buffer: ArrayBuffer, fileName: string): DEMTile {
+  const corner = parseHGTTileName(fileName);
+  if (!corner) {
+    throw new Error(`Can't read tile position from "${fileName}" - expected a name like N56W004.hgt`);
+  }
+
+  const size = Math.round(Math.sqrt(buffer.byteLength / 2));
+  if (size * size * 2 !== buffer.byteLength || size < 2) {
+    throw new Error(`"${fileName}" is not a square .hgt grid`);
+  }
+
+  const view = new DataView(buffer);
+  const data = new Int16Array(size * size);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = view.getInt16(i * 2, false);
+  }
+
+  return {
+    name: fileName.replace(/\.hgt$/i, '').toUpperCase(),
+    north: corner.south + 1,
+    west: corner.west,
+    latStep: 1 / (size - 1),
+    lngStep: 1 / (size - 1),
+    width: size,
+    height: size,
+    data,
+  };
+}
+
+// ============================================
+// GEOTIFF
+// ============================================
+
+const TIFF_TAGS = {
+  IMAGE_WIDTH: 256,
+  IMAGE_LENGTH: 257,
+  BITS_PER_SAMPLE: 258,
+  COMPRESSION: 259,
+  STRIP_OFFSETS: 273,
+  SAMPLES_PER_PIXEL: 277,
+  ROWS_PER_STRIP: 278,
+  STRIP_BYTE_COUNTS: 279,
+  PREDICTOR: 317,
+  TILE_WIDTH: 322,
+  TILE_LENGTH: 323,
+  TILE_OFFSETS: 324,
+  TILE_BYTE_COUNTS: 325,
+  SAMPLE_FORMAT: 339,
+  MODEL_PIXEL_SCALE: 33550,
+  MODEL_TIEPOINT: 33922,
+  GEO_KEY_DIRECTORY: 34735,
+  GDAL_NODATA: 42113,
+};
+
+const GEO_KEYS = {
+  MODEL_TYPE: 1024, // 1 = projected, 2 = geographic
+  RASTER_TYPE: 1025, // 1 = pixel is area, 2 = pixel is point
+};
+
+// Byte size of each TIFF field type
+const TIFF_TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 6: 1, 7: 1, 8: 2, 9: 4, 11: 4, 12: 8 };
+
+type TiffTags = Map<number, number[] | string>;
+
+function readTiffTags(view: DataView, littleEndian: boolean): TiffTags {
+  const tags: TiffTags = new Map();
+  const ifdOffset = view.getUint32(4, littleEndian);
+  const entryCount = view.getUint16(ifdOffset, littleEndian);
+
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    const tag = view.getUint16(entry, littleEndian);
+    const type = view.getUint16(entry + 2, littleEndian);
+    const count = view.getUint32(entry + 4, littleEndian);
+    const size = TIFF_TYPE_SIZES[type];
+    if (!size) continue;
+
+    const valueOffset = size * count <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian);
+
+    if (type === 2) {
+      const bytes = new Uint8Array(view.buffer, valueOffset, count);
+      tags.set(tag, new TextDecoder().decode(bytes).replace(/\0+$/, ''));
+      continue;
+    }
+
+    const values: number[] = [];
+    for (let j = 0; j < count; j++) {
+      const offset = valueOffset + j * size;
+      switch (type) {
+        case 1: case 7: values.push(view.getUint8(offset)); break;
+        case 6: values.push(view.getInt8(offset)); break;
+        case 3: values.push(view.getUint16(offset, littleEndian)); break;
+        case 8: values.push(view.getInt16(offset, littleEndian)); break;
+        case 4: values.push(view.getUint32(offset, littleEndian)); break;
+        case 9: values.push(view.getInt32(offset, littleEndian)); break;
+        case 11: values.push(view.getFloat32(offset, littleEndian)); break;
+        case 12: values.push(view.getFloat64(offset, littleEndian)); break;
+      }
+    }
+    tags.set(tag, values);
+  }
+
+  return tags;
+}
+
+function getGeoKey(tags: TiffTags, key: number): number | null {
+  const directory = tags.get(TIFF_TAGS.GEO_KEY_DIRECTORY);
+  if (!Array.isArray(directory)) return null;
+  for (let i = 4; i + 3 < directory.length; i += 4) {
+    // Only keys stored inline (location 0) matter here
+    if (directory[i] === key && directory[i + 1] === 0) return directory[i + 3];
+  }
+  return null;
+}
+
+async function inflate(bytes: BlobPart): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Parse a single-band geographic (lat/lng) GeoTIFF
+ * Supports uncompressed and Deflate-compressed strips or tiles of 16/32-bit
+ * integers or 32/64-bit floats, with or without horizontal differencing.
+ * @throws Error for projected rasters or unsupported encodings
+ */
+export async function parseGeoTIFF(buffer: ArrayBuffer, fileName: string): Promise<DEMTile> {
+  const view = new DataView(buffer);
+  const byteOrder = String.fromCharCode(view.getUint8(0), view.getUint8(1));
+  if ((byteOrder !== 'II' && byteOrder !== 'MM') || view.getUint16(2, byteOrder === 'II') !== 42) {
+    throw new Error(`"${fileName}" is not a TIFF file (BigTIFF is not supported)`);
+  }
+  const littleEndian = byteOrder === 'II';
+  const tags = readTiffTags(view, littleEndian);
+  const number = (tag: number, fallback?: number): number => {
+    const value = tags.get(tag);
+    if (Array.isArray(value) && value.length > 0) return value[0];
+    if (fallback !== undefined) return fallback;
+    throw new Error(`"${fileName}" is missing TIFF tag ${tag}`);
+  };
+  const numbers = (tag: number): number[] => {
+    const value = tags.get(tag);
+    return Array.isArray(value) ? value : [];
+  };
+
+  const width = number(TIFF_TAGS.IMAGE_WIDTH);
+  const height = number(TIFF_TAGS.IMAGE_LENGTH);
+  const bitsPerSample = number(TIFF_TAGS.BITS_PER_SAMPLE, 16);
+  const sampleFormat = number(TIFF_TAGS.SAMPLE_FORMAT, 1);
+  const compression = number(TIFF_TAGS.COMPRESSION, 1);
+  const predictor = number(TIFF_TAGS.PREDICTOR, 1);
+
+  if (number(TIFF_TAGS.SAMPLES_PER_PIXEL, 1) !== 1) {
+    throw new Error(`"${fileName}" has more than one band - export a single elevation band`);
+  }
+  if (width * height > MAX_SAMPLES) {
+    throw new Error(`"${fileName}" is too large (${width}×${height}) - crop it to the race area first`);
+  }
+  if (compression !== 1 && compression !== 8 && compression !== 32946) {
+    throw new Error(`"${fileName}" uses an unsupported compression - re-save it uncompressed or with Deflate`);
+  }
+  if (predictor !== 1 && !(predictor === 2 && sampleFormat !== 3)) {
+    throw new Error(`"${fileName}" uses an unsupported predictor - re-save it without one`);
+  }
+  if (getGeoKey(tags, GEO_KEYS.MODEL_TYPE) === 1) {
+    throw new Error(`"${fileName}" is in a projected coordinate system - only latitude/longitude (EPSG:4326) rasters are supported`);
+  }
+
+  const scale = numbers(TIFF_TAGS.MODEL_PIXEL_SCALE);
+  const tiepoint = numbers(TIFF_TAGS.MODEL_TIEPOINT);
+  if (scale.length < 2 || tiepoint.length < 6) {
+    throw new Error(`"${fileName}" has no georeferencing - is it a GeoTIFF?`);
+  }
+
+  // Sample positions: tiepoints mark pixel corners unless the raster is "pixel is point"
+  const pixelIsPoint = getGeoKey(tags, GEO_KEYS.RASTER_TYPE) === 2;
+  const [lngStep, latStep] = scale;
+  const west = tiepoint[3] - tiepoint[0] * lngStep + (pixelIsPoint ? 0 : lngStep / 2);
+  const north = tiepoint[4] + tiepoint[1] * latStep - (pixelIsPoint ? 0 : latStep / 2);
+  if (Math.abs(north) > 90 || Math.abs(west) > 180 || lngStep > 1 || latStep > 1) {
+    throw new Error(`"${fileName}" doesn't look like a latitude/longitude raster`);
+  }
+
+  const noDataTag = tags.get(TIFF_TAGS.GDAL_NODATA);
+  const noData = typeof noDataTag === 'string' ? parseFloat(noDataTag) : NaN;
+
+  // Blocks are strips (full width) or tiles
+  const tiled = tags.has(TIFF_TAGS.TILE_OFFSETS);
+  const blockWidth = tiled ? number(TIFF_TAGS.TILE_WIDTH) : width;
+  const blockHeight = tiled ? number(TIFF_TAGS.TILE_LENGTH) : number(TIFF_TAGS.ROWS_PER_STRIP, height);
+  const offsets = numbers(tiled ? TIFF_TAGS.TILE_OFFSETS : TIFF_TAGS.STRIP_OFFSETS);
+  const byteCounts = numbers(tiled ? TIFF_TAGS.TILE_BYTE_COUNTS : TIFF_TAGS.STRIP_BYTE_COUNTS);
+  const blocksAcross = Math.ceil(width / blockWidth);
+  const bytesPerSample = bitsPerSample / 8;
+
+  const readSample = (block: DataView, offset: number): number => {
+    if (sampleFormat === 3) {
+      return bytesPerSample === 8 ? block.getFloat64(offset, littleEndian) : block.getFloat32(offset, littleEndian);
+    }
+    const signed = sampleFormat === 2;
+    if (bytesPerSample === 2) return signed ? block.getInt16(offset, littleEndian) : block.getUint16(offset, littleEndian);
+    if (bytesPerSample === 4) return signed ? block.getInt32(offset, littleEndian) : block.getUint32(offset, littleEndian);
+    throw new Error(`"${fileName}" has unsupported ${bitsPerSample}-bit samples`);
+  };
+
+  const data = new Int16Array(width * height).fill(DEM_VOID);
+
+  for (let blockIndex = 0; blockIndex < offsets.length; blockIndex++) {
+    const stored = new Uint8Array(buffer, offsets[blockIndex], byteCounts[blockIndex]);
+    const bytes = compression === 1 ? stored : await inflate(stored);
+    const block = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const blockX = (blockIndex % blocksAcross) * blockWidth;
+    const blockY = Math.floor(blockIndex / blocksAcross) * blockHeight;
+
+    for (let row = 0; row < blockHeight && blockY + row < height; row++) {
+      let previous = 0;
+      for (let col = 0; col < blockWidth; col++) {
+        const offset = (row * blockWidth + col) * bytesPerSample;
+        if (offset + bytesPerSample > block.byteLength) break;
+
+        let value = readSample(block, offset);
+        if (predictor === 2) {
+          // Horizontal differencing: each sample is stored relative to the one before
+          value = col === 0 ? value : previous + value;
+          // Wrap like the integer type would
+          if (bytesPerSample === 2) value = sampleFormat === 2 ? (value << 16) >> 16 : value & 0xffff;
+          else value = sampleFormat === 2 ? value | 0 : value >>> 0;
+          previous = value;
+        }
+
+        if (blockX + col >= width) continue;
+        if (isNaN(value) || value === noData || value < -1000 || value > 9000) continue;
+        data[(blockY + row) * width + blockX + col] = Math.round(value);
+      }
+    }
+  }
+
+  return {
+    name: fileName.replace(/\.tiff?$/i, ''),
+    north,
+    west,
+    latStep,
+    lngStep,
+    width,
+    height,
+    data,
+  };
+}
+
+// ============================================
+// SAMPLING
+// ============================================
+
+export function getDEMTileBounds(tile: DEMTile): DEMTileBounds {
+  return {
+    north: tile.north,
+    south: tile.north - (tile.height - 1) * tile.latStep,
+    west: tile.west,
+    east: tile.west + (tile.width - 1) * tile.lngStep,
+  };
+}
+
+/**
+ * Elevation at a point in a tile, bilinearly interpolated
+ * @returns null outside the tile or where the tile has voids
+ */
+export function sampleDEMTile(tile: DEMTile, lat: number, lng: number): number | null {
+  const x = (lng - tile.west) / tile.lngStep;
+  const y = (tile.north - lat) / tile.latStep;
+  if (x < 0 || y < 0 || x > tile.width - 1 || y > tile.height - 1) return null;
+
+  const x0 = Math.min(Math.floor(x), tile.width - 2);
+  const y0 = Math.min(Math.floor(y), tile.height - 2);
+  const fx = x - x0;
+  const fy = y - y0;
+
+  const at = (col: number, row: number) => tile.data[row * tile.width + col];
+  const corners = [at(x0, y0), at(x0 + 1, y0), at(x0, y0 + 1), at(x0 + 1, y0 + 1)];
+  if (corners.some(value => value === DEM_VOID)) return null;
+
+  const top = corners[0] * (1 - fx) + corners[1] * fx;
+  const bottom = corners[2] * (1 - fx) + corners[3] * fx;
+  return top * (1 - fy) + bottom * fy;
+}
+
+// ============================================
+// STORAGE
+// ============================================
+
+/**
+ * Read the stored tiles into memory, the first time terrain data is needed.
+ * Until this resolves, sampling finds no tiles.
+ */
+export function loadDEMTiles(): Promise<DEMTile[]> {
+  if (!loadPromise) {
+    loadPromise = localStorageService.getDEMTiles()
+      .then(stored => {
+        for (const tile of stored) {
+          if (!loadedTiles.has(tile.name)) loadedTiles.set(tile.name, tile);
+        }
+        if (stored.length > 0) tileVersion++;
+      })
+      .catch(error => {
+        console.error('[DEM] Failed to read stored tiles:', error);
+        loadPromise = null;
+      });
+  }
+  return loadPromise.then(getLoadedDEMTiles);
+}
+
+/**
+ * Import an .hgt or GeoTIFF file and store it for offline use
+ * @throws Error if the file can't be parsed or storage is full
+ */
+export async function loadDEMFile(file: File): Promise<DEMTile> {
+  await loadDEMTiles();
+  const buffer = await file.arrayBuffer();
+  const tile = /\.tiff?$/i.test(file.name)
+    ? await parseGeoTIFF(buffer, file.name)
+    : parseHGT(buffer, file.name);
+
+  try {
+    await localStorageService.saveDEMTile({ ...tile, importedAt: new Date().toISOString() });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+      throw new Error(`Not enough storage space for "${file.name}"`);
+    }
+    throw error;
+  }
+
+  loadedTiles.set(tile.name, tile);
+  tileVersion++;
+  return tile;
+}
+
+export function getLoadedDEMTiles(): DEMTile[] {
+  return Array.from(loadedTiles.values());
+}
+
+export async function removeDEMTile(name: string): Promise<void> {
+  await localStorageService.deleteDEMTile(name);
+  if (loadedTiles.delete(name)) tileVersion++;
+}
+
+/**
+ * Changes whenever tiles are added or removed, for cache keys
+ */
+export function getDEMTileVersion(): number {
+  return tileVersion;
+}
+
+/**
+ * Whether any stored tile overlaps a bounding box
+ */
+export function hasDEMCoverage(bounds: DEMTileBounds): boolean {
+  return getLoadedDEMTiles().some(tile => {
+    const tileBounds = getDEMTileBounds(tile);
+    return tileBounds.west <= bounds.east && tileBounds.east >= bounds.west &&
+      tileBounds.south <= bounds.north && tileBounds.north >= bounds.south;
+  });
+}
+
+/**
+ * Elevation at a point from any stored tile
+ * @returns null when no tile covers the point
+ */
+export function sampleDEMElevation(lat: number, lng: number): number | null {
+  for (const tile of loadedTiles.values()) {
+    const elevation = sampleDEMTile(tile, lat, lng);
+    if (elevation !== null) return elevation;
+  }
+  return null;
+}
+
+// ============================================
+// GPX ELEVATION FILL
+// ============================================
+
+/**
+ * Fill in track/route point elevations from stored DEM tiles
+ * Points with a missing or invalid <ele> are filled; a file whose elevations
+ * are all zero (common for drawn routes) is treated as having none.
+ * @returns The original content when nothing could be filled
+ */
+export async function fillGPXElevationFromDEM(gpxContent: string): Promise<{ content: string; filled: number }> {
+  await loadDEMTiles();
+  if (loadedTiles.size === 0) return { content: gpxContent, filled: 0 };
+
+  const xmlDoc = new DOMParser().parseFromString(gpxContent, 'text/xml');
+  if (xmlDoc.querySelector('parsererror')) return { content: gpxContent, filled: 0 };
+
+  const points = [
+    ...Array.from(xmlDoc.getElementsByTagNameNS('*', 'trkpt')),
+    ...Array.from(xmlDoc.getElementsByTagNameNS('*', 'rtept')),
+  ];
+  const readElevation = (point: Element): number => {
+    const text = point.getElementsByTagNameNS('*', 'ele')[0]?.textContent?.trim();
+    return text ? parseFloat(text) : NaN;
+  };
+  const allZero = points.every(point => {
+    const elevation = readElevation(point);
+    return isNaN(elevation) || elevation === 0;
+  });
+
+  let filled = 0;
+  for (const point of points) {
+    const current = readElevation(point);
+    if (!allZero && !isNaN(current) && isFinite(current)) continue;
+
+    const elevation = sampleDEMElevation(
+      parseFloat(point.getAttribute('lat') || ''),
+      parseFloat(point.getAttribute('lon') || '')
+    );
+    if (elevation === null) continue;
+
+    let ele = point.getElementsByTagNameNS('*', 'ele')[0];
+    if (!ele) {
+      // <ele> is the first child of a GPX point
+      ele = xmlDoc.createElementNS(point.namespaceURI, 'ele');
+      point.insertBefore(ele, point.firstChild);
+    }
+    ele.textContent = elevation.toFixed(1);
+    filled++;
+  }
+
+  if (filled === 0) return { content: gpxContent, filled };
+  return { content: new XMLSerializer().serializeToString(xmlDoc), filled };
+}
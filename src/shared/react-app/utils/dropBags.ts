@@ -0,0 +1,118 @@
+/**
+ * Drop Bag Planner
+ *
+ * Works out what goes in each drop bag. A bag left at a checkpoint holds the
+ * nutrition for every leg after it, up to and including the leg into the next
+ * drop bag (or the finish), plus any kit items added to it such as spare socks
+ * or batteries.
+ *
+ * Water is left out of the roll-up because it's refilled at aid stations.
+ */
+
+import type { DropBagItem, NutritionItem, Race, Segment } from '@/shared/types';
+import { calculateSegmentETA } from './etaCalculations';
+
+export interface DropBagNutrition {
+  productName: string;
+  quantity: number;
+  servingSize: string;
+}
+
+export interface DropBagPlan {
+  segmentIndex: number;
+  segmentId: number | null;
+  checkpointName: string;
+  bagNumber: number; // 1-based, in course order
+  distanceMiles: number; // Cumulative distance of the checkpoint
+  eta: Date | null;
+  coversCheckpoints: string[]; // Checkpoints reached on the food in this bag
+  nutrition: DropBagNutrition[];
+  totals: { carbs: number; sodium: number; caffeine: number };
+  kitItems: DropBagItem[];
+}
+
+/**
+ * Kit items packed in a checkpoint's drop bag
+ */
+export function parseDropBagItems(segment: Pick<Segment, 'drop_bag_items'>): DropBagItem[] {
+  if (!segment.drop_bag_items) return [];
+  try {
+    const items: DropBagItem[] = JSON.parse(segment.drop_bag_items);
+    return Array.isArray(items) ? items : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Index of the last leg whose nutrition comes from the drop bag at segmentIndex
+ */
+export function getDropBagCoverageEnd(segments: Segment[], segmentIndex: number): number {
+  for (let i = segmentIndex + 1; i < segments.length; i++) {
+    if (segments[i].drop_bag) return i;
+  }
+  return segments.length - 1;
+}
+
+/**
+ * Packing plan for every drop bag on the course, in order
+ */
+export function getDropBagPlans(race: Race, segments: Segment[]): DropBagPlan[] {
+  const plans: DropBagPlan[] = [];
+
+  segments.forEach((segment, segmentIndex) => {
+    if (!segment.drop_bag) return;
+
+    const coverageEnd = getDropBagCoverageEnd(segments, segmentIndex);
+    const coveredLegs = segments.slice(segmentIndex + 1, coverageEnd + 1);
+    const { nutrition, totals } = rollUpLegNutrition(coveredLegs);
+
+    plans.push({
+      segmentIndex,
+      segmentId: segment.id ?? null,
+      checkpointName: segment.checkpoint_name,
+      bagNumber: plans.length + 1,
+      distanceMiles: segment.cumulative_distance_miles,
+      eta: calculateSegmentETA(race.start_date_time, segments, segmentIndex, race.timezone, race.stages)?.eta ?? null,
+      coversCheckpoints: coveredLegs.map(leg => leg.checkpoint_name),
+      nutrition,
+      totals,
+      kitItems: parseDropBagItems(segment),
+    });
+  });
+
+  return plans;
+}
+
+/**
+ * Nutrition needed for a run of legs, largest quantities first (water excluded)
+ */
+export function rollUpLegNutrition(legs: Segment[]): { nutrition: DropBagNutrition[]; totals: DropBagPlan['totals'] } {
+  const nutrition = new Map<string, DropBagNutrition>();
+  const totals = { carbs: 0, sodium: 0, caffeine: 0 };
+
+  for (const leg of legs) {
+    for (const item of parseNutritionItems(leg)) {
+      if (item.quantity <= 0 || item.productName.toLowerCase() === 'water') continue;
+
+      const entry = nutrition.get(item.productName) ?? { productName: item.productName, quantity: 0, servingSize: item.servingSize };
+      entry.quantity += item.quantity;
+      nutrition.set(item.productName, entry);
+      totals.carbs += item.carbsPerServing * item.quantity;
+      totals.sodium += item.sodiumPerServing * item.quantity;
+      totals.caffeine += (item.caffeinePerServing || 0) * item.quantity;
+    }
+  }
+
+  return { nutrition: Array.from(nutrition.values()).sort((a, b) => b.quantity - a.quantity), totals };
+}
+
+function parseNutritionItems(segment: Segment): NutritionItem[] {
+  if (!segment.segment_nutrition_items) return [];
+  try {
+    const items: NutritionItem[] = JSON.parse(segment.segment_nutrition_items);
+    return Array.isArray(items) ? items : [];
+  } catch {
+    return [];
+  }
+}
@@ -1,9 +1,20 @@
+import {
+  calculateGainLoss,
+  getElevationSmoothingSettings,
+  processElevationProfile,
+  type ElevationProfilePoint,
+  type ProcessedElevationProfile,
+} from './elevationSmoothing';
+import { getDEMTileVersion } from './demTiles';
+
 export interface ElevationStats {
   gain: number; // meters
   loss: number; // meters
   maxElevation: number; // meters
   minElevation: number; // meters
   netElevation: number; // meters (gain - loss)
+  rawGain: number; // meters, before smoothing - for before/after comparison
+  rawLoss: number; // meters, before smoothing
 }
 
 /**
@@ -28,8 +39,63 @@ function calculateDistance(
   return R * c;
 }
 
+/**
+ * Parse track points into a distance/elevation profile
+ */
+export function parseElevationProfile(gpxContent: string): ElevationProfilePoint[] {
+  const parser = new DOMParser();
+  const xmlDoc = parser.parseFromString(gpxContent, 'text/xml');
+  const trkpts = xmlDoc.getElementsByTagName('trkpt');
+
+  const points: ElevationProfilePoint[] = [];
+  let cumulativeDistance = 0;
+  let previousLat: number | null = null;
+  let previousLon: number | null = null;
+
+  for (let i = 0; i < trkpts.length; i++) {
+    const trkpt = trkpts[i];
+    const lat = parseFloat(trkpt.getAttribute('lat') || '0');
+    const lon = parseFloat(trkpt.getAttribute('lon') || '0');
+    const eleNode = trkpt.getElementsByTagName('ele')[0];
+    const elevation = eleNode ? parseFloat(eleNode.textContent || '0') : 0;
+
+    // Calculate distance from previous point
+    if (i > 0 && previousLat !== null && previousLon !== null) {
+      const dist = calculateDistance(previousLat, previousLon, lat, lon);
+      cumulativeDistance += dist;
+    }
+
+    points.push({ distanceMiles: cumulativeDistance, elevation: isNaN(elevation) ? 0 : elevation, lat, lng: lon });
+    previousLat = lat;
+    previousLon = lon;
+  }
+
+  return points;
+}
+
+// Every segment of a race asks for the same track, so keep the last processed profile
+let profileCache: { gpxContent: string; settingsKey: string; profile: ProcessedElevationProfile } | null = null;
+
+/**
+ * Parse a GPX file and run the elevation smoothing pipeline with the saved settings
+ */
+export function getProcessedElevationProfile(gpxContent: string): ProcessedElevationProfile {
+  const settings = getElevationSmoothingSettings();
+  const settingsKey = `${JSON.stringify(settings)}|${getDEMTileVersion()}`;
+
+  if (profileCache && profileCache.gpxContent === gpxContent && profileCache.settingsKey === settingsKey) {
+    return profileCache.profile;
+  }
+
+  const profile = processElevationProfile(parseElevationProfile(gpxContent), settings);
+  profileCache = { gpxContent, settingsKey, profile };
+  return profile;
+}
+
 /**
  * Calculate elevation gain/loss for a segment between two distances
+ * Gain and loss use the smoothed profile and hysteresis threshold from the
+ * elevation smoothing settings; rawGain/rawLoss sum every change in the GPX.
  * @param gpxContent - GPX file XML content
  * @param startDistanceMiles - Starting cumulative distance
  * @param endDistanceMiles - Ending cumulative distance
@@ -41,72 +107,34 @@ export function calculateSegmentElevation(
   endDistanceMiles: number
 ): ElevationStats | null {
   try {
-    const parser = new DOMParser();
-    const xmlDoc = parser.parseFromString(gpxContent, 'text/xml');
-    const trkpts = xmlDoc.getElementsByTagName('trkpt');
-
-    if (trkpts.length === 0) {
+    const profile = getProcessedElevationProfile(gpxContent);
+    if (profile.distancesMiles.length === 0) {
       return null;
     }
 
-    // Build array of points with distance and elevation
-    const points: Array<{ distance: number; elevation: number }> = [];
-    let cumulativeDistance = 0;
-    let previousLat: number | null = null;
-    let previousLon: number | null = null;
-
-    for (let i = 0; i < trkpts.length; i++) {
-      const trkpt = trkpts[i];
-      const lat = parseFloat(trkpt.getAttribute('lat') || '0');
-      const lon = parseFloat(trkpt.getAttribute('lon') || '0');
-      const eleNode = trkpt.getElementsByTagName('ele')[0];
-      const elevation = eleNode ? parseFloat(eleNode.textContent || '0') : 0;
-
-      // Calculate distance from previous point
-      if (i > 0 && previousLat !== null && previousLon !== null) {
-        const dist = calculateDistance(previousLat, previousLon, lat, lon);
-        cumulativeDistance += dist;
-      }
-
-      points.push({ distance: cumulativeDistance, elevation });
-      previousLat = lat;
-      previousLon = lon;
-    }
-
-    // Filter points within segment range
-    const segmentPoints = points.filter(
-      p => p.distance >= startDistanceMiles && p.distance <= endDistanceMiles
-    );
+    // Find points within segment range
+    const indices: number[] = [];
+    profile.distancesMiles.forEach((distance, i) => {
+      if (distance >= startDistanceMiles && distance <= endDistanceMiles) indices.push(i);
+    });
 
-    if (segmentPoints.length < 2) {
+    if (indices.length < 2) {
       return null;
     }
 
-    // Calculate elevation statistics
-    let gain = 0;
-    let loss = 0;
-    let maxElevation = segmentPoints[0].elevation;
-    let minElevation = segmentPoints[0].elevation;
-
-    for (let i = 1; i < segmentPoints.length; i++) {
-      const elevationChange = segmentPoints[i].elevation - segmentPoints[i - 1].elevation;
-
-      if (elevationChange > 0) {
-        gain += elevationChange;
-      } else if (elevationChange < 0) {
-        loss += Math.abs(elevationChange);
-      }
-
-      maxElevation = Math.max(maxElevation, segmentPoints[i].elevation);
-      minElevation = Math.min(minElevation, segmentPoints[i].elevation);
-    }
+    const elevations = indices.map(i => profile.elevations[i]);
+    const settings = getElevationSmoothingSettings();
+    const { gain, loss } = calculateGainLoss(elevations, settings.enabled ? settings.hysteresisMeters : 0);
+    const raw = calculateGainLoss(indices.map(i => profile.rawElevations[i]));
 
     return {
       gain: Math.round(gain),
       loss: Math.round(loss),
-      maxElevation: Math.round(maxElevation),
-      minElevation: Math.round(minElevation),
-      netElevation: Math.round(gain - loss)
+      maxElevation: Math.round(Math.max(...elevations)),
+      minElevation: Math.round(Math.min(...elevations)),
+      netElevation: Math.round(gain - loss),
+      rawGain: Math.round(raw.gain),
+      rawLoss: Math.round(raw.loss),
     };
   } catch (error) {
     console.error('Error calculating segment elevation:', error);
@@ -0,0 +1,219 @@
+/**
+ * Elevation smoothing utilities
+ *
+ * Raw GPX elevation is noisy - barometric drift, GPS jitter and the odd bad fix -
+ * and summing every small wiggle inflates total ascent by 10-30%. The pipeline:
+ * 1. DEM correction: replace elevations with a loaded terrain model where one covers the track
+ * 2. Outlier rejection: single-point spikes steeper than any real slope are interpolated away
+ * 3. Distance-based smoothing: moving average over a fixed distance, not a fixed point count
+ * 4. Hysteresis: gain/loss only counts once the climb or descent passes a threshold
+ */
+
+import { sampleDEMElevation } from './demTiles';
+
+const METERS_PER_MILE = 1609.344;
+const STORAGE_KEY = 'elevation_smoothing_settings';
+
+export interface ElevationSmoothingSettings {
+  enabled: boolean;
+  rejectOutliers: boolean;
+  maxGradePercent: number; // Steeper spikes than this are treated as bad fixes
+  smoothingWindowMeters: number; // 0 disables smoothing
+  hysteresisMeters: number; // Minimum climb/descent counted towards gain/loss
+  useDEM: boolean; // Correct against loaded DEM tiles where available
+}
+
+export const DEFAULT_ELEVATION_SMOOTHING: ElevationSmoothingSettings = {
+  enabled: true,
+  rejectOutliers: true,
+  maxGradePercent: 60,
+  smoothingWindowMeters: 100,
+  hysteresisMeters: 3,
+  useDEM: true,
+};
+
+export interface ElevationProfilePoint {
+  distanceMiles: number;
+  elevation: number; // meters
+  lat: number;
+  lng: number;
+}
+
+export interface ProcessedElevationProfile {
+  distancesMiles: number[];
+  rawElevations: number[];
+  elevations: number[]; // After the pipeline
+  outliersRemoved: number;
+  demCorrectedPoints: number;
+}
+
+export interface GainLoss {
+  gain: number; // meters
+  loss: number; // meters
+}
+
+// ============================================
+// SETTINGS
+// ============================================
+
+export function getElevationSmoothingSettings(): ElevationSmoothingSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return { ...DEFAULT_ELEVATION_SMOOTHING, ...JSON.parse(stored) };
+    }
+  } catch (error) {
+    console.error('Failed to read elevation smoothing settings:', error);
+  }
+  return DEFAULT_ELEVATION_SMOOTHING;
+}
+
+export function setElevationSmoothingSettings(settings: ElevationSmoothingSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+// ============================================
+// PIPELINE STEPS
+// ============================================
+
+/**
+ * Replace elevations with DEM samples where a loaded tile covers the point
+ */
+export function correctElevationsWithDEM(
+  points: ElevationProfilePoint[],
+  elevations: number[]
+): { elevations: number[]; corrected: number } {
+  let corrected = 0;
+  const result = elevations.map((elevation, i) => {
+    const demElevation = sampleDEMElevation(points[i].lat, points[i].lng);
+    if (demElevation === null) return elevation;
+    corrected++;
+    return demElevation;
+  });
+  return { elevations: result, corrected };
+}
+
+/**
+ * Interpolate over single-point spikes: a point that climbs steeper than the
+ * maximum grade from its neighbour and drops back just as steeply on the other side
+ */
+export function rejectElevationOutliers(
+  distancesMiles: number[],
+  elevations: number[],
+  maxGradePercent: number
+): { elevations: number[]; removed: number } {
+  const result = [...elevations];
+  const maxGrade = maxGradePercent / 100;
+  let removed = 0;
+
+  for (let i = 1; i < result.length - 1; i++) {
+    // Treat points closer than 1 m as 1 m apart so duplicate fixes don't give infinite grades
+    const before = Math.max(1, (distancesMiles[i] - distancesMiles[i - 1]) * METERS_PER_MILE);
+    const after = Math.max(1, (distancesMiles[i + 1] - distancesMiles[i]) * METERS_PER_MILE);
+    const gradeIn = (result[i] - result[i - 1]) / before;
+    const gradeOut = (result[i + 1] - result[i]) / after;
+
+    if (Math.abs(gradeIn) > maxGrade && Math.abs(gradeOut) > maxGrade && Math.sign(gradeIn) !== Math.sign(gradeOut)) {
+      result[i] = result[i - 1] + (result[i + 1] - result[i - 1]) * (before / (before + after));
+      removed++;
+    }
+  }
+
+  return { elevations: result, removed };
+}
+
+/**
+ * Centred moving average over a distance window
+ * Uses the points within half the window either side, so dense and sparse
+ * sections of a track get the same amount of smoothing.
+ */
+export function smoothElevations(
+  distancesMiles: number[],
+  elevations: number[],
+  windowMeters: number
+): number[] {
+  if (windowMeters <= 0 || elevations.length < 3) return [...elevations];
+
+  const halfWindow = windowMeters / 2 / METERS_PER_MILE;
+  const result = new Array<number>(elevations.length);
+  let low = 0;
+  let high = 0; // Exclusive
+  let sum = 0;
+
+  for (let i = 0; i < elevations.length; i++) {
+    while (high < elevations.length && distancesMiles[high] <= distancesMiles[i] + halfWindow) {
+      sum += elevations[high];
+      high++;
+    }
+    while (distancesMiles[low] < distancesMiles[i] - halfWindow) {
+      sum -= elevations[low];
+      low++;
+    }
+    result[i] = sum / (high - low);
+  }
+
+  return result;
+}
+
+/**
+ * Total gain and loss, only counting a climb or descent once it passes the threshold
+ * A threshold of 0 sums every change, like the raw calculation.
+ */
+export function calculateGainLoss(elevations: number[], hysteresisMeters: number = 0): GainLoss {
+  let gain = 0;
+  let loss = 0;
+  if (elevations.length === 0) return { gain, loss };
+
+  let reference = elevations[0];
+  for (let i = 1; i < elevations.length; i++) {
+    const change = elevations[i] - reference;
+    if (change > 0 && change >= hysteresisMeters) {
+      gain += change;
+      reference = elevations[i];
+    } else if (change < 0 && -change >= hysteresisMeters) {
+      loss -= change;
+      reference = elevations[i];
+    }
+  }
+
+  return { gain, loss };
+}
+
+// ============================================
+// PIPELINE
+// ============================================
+
+/**
+ * Run the elevation pipeline over a track profile
+ */
+export function processElevationProfile(
+  points: ElevationProfilePoint[],
+  settings: ElevationSmoothingSettings = getElevationSmoothingSettings()
+): ProcessedElevationProfile {
+  const distancesMiles = points.map(p => p.distanceMiles);
+  const rawElevations = points.map(p => p.elevation);
+
+  if (!settings.enabled) {
+    return { distancesMiles, rawElevations, elevations: rawElevations, outliersRemoved: 0, demCorrectedPoints: 0 };
+  }
+
+  let elevations = rawElevations;
+  let demCorrectedPoints = 0;
+  let outliersRemoved = 0;
+
+  if (settings.useDEM) {
+    const corrected = correctElevationsWithDEM(points, elevations);
+    elevations = corrected.elevations;
+    demCorrectedPoints = corrected.corrected;
+  }
+
+  if (settings.rejectOutliers) {
+    const filtered = rejectElevationOutliers(distancesMiles, elevations, settings.maxGradePercent);
+    elevations = filtered.elevations;
+    outliersRemoved = filtered.removed;
+  }
+
+  elevations = smoothElevations(distancesMiles, elevations, settings.smoothingWindowMeters);
+
+  return { distancesMiles, rawElevations, elevations, outliersRemoved, demCorrectedPoints };
+}
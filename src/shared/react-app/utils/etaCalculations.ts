@@ -3,19 +3,34 @@
  * For calculating checkpoint arrival times based on race start time and segment durations
  */
 
-import type { Segment, SegmentETA } from '@/shared/types';
+import type { LightCondition, Segment, SegmentETA, Stage } from '@/shared/types';
+import {
+  getDarkMinutes,
+  getLightCondition,
+  getMoonIllumination,
+  getSunTimes,
+  isDarkerThanCivilTwilight,
+  type Coordinates,
+} from '@/react-app/utils/solarCalculations';
+import { getTimeZoneAbbreviation, getZonedDayKey, getZonedParts, resolveTimeZone } from '@/react-app/utils/timezone';
+import { getStageClocks } from '@/react-app/utils/stageCalculations';
+import { getCheckpointStopMinutes } from '@/react-app/utils/raceTimeSummary';
 
 /**
  * Calculate the ETA for a specific checkpoint/segment
  * @param raceStartTime ISO 8601 datetime string of race start
  * @param segments Array of all segments in order
  * @param checkpointIndex Index of the checkpoint to calculate ETA for
+ * @param timezone IANA timezone of the race; times are formatted in it (falls back to the user's timezone)
+ * @param stages Stages of a multi-day race; each stage's checkpoints are timed from the stage's own start
  * @returns SegmentETA object or null if no start time
  */
 export function calculateSegmentETA(
   raceStartTime: string | null | undefined,
   segments: Segment[],
-  checkpointIndex: number
+  checkpointIndex: number,
+  timezone?: string | null,
+  stages?: Stage[] | null
 ): SegmentETA | null {
   if (!raceStartTime || !segments[checkpointIndex]) {
     return null;
@@ -24,32 +39,44 @@ export function calculateSegmentETA(
   try {
     const startDate = new Date(raceStartTime);
 
+    // Stage races restart the clock at each stage's start
+    const stageClock = getStageClocks(raceStartTime, segments, stages)?.[checkpointIndex] ?? null;
+    const clockStart = stageClock ? stageClock.start : startDate;
+
     // Calculate cumulative time to this checkpoint
-    // Including both segment time AND time spent at checkpoint
-    let cumulativeMinutes = 0;
-    for (let i = 0; i <= checkpointIndex; i++) {
+    // Including both segment time AND time spent at checkpoint (aid station and sleep)
+    let clockMinutes = 0;
+    for (let i = stageClock?.firstSegmentIndex ?? 0; i <= checkpointIndex; i++) {
       const segmentTime = segments[i].predicted_segment_time_minutes || 0;
-      const checkpointTime = segments[i].checkpoint_time_minutes || 0;
-      cumulativeMinutes += segmentTime + checkpointTime;
+      clockMinutes += segmentTime + getCheckpointStopMinutes(segments[i]);
     }
 
     // Calculate ETA by adding cumulative minutes to start time
-    const eta = new Date(startDate.getTime() + cumulativeMinutes * 60 * 1000);
+    const eta = new Date(clockStart.getTime() + clockMinutes * 60 * 1000);
+    const cumulativeMinutes = (eta.getTime() - startDate.getTime()) / 60000;
 
     // Get this segment's duration
     const segmentTimeMinutes = segments[checkpointIndex].predicted_segment_time_minutes || 0;
 
-    // Format the ETA
-    const formattedTime = formatTime(eta);
-    const formatted24h = format24Hour(eta);
-    const dayOfWeek = getDayOfWeek(eta);
-    const fullDate = formatFullDate(eta);
+    // Format the ETA as race-local wall-clock time
+    const timeZone = resolveTimeZone(timezone);
+    const formattedTime = formatTime(eta, timeZone);
+    const formatted24h = format24Hour(eta, timeZone);
+    const dayOfWeek = getDayOfWeek(eta, timeZone);
+    const fullDate = formatFullDate(eta, timeZone);
 
     // Check if we cross midnight from start to this checkpoint
-    const crossesMidnight = startDate.getDate() !== eta.getDate();
+    const crossesMidnight = getZonedDayKey(startDate, timeZone) !== getZonedDayKey(eta, timeZone);
+
+    // Determine if it's daylight or night at the checkpoint
+    const coordinates = resolveSegmentCoordinates(segments, checkpointIndex);
+    const { isDaylight, isNight, lightCondition } = getDaylightStatus(eta, coordinates, timezone);
 
-    // Determine if it's daylight or night
-    const { isDaylight, isNight } = getDaylightStatus(eta);
+    // The leg into this checkpoint runs from leaving the previous checkpoint to arriving here
+    const checkpointTimeMinutes = getCheckpointStopMinutes(segments[checkpointIndex]);
+    const legEnd = new Date(eta.getTime() - checkpointTimeMinutes * 60 * 1000);
+    const legStart = new Date(legEnd.getTime() - segmentTimeMinutes * 60 * 1000);
+    const darkMinutes = getLegDarkMinutes(legStart, legEnd, segments, checkpointIndex, coordinates, timezone);
 
     return {
       eta,
@@ -62,6 +89,15 @@ export function calculateSegmentETA(
       isDaylight,
       isNight,
       crossesMidnight,
+      timeZone,
+      timeZoneName: getTimeZoneAbbreviation(eta, timeZone),
+      lightCondition,
+      sunTimes: coordinates ? getSunTimes(eta, coordinates.latitude, coordinates.longitude, timezone) : null,
+      moonIllumination: getMoonIllumination(eta),
+      needsHeadtorch: darkMinutes > 0,
+      darkMinutes,
+      hasSolarData: coordinates !== null,
+      stageIndex: stageClock?.stageIndex ?? null,
     };
   } catch (error) {
     console.error('Error calculating ETA:', error);
@@ -69,65 +105,106 @@ export function calculateSegmentETA(
   }
 }
 
+/**
+ * Coordinates to use for a checkpoint's light calculations.
+ * Checkpoints without a location borrow the nearest located checkpoint, preferring earlier ones.
+ * @returns null if no checkpoint in the race has a location
+ */
+export function resolveSegmentCoordinates(segments: Segment[], index: number): Coordinates | null {
+  const located = (segment: Segment | undefined): Coordinates | null =>
+    segment && segment.latitude != null && segment.longitude != null
+      ? { latitude: segment.latitude, longitude: segment.longitude }
+      : null;
+
+  for (let offset = 0; offset < segments.length; offset++) {
+    const coordinates = located(segments[index - offset]) ?? located(segments[index + offset]);
+    if (coordinates) return coordinates;
+  }
+  return null;
+}
+
+/**
+ * Minutes of a leg darker than civil twilight, between the previous checkpoint and this one
+ */
+function getLegDarkMinutes(
+  legStart: Date,
+  legEnd: Date,
+  segments: Segment[],
+  checkpointIndex: number,
+  coordinates: Coordinates | null,
+  timezone?: string | null
+): number {
+  if (coordinates) {
+    const from = checkpointIndex > 0 ? resolveSegmentCoordinates(segments, checkpointIndex - 1) ?? coordinates : coordinates;
+    return getDarkMinutes(legStart, legEnd, from, coordinates);
+  }
+
+  // No locations - sample against the fixed daylight hours instead
+  const legMinutes = (legEnd.getTime() - legStart.getTime()) / 60000;
+  let darkMinutes = 0;
+  for (let minute = 0; minute < legMinutes; minute += 5) {
+    const moment = new Date(legStart.getTime() + (minute + 2.5) * 60000);
+    if (getDaylightStatus(moment, null, timezone).isNight) {
+      darkMinutes += Math.min(5, legMinutes - minute);
+    }
+  }
+  return Math.round(darkMinutes);
+}
+
+/**
+ * Round a date to the nearest minute (30 seconds or more rounds up)
+ */
+function roundToMinute(date: Date): Date {
+  return new Date(Math.round(date.getTime() / 60000) * 60000);
+}
+
 /**
  * Format time as 12-hour format (e.g., "2:30 PM")
  * Rounds to the nearest minute
+ * @param timeZone IANA timezone to show the time in (defaults to the user's)
  */
-export function formatTime(date: Date): string {
-  // Round to nearest minute (30 seconds or more rounds up)
-  const rounded = new Date(date);
-  if (rounded.getSeconds() >= 30) {
-    rounded.setMinutes(rounded.getMinutes() + 1);
-  }
-  rounded.setSeconds(0);
-  rounded.setMilliseconds(0);
+export function formatTime(date: Date, timeZone?: string): string {
+  const rounded = roundToMinute(date);
 
   return rounded.toLocaleTimeString('en-US', {
     hour: 'numeric',
     minute: '2-digit',
     hour12: true,
+    timeZone,
   });
 }
 
 /**
  * Format time as 24-hour format (e.g., "14:30")
  * Rounds to the nearest minute
+ * @param timeZone IANA timezone to show the time in (defaults to the user's)
  */
-export function format24Hour(date: Date): string {
-  // Round to nearest minute (30 seconds or more rounds up)
-  const rounded = new Date(date);
-  if (rounded.getSeconds() >= 30) {
-    rounded.setMinutes(rounded.getMinutes() + 1);
-  }
-  rounded.setSeconds(0);
-  rounded.setMilliseconds(0);
+export function format24Hour(date: Date, timeZone?: string): string {
+  const rounded = roundToMinute(date);
 
   return rounded.toLocaleTimeString('en-US', {
     hour: '2-digit',
     minute: '2-digit',
-    hour12: false,
+    hourCycle: 'h23',
+    timeZone,
   });
 }
 
 /**
  * Get day of week (e.g., "Saturday")
+ * @param timeZone IANA timezone to take the day from (defaults to the user's)
  */
-export function getDayOfWeek(date: Date): string {
-  return date.toLocaleDateString('en-US', { weekday: 'long' });
+export function getDayOfWeek(date: Date, timeZone?: string): string {
+  return date.toLocaleDateString('en-US', { weekday: 'long', timeZone });
 }
 
 /**
  * Format full date and time (e.g., "Jun 15, 2:30 PM")
  * Rounds to the nearest minute
+ * @param timeZone IANA timezone to show the time in (defaults to the user's)
  */
-export function formatFullDate(date: Date): string {
-  // Round to nearest minute (30 seconds or more rounds up)
-  const rounded = new Date(date);
-  if (rounded.getSeconds() >= 30) {
-    rounded.setMinutes(rounded.getMinutes() + 1);
-  }
-  rounded.setSeconds(0);
-  rounded.setMilliseconds(0);
+export function formatFullDate(date: Date, timeZone?: string): string {
+  const rounded = roundToMinute(date);
 
   return rounded.toLocaleDateString('en-US', {
     month: 'short',
@@ -135,6 +212,7 @@ export function formatFullDate(date: Date): string {
     hour: 'numeric',
     minute: '2-digit',
     hour12: true,
+    timeZone,
   });
 }
 
@@ -162,22 +240,31 @@ export function formatDuration(minutes: number): string {
 
 /**
  * Determine if a given time is during daylight or night
- * Uses simplified calculation based on standard 6 AM - 8 PM daylight hours
- * In a future version, this could use SunCalc library with actual coordinates
+ * Uses the sun's altitude at the given coordinates. Without coordinates, falls back
+ * to fixed 6 AM - 8 PM daylight hours in the race timezone.
  */
 export function getDaylightStatus(
-  dateTime: Date
-): { isDaylight: boolean; isNight: boolean } {
-  // Simplified daylight calculation
-  // In future: Use SunCalc.getTimes(dateTime, latitude, longitude) for accurate sunrise/sunset
-  const hour = dateTime.getHours();
+  dateTime: Date,
+  coordinates?: Coordinates | null,
+  timezone?: string | null
+): { isDaylight: boolean; isNight: boolean; lightCondition: LightCondition } {
+  if (coordinates) {
+    const lightCondition = getLightCondition(dateTime, coordinates.latitude, coordinates.longitude);
+    return {
+      isDaylight: lightCondition === 'daylight',
+      isNight: isDarkerThanCivilTwilight(lightCondition),
+      lightCondition,
+    };
+  }
 
-  // Assume daylight hours are 6 AM to 8 PM if no coordinates
   // This is a rough approximation - actual sunrise/sunset varies by location and season
+  const hour = getZonedParts(dateTime, resolveTimeZone(timezone)).hour;
   const isDaylight = hour >= 6 && hour < 20;
-  const isNight = !isDaylight;
-
-  return { isDaylight, isNight };
+  return {
+    isDaylight,
+    isNight: !isDaylight,
+    lightCondition: isDaylight ? 'daylight' : 'night',
+  };
 }
 
 /**
@@ -229,7 +316,9 @@ export function formatRaceStartTime(
  */
 export function calculateFinishTime(
   raceStartTime: string | null | undefined,
-  segments: Segment[]
+  segments: Segment[],
+  timezone?: string | null,
+  stages?: Stage[] | null
 ): SegmentETA | null {
   if (!raceStartTime || segments.length === 0) {
     return null;
@@ -239,6 +328,8 @@ export function calculateFinishTime(
   return calculateSegmentETA(
     raceStartTime,
     segments,
-    segments.length - 1
+    segments.length - 1,
+    timezone,
+    stages
   );
 }
@@ -2,9 +2,19 @@ import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
 import type { Race, Segment, ElevationLabel, SupportCrewMember, NutritionItem } from '@/shared/types';
 import { localStorageService } from '@/react-app/services/localStorage';
-import { calculateSegmentETA, formatRaceStartTime } from '@/react-app/utils/etaCalculations';
+import { RACE_EXPORT_FORMAT_VERSION } from '@/react-app/utils/importRace';
+import { calculateSegmentETA, formatRaceStartTime, formatTime as formatClockTime, getDayOfWeek } from '@/react-app/utils/etaCalculations';
+import { formatSunEventTime, getLightConditionLabel } from '@/react-app/utils/solarCalculations';
+import { analyzeCutoffs, formatCutoffBuffer, formatCutoffLabel, getCutoffWarningMinutes } from '@/react-app/utils/cutoffAnalysis';
 import { formatDistance, formatPace as formatPaceWithUnit, getDistanceUnit } from '@/react-app/utils/unitConversions';
 import { calculateSegmentElevation } from '@/react-app/utils/elevationCalculations';
+import { pruneGPX, getGPXTrackPoints, escapeXml } from '@/react-app/utils/gpxPruner';
+import { splitTrackByCheckpoints } from '@/react-app/utils/gpxSegmentation';
+import { getCoordinatesFromGPX } from '@/react-app/utils/plusCodes';
+import { buildFITCourse } from '@/react-app/utils/fitCourseEncoder';
+import { calculateStageSummaries } from '@/react-app/utils/stageCalculations';
+import type { DropBagPlan } from '@/react-app/utils/dropBags';
+import { CREW_STATUS_LABELS, type CrewStop } from '@/react-app/utils/crewItinerary';
 
 // Helper to get current unit preference from localStorage
 const getUnitPreference = (): boolean => {
@@ -164,13 +174,7 @@ const formatSupportCrew = (segment: Segment): string => {
 
 const formatCutoffTime = (cutoffTime: string | null | undefined): string => {
   if (!cutoffTime) return '-';
-
-  // Format time from 24h to 12h format
-  const [hours, minutes] = cutoffTime.split(':');
-  const hour = parseInt(hours);
-  const period = hour >= 12 ? 'pm' : 'am';
-  const displayHour = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour;
-  return `${displayHour}:${minutes} ${period}`;
+  return formatCutoffLabel(cutoffTime);
 };
 
 export function exportToJSON(race: Race, segments: Segment[], elevationLabels: ElevationLabel[]) {
@@ -185,11 +189,29 @@ export function exportToJSON(race: Race, segments: Segment[], elevationLabels: E
     }
   }
 
+  // With route variants, every route's checkpoints and GPX go in, not just the active one's
+  let exportedSegments = segments;
+  let routeGpxFileContents: Record<string, string> | undefined;
+  if (race.id !== undefined && race.route_variants?.length) {
+    const raceId = race.id;
+    exportedSegments = race.route_variants.flatMap(variant => localStorageService.getSegmentsByRaceId(raceId, variant.id));
+    routeGpxFileContents = {};
+    for (const variant of race.route_variants) {
+      const gpxFile = variant.gpx_file_key ? localStorageService.getGPXFile(variant.gpx_file_key) : null;
+      if (gpxFile) {
+        routeGpxFileContents[variant.id] = gpxFile.content;
+      }
+    }
+  }
+
   const data = {
+    formatVersion: RACE_EXPORT_FORMAT_VERSION,
+    schemaVersion: localStorageService.getSchemaVersion(),
     race,
-    segments,
+    segments: exportedSegments,
     elevationLabels,
     gpxFileContent,
+    routeGpxFileContents,
     unitPreference: useMiles ? 'miles' : 'kilometers',
     exportedAt: new Date().toISOString(),
   };
@@ -256,9 +278,11 @@ export function exportToCSV(race: Race, segments: Segment[]) {
       const eta = calculateSegmentETA(
         race.start_date_time,
         segments,
-        index
+        index,
+        race.timezone,
+        race.stages
       );
-      row.push(eta ? `${eta.formattedTime} (${eta.isDaylight ? 'Day' : 'Night'})` : '-');
+      row.push(eta ? `${eta.formattedTime} (${getLightConditionLabel(eta.lightCondition)}${eta.needsHeadtorch ? ', headtorch' : ''})` : '-');
     }
 
     // Add cut-off time
@@ -385,6 +409,147 @@ export function exportToCSV(race: Race, segments: Segment[]) {
   URL.revokeObjectURL(url);
 }
 
+export interface GPXExportOptions {
+  /** Write one <trkseg> per leg, split at each checkpoint (default: single segment) */
+  splitByCheckpoint?: boolean;
+  /** Simplify the track to at most this many points, e.g. for older watches */
+  maxTrackPoints?: number;
+}
+
+const formatNutritionSummary = (segment: Segment): string | null => {
+  if (!segment.segment_nutrition_items) return null;
+
+  try {
+    const nutritionItems: NutritionItem[] = JSON.parse(segment.segment_nutrition_items);
+    if (nutritionItems.length === 0) return null;
+
+    const totalCarbs = nutritionItems.reduce((sum, item) => sum + item.carbsPerServing * item.quantity, 0);
+    const items = nutritionItems.map(item => `${item.productName} x${item.quantity}`).join(', ');
+    return `${items} (${totalCarbs}g carbs)`;
+  } catch {
+    return null;
+  }
+};
+
+export function exportToGPX(race: Race, segments: Segment[], options: GPXExportOptions = {}) {
+  const useMiles = getUnitPreference();
+  const sortedSegments = [...segments].sort((a, b) => a.segment_order - b.segment_order);
+
+  let gpxContent: string | null = null;
+  if (race.gpx_file_key) {
+    const gpxFile = localStorageService.getGPXFile(race.gpx_file_key);
+    if (gpxFile) {
+      gpxContent = options.maxTrackPoints
+        ? pruneGPX(gpxFile.content, { maxPoints: options.maxTrackPoints })
+        : gpxFile.content;
+    }
+  }
+
+  // Checkpoints without saved coordinates are placed on the route by distance
+  const positionedSegments = sortedSegments.map(segment => {
+    if (segment.latitude && segment.longitude) return segment;
+    const position = gpxContent ? getCoordinatesFromGPX(gpxContent, segment.cumulative_distance_miles) : null;
+    return position ? { ...segment, latitude: position.latitude, longitude: position.longitude } : segment;
+  });
+
+  const trackPoints = gpxContent
+    ? getGPXTrackPoints(gpxContent).map(p => ({ lat: p.lat, lng: p.lon, ele: p.ele }))
+    : [];
+
+  if (trackPoints.length === 0 && !positionedSegments.some(s => s.latitude && s.longitude)) {
+    throw new Error('This race has no GPX route or checkpoint locations to export.');
+  }
+
+  const waypoints = positionedSegments
+    .map((segment, index) => {
+      if (!segment.latitude || !segment.longitude) return null;
+
+      const eta = calculateSegmentETA(race.start_date_time, sortedSegments, index, race.timezone, race.stages);
+      const nutrition = formatNutritionSummary(segment);
+      const details = [
+        formatDistance(segment.cumulative_distance_miles, useMiles, 1),
+        segment.cutoff_time ? `Cutoff: ${formatCutoffTime(segment.cutoff_time)}` : null,
+        eta ? `ETA: ${eta.dayOfWeek.slice(0, 3)} ${eta.formattedTime}` : null,
+        segment.checkpoint_time_minutes ? `Stop: ${segment.checkpoint_time_minutes} min` : null,
+        segment.sleep_minutes ? `Sleep: ${segment.sleep_minutes} min` : null,
+        nutrition ? `Nutrition: ${nutrition}` : null,
+      ].filter(Boolean).join(' | ');
+
+      return `  <wpt lat="${segment.latitude.toFixed(7)}" lon="${segment.longitude.toFixed(7)}">
+    <name>${escapeXml(segment.checkpoint_name)}</name>
+    <desc>${escapeXml(details)}</desc>
+    <sym>Flag, Blue</sym>
+    <type>Checkpoint</type>
+  </wpt>`;
+    })
+    .filter(Boolean);
+
+  const legs = options.splitByCheckpoint
+    ? splitTrackByCheckpoints(trackPoints, positionedSegments).map(leg => leg.points as typeof trackPoints)
+    : [trackPoints];
+
+  const trackSegments = legs
+    .filter(points => points.length > 0)
+    .map(points => {
+      const trkpts = points
+        .map(p => `      <trkpt lat="${p.lat.toFixed(7)}" lon="${p.lng.toFixed(7)}"><ele>${p.ele.toFixed(1)}</ele></trkpt>`)
+        .join('\n');
+      return `    <trkseg>\n${trkpts}\n    </trkseg>`;
+    });
+
+  const gpx = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="UltraPlan" xmlns="http://www.topografix.com/GPX/1/1"
+ xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">
+  <metadata>
+    <name>${escapeXml(race.name)}</name>
+    <time>${new Date().toISOString()}</time>
+  </metadata>
+${waypoints.join('\n')}
+${trackSegments.length > 0 ? `  <trk>
+    <name>${escapeXml(race.name)}</name>
+${trackSegments.join('\n')}
+  </trk>` : ''}
+</gpx>
+`;
+
+  const blob = new Blob([gpx], { type: 'application/gpx+xml' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${race.name.replace(/\s+/g, '_')}_race_plan.gpx`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+export interface FITCourseExportOptions {
+  /** Race the watch's virtual partner against the planned segment times (default: true) */
+  virtualPartner?: boolean;
+}
+
+export function exportToFITCourse(race: Race, segments: Segment[], options: FITCourseExportOptions = {}) {
+  const gpxFile = race.gpx_file_key ? localStorageService.getGPXFile(race.gpx_file_key) : null;
+  if (!gpxFile) {
+    throw new Error('Upload a GPX route for this race before exporting a FIT course.');
+  }
+
+  const fitData = buildFITCourse(race.name, getGPXTrackPoints(gpxFile.content), segments, {
+    virtualPartner: options.virtualPartner ?? true,
+    startTime: race.start_date_time ? new Date(race.start_date_time) : undefined,
+  });
+
+  const blob = new Blob([fitData as BlobPart], { type: 'application/vnd.ant.fit' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${race.name.replace(/\s+/g, '_')}_course.fit`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
 export async function exportToPDF(race: Race, segments: Segment[], elevationLabels: ElevationLabel[]) {
   const useMiles = getUnitPreference();
 
@@ -558,6 +723,72 @@ export async function exportToPDF(race: Race, segments: Segment[], elevationLabe
 
   currentY += overviewHeight + 15;
 
+  // ========================================
+  // STAGES (multi-day races)
+  // ========================================
+  const stageSummaries = calculateStageSummaries(race, segments);
+  if (stageSummaries.length > 0) {
+    currentY = checkPageBreak(40, currentY);
+
+    doc.setFillColor(colors.accent.r, colors.accent.g, colors.accent.b);
+    doc.rect(margins.left, currentY, 4, 15, 'F');
+    doc.setFontSize(14);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(colors.dark.r, colors.dark.g, colors.dark.b);
+    doc.text('Stages', margins.left + 8, currentY + 10);
+    currentY += 20;
+
+    const stageTime = (date: Date) => `${getDayOfWeek(date, race.timezone ?? undefined).slice(0, 3)} ${formatClockTime(date, race.timezone ?? undefined)}`;
+
+    stageSummaries.forEach(stage => {
+      const isLast = stage.index === stageSummaries.length - 1;
+      const cardHeight = isLast ? 26 : 32;
+      currentY = checkPageBreak(cardHeight + 5, currentY);
+      drawCard(margins.left, currentY, contentWidth, cardHeight, colors.lightGray);
+
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(colors.dark.r, colors.dark.g, colors.dark.b);
+      doc.text(stage.stage.name, margins.left + 5, currentY + 7);
+      doc.text(
+        `${formatDistance(stage.distanceMiles, useMiles)} • ${formatTime(stage.movingMinutes + stage.checkpointMinutes)}`,
+        pageWidth - margins.right - 5,
+        currentY + 7,
+        { align: 'right' }
+      );
+
+      doc.setFontSize(8);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(colors.gray.r, colors.gray.g, colors.gray.b);
+      let timing = stage.start && stage.finish
+        ? `Start ${stageTime(stage.start)}  →  Finish ${stageTime(stage.finish)}`
+        : 'No start time set';
+      if (stage.cutoff) {
+        timing += `  •  Cut-off ${stageTime(stage.cutoff)}`;
+        if (stage.cutoffBufferMinutes !== null) timing += ` (${formatCutoffBuffer(stage.cutoffBufferMinutes)})`;
+      }
+      doc.text(timing, margins.left + 5, currentY + 13);
+
+      const { carbsGrams, sodiumMg, waterMl, calories } = stage.nutrition;
+      doc.text(
+        `Nutrition: ${Math.round(carbsGrams)}g carbs  •  ${Math.round(sodiumMg)}mg sodium  •  ${(waterMl / 1000).toFixed(1)}L fluid  •  ${Math.round(calories)} kcal`,
+        margins.left + 5,
+        currentY + 19
+      );
+
+      if (!isLast) {
+        doc.setTextColor(colors.accent.r, colors.accent.g, colors.accent.b);
+        const sleep = stage.stage.sleep_minutes ? `  •  ${formatTime(stage.stage.sleep_minutes)} sleep` : '';
+        doc.text(`Overnight: ${stage.stage.camp_name || 'camp'}${sleep}`, margins.left + 5, currentY + 25);
+      }
+
+      currentY += cardHeight + 4;
+    });
+
+    doc.setTextColor(0, 0, 0);
+    currentY += 8;
+  }
+
   // ========================================
   // EMERGENCY CONTACT (if present)
   // ========================================
@@ -746,8 +977,40 @@ export async function exportToPDF(race: Race, segments: Segment[], elevationLabe
   doc.text('Checkpoints & Segments', margins.left + 8, currentY + 10);
   currentY += 20;
 
+  const segmentETAs = segments.map((_, idx) => calculateSegmentETA(race.start_date_time, segments, idx, race.timezone, race.stages));
+  const cutoffReport = analyzeCutoffs(race.start_date_time, segments, race.timezone, getCutoffWarningMinutes(), race.stages);
+
+  // Headtorch summary - which legs are run after dusk or before dawn
+  const headtorchLegs = segments.filter((_, idx) => segmentETAs[idx]?.needsHeadtorch);
+  if (headtorchLegs.length > 0) {
+    const firstDark = segmentETAs.find(eta => eta?.needsHeadtorch && eta.sunTimes);
+    const sunText = firstDark?.sunTimes
+      ? ` Sunset ${formatSunEventTime(firstDark.sunTimes.sunset, race.timezone)}, civil dusk ${formatSunEventTime(firstDark.sunTimes.civilDusk, race.timezone)}.`
+      : ' Add checkpoint locations for accurate sunrise/sunset times.';
+    const summary = `Headtorch needed on ${headtorchLegs.length} leg${headtorchLegs.length === 1 ? '' : 's'} (to ${headtorchLegs.map(s => s.checkpoint_name).join(', ')}).${sunText}`;
+    const summaryLines = doc.splitTextToSize(summary, contentWidth - 10);
+    currentY = checkPageBreak(summaryLines.length * 4 + 6, currentY);
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(colors.secondary.r, colors.secondary.g, colors.secondary.b);
+    doc.text(summaryLines, margins.left + 8, currentY);
+    currentY += summaryLines.length * 4 + 4;
+  }
+
   // Create checkpoint cards
+  const stageStarts = new Map(stageSummaries.map(stage => [stage.segments[0]?.id, stage]));
   segments.forEach((seg, idx) => {
+    // Stage heading before a stage's first checkpoint
+    const startingStage = stageStarts.get(seg.id);
+    if (startingStage) {
+      currentY = checkPageBreak(60, currentY);
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(colors.accent.r, colors.accent.g, colors.accent.b);
+      doc.text(startingStage.stage.name.toUpperCase(), margins.left, currentY + 4);
+      currentY += 8;
+    }
+
     // Calculate card height based on content
     const hasNutrition = seg.segment_nutrition_items || seg.nutrition_plan;
     const hasNotes = seg.notes && seg.notes.trim().length > 0;
@@ -797,6 +1060,19 @@ export async function exportToPDF(race: Race, segments: Segment[], elevationLabe
     const checkpointName = seg.checkpoint_name.length > 35 ? seg.checkpoint_name.substring(0, 32) + '...' : seg.checkpoint_name;
     doc.text(checkpointName, margins.left + 25, currentY + 10);
 
+    // Headtorch tag for legs run in the dark
+    const eta = segmentETAs[idx];
+    if (eta?.needsHeadtorch) {
+      const tagWidth = 40;
+      const tagX = margins.left + contentWidth - tagWidth - 4;
+      doc.setFillColor(colors.secondary.r, colors.secondary.g, colors.secondary.b);
+      doc.rect(tagX, currentY + 4, tagWidth, 8, 'F');
+      doc.setFontSize(7);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(255, 255, 255);
+      doc.text(`HEADTORCH ${eta.darkMinutes}m`, tagX + tagWidth / 2, currentY + 9.5, { align: 'center' });
+    }
+
     // Plus code / Map reference on same line if present
     if (seg.plusCode || seg.map_reference) {
       doc.setFontSize(7);
@@ -852,7 +1128,6 @@ export async function exportToPDF(race: Race, segments: Segment[], elevationLabe
 
     // ETA (if race has start time)
     if (race.start_date_time) {
-      const eta = calculateSegmentETA(race.start_date_time, segments, idx);
       doc.setFontSize(7);
       doc.setFont('helvetica', 'normal');
       doc.setTextColor(colors.gray.r, colors.gray.g, colors.gray.b);
@@ -878,7 +1153,17 @@ export async function exportToPDF(race: Race, segments: Segment[], elevationLabe
       doc.setFontSize(10);
       doc.setFont('helvetica', 'bold');
       doc.setTextColor(colors.danger.r, colors.danger.g, colors.danger.b);
-      doc.text(formatCutoffTime(seg.cutoff_time), cutoffX, statsY + 7);
+      const cutoff = cutoffReport?.checkpoints.find(c => c.segmentId === seg.id);
+      doc.text(cutoff ? cutoff.formattedCutoff : formatCutoffTime(seg.cutoff_time), cutoffX, statsY + 7);
+
+      // Buffer against the planned arrival
+      if (cutoff) {
+        const bufferColor = cutoff.risk === 'missed' ? colors.danger : cutoff.risk === 'warning' ? colors.warning : colors.accent;
+        doc.setFontSize(7);
+        doc.setFont('helvetica', 'normal');
+        doc.setTextColor(bufferColor.r, bufferColor.g, bufferColor.b);
+        doc.text(formatCutoffBuffer(cutoff.bufferMinutes), cutoffX, statsY + 12);
+      }
     }
 
     // Elevation data (if GPX available)
@@ -1018,3 +1303,238 @@ export async function exportToPDF(race: Race, segments: Segment[], elevationLabe
 
   doc.save(`${race.name.replace(/\s+/g, '_')}_race_plan.pdf`);
 }
+
+/**
+ * Printable drop bag packing lists (one page per bag) followed by bag labels,
+ * two to a page, with race name, bib and checkpoint
+ */
+export function exportDropBagsToPDF(race: Race, plans: DropBagPlan[]) {
+  const useMiles = getUnitPreference();
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.width;
+  const pageHeight = doc.internal.pageSize.height;
+  const margins = { left: 14, right: 14, top: 20, bottom: 20 };
+  const contentWidth = pageWidth - margins.left - margins.right;
+  const timezone = race.timezone ?? undefined;
+  const bib = race.bib_number?.trim() || '________';
+
+  const checkPageBreak = (requiredSpace: number, currentY: number): number => {
+    if (currentY + requiredSpace > pageHeight - margins.bottom) {
+      doc.addPage();
+      return margins.top;
+    }
+    return currentY;
+  };
+
+  // Checklist row with an empty tick box
+  const drawChecklistRow = (text: string, currentY: number): number => {
+    const lines: string[] = doc.splitTextToSize(text, contentWidth - 10);
+    currentY = checkPageBreak(lines.length * 5 + 2, currentY);
+    doc.setDrawColor(120, 120, 120);
+    doc.rect(margins.left, currentY - 3.5, 4, 4, 'S');
+    doc.text(lines, margins.left + 8, currentY);
+    return currentY + lines.length * 5 + 2;
+  };
+
+  // ========================================
+  // PACKING LISTS
+  // ========================================
+  plans.forEach((plan, index) => {
+    if (index > 0) doc.addPage();
+
+    doc.setFillColor(30, 41, 59);
+    doc.rect(0, 0, pageWidth, 30, 'F');
+    doc.setFontSize(18);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(255, 255, 255);
+    doc.text(`Drop Bag ${plan.bagNumber}: ${plan.checkpointName}`, margins.left, 15);
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(180, 180, 180);
+    doc.text(`${race.name} • Bib ${bib}`, margins.left, 24);
+
+    doc.setTextColor(0, 0, 0);
+    let currentY = 42;
+    doc.setFontSize(10);
+    const details = [
+      `At ${formatDistance(plan.distanceMiles, useMiles, 1)}`,
+      plan.eta ? `ETA ${getDayOfWeek(plan.eta, timezone).slice(0, 3)} ${formatClockTime(plan.eta, timezone)}` : null,
+    ].filter(Boolean).join(' • ');
+    doc.text(details, margins.left, currentY);
+    currentY += 6;
+    if (plan.coversCheckpoints.length > 0) {
+      const covers: string[] = doc.splitTextToSize(`Food for the legs to: ${plan.coversCheckpoints.join(', ')}`, contentWidth);
+      doc.text(covers, margins.left, currentY);
+      currentY += covers.length * 5 + 4;
+    }
+
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Nutrition', margins.left, currentY);
+    currentY += 7;
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    if (plan.nutrition.length === 0) {
+      doc.text('No nutrition planned for these legs yet.', margins.left, currentY);
+      currentY += 7;
+    } else {
+      plan.nutrition.forEach(item => {
+        currentY = drawChecklistRow(`${item.quantity}× ${item.productName}${item.servingSize ? ` (${item.servingSize})` : ''}`, currentY);
+      });
+      doc.setFontSize(9);
+      doc.setTextColor(100, 116, 139);
+      const totals = [`${Math.round(plan.totals.carbs)}g carbs`, `${Math.round(plan.totals.sodium)}mg sodium`];
+      if (plan.totals.caffeine > 0) totals.push(`${Math.round(plan.totals.caffeine)}mg caffeine`);
+      doc.text(`Total: ${totals.join(', ')}`, margins.left, currentY);
+      doc.setTextColor(0, 0, 0);
+      doc.setFontSize(10);
+      currentY += 8;
+    }
+
+    currentY = checkPageBreak(15, currentY);
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Kit', margins.left, currentY);
+    currentY += 7;
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    if (plan.kitItems.length === 0) {
+      doc.text('No kit items added.', margins.left, currentY);
+    } else {
+      plan.kitItems.forEach(item => {
+        currentY = drawChecklistRow(`${item.quantity > 1 ? `${item.quantity}× ` : ''}${item.name}`, currentY);
+      });
+    }
+  });
+
+  // ========================================
+  // BAG LABELS - two per page, cut along the line
+  // ========================================
+  const labelHeight = (pageHeight - margins.top - margins.bottom) / 2;
+  plans.forEach((plan, index) => {
+    const slot = index % 2;
+    if (slot === 0) doc.addPage();
+    const top = margins.top + slot * labelHeight;
+    const centerX = pageWidth / 2;
+
+    doc.setDrawColor(30, 41, 59);
+    doc.setLineWidth(1);
+    doc.rect(margins.left, top + 5, contentWidth, labelHeight - 10, 'S');
+    doc.setLineWidth(0.2);
+
+    doc.setTextColor(0, 0, 0);
+    doc.setFontSize(16);
+    doc.setFont('helvetica', 'normal');
+    doc.text(race.name.length > 45 ? race.name.substring(0, 42) + '...' : race.name, centerX, top + 22, { align: 'center' });
+
+    doc.setFontSize(44);
+    doc.setFont('helvetica', 'bold');
+    doc.text(`BIB ${bib}`, centerX, top + 50, { align: 'center' });
+
+    doc.setFontSize(26);
+    const checkpoint: string[] = doc.splitTextToSize(plan.checkpointName.toUpperCase(), contentWidth - 20);
+    doc.text(checkpoint.slice(0, 2), centerX, top + 72, { align: 'center' });
+
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'normal');
+    doc.text(
+      `Drop bag ${plan.bagNumber} of ${plans.length} • ${formatDistance(plan.distanceMiles, useMiles, 1)}`,
+      centerX,
+      top + labelHeight - 15,
+      { align: 'center' }
+    );
+
+    if (slot === 0) {
+      doc.setDrawColor(180, 180, 180);
+      doc.line(margins.left, top + labelHeight, pageWidth - margins.right, top + labelHeight);
+    }
+  });
+
+  doc.save(`${race.name.replace(/\s+/g, '_')}_drop_bags.pdf`);
+}
+
+export function exportCrewSheetToHTML(race: Race, stops: CrewStop[]) {
+  const useMiles = getUnitPreference();
+  const timezone = race.timezone ?? undefined;
+  const formatWhen = (date: Date | null) =>
+    date ? `${getDayOfWeek(date, timezone).slice(0, 3)} ${formatClockTime(date, timezone)}` : '-';
+
+  const statusColours: Record<CrewStop['status'], string> = {
+    ok: '#047857',
+    tight: '#b45309',
+    impossible: '#b91c1c',
+    unknown: '#6b7280',
+  };
+
+  const stopSections = stops.map((stop, index) => {
+    const handoverItems = [
+      ...stop.nutrition.map(item => `${item.quantity}× ${item.productName}`),
+      ...stop.handover.split('\n').map(line => line.trim()).filter(Boolean),
+    ];
+    const drive = stop.drive
+      ? `${stop.drive.minutes} min${stop.drive.miles > 0 ? ` (${formatDistance(stop.drive.miles, useMiles, 1)})` : ''}`
+      : 'Not set';
+    const crew = stop.crewMembers.map(member => `${member.name}${member.phone ? ` (${member.phone})` : ''}`).join(', ');
+
+    return `  <section class="stop">
+    <h2>${index + 1}. ${escapeXml(stop.checkpointName)} <span class="distance">${escapeXml(formatDistance(stop.distanceMiles, useMiles, 1))}</span></h2>
+    <p class="status" style="color: ${statusColours[stop.status]}">${escapeXml(CREW_STATUS_LABELS[stop.status])}${
+      stop.bufferMinutes !== null ? ` • ${stop.bufferMinutes >= 0 ? `${stop.bufferMinutes} min to spare` : `${-stop.bufferMinutes} min late`}` : ''
+    }</p>
+    <table>
+      <tr><th>Drive from ${escapeXml(stop.previousStopName)}</th><td>${escapeXml(drive)}</td></tr>
+      <tr><th>Leave by</th><td>${escapeXml(formatWhen(stop.crewLeaves))}</td></tr>
+      <tr><th>Set up by</th><td>${escapeXml(formatWhen(stop.crewReady))}</td></tr>
+      <tr><th>Runner arrives</th><td>${stop.runnerArrival
+        ? `${escapeXml(formatWhen(stop.runnerArrival.earliest))} – ${escapeXml(formatWhen(stop.runnerArrival.latest))} (expected ${escapeXml(formatWhen(stop.runnerArrival.expected))})`
+        : '-'}</td></tr>
+      <tr><th>Runner leaves</th><td>${escapeXml(formatWhen(stop.runnerDeparts))}</td></tr>
+      ${crew ? `<tr><th>Crew</th><td>${escapeXml(crew)}</td></tr>` : ''}
+    </table>
+    <h3>Hand over</h3>
+    ${handoverItems.length > 0
+      ? `<ul>${handoverItems.map(item => `<li>${escapeXml(item)}</li>`).join('')}</ul>`
+      : '<p class="muted">Nothing listed</p>'}
+    ${stop.notes ? `<h3>Parking &amp; access</h3>\n    <p>${escapeXml(stop.notes).replace(/\n/g, '<br>')}</p>` : ''}
+  </section>`;
+  }).join('\n');
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeXml(race.name)} – Crew Sheet</title>
+  <style>
+    body { font-family: Helvetica, Arial, sans-serif; color: #1e293b; max-width: 780px; margin: 24px auto; padding: 0 16px; }
+    h1 { margin-bottom: 4px; }
+    h2 { font-size: 18px; margin: 0 0 4px; }
+    h3 { font-size: 14px; margin: 12px 0 4px; }
+    .distance, .muted { color: #6b7280; font-weight: normal; font-size: 14px; }
+    .stop { border: 1px solid #cbd5e1; border-radius: 8px; padding: 12px 16px; margin: 16px 0; page-break-inside: avoid; }
+    .status { font-weight: bold; margin: 0 0 8px; }
+    table { border-collapse: collapse; font-size: 14px; }
+    th { text-align: left; padding: 2px 16px 2px 0; color: #475569; font-weight: normal; }
+    td { padding: 2px 0; }
+    ul { margin: 0; padding-left: 20px; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <h1>${escapeXml(race.name)} – Crew Sheet</h1>
+  <p class="muted">${escapeXml(formatRaceStartTime(race.start_date_time, race.timezone))}${
+    race.bib_number ? ` • Bib ${escapeXml(race.bib_number)}` : ''
+  } • ${stops.length} crew ${stops.length === 1 ? 'stop' : 'stops'}</p>
+${stopSections}
+</body>
+</html>
+`;
+
+  const blob = new Blob([html], { type: 'text/html' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${race.name.replace(/\s+/g, '_')}_crew_sheet.html`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -2,7 +2,8 @@
  * Fatigue Curve Utilities
  *
  * Generates data for visualizing expected pace degradation over race distance.
- * Based on the fatigue factor calculated from FIT file analysis.
+ * Based on the fatigue factor calculated from FIT file analysis, plus the
+ * slowdown from sleep debt on long races (see utils/sleepStrategy.ts).
  */
 
 export interface FatigueCurvePoint {
@@ -10,6 +11,26 @@ export interface FatigueCurvePoint {
   fatigueMultiplier: number; // 1.0 = fresh, 1.1 = 10% degraded
   expectedPace: number; // min/mile at this point
   percentDegradation: number; // 0%, 5%, 10%, etc.
+  sleepDebtPercent: number; // Part of the degradation from sleep debt
+}
+
+// Sleep debt slowdown from a distance onwards, until the next point
+export interface SleepDebtPoint {
+  distance: number; // miles
+  penaltyPercent: number;
+}
+
+/**
+ * Sleep debt slowdown at a distance (0 without a sleep plan)
+ */
+export function getSleepDebtPercentAtDistance(sleepDebt: SleepDebtPoint[] | undefined, distance: number): number {
+  if (!sleepDebt) return 0;
+  let penalty = 0;
+  for (const point of sleepDebt) {
+    if (point.distance > distance) break;
+    penalty = point.penaltyPercent;
+  }
+  return penalty;
 }
 
 /**
@@ -19,12 +40,14 @@ export interface FatigueCurvePoint {
  * @param totalDistance - Total race distance in miles
  * @param fatigueFactor - Percent degradation per 10 miles (default 2-3%)
  * @param dataPoints - Number of points to generate (default: 1 per mile)
+ * @param sleepDebt - Sleep debt slowdown along the race, in distance order
  */
 export function generateFatigueCurve(
   basePace: number,
   totalDistance: number,
   fatigueFactor: number,
-  dataPoints?: number
+  dataPoints?: number,
+  sleepDebt?: SleepDebtPoint[]
 ): FatigueCurvePoint[] {
   const numPoints = dataPoints ?? Math.ceil(totalDistance);
   const interval = totalDistance / numPoints;
@@ -34,8 +57,9 @@ export function generateFatigueCurve(
     const distance = i * interval;
 
     // Calculate fatigue multiplier at this distance
-    // Formula: 1 + (distance / 10) * (fatigueFactor / 100)
-    const fatigueMultiplier = 1 + (distance / 10) * (fatigueFactor / 100);
+    // Formula: (1 + (distance / 10) * (fatigueFactor / 100)) * (1 + sleepDebt / 100)
+    const sleepDebtPercent = getSleepDebtPercentAtDistance(sleepDebt, distance);
+    const fatigueMultiplier = (1 + (distance / 10) * (fatigueFactor / 100)) * (1 + sleepDebtPercent / 100);
 
     // Calculate expected pace at this point
     const expectedPace = basePace * fatigueMultiplier;
@@ -48,6 +72,7 @@ export function generateFatigueCurve(
       fatigueMultiplier,
       expectedPace,
       percentDegradation,
+      sleepDebtPercent,
     });
   }
 
@@ -60,10 +85,11 @@ export function generateFatigueCurve(
 export function getExpectedPaceAtDistance(
   basePace: number,
   distance: number,
-  fatigueFactor: number
+  fatigueFactor: number,
+  sleepDebt?: SleepDebtPoint[]
 ): number {
   const fatigueMultiplier = 1 + (distance / 10) * (fatigueFactor / 100);
-  return basePace * fatigueMultiplier;
+  return basePace * fatigueMultiplier * (1 + getSleepDebtPercentAtDistance(sleepDebt, distance) / 100);
 }
 
 /**
@@ -73,7 +99,8 @@ export function getExpectedPaceAtDistance(
 export function calculateTotalTimeWithFatigue(
   basePace: number,
   totalDistance: number,
-  fatigueFactor: number
+  fatigueFactor: number,
+  sleepDebt?: SleepDebtPoint[]
 ): number {
   // Use numerical integration (trapezoidal rule) for accuracy
   const steps = 100;
@@ -84,8 +111,8 @@ export function calculateTotalTimeWithFatigue(
     const distance1 = i * stepSize;
     const distance2 = (i + 1) * stepSize;
 
-    const pace1 = getExpectedPaceAtDistance(basePace, distance1, fatigueFactor);
-    const pace2 = getExpectedPaceAtDistance(basePace, distance2, fatigueFactor);
+    const pace1 = getExpectedPaceAtDistance(basePace, distance1, fatigueFactor, sleepDebt);
+    const pace2 = getExpectedPaceAtDistance(basePace, distance2, fatigueFactor, sleepDebt);
 
     // Average pace for this segment
     const avgPace = (pace1 + pace2) / 2;
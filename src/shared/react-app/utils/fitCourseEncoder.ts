@@ -0,0 +1,441 @@
+/**
+ * FIT Course Encoder
+ * Builds a Garmin FIT course file (file type 6) from the race GPX track and segments
+ *
+ * Messages written, in the order devices expect:
+ * - file_id, course, lap (whole-course totals), event (timer start)
+ * - record per track point (position, altitude, distance, timestamp)
+ * - event (timer stop), course_point per checkpoint
+ *
+ * Record timestamps drive the watch's virtual partner. With virtual-partner
+ * timing enabled they follow the plan: each leg takes its
+ * predicted_segment_time_minutes and the partner waits at checkpoints for
+ * checkpoint_time_minutes plus any planned sleep. Otherwise a constant default pace is used.
+ */
+
+import type { Segment, NutritionItem } from '../../shared/types';
+import { getCheckpointStopMinutes } from './raceTimeSummary';
+import { matchCheckpointsToTrack } from './gpxSegmentation';
+
+export interface FITCourseTrackPoint {
+  lat: number;
+  lon: number;
+  ele: number;
+}
+
+export interface FITCourseOptions {
+  /** Time records from the plan's predicted segment times (default: true) */
+  virtualPartner?: boolean;
+  /** Course start time; used for timestamps only (default: now) */
+  startTime?: Date;
+}
+
+// ============================================
+// FIT PROTOCOL CONSTANTS
+// ============================================
+
+const FIT_PROTOCOL_VERSION = 0x20; // 2.0
+const FIT_PROFILE_VERSION = 2132; // 21.32
+const FIT_EPOCH_OFFSET_SECONDS = 631065600; // 1989-12-31T00:00:00Z
+const SEMICIRCLES_PER_DEGREE = 2 ** 31 / 180;
+const METERS_PER_MILE = 1609.344;
+const DEFAULT_PACE_MIN_PER_MILE = 12;
+const FIT_STRING_SIZE = 16;
+
+const BASE_TYPE = {
+  enum: { code: 0x00, size: 1 },
+  uint16: { code: 0x84, size: 2 },
+  sint32: { code: 0x85, size: 4 },
+  uint32: { code: 0x86, size: 4 },
+  uint32z: { code: 0x8c, size: 4 },
+  string: { code: 0x07, size: FIT_STRING_SIZE },
+} as const;
+
+type BaseTypeName = keyof typeof BASE_TYPE;
+
+const MESSAGE = {
+  fileId: 0,
+  lap: 19,
+  record: 20,
+  event: 21,
+  course: 31,
+  coursePoint: 32,
+} as const;
+
+const FILE_TYPE_COURSE = 6;
+const MANUFACTURER_DEVELOPMENT = 255;
+const SPORT_RUNNING = 1;
+const EVENT_TIMER = 0;
+const EVENT_TYPE_START = 0;
+const EVENT_TYPE_STOP_DISABLE_ALL = 9;
+
+export const COURSE_POINT_TYPE = {
+  generic: 0,
+  water: 3,
+  food: 4,
+  segment_end: 25,
+  aid_station: 28,
+} as const;
+
+// ============================================
+// ENCODER
+// ============================================
+
+interface FieldDefinition {
+  num: number;
+  type: BaseTypeName;
+}
+
+const CRC_TABLE = [
+  0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401,
+  0xa001, 0x6c00, 0x7800, 0xb401, 0x5000, 0x9c01, 0x8801, 0x4400,
+];
+
+/**
+ * FIT CRC-16 as specified by the FIT protocol
+ */
+function fitCrc(data: Uint8Array, crc: number = 0): number {
+  for (let i = 0; i < data.length; i++) {
+    const byte = data[i];
+    let tmp = CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[byte & 0xf];
+    tmp = CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xf];
+  }
+  return crc;
+}
+
+class FITWriter {
+  private chunks: Uint8Array[] = [];
+  private definitions = new Map<number, FieldDefinition[]>();
+  private encoder = new TextEncoder();
+
+  /**
+   * Write a definition message binding a local message type to a global message
+   */
+  define(localType: number, globalMessage: number, fields: FieldDefinition[]): void {
+    const view = new DataView(new ArrayBuffer(6 + fields.length * 3));
+    view.setUint8(0, 0x40 | localType);
+    view.setUint8(1, 0); // reserved
+    view.setUint8(2, 0); // little-endian
+    view.setUint16(3, globalMessage, true);
+    view.setUint8(5, fields.length);
+    fields.forEach((field, i) => {
+      view.setUint8(6 + i * 3, field.num);
+      view.setUint8(7 + i * 3, BASE_TYPE[field.type].size);
+      view.setUint8(8 + i * 3, BASE_TYPE[field.type].code);
+    });
+    this.chunks.push(new Uint8Array(view.buffer));
+    this.definitions.set(localType, fields);
+  }
+
+  /**
+   * Write a data message; values are in the field order given to define()
+   */
+  write(localType: number, values: Array<number | string>): void {
+    const fields = this.definitions.get(localType)!;
+    const size = 1 + fields.reduce((sum, field) => sum + BASE_TYPE[field.type].size, 0);
+    const bytes = new Uint8Array(size);
+    const view = new DataView(bytes.buffer);
+    view.setUint8(0, localType);
+
+    let offset = 1;
+    fields.forEach((field, i) => {
+      const value = values[i];
+      switch (field.type) {
+        case 'enum':
+          view.setUint8(offset, value as number);
+          break;
+        case 'uint16':
+          view.setUint16(offset, value as number, true);
+          break;
+        case 'sint32':
+          view.setInt32(offset, value as number, true);
+          break;
+        case 'uint32':
+        case 'uint32z':
+          view.setUint32(offset, value as number, true);
+          break;
+        case 'string': {
+          // Null-terminated, truncated on a character boundary to fit the field
+          let encoded = this.encoder.encode(value as string);
+          let text = value as string;
+          while (encoded.length > FIT_STRING_SIZE - 1) {
+            text = text.slice(0, -1);
+            encoded = this.encoder.encode(text);
+          }
+          bytes.set(encoded, offset);
+          break;
+        }
+      }
+      offset += BASE_TYPE[field.type].size;
+    });
+
+    this.chunks.push(bytes);
+  }
+
+  /**
+   * Assemble header, records and trailing CRC into a complete FIT file
+   */
+  finish(): Uint8Array {
+    const dataSize = this.chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const file = new Uint8Array(14 + dataSize + 2);
+    const view = new DataView(file.buffer);
+
+    view.setUint8(0, 14);
+    view.setUint8(1, FIT_PROTOCOL_VERSION);
+    view.setUint16(2, FIT_PROFILE_VERSION, true);
+    view.setUint32(4, dataSize, true);
+    file.set(this.encoder.encode('.FIT'), 8);
+    view.setUint16(12, fitCrc(file.subarray(0, 12)), true);
+
+    let offset = 14;
+    for (const chunk of this.chunks) {
+      file.set(chunk, offset);
+      offset += chunk.length;
+    }
+    view.setUint16(offset, fitCrc(file.subarray(0, offset)), true);
+
+    return file;
+  }
+}
+
+// ============================================
+// COURSE GEOMETRY
+// ============================================
+
+/**
+ * Haversine distance in meters
+ */
+function calculateDistanceMeters(p1: FITCourseTrackPoint, p2: FITCourseTrackPoint): number {
+  const R = 6371e3;
+  const φ1 = (p1.lat * Math.PI) / 180;
+  const φ2 = (p2.lat * Math.PI) / 180;
+  const Δφ = ((p2.lat - p1.lat) * Math.PI) / 180;
+  const Δλ = ((p2.lon - p1.lon) * Math.PI) / 180;
+
+  const a =
+    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+const toSemicircles = (degrees: number) => Math.round(degrees * SEMICIRCLES_PER_DEGREE);
+const toFITTimestamp = (date: Date) => Math.round(date.getTime() / 1000) - FIT_EPOCH_OFFSET_SECONDS;
+const toFITAltitude = (meters: number) => Math.max(0, Math.min(0xfffe, Math.round((meters + 500) * 5)));
+
+/**
+ * Pick the course point icon for a checkpoint
+ */
+export function getCoursePointType(segment: Segment, isFinish: boolean): number {
+  if (isFinish) return COURSE_POINT_TYPE.segment_end;
+  if (segment.support_crew_present || (segment.checkpoint_time_minutes ?? 0) > 0) {
+    return COURSE_POINT_TYPE.aid_station;
+  }
+
+  if (segment.segment_nutrition_items) {
+    try {
+      const items: NutritionItem[] = JSON.parse(segment.segment_nutrition_items);
+      if (items.some(item => item.carbsPerServing > 0)) return COURSE_POINT_TYPE.food;
+      if (items.some(item => (item.waterPerServing || 0) > 0)) return COURSE_POINT_TYPE.water;
+    } catch {
+      // Fall through to generic
+    }
+  }
+
+  return COURSE_POINT_TYPE.generic;
+}
+
+/**
+ * Encode a FIT course from track points and the race's segments
+ */
+export function buildFITCourse(
+  courseName: string,
+  trackPoints: FITCourseTrackPoint[],
+  segments: Segment[],
+  options: FITCourseOptions = {}
+): Uint8Array {
+  if (trackPoints.length < 2) {
+    throw new Error('A GPX route with at least two points is required to build a FIT course.');
+  }
+
+  const { virtualPartner = true, startTime = new Date() } = options;
+  const sortedSegments = [...segments].sort((a, b) => a.segment_order - b.segment_order);
+
+  // Cumulative track distance, ascent and descent
+  const trackDistances = [0];
+  let totalAscent = 0;
+  let totalDescent = 0;
+  for (let i = 1; i < trackPoints.length; i++) {
+    trackDistances.push(trackDistances[i - 1] + calculateDistanceMeters(trackPoints[i - 1], trackPoints[i]));
+    const climb = trackPoints[i].ele - trackPoints[i - 1].ele;
+    if (climb > 0) totalAscent += climb;
+    else totalDescent -= climb;
+  }
+  const totalDistance = trackDistances[trackDistances.length - 1];
+
+  // Plan distances rarely match the GPX exactly, so scale them onto the track
+  const planDistanceMiles = sortedSegments.length > 0
+    ? sortedSegments[sortedSegments.length - 1].cumulative_distance_miles
+    : 0;
+  const planToTrack = planDistanceMiles > 0 ? totalDistance / (planDistanceMiles * METERS_PER_MILE) : 1;
+
+  // Checkpoints with coordinates are placed together, using their cumulative distance
+  // to pick the right pass on loops and out-and-backs (matched in segment order)
+  const matches = matchCheckpointsToTrack(
+    trackPoints.map(point => ({ lat: point.lat, lng: point.lon })),
+    sortedSegments
+  );
+  let nextMatch = 0;
+
+  // The rest go by distance, kept between their neighbours so the order holds
+  let searchFrom = 0;
+  const checkpoints = sortedSegments.map(segment => {
+    let index: number;
+    if (segment.latitude && segment.longitude) {
+      index = matches[nextMatch++].trackIndex;
+    } else {
+      const targetDistance = segment.cumulative_distance_miles * METERS_PER_MILE * planToTrack;
+      const searchTo = matches[nextMatch]?.trackIndex ?? trackPoints.length - 1;
+      index = trackDistances.findIndex(d => d >= targetDistance);
+      index = Math.min(index === -1 ? trackPoints.length - 1 : Math.max(index, searchFrom), searchTo);
+    }
+    searchFrom = index;
+    return { segment, index, distance: trackDistances[index] };
+  });
+
+  // Time anchors (distance → seconds from start): arrival and departure at each checkpoint
+  const anchors: Array<{ distance: number; seconds: number }> = [{ distance: 0, seconds: 0 }];
+  const hasPlannedTimes = sortedSegments.some(s => (s.predicted_segment_time_minutes ?? 0) > 0);
+  if (virtualPartner && hasPlannedTimes) {
+    let elapsed = 0;
+    for (const checkpoint of checkpoints) {
+      elapsed += (checkpoint.segment.predicted_segment_time_minutes ?? 0) * 60;
+      anchors.push({ distance: checkpoint.distance, seconds: elapsed });
+      const stop = getCheckpointStopMinutes(checkpoint.segment) * 60;
+      if (stop > 0) {
+        elapsed += stop;
+        anchors.push({ distance: checkpoint.distance, seconds: elapsed });
+      }
+    }
+  }
+
+  // Beyond the last anchor (or with no plan), continue at the default pace
+  const defaultSecondsPerMeter = (DEFAULT_PACE_MIN_PER_MILE * 60) / METERS_PER_MILE;
+  // A point exactly at a checkpoint gets the arrival time; points after it interpolate from departure
+  const secondsAtDistance = (distance: number): number => {
+    for (let i = 1; i < anchors.length; i++) {
+      const next = anchors[i];
+      const prev = anchors[i - 1];
+      if (distance <= next.distance) {
+        if (next.distance === prev.distance) return next.seconds;
+        return prev.seconds + ((distance - prev.distance) / (next.distance - prev.distance)) * (next.seconds - prev.seconds);
+      }
+    }
+    const last = anchors[anchors.length - 1];
+    return last.seconds + (distance - last.distance) * defaultSecondsPerMeter;
+  };
+
+  const startTimestamp = toFITTimestamp(startTime);
+  const recordTimestamps = trackDistances.map(distance => startTimestamp + Math.round(secondsAtDistance(distance)));
+  const endTimestamp = recordTimestamps[recordTimestamps.length - 1];
+  const elapsedSeconds = endTimestamp - startTimestamp;
+
+  const first = trackPoints[0];
+  const last = trackPoints[trackPoints.length - 1];
+  const writer = new FITWriter();
+
+  writer.define(0, MESSAGE.fileId, [
+    { num: 0, type: 'enum' },     // type
+    { num: 1, type: 'uint16' },   // manufacturer
+    { num: 2, type: 'uint16' },   // product
+    { num: 3, type: 'uint32z' },  // serial_number
+    { num: 4, type: 'uint32' },   // time_created
+  ]);
+  writer.write(0, [FILE_TYPE_COURSE, MANUFACTURER_DEVELOPMENT, 0, 1, toFITTimestamp(new Date())]);
+
+  writer.define(1, MESSAGE.course, [
+    { num: 4, type: 'enum' },     // sport
+    { num: 5, type: 'string' },   // name
+  ]);
+  writer.write(1, [SPORT_RUNNING, courseName]);
+
+  writer.define(2, MESSAGE.lap, [
+    { num: 253, type: 'uint32' }, // timestamp
+    { num: 2, type: 'uint32' },   // start_time
+    { num: 3, type: 'sint32' },   // start_position_lat
+    { num: 4, type: 'sint32' },   // start_position_long
+    { num: 5, type: 'sint32' },   // end_position_lat
+    { num: 6, type: 'sint32' },   // end_position_long
+    { num: 7, type: 'uint32' },   // total_elapsed_time (ms)
+    { num: 8, type: 'uint32' },   // total_timer_time (ms)
+    { num: 9, type: 'uint32' },   // total_distance (cm)
+    { num: 21, type: 'uint16' },  // total_ascent (m)
+    { num: 22, type: 'uint16' },  // total_descent (m)
+  ]);
+  writer.write(2, [
+    endTimestamp,
+    startTimestamp,
+    toSemicircles(first.lat),
+    toSemicircles(first.lon),
+    toSemicircles(last.lat),
+    toSemicircles(last.lon),
+    elapsedSeconds * 1000,
+    elapsedSeconds * 1000,
+    Math.round(totalDistance * 100),
+    Math.min(0xfffe, Math.round(totalAscent)),
+    Math.min(0xfffe, Math.round(totalDescent)),
+  ]);
+
+  writer.define(3, MESSAGE.event, [
+    { num: 253, type: 'uint32' }, // timestamp
+    { num: 0, type: 'enum' },     // event
+    { num: 1, type: 'enum' },     // event_type
+  ]);
+  writer.write(3, [startTimestamp, EVENT_TIMER, EVENT_TYPE_START]);
+
+  writer.define(4, MESSAGE.record, [
+    { num: 253, type: 'uint32' }, // timestamp
+    { num: 0, type: 'sint32' },   // position_lat
+    { num: 1, type: 'sint32' },   // position_long
+    { num: 2, type: 'uint16' },   // altitude (scale 5, offset 500)
+    { num: 5, type: 'uint32' },   // distance (cm)
+  ]);
+  trackPoints.forEach((point, i) => {
+    writer.write(4, [
+      recordTimestamps[i],
+      toSemicircles(point.lat),
+      toSemicircles(point.lon),
+      toFITAltitude(point.ele),
+      Math.round(trackDistances[i] * 100),
+    ]);
+  });
+
+  writer.write(3, [endTimestamp, EVENT_TIMER, EVENT_TYPE_STOP_DISABLE_ALL]);
+
+  writer.define(5, MESSAGE.coursePoint, [
+    { num: 254, type: 'uint16' }, // message_index
+    { num: 1, type: 'uint32' },   // timestamp
+    { num: 2, type: 'sint32' },   // position_lat
+    { num: 3, type: 'sint32' },   // position_long
+    { num: 4, type: 'uint32' },   // distance (cm)
+    { num: 5, type: 'enum' },     // type
+    { num: 6, type: 'string' },   // name
+  ]);
+  checkpoints.forEach((checkpoint, i) => {
+    const point = trackPoints[checkpoint.index];
+    writer.write(5, [
+      i,
+      recordTimestamps[checkpoint.index],
+      toSemicircles(point.lat),
+      toSemicircles(point.lon),
+      Math.round(checkpoint.distance * 100),
+      getCoursePointType(checkpoint.segment, i === checkpoints.length - 1),
+      checkpoint.segment.checkpoint_name,
+    ]);
+  });
+
+  return writer.finish();
+}
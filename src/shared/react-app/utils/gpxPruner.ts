@@ -9,8 +9,12 @@
  * - Preserves direction changes (>15 degrees)
  * - Strips all extensions (HR, power, cadence, temp)
  * - Outputs clean GPX 1.0 format
+ *
+ * Also reads recorded GPX activities (timed track points) for mid-race recalibration.
  */
 
+import type { FITRecord, ParsedFITData } from '@/shared/types';
+
 interface TrackPoint {
   lat: number;
   lon: number;
@@ -38,7 +42,7 @@ const DEFAULT_OPTIONS: Required<PruneOptions> = {
 /**
  * Calculate distance between two points using Haversine formula
  */
-function calculateDistanceMeters(p1: TrackPoint, p2: TrackPoint): number {
+function calculateDistanceMeters(p1: Pick<TrackPoint, 'lat' | 'lon'>, p2: Pick<TrackPoint, 'lat' | 'lon'>): number {
   const R = 6371000; // Earth radius in meters
   const φ1 = (p1.lat * Math.PI) / 180;
   const φ2 = (p2.lat * Math.PI) / 180;
@@ -293,7 +297,7 @@ function generatePrunedGPX(points: TrackPoint[], routeName: string): string {
 /**
  * Escape special XML characters
  */
-function escapeXml(str: string): string {
+export function escapeXml(str: string): string {
   return str
     .replace(/&/g, '&amp;')
     .replace(/</g, '&lt;')
@@ -396,6 +400,13 @@ export function normalizeGPX(gpxContent: string, options?: PruneOptions): string
   return normalizedGPX;
 }
 
+/**
+ * Parse track points (with elevation) from GPX content
+ */
+export function getGPXTrackPoints(gpxContent: string): Array<{ lat: number; lon: number; ele: number }> {
+  return parseGPXToPoints(gpxContent);
+}
+
 /**
  * Check if a GPX file needs pruning
  */
@@ -428,3 +439,85 @@ export function getGPXStats(gpxContent: string): {
     hasExtensions,
   };
 }
+
+const METERS_PER_MILE = 1609.344;
+
+// GPX points closer together than this are merged when working out pace
+const PACE_WINDOW_SECONDS = 30;
+const MIN_MOVING_SPEED_MPH = 1;
+
+/**
+ * Read a GPX activity (track points with times) into the same shape as a parsed FIT file
+ */
+export function parseGPXActivity(gpxContent: string, fileName: string): ParsedFITData {
+  const xmlDoc = new DOMParser().parseFromString(gpxContent, 'text/xml');
+  if (xmlDoc.querySelector('parsererror')) {
+    throw new Error('Invalid GPX file format');
+  }
+
+  let trkpts = xmlDoc.getElementsByTagName('trkpt');
+  if (trkpts.length === 0) {
+    trkpts = xmlDoc.getElementsByTagNameNS('*', 'trkpt');
+  }
+
+  const childText = (element: Element, tag: string) =>
+    (element.getElementsByTagName(tag)[0] || element.getElementsByTagNameNS('*', tag)[0])?.textContent?.trim() || '';
+
+  const records: FITRecord[] = [];
+  for (let i = 0; i < trkpts.length; i++) {
+    const trkpt = trkpts[i];
+    const lat = parseFloat(trkpt.getAttribute('lat') || '');
+    const lon = parseFloat(trkpt.getAttribute('lon') || '');
+    const timestamp = new Date(childText(trkpt, 'time'));
+    if (isNaN(lat) || isNaN(lon) || isNaN(timestamp.getTime())) continue;
+
+    const previous = records[records.length - 1];
+    const stepMiles = previous
+      ? calculateDistanceMeters({ lat: previous.lat!, lon: previous.lon! }, { lat, lon }) / METERS_PER_MILE
+      : 0;
+    const elevation = parseFloat(childText(trkpt, 'ele'));
+    const heartRate = parseInt(childText(trkpt, 'hr'));
+
+    records.push({
+      timestamp,
+      distance: (previous?.distance ?? 0) + stepMiles,
+      elevation: isNaN(elevation) ? previous?.elevation ?? 0 : elevation,
+      heartRate: isNaN(heartRate) ? undefined : heartRate,
+      lat,
+      lon,
+    });
+  }
+
+  if (records.length < 2) {
+    throw new Error('This GPX file has no timed track points. Export the activity, not the course.');
+  }
+
+  // Pace over a short trailing window, so GPS jitter doesn't swing it point to point
+  let windowStart = 0;
+  records.forEach((record, index) => {
+    while (
+      windowStart < index - 1 &&
+      (record.timestamp.getTime() - records[windowStart + 1].timestamp.getTime()) / 1000 >= PACE_WINDOW_SECONDS
+    ) {
+      windowStart++;
+    }
+    const from = records[windowStart];
+    const hours = (record.timestamp.getTime() - from.timestamp.getTime()) / 3600000;
+    const miles = record.distance - from.distance;
+    const speed = hours > 0 ? miles / hours : 0;
+    if (speed >= MIN_MOVING_SPEED_MPH) {
+      record.speed = speed;
+      record.pace = 60 / speed;
+    }
+  });
+
+  const last = records[records.length - 1];
+  return {
+    fileName,
+    raceDate: records[0].timestamp.toISOString(),
+    totalDistance: last.distance,
+    totalTime: (last.timestamp.getTime() - records[0].timestamp.getTime()) / 1000,
+    records,
+    source: 'gpx',
+  };
+}
@@ -1,6 +1,7 @@
 /**
  * GPX segmentation utilities
- * Splits GPX track into segments based on checkpoint locations
+ * Splits GPX track into segments based on checkpoint locations, using each
+ * checkpoint's cumulative distance to pick the right pass on looped courses
  */
 
 import type { Segment } from '../../shared/types';
@@ -16,13 +17,14 @@ export interface RouteSegment {
   color: string;
   segmentIndex: number;
   checkpointName?: string;
+  match?: CheckpointMatch; // How confidently the leg's end checkpoint was placed on the track
 }
 
 /**
  * Calculate distance between two points using Haversine formula
  * Returns distance in meters
  */
-function calculateDistance(point1: TrackPoint, point2: TrackPoint): number {
+export function calculateDistance(point1: TrackPoint, point2: TrackPoint): number {
   const R = 6371e3; // Earth's radius in meters
   const φ1 = (point1.lat * Math.PI) / 180;
   const φ2 = (point2.lat * Math.PI) / 180;
@@ -37,35 +39,172 @@ function calculateDistance(point1: TrackPoint, point2: TrackPoint): number {
   return R * c;
 }
 
+const METERS_PER_MILE = 1609.344;
+
+// How much an along-track distance error counts against a spatial one when matching:
+// 1 km away from the expected distance costs the same as being 100 m off the line
+const DISTANCE_PRIOR_WEIGHT = 0.1;
+// A checkpoint within this radius of the track is "on" it - used to count passes
+const PASS_RADIUS_METERS = 100;
+const MEDIUM_OFF_TRACK_METERS = 50;
+const LOW_OFF_TRACK_METERS = 200;
+const LOW_MISMATCH_MILES = 1;
+const LOW_MISMATCH_FRACTION = 0.1;
+
+export type MatchConfidence = 'high' | 'medium' | 'low';
+
 /**
- * Find the closest track point to a given checkpoint
+ * Where a checkpoint was placed on the track
  */
-function findClosestTrackPoint(
-  checkpoint: { latitude: number; longitude: number },
-  trackPoints: TrackPoint[],
-  searchStartIndex: number = 0
-): number {
-  let minDistance = Infinity;
-  let closestIndex = searchStartIndex;
-
-  for (let i = searchStartIndex; i < trackPoints.length; i++) {
-    const distance = calculateDistance(
-      { lat: checkpoint.latitude, lng: checkpoint.longitude },
-      trackPoints[i]
-    );
-
-    if (distance < minDistance) {
-      minDistance = distance;
-      closestIndex = i;
+export interface CheckpointMatch {
+  segmentId?: number;
+  checkpointName: string;
+  trackIndex: number;
+  trackDistanceMiles: number; // Distance along the track at the matched point
+  expectedDistanceMiles: number; // Checkpoint's cumulative distance, scaled to the track length
+  distanceMismatchMiles: number;
+  offTrackMeters: number; // Gap between the checkpoint and the matched track point
+  passes: number; // Times the track goes past the checkpoint (more than 1 on loops and out-and-backs)
+  confidence: MatchConfidence;
+}
+
+/**
+ * Cumulative distance along the track at each point, in meters
+ */
+export function getCumulativeTrackDistances(trackPoints: TrackPoint[]): Float64Array {
+  const distances = new Float64Array(trackPoints.length);
+  for (let i = 1; i < trackPoints.length; i++) {
+    distances[i] = distances[i - 1] + calculateDistance(trackPoints[i - 1], trackPoints[i]);
+  }
+  return distances;
+}
+
+/**
+ * Separate passes of the track near a location, from each track point's distance to it.
+ * A pass starts when the track comes within radiusMeters and ends once it's twice
+ * as far away, so a track wobbling at the edge isn't counted as two visits.
+ * @returns the closest track point of each pass, in track order
+ */
+export function findTrackPasses(offTrack: Float64Array, radiusMeters: number = PASS_RADIUS_METERS): number[] {
+  const passes: number[] = [];
+  let inside = false;
+  for (let i = 0; i < offTrack.length; i++) {
+    if (!inside && offTrack[i] <= radiusMeters) {
+      inside = true;
+      passes.push(i);
+    } else if (inside && offTrack[i] > radiusMeters * 2) {
+      inside = false;
+    }
+    if (inside && offTrack[i] < offTrack[passes[passes.length - 1]]) {
+      passes[passes.length - 1] = i;
     }
+  }
+  return passes;
+}
 
-    // Optimization: if we've found a very close point and start moving away, stop searching
-    if (minDistance < 50 && distance > minDistance * 2) {
-      break;
+function getMatchConfidence(offTrackMeters: number, mismatchMiles: number, expectedMiles: number): MatchConfidence {
+  const mismatchLimit = Math.max(LOW_MISMATCH_MILES, expectedMiles * LOW_MISMATCH_FRACTION);
+  if (offTrackMeters > LOW_OFF_TRACK_METERS || mismatchMiles > mismatchLimit) return 'low';
+  if (offTrackMeters > MEDIUM_OFF_TRACK_METERS || mismatchMiles > mismatchLimit / 2) return 'medium';
+  return 'high';
+}
+
+/**
+ * Match checkpoints to track points
+ *
+ * Nearest-point snapping picks the wrong pass when the course visits a location
+ * more than once (laps, out-and-backs, figure-eights). Instead every checkpoint is
+ * placed together: each candidate point costs its distance from the checkpoint plus a
+ * penalty for being away from the checkpoint's cumulative distance, and checkpoints
+ * must appear along the track in segment order. A dynamic programme finds the
+ * cheapest placement in O(checkpoints × track points).
+ *
+ * Cumulative distances are scaled to the track length so a plan measured slightly
+ * short or long still lines up.
+ *
+ * @param segments Checkpoints with coordinates, in segment order
+ */
+export function matchCheckpointsToTrack(
+  trackPoints: TrackPoint[],
+  segments: Segment[]
+): CheckpointMatch[] {
+  const checkpoints = segments.filter((s) => s.latitude && s.longitude);
+  const n = trackPoints.length;
+  if (n === 0 || checkpoints.length === 0) {
+    return [];
+  }
+
+  const trackDistances = getCumulativeTrackDistances(trackPoints);
+  const trackLength = trackDistances[n - 1];
+  const plannedLength = Math.max(0, ...segments.map((s) => s.cumulative_distance_miles || 0)) * METERS_PER_MILE;
+  const scale = plannedLength > 0 && trackLength > 0 ? trackLength / plannedLength : 1;
+
+  const offTrack = checkpoints.map((checkpoint) => {
+    const location = { lat: checkpoint.latitude!, lng: checkpoint.longitude! };
+    const distances = new Float64Array(n);
+    for (let i = 0; i < n; i++) {
+      distances[i] = calculateDistance(location, trackPoints[i]);
+    }
+    return distances;
+  });
+  const expected = checkpoints.map((checkpoint) => (checkpoint.cumulative_distance_miles || 0) * METERS_PER_MILE * scale);
+
+  // cost[i]: cheapest placement of checkpoints 0..k with checkpoint k at point i
+  // previous[k][i]: where checkpoint k-1 sits in that placement
+  let cost = new Float64Array(n);
+  const previous: Int32Array[] = [];
+
+  for (let k = 0; k < checkpoints.length; k++) {
+    const nextCost = new Float64Array(n);
+    const choice = new Int32Array(n);
+    let bestCost = Infinity;
+    let bestIndex = 0;
+
+    for (let i = 0; i < n; i++) {
+      // Running minimum of the previous checkpoint's cost up to this point keeps the order monotonic
+      if (k > 0 && cost[i] < bestCost) {
+        bestCost = cost[i];
+        bestIndex = i;
+      }
+      const pointCost = offTrack[k][i] + DISTANCE_PRIOR_WEIGHT * Math.abs(trackDistances[i] - expected[k]);
+      nextCost[i] = pointCost + (k > 0 ? bestCost : 0);
+      choice[i] = bestIndex;
     }
+
+    cost = nextCost;
+    previous.push(choice);
+  }
+
+  // Backtrack from the cheapest position of the last checkpoint
+  const indices = new Array<number>(checkpoints.length);
+  let index = 0;
+  for (let i = 1; i < n; i++) {
+    if (cost[i] < cost[index]) index = i;
+  }
+  for (let k = checkpoints.length - 1; k >= 0; k--) {
+    indices[k] = index;
+    index = previous[k][index];
   }
 
-  return closestIndex;
+  return checkpoints.map((checkpoint, k) => {
+    const trackIndex = indices[k];
+    const trackDistanceMiles = trackDistances[trackIndex] / METERS_PER_MILE;
+    const expectedDistanceMiles = expected[k] / METERS_PER_MILE;
+    const distanceMismatchMiles = Math.abs(trackDistanceMiles - expectedDistanceMiles);
+    const offTrackMeters = offTrack[k][trackIndex];
+
+    return {
+      segmentId: checkpoint.id,
+      checkpointName: checkpoint.checkpoint_name,
+      trackIndex,
+      trackDistanceMiles,
+      expectedDistanceMiles,
+      distanceMismatchMiles,
+      offTrackMeters,
+      passes: findTrackPasses(offTrack[k]).length,
+      confidence: getMatchConfidence(offTrackMeters, distanceMismatchMiles, expectedDistanceMiles),
+    };
+  });
 }
 
 /**
@@ -79,13 +218,11 @@ export function splitTrackByCheckpoints(
     return [];
   }
 
-  // Filter segments that have coordinates
-  const checkpoints = segments
-    .filter((s) => s.latitude && s.longitude)
-    .sort((a, b) => a.segment_order - b.segment_order);
+  const orderedSegments = [...segments].sort((a, b) => a.segment_order - b.segment_order);
+  const matches = matchCheckpointsToTrack(trackPoints, orderedSegments);
 
   // If no checkpoints, return single segment
-  if (checkpoints.length === 0) {
+  if (matches.length === 0) {
     return [
       {
         points: trackPoints,
@@ -98,23 +235,9 @@ export function splitTrackByCheckpoints(
   const routeSegments: RouteSegment[] = [];
   let currentStartIndex = 0;
 
-  // Find checkpoint positions in track
-  const checkpointIndices = checkpoints.map((checkpoint, idx) => ({
-    index: findClosestTrackPoint(
-      { latitude: checkpoint.latitude!, longitude: checkpoint.longitude! },
-      trackPoints,
-      currentStartIndex
-    ),
-    checkpoint,
-    segmentOrder: idx,
-  }));
-
-  // Sort by track index to ensure correct order
-  checkpointIndices.sort((a, b) => a.index - b.index);
-
-  // Create segments between checkpoints
-  for (let i = 0; i < checkpointIndices.length; i++) {
-    const endIndex = checkpointIndices[i].index;
+  // Create segments between checkpoints (matches are already in track order)
+  for (let i = 0; i < matches.length; i++) {
+    const endIndex = matches[i].trackIndex;
 
     if (endIndex > currentStartIndex) {
       const segmentPoints = trackPoints.slice(currentStartIndex, endIndex + 1);
@@ -123,7 +246,8 @@ export function splitTrackByCheckpoints(
         points: segmentPoints,
         color: getSegmentColor(i),
         segmentIndex: i,
-        checkpointName: checkpointIndices[i].checkpoint.checkpoint_name,
+        checkpointName: matches[i].checkpointName,
+        match: matches[i],
       });
     }
 
@@ -0,0 +1,302 @@
+/**
+ * GPX waypoint utilities
+ * Proposes checkpoints from a GPX file: named <wpt> elements projected onto the
+ * track, plus optional split points at major summits and valleys. Proposals are
+ * reviewed by the user before any segments are created.
+ */
+
+import { getGPXTrackPoints } from './gpxPruner';
+import { calculateDistance, findTrackPasses, getCumulativeTrackDistances } from './gpxSegmentation';
+import { coordinatesToPlusCode } from './plusCodes';
+
+const METERS_PER_MILE = 1609.344;
+
+// Waypoints further than this from the route are probably not checkpoints (parking, viewpoints)
+const OFF_ROUTE_METERS = 500;
+// The track passes a waypoint where it comes within this distance, or within 1.5× its
+// closest approach for a waypoint set back from the route (e.g. an aid station building)
+const PASS_RADIUS_METERS = 100;
+const PASS_RADIUS_FACTOR = 1.5;
+// Waypoints this close to the start are the start itself, not a checkpoint
+const START_THRESHOLD_MILES = 0.1;
+// A summit or valley needs this much climb/descent either side to be suggested
+const TERRAIN_RELIEF_METERS = 150;
+// Terrain suggestions this close to a waypoint are dropped - the waypoint already splits there
+const TERRAIN_MIN_SPACING_MILES = 0.5;
+
+export interface GPXWaypoint {
+  name: string;
+  latitude: number;
+  longitude: number;
+  elevationMeters: number | null;
+  description: string | null;
+}
+
+export type CheckpointProposalSource = 'waypoint' | 'summit' | 'valley' | 'finish';
+
+export interface CheckpointProposal {
+  key: string;
+  name: string;
+  source: CheckpointProposalSource;
+  latitude: number;
+  longitude: number;
+  cumulativeDistanceMiles: number; // Along the track, to the projected point
+  elevationMeters: number | null;
+  offTrackMeters: number; // Waypoint distance from the route (0 for track features)
+  selected: boolean;
+}
+
+export interface CheckpointProposalSet {
+  proposals: CheckpointProposal[];
+  waypointCount: number;
+  trackDistanceMiles: number;
+}
+
+/**
+ * A proposal converted to segment fields, ready for creation
+ */
+export interface ProposedSegment {
+  checkpoint_name: string;
+  segment_distance_miles: number;
+  latitude: number;
+  longitude: number;
+  plusCode: string;
+}
+
+/**
+ * Read <wpt> elements from GPX content
+ * Unnamed waypoints get a numbered name so they can still be reviewed.
+ */
+export function parseGPXWaypoints(gpxContent: string): GPXWaypoint[] {
+  const parser = new DOMParser();
+  const xmlDoc = parser.parseFromString(gpxContent, 'text/xml');
+  if (xmlDoc.querySelector('parsererror')) {
+    return [];
+  }
+
+  let wpts = xmlDoc.getElementsByTagName('wpt');
+  if (wpts.length === 0) {
+    wpts = xmlDoc.getElementsByTagNameNS('*', 'wpt');
+  }
+
+  const childText = (element: Element, tag: string): string | null => {
+    const child = element.getElementsByTagName(tag)[0] ?? element.getElementsByTagNameNS('*', tag)[0];
+    const text = child?.textContent?.trim();
+    return text ? text : null;
+  };
+
+  const waypoints: GPXWaypoint[] = [];
+  for (let i = 0; i < wpts.length; i++) {
+    const wpt = wpts[i];
+    const latitude = parseFloat(wpt.getAttribute('lat') || '');
+    const longitude = parseFloat(wpt.getAttribute('lon') || '');
+    if (isNaN(latitude) || isNaN(longitude)) continue;
+
+    const ele = parseFloat(childText(wpt, 'ele') ?? '');
+    waypoints.push({
+      name: childText(wpt, 'name') ?? `Waypoint ${waypoints.length + 1}`,
+      latitude,
+      longitude,
+      elevationMeters: isNaN(ele) ? null : ele,
+      description: childText(wpt, 'desc') ?? childText(wpt, 'cmt'),
+    });
+  }
+
+  return waypoints;
+}
+
+/**
+ * Find major summits and valleys with a zig-zag filter: a turning point is only
+ * kept once the profile has moved TERRAIN_RELIEF_METERS back the other way,
+ * which ignores the small bumps a GPS elevation trace is full of.
+ */
+function findTerrainFeatures(elevations: number[]): Array<{ index: number; type: 'summit' | 'valley' }> {
+  const features: Array<{ index: number; type: 'summit' | 'valley' }> = [];
+  if (elevations.length < 3) return features;
+
+  let direction: 'up' | 'down' | null = null;
+  let extremeIndex = 0;
+  // Until the first big climb or descent, track both the low and high points so far
+  let lowIndex = 0;
+  let highIndex = 0;
+
+  for (let i = 1; i < elevations.length; i++) {
+    const elevation = elevations[i];
+
+    if (direction === null) {
+      if (elevation < elevations[lowIndex]) lowIndex = i;
+      if (elevation > elevations[highIndex]) highIndex = i;
+      if (elevation - elevations[lowIndex] >= TERRAIN_RELIEF_METERS) {
+        direction = 'up';
+        extremeIndex = i;
+      } else if (elevations[highIndex] - elevation >= TERRAIN_RELIEF_METERS) {
+        direction = 'down';
+        extremeIndex = i;
+      }
+      continue;
+    }
+
+    const extreme = elevations[extremeIndex];
+    if (direction === 'up') {
+      if (elevation > extreme) {
+        extremeIndex = i;
+      } else if (extreme - elevation >= TERRAIN_RELIEF_METERS) {
+        features.push({ index: extremeIndex, type: 'summit' });
+        direction = 'down';
+        extremeIndex = i;
+      }
+    } else {
+      if (elevation < extreme) {
+        extremeIndex = i;
+      } else if (elevation - extreme >= TERRAIN_RELIEF_METERS) {
+        features.push({ index: extremeIndex, type: 'valley' });
+        direction = 'up';
+        extremeIndex = i;
+      }
+    }
+  }
+
+  return features;
+}
+
+/**
+ * Propose checkpoints for a GPX file
+ *
+ * Waypoints are projected onto the track and ordered by distance along the route.
+ * A waypoint the route passes more than once (laps, out-and-backs) gets a proposal
+ * for each pass, at that pass's closest point. Waypoints far from the route are
+ * included but unselected.
+ * A "Finish" proposal is added when no waypoint sits at the end of the track.
+ *
+ * @param includeTerrain Also suggest (unselected) split points at major summits and valleys
+ * @returns null when the file has no usable track
+ */
+export function proposeCheckpointsFromGPX(
+  gpxContent: string,
+  includeTerrain: boolean = true
+): CheckpointProposalSet | null {
+  let rawPoints: Array<{ lat: number; lon: number; ele: number }>;
+  try {
+    rawPoints = getGPXTrackPoints(gpxContent);
+  } catch (error) {
+    console.error('[GPX Waypoints] Failed to read track:', error);
+    return null;
+  }
+  if (rawPoints.length < 2) return null;
+
+  const trackPoints = rawPoints.map(p => ({ lat: p.lat, lng: p.lon }));
+  const trackDistances = getCumulativeTrackDistances(trackPoints);
+  const trackDistanceMiles = trackDistances[trackDistances.length - 1] / METERS_PER_MILE;
+  const waypoints = parseGPXWaypoints(gpxContent);
+
+  const proposals: CheckpointProposal[] = [];
+
+  waypoints.forEach((waypoint, waypointIndex) => {
+    const location = { lat: waypoint.latitude, lng: waypoint.longitude };
+    const offTrack = new Float64Array(trackPoints.length);
+    let nearestIndex = 0;
+    trackPoints.forEach((point, index) => {
+      offTrack[index] = calculateDistance(location, point);
+      if (offTrack[index] < offTrack[nearestIndex]) nearestIndex = index;
+    });
+
+    const passRadius = Math.max(PASS_RADIUS_METERS, offTrack[nearestIndex] * PASS_RADIUS_FACTOR);
+    const passes = offTrack[nearestIndex] <= OFF_ROUTE_METERS ? findTrackPasses(offTrack, passRadius) : [nearestIndex];
+
+    passes.forEach((trackIndex, pass) => {
+      const cumulativeDistanceMiles = trackDistances[trackIndex] / METERS_PER_MILE;
+      if (cumulativeDistanceMiles < START_THRESHOLD_MILES) return;
+
+      proposals.push({
+        key: pass === 0 ? `wpt-${waypointIndex}` : `wpt-${waypointIndex}-${pass + 1}`,
+        name: waypoint.name,
+        source: 'waypoint',
+        latitude: waypoint.latitude,
+        longitude: waypoint.longitude,
+        cumulativeDistanceMiles,
+        elevationMeters: waypoint.elevationMeters ?? rawPoints[trackIndex].ele,
+        offTrackMeters: offTrack[trackIndex],
+        selected: offTrack[trackIndex] <= OFF_ROUTE_METERS,
+      });
+    });
+  });
+
+  const lastPoint = rawPoints[rawPoints.length - 1];
+  const reachesFinish = proposals.some(
+    p => p.selected && trackDistanceMiles - p.cumulativeDistanceMiles < START_THRESHOLD_MILES
+  );
+  if (!reachesFinish) {
+    proposals.push({
+      key: 'finish',
+      name: 'Finish',
+      source: 'finish',
+      latitude: lastPoint.lat,
+      longitude: lastPoint.lon,
+      cumulativeDistanceMiles: trackDistanceMiles,
+      elevationMeters: lastPoint.ele,
+      offTrackMeters: 0,
+      selected: true,
+    });
+  }
+
+  if (includeTerrain) {
+    const anchors = proposals.map(p => p.cumulativeDistanceMiles).concat(0);
+    findTerrainFeatures(rawPoints.map(p => p.ele)).forEach(feature => {
+      const point = rawPoints[feature.index];
+      const cumulativeDistanceMiles = trackDistances[feature.index] / METERS_PER_MILE;
+      if (anchors.some(distance => Math.abs(distance - cumulativeDistanceMiles) < TERRAIN_MIN_SPACING_MILES)) return;
+
+      proposals.push({
+        key: `${feature.type}-${feature.index}`,
+        name: feature.type === 'summit' ? 'Summit' : 'Valley',
+        source: feature.type,
+        latitude: point.lat,
+        longitude: point.lon,
+        cumulativeDistanceMiles,
+        elevationMeters: point.ele,
+        offTrackMeters: 0,
+        selected: false,
+      });
+    });
+  }
+
+  proposals.sort((a, b) => a.cumulativeDistanceMiles - b.cumulativeDistanceMiles);
+
+  return {
+    proposals,
+    waypointCount: waypoints.length,
+    trackDistanceMiles,
+  };
+}
+
+/**
+ * Convert selected proposals into consecutive segments
+ * @param startDistanceMiles Cumulative distance of the last existing checkpoint;
+ *   proposals at or before it are skipped so new segments are appended
+ */
+export function proposalsToSegments(
+  proposals: CheckpointProposal[],
+  startDistanceMiles: number = 0
+): ProposedSegment[] {
+  const segments: ProposedSegment[] = [];
+  let previousDistance = startDistanceMiles;
+
+  [...proposals]
+    .filter(p => p.selected)
+    .sort((a, b) => a.cumulativeDistanceMiles - b.cumulativeDistanceMiles)
+    .forEach(proposal => {
+      const segmentDistance = Math.round((proposal.cumulativeDistanceMiles - previousDistance) * 100) / 100;
+      if (segmentDistance <= 0) return;
+
+      segments.push({
+        checkpoint_name: proposal.name.trim() || 'Checkpoint',
+        segment_distance_miles: segmentDistance,
+        latitude: proposal.latitude,
+        longitude: proposal.longitude,
+        plusCode: coordinatesToPlusCode(proposal.latitude, proposal.longitude),
+      });
+      previousDistance += segmentDistance;
+    });
+
+  return segments;
+}
@@ -1,34 +1,182 @@
+import { RaceSchema, SegmentSchema, ElevationLabelSchema } from '@/shared/types';
 import type { Race, Segment, ElevationLabel } from '@/shared/types';
 import { localStorageService } from '@/react-app/services/localStorage';
+import { runMigrations } from '@/react-app/services/schemaMigrations';
+
+/**
+ * Version of the race plan JSON written by exportToJSON.
+ * v1: original format (no version field)
+ * v2: adds formatVersion and schemaVersion (stored race/segment schema, see schemaMigrations)
+ * v3: races with route variants carry every route's checkpoints and GPX (routeGpxFileContents)
+ */
+export const RACE_EXPORT_FORMAT_VERSION = 3;
 
 interface ImportedRaceData {
+  formatVersion?: number;
+  schemaVersion?: number;
   race: Race;
   segments: Segment[];
   elevationLabels: ElevationLabel[];
-  gpxFileContent?: string;
+  gpxFileContent?: string; // Active route
+  routeGpxFileContents?: Record<string, string>; // Keyed by route variant ID
+  unitPreference?: string;
   exportedAt: string;
 }
 
-export function importFromJSON(file: File): Promise<ImportedRaceData> {
+export interface ImportIssue {
+  severity: 'error' | 'warning';
+  location: string; // e.g. "Race" or "Segment 3 (Glencoe)"
+  field: string;
+  message: string;
+}
+
+export interface RaceImportPreview {
+  data: ImportedRaceData;
+  sourceFormatVersion: number;
+  issues: ImportIssue[];
+  /** Race-level errors mean the plan cannot be imported */
+  canImport: boolean;
+  /** Existing race with the same name, offered for replacement */
+  conflictingRace: Race | null;
+}
+
+type RawExport = Record<string, unknown>;
+
+// Forward migrations between export format versions, keyed by the version they upgrade from
+const FORMAT_MIGRATIONS: Record<number, (data: RawExport) => RawExport> = {
+  // v1 files carry no schema version, so every stored-schema migration applies
+  1: data => ({ ...data, formatVersion: 2, schemaVersion: 0 }),
+  // v2 files only carry the active route's checkpoints and GPX, so they come in as a single-route race
+  2: data => ({
+    ...data,
+    formatVersion: 3,
+    race: { ...(data.race as Race), route_variants: null, active_route_variant_id: null },
+    segments: Array.isArray(data.segments)
+      ? (data.segments as Segment[]).map(segment => ({ ...segment, route_variant_id: null }))
+      : data.segments,
+  }),
+};
+
+function migrateExportFormat(data: RawExport, fromVersion: number): RawExport {
+  let migrated = data;
+  for (let version = fromVersion; version < RACE_EXPORT_FORMAT_VERSION; version++) {
+    migrated = FORMAT_MIGRATIONS[version](migrated);
+  }
+
+  // Bring the race and segments up to the current stored schema
+  const schemaMigration = runMigrations(
+    [migrated.race as Race],
+    Array.isArray(migrated.segments) ? migrated.segments as Segment[] : [],
+    typeof migrated.schemaVersion === 'number' ? migrated.schemaVersion : 0
+  );
+
+  return {
+    ...migrated,
+    schemaVersion: schemaMigration.toVersion,
+    race: schemaMigration.races[0],
+    segments: schemaMigration.segments,
+  };
+}
+
+/**
+ * Validate a record against a zod object schema, collecting per-field issues.
+ * Fields the schema doesn't know about are reported as warnings and dropped.
+ */
+function validateRecord<T>(
+  schema: typeof RaceSchema | typeof SegmentSchema | typeof ElevationLabelSchema,
+  record: unknown,
+  location: string,
+  severity: ImportIssue['severity'],
+  issues: ImportIssue[]
+): T | null {
+  if (typeof record === 'object' && record !== null) {
+    Object.keys(record)
+      .filter(field => !(field in schema.shape))
+      .forEach(field => issues.push({ severity: 'warning', location, field, message: 'Unknown field will be ignored' }));
+  }
+
+  const result = schema.safeParse(record);
+  if (!result.success) {
+    result.error.issues.forEach(issue => {
+      issues.push({ severity, location, field: issue.path.join('.') || '(record)', message: issue.message });
+    });
+    return null;
+  }
+  return result.data as T;
+}
+
+/**
+ * Parse a race plan JSON file, migrate it to the current format and validate
+ * it against the race/segment/elevation label schemas. Nothing is saved.
+ */
+export function importFromJSON(file: File): Promise<RaceImportPreview> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
 
     reader.onload = (event) => {
       try {
         const jsonContent = event.target?.result as string;
-        const data = JSON.parse(jsonContent) as ImportedRaceData;
+        const raw = JSON.parse(jsonContent) as RawExport;
 
         // Validate the structure
-        if (!data.race || !Array.isArray(data.segments) || !Array.isArray(data.elevationLabels)) {
+        if (typeof raw !== 'object' || raw === null || typeof raw.race !== 'object' || raw.race === null || !Array.isArray(raw.segments)) {
           throw new Error('Invalid JSON file format. Missing required fields.');
         }
 
-        // Validate required race fields
-        if (!data.race.name || !data.race.distance_miles) {
-          throw new Error('Invalid race data. Missing required fields.');
+        const sourceFormatVersion = typeof raw.formatVersion === 'number' ? raw.formatVersion : 1;
+        if (sourceFormatVersion > RACE_EXPORT_FORMAT_VERSION) {
+          throw new Error('This race plan was exported by a newer version of UltraPlan. Please update the app.');
         }
 
-        resolve(data);
+        const migrated = migrateExportFormat(raw, sourceFormatVersion);
+        const issues: ImportIssue[] = [];
+
+        const race = validateRecord<Race>(RaceSchema, migrated.race, 'Race', 'error', issues);
+
+        // Invalid segments and labels are skipped rather than blocking the import
+        const segments = (migrated.segments as unknown[])
+          .map((segment, index) => {
+            const name = (segment as Partial<Segment>)?.checkpoint_name;
+            const location = `Segment ${index + 1}${name ? ` (${name})` : ''}`;
+            const validated = validateRecord<Segment>(SegmentSchema, segment, location, 'error', issues);
+            if (!validated) {
+              issues.push({ severity: 'warning', location, field: '(record)', message: 'Segment will be skipped' });
+            }
+            return validated;
+          })
+          .filter((segment): segment is Segment => segment !== null);
+
+        const elevationLabels = (Array.isArray(migrated.elevationLabels) ? migrated.elevationLabels : [])
+          .map((label, index) =>
+            validateRecord<ElevationLabel>(ElevationLabelSchema, label, `Elevation label ${index + 1}`, 'warning', issues)
+          )
+          .filter((label): label is ElevationLabel => label !== null);
+
+        const data: ImportedRaceData = {
+          formatVersion: RACE_EXPORT_FORMAT_VERSION,
+          schemaVersion: migrated.schemaVersion as number,
+          race: race ?? (migrated.race as Race),
+          segments,
+          elevationLabels,
+          gpxFileContent: typeof migrated.gpxFileContent === 'string' ? migrated.gpxFileContent : undefined,
+          routeGpxFileContents: typeof migrated.routeGpxFileContents === 'object' && migrated.routeGpxFileContents !== null
+            ? migrated.routeGpxFileContents as Record<string, string>
+            : undefined,
+          unitPreference: typeof migrated.unitPreference === 'string' ? migrated.unitPreference : undefined,
+          exportedAt: typeof migrated.exportedAt === 'string' ? migrated.exportedAt : new Date().toISOString(),
+        };
+
+        const raceName = typeof data.race.name === 'string' ? data.race.name.trim().toLowerCase() : '';
+        const conflictingRace = localStorageService.getRaces()
+          .find(existing => existing.name.trim().toLowerCase() === raceName) || null;
+
+        resolve({
+          data,
+          sourceFormatVersion,
+          issues,
+          canImport: race !== null,
+          conflictingRace,
+        });
       } catch (error) {
         reject(new Error(`Failed to parse JSON file: ${error instanceof Error ? error.message : 'Unknown error'}`));
       }
@@ -42,6 +190,101 @@ export function importFromJSON(file: File): Promise<ImportedRaceData> {
   });
 }
 
+async function importGPXContent(raceId: number, gpxFileContent: string): Promise<void> {
+  try {
+    // Create a File object from the GPX content
+    const gpxBlob = new Blob([gpxFileContent], { type: 'application/gpx+xml' });
+    const gpxFile = new File([gpxBlob], 'imported.gpx', { type: 'application/gpx+xml' });
+    await localStorageService.setGPXFile(raceId, gpxFile);
+  } catch (error) {
+    console.error('Failed to import GPX file:', error);
+  }
+}
+
+// GPX files go to the active route, so each variant's is attached with it made active in turn
+async function importRouteGPXContents(raceId: number, data: ImportedRaceData): Promise<void> {
+  const variants = data.race.route_variants;
+  if (!variants?.length) {
+    if (data.gpxFileContent) {
+      await importGPXContent(raceId, data.gpxFileContent);
+    }
+    return;
+  }
+
+  for (const variant of variants) {
+    const content = data.routeGpxFileContents?.[variant.id];
+    if (content && localStorageService.switchRouteVariant(raceId, variant.id)) {
+      await importGPXContent(raceId, content);
+    }
+  }
+  localStorageService.switchRouteVariant(raceId, data.race.active_route_variant_id ?? variants[0].id);
+}
+
+function importSegmentsAndLabels(raceId: number, data: ImportedRaceData): void {
+  // Cumulative distances are derived from earlier segments, so create them in order
+  const segments = [...data.segments].sort((a, b) => a.segment_order - b.segment_order);
+
+  for (const segment of segments) {
+    try {
+      localStorageService.createSegment({
+        race_id: raceId,
+        checkpoint_name: segment.checkpoint_name,
+        segment_distance_miles: segment.segment_distance_miles,
+        terrain_description: segment.terrain_description || undefined,
+        nutrition_plan: segment.nutrition_plan || undefined,
+        carb_goal_per_hour: segment.carb_goal_per_hour ?? undefined,
+        sodium_goal_per_hour: segment.sodium_goal_per_hour ?? undefined,
+        water_goal_per_hour: segment.water_goal_per_hour ?? undefined,
+        caffeine_goal_per_hour: segment.caffeine_goal_per_hour ?? undefined,
+        segment_nutrition_items: segment.segment_nutrition_items || undefined,
+        notes: segment.notes || undefined,
+        map_reference: segment.map_reference || undefined,
+        segment_order: segment.segment_order,
+        route_variant_id: segment.route_variant_id ?? undefined,
+        stage_id: segment.stage_id ?? null,
+        custom_pace_min_per_mile: segment.custom_pace_min_per_mile ?? undefined,
+        terrain_factor: segment.terrain_factor ?? undefined,
+        auto_derived_pace: segment.auto_derived_pace ?? undefined,
+        use_auto_pace: segment.use_auto_pace ?? undefined,
+        auto_pace_confidence: segment.auto_pace_confidence ?? undefined,
+        auto_pace_reasoning: segment.auto_pace_reasoning ?? undefined,
+        cutoff_time: segment.cutoff_time || undefined,
+        checkpoint_time_minutes: segment.checkpoint_time_minutes ?? undefined,
+        sleep_minutes: segment.sleep_minutes ?? undefined,
+        support_crew_present: segment.support_crew_present ?? undefined,
+        support_crew_names: segment.support_crew_names || undefined,
+        support_crew_members: segment.support_crew_members || undefined,
+        drop_bag: segment.drop_bag ?? undefined,
+        drop_bag_items: segment.drop_bag_items || undefined,
+        crew_drive_minutes: segment.crew_drive_minutes ?? undefined,
+        crew_drive_miles: segment.crew_drive_miles ?? undefined,
+        crew_handover: segment.crew_handover || undefined,
+        crew_notes: segment.crew_notes || undefined,
+        plusCode: segment.plusCode || undefined,
+        latitude: segment.latitude ?? undefined,
+        longitude: segment.longitude ?? undefined,
+      });
+    } catch (error) {
+      console.error('Failed to create segment:', segment.checkpoint_name, error);
+    }
+  }
+
+  for (const label of data.elevationLabels) {
+    try {
+      localStorageService.createElevationLabel({
+        race_id: raceId,
+        distance_miles: label.distance_miles,
+        label: label.label,
+      });
+    } catch (error) {
+      console.error('Failed to create elevation label:', label.label, error);
+    }
+  }
+}
+
+/**
+ * Import a race plan as a new race
+ */
 export async function createRaceFromImport(data: ImportedRaceData, userId?: string): Promise<Race> {
   try {
     // Create the race using local storage
@@ -54,67 +297,69 @@ export async function createRaceFromImport(data: ImportedRaceData, userId?: stri
       timezone: data.race.timezone,
       mandatory_kit: data.race.mandatory_kit,
       logo_url: data.race.logo_url,
+      route_variants: data.race.route_variants,
+      active_route_variant_id: data.race.active_route_variant_id,
+      stages: data.race.stages,
+      awake_hours_at_start: data.race.awake_hours_at_start,
+      bib_number: data.race.bib_number,
       userId: userId,
     });
 
     // If there's GPX data, save it
-    if (data.gpxFileContent && createdRace.id) {
-      try {
-        // Create a File object from the GPX content
-        const gpxBlob = new Blob([data.gpxFileContent], { type: 'application/gpx+xml' });
-        const gpxFile = new File([gpxBlob], 'imported.gpx', { type: 'application/gpx+xml' });
-        await localStorageService.setGPXFile(createdRace.id, gpxFile);
-      } catch (error) {
-        console.error('Failed to import GPX file:', error);
-      }
+    if (createdRace.id) {
+      await importRouteGPXContents(createdRace.id, data);
     }
 
-    // Create segments
-    for (const segment of data.segments) {
-      try {
-        localStorageService.createSegment({
-          race_id: createdRace.id!,
-          checkpoint_name: segment.checkpoint_name,
-          segment_distance_miles: segment.segment_distance_miles,
-          terrain_description: segment.terrain_description || undefined,
-          nutrition_plan: segment.nutrition_plan || undefined,
-          carb_goal_per_hour: segment.carb_goal_per_hour ?? undefined,
-          sodium_goal_per_hour: segment.sodium_goal_per_hour ?? undefined,
-          water_goal_per_hour: segment.water_goal_per_hour ?? undefined,
-          segment_nutrition_items: segment.segment_nutrition_items || undefined,
-          notes: segment.notes || undefined,
-          map_reference: segment.map_reference || undefined,
-          segment_order: segment.segment_order,
-          custom_pace_min_per_mile: segment.custom_pace_min_per_mile ?? undefined,
-          cutoff_time: segment.cutoff_time || undefined,
-          checkpoint_time_minutes: segment.checkpoint_time_minutes ?? undefined,
-          support_crew_present: segment.support_crew_present ?? undefined,
-          support_crew_names: segment.support_crew_names || undefined,
-          support_crew_members: segment.support_crew_members || undefined,
-          plusCode: segment.plusCode || undefined,
-          latitude: segment.latitude ?? undefined,
-          longitude: segment.longitude ?? undefined,
-        });
-      } catch (error) {
-        console.error('Failed to create segment:', segment.checkpoint_name, error);
-      }
+    importSegmentsAndLabels(createdRace.id!, data);
+
+    return localStorageService.getRace(createdRace.id!) ?? createdRace;
+  } catch (error) {
+    throw new Error(`Failed to create race: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Replace an existing race's details, segments and elevation labels with an imported plan.
+ * The race keeps its ID, FIT files and auto-pace settings; its GPX is only
+ * replaced if the import includes one.
+ *
+ * A plan with route variants replaces all of the race's routes. A single-route
+ * plan only replaces the active route, and the race's other route variants are kept.
+ */
+export async function replaceRaceFromImport(raceId: number, data: ImportedRaceData): Promise<Race> {
+  try {
+    const updatedRace = localStorageService.updateRace(raceId, {
+      name: data.race.name,
+      distance_miles: data.race.distance_miles,
+      emergency_contact_name: data.race.emergency_contact_name ?? '',
+      emergency_contact_phone: data.race.emergency_contact_phone ?? '',
+      start_date_time: data.race.start_date_time ?? null,
+      timezone: data.race.timezone ?? null,
+      mandatory_kit: data.race.mandatory_kit ?? null,
+      logo_url: data.race.logo_url ?? null,
+      awake_hours_at_start: data.race.awake_hours_at_start ?? null,
+      bib_number: data.race.bib_number ?? null,
+    });
+    if (!updatedRace) {
+      throw new Error('The race to replace no longer exists');
     }
 
-    // Create elevation labels
-    for (const label of data.elevationLabels) {
-      try {
-        localStorageService.createElevationLabel({
-          race_id: createdRace.id!,
-          distance_miles: label.distance_miles,
-          label: label.label,
-        });
-      } catch (error) {
-        console.error('Failed to create elevation label:', label.label, error);
-      }
+    if (data.race.route_variants?.length) {
+      localStorageService.setRouteVariants(raceId, data.race.route_variants, data.race.active_route_variant_id ?? null);
+      localStorageService.deleteSegmentsByRaceId(raceId);
+    } else {
+      localStorageService.deleteSegmentsByRaceId(raceId, updatedRace.active_route_variant_id ?? null);
     }
+    localStorageService.deleteElevationLabelsByRaceId(raceId);
+
+    await importRouteGPXContents(raceId, data);
 
-    return createdRace;
+    importSegmentsAndLabels(raceId, data);
+    // Imported checkpoints already carry their stage_id
+    localStorageService.setRaceStages(raceId, data.race.stages?.length ? data.race.stages : null, new Map());
+
+    return localStorageService.getRace(raceId) ?? updatedRace;
   } catch (error) {
-    throw new Error(`Failed to create race: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw new Error(`Failed to replace race: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
@@ -0,0 +1,330 @@
+/**
+ * Offline map tile packs
+ * Downloads street/satellite tiles for a buffered corridor around a race's GPX
+ * track into the tile store, so the 2D and 3D maps work without a network.
+ * Tiles are stored per race as "{source}/{z}/{x}/{y}".
+ *
+ * The public servers the map layers load from don't allow bulk downloading
+ * (OpenStreetMap's tile usage policy forbids it), so packs come from a tile
+ * server the user sets for each source, such as a provider plan that allows
+ * offline use or their own server.
+ */
+
+import type { MapTilePack, MapTileSourceId } from '@/shared/types';
+import { localStorageService } from '../services/localStorage';
+import type { TrackPoint } from './gpxSegmentation';
+import type { MapLayerType } from '../components/MapLayerSelector';
+
+export const MAP_TILE_SOURCES: Record<MapTileSourceId, { label: string; url: string }> = {
+  osm: {
+    label: 'Street',
+    url: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+  },
+  satellite: {
+    label: 'Satellite',
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+  },
+  labels: {
+    label: 'Labels',
+    url: 'https://a.basemaps.cartocdn.com/light_only_labels/{z}/{x}/{y}.png',
+  },
+};
+
+// Tile sources drawn by each map layer
+export const LAYER_TILE_SOURCES: Record<MapLayerType, MapTileSourceId[]> = {
+  street: ['osm'],
+  satellite: ['satellite'],
+  hybrid: ['satellite', 'labels'],
+};
+
+export const MIN_PACK_ZOOM = 8;
+export const MAX_PACK_ZOOM = 16;
+// Keeps a pack to a few hundred megabytes
+export const MAX_PACK_TILES = 15000;
+
+const DOWNLOAD_URLS_STORAGE_KEY = 'offline_map_download_urls';
+
+const DOWNLOAD_CONCURRENCY = 4;
+const WRITE_BATCH_SIZE = 50;
+const KM_PER_DEGREE = 111.32;
+
+export interface TilePackOptions {
+  sources: MapTileSourceId[];
+  minZoom: number;
+  maxZoom: number;
+  bufferKm: number;
+}
+
+export interface TileCoordinate {
+  z: number;
+  x: number;
+  y: number;
+}
+
+export interface TilePackProgress {
+  done: number;
+  total: number;
+  failed: number;
+}
+
+// ============================================
+// TILE MATHS
+// ============================================
+
+function lngToTileX(lng: number, zoom: number): number {
+  return Math.floor(((lng + 180) / 360) * 2 ** zoom);
+}
+
+function latToTileY(lat: number, zoom: number): number {
+  const latRad = (lat * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * 2 ** zoom);
+}
+
+export function getTileKey(source: MapTileSourceId, z: number, x: number, y: number): string {
+  return `${source}/${z}/${x}/${y}`;
+}
+
+function fillTileUrl(template: string, z: number, x: number, y: number): string {
+  return template
+    .replace('{z}', `${z}`)
+    .replace('{x}', `${x}`)
+    .replace('{y}', `${y}`);
+}
+
+export function getTileUrl(source: MapTileSourceId, z: number, x: number, y: number): string {
+  return fillTileUrl(MAP_TILE_SOURCES[source].url, z, x, y);
+}
+
+// ============================================
+// DOWNLOAD SERVERS
+// ============================================
+
+/**
+ * Tile URL templates packs are downloaded from, by source. Unset by default:
+ * a source can't be downloaded until the user gives one.
+ */
+export function getTileDownloadUrls(): Partial<Record<MapTileSourceId, string>> {
+  try {
+    const stored = localStorage.getItem(DOWNLOAD_URLS_STORAGE_KEY);
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (error) {
+    console.error('Failed to read offline map download servers:', error);
+  }
+  return {};
+}
+
+export function setTileDownloadUrls(urls: Partial<Record<MapTileSourceId, string>>): void {
+  localStorage.setItem(DOWNLOAD_URLS_STORAGE_KEY, JSON.stringify(urls));
+}
+
+/**
+ * Whether a URL is an http(s) tile template with {z}, {x} and {y} placeholders
+ */
+export function isTileUrlTemplate(url: string | undefined): url is string {
+  return !!url && /^https?:\/\//i.test(url.trim()) && ['{z}', '{x}', '{y}'].every(part => url.includes(part));
+}
+
+/**
+ * Tiles at one zoom level within bufferKm of the track
+ * Long gaps between track points are filled in so the corridor has no holes.
+ */
+export function getCorridorTiles(trackPoints: TrackPoint[], zoom: number, bufferKm: number): TileCoordinate[] {
+  const maxTile = 2 ** zoom - 1;
+  const latBuffer = bufferKm / KM_PER_DEGREE;
+  const stepDegrees = Math.max(latBuffer, 0.001);
+  const tiles = new Map<string, TileCoordinate>();
+
+  const addPoint = (lat: number, lng: number) => {
+    const lngBuffer = bufferKm / (KM_PER_DEGREE * Math.max(0.01, Math.cos((lat * Math.PI) / 180)));
+    const minX = Math.max(0, lngToTileX(lng - lngBuffer, zoom));
+    const maxX = Math.min(maxTile, lngToTileX(lng + lngBuffer, zoom));
+    const minY = Math.max(0, latToTileY(Math.min(85, lat + latBuffer), zoom));
+    const maxY = Math.min(maxTile, latToTileY(Math.max(-85, lat - latBuffer), zoom));
+
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        tiles.set(`${x}/${y}`, { z: zoom, x, y });
+      }
+    }
+  };
+
+  trackPoints.forEach((point, i) => {
+    const previous = trackPoints[i - 1];
+    if (previous) {
+      const gap = Math.max(Math.abs(point.lat - previous.lat), Math.abs(point.lng - previous.lng));
+      const steps = Math.ceil(gap / stepDegrees);
+      for (let step = 1; step < steps; step++) {
+        const t = step / steps;
+        addPoint(previous.lat + (point.lat - previous.lat) * t, previous.lng + (point.lng - previous.lng) * t);
+      }
+    }
+    addPoint(point.lat, point.lng);
+  });
+
+  return Array.from(tiles.values());
+}
+
+/**
+ * Number of tiles a pack would download
+ */
+export function estimateTilePack(trackPoints: TrackPoint[], options: TilePackOptions): number {
+  let perSource = 0;
+  for (let zoom = options.minZoom; zoom <= options.maxZoom; zoom++) {
+    perSource += getCorridorTiles(trackPoints, zoom, options.bufferKm).length;
+  }
+  return perSource * options.sources.length;
+}
+
+// ============================================
+// DOWNLOAD
+// ============================================
+
+/**
+ * Download and store a tile pack for a race, replacing any existing pack
+ * Tiles come from the download server set for each source (see getTileDownloadUrls).
+ * Tiles that fail to download are counted and skipped rather than failing the pack.
+ * @throws Error if a source has no download server, the pack is too large or
+ * storage fails; an AbortError if cancelled
+ */
+export async function downloadTilePack(
+  raceId: number,
+  trackPoints: TrackPoint[],
+  options: TilePackOptions,
+  onProgress: (progress: TilePackProgress) => void,
+  signal: AbortSignal
+): Promise<MapTilePack> {
+  const jobs: Array<{ source: MapTileSourceId } & TileCoordinate> = [];
+  for (let zoom = options.minZoom; zoom <= options.maxZoom; zoom++) {
+    const tiles = getCorridorTiles(trackPoints, zoom, options.bufferKm);
+    for (const source of options.sources) {
+      tiles.forEach(tile => jobs.push({ source, ...tile }));
+    }
+  }
+
+  if (jobs.length === 0) {
+    throw new Error('Select at least one map layer to download');
+  }
+  const downloadUrls = getTileDownloadUrls();
+  const missing = options.sources.filter(source => !isTileUrlTemplate(downloadUrls[source]));
+  if (missing.length > 0) {
+    throw new Error(`Set a download server for ${missing.map(source => MAP_TILE_SOURCES[source].label).join(', ')} first`);
+  }
+  if (jobs.length > MAX_PACK_TILES) {
+    throw new Error(
+      `This pack needs ${jobs.length.toLocaleString()} tiles (limit ${MAX_PACK_TILES.toLocaleString()}). ` +
+      'Lower the maximum zoom or narrow the corridor.'
+    );
+  }
+
+  await localStorageService.deleteTilePack(raceId);
+
+  // Stops every worker when the user cancels or one of them hits a storage error
+  const stop = new AbortController();
+  const onAbort = () => stop.abort(signal.reason);
+  signal.addEventListener('abort', onAbort);
+
+  const progress: TilePackProgress = { done: 0, total: jobs.length, failed: 0 };
+  let sizeBytes = 0;
+  let pending: Array<[string, Blob]> = [];
+  let nextJob = 0;
+
+  const flush = async () => {
+    if (pending.length === 0) return;
+    const batch = pending;
+    pending = [];
+    await localStorageService.saveMapTiles(raceId, batch);
+  };
+
+  const worker = async () => {
+    while (nextJob < jobs.length) {
+      stop.signal.throwIfAborted();
+      const job = jobs[nextJob++];
+
+      try {
+        const url = fillTileUrl(downloadUrls[job.source]!.trim(), job.z, job.x, job.y);
+        const response = await fetch(url, { signal: stop.signal });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const blob = await response.blob();
+        pending.push([getTileKey(job.source, job.z, job.x, job.y), blob]);
+        sizeBytes += blob.size;
+      } catch (error) {
+        if (stop.signal.aborted) throw error;
+        progress.failed++;
+      }
+
+      progress.done++;
+      onProgress({ ...progress });
+      if (pending.length >= WRITE_BATCH_SIZE) {
+        await flush();
+      }
+    }
+  };
+
+  const workers = Array.from({ length: DOWNLOAD_CONCURRENCY }, worker);
+  try {
+    await Promise.all(workers);
+    await flush();
+  } catch (error) {
+    stop.abort(error);
+    await Promise.allSettled(workers);
+    // Don't leave a partial pack behind
+    await localStorageService.deleteTilePack(raceId);
+    if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+      throw new Error('Not enough storage space for this map pack. Lower the maximum zoom or delete other packs.');
+    }
+    throw error;
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+  }
+
+  const pack: MapTilePack = {
+    raceId,
+    sources: options.sources,
+    minZoom: options.minZoom,
+    maxZoom: options.maxZoom,
+    bufferKm: options.bufferKm,
+    tileCount: progress.done - progress.failed,
+    failedTiles: progress.failed,
+    sizeBytes,
+    createdAt: new Date().toISOString(),
+  };
+  await localStorageService.saveTilePack(pack);
+  return pack;
+}
+
+// ============================================
+// LOOKUP
+// ============================================
+
+/**
+ * Stored tile for a race, or null when the pack doesn't include it
+ */
+export async function getCachedTile(
+  raceId: number,
+  source: MapTileSourceId,
+  z: number,
+  x: number,
+  y: number
+): Promise<Blob | null> {
+  try {
+    return await localStorageService.getMapTile(raceId, getTileKey(source, z, x, y));
+  } catch (error) {
+    console.error('[Map Tiles] Failed to read cached tile:', error);
+    return null;
+  }
+}
+
+/**
+ * Whether a pack holds tiles for a source at a zoom level
+ */
+export function packIncludes(pack: MapTilePack | null, source: MapTileSourceId, zoom?: number): boolean {
+  if (!pack || !pack.sources.includes(source)) return false;
+  return zoom === undefined || (zoom >= pack.minZoom && zoom <= pack.maxZoom);
+}
+
+export function formatPackSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
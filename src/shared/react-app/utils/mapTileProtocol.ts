@@ -0,0 +1,48 @@
+/**
+ * Offline map tiles for MapLibre
+ * Serves tiles from a race's offline map pack through a custom protocol, falling
+ * back to the tile server for tiles the pack doesn't hold.
+ */
+
+import maplibregl from 'maplibre-gl';
+import type { MapTilePack, MapTileSourceId } from '@/shared/types';
+import { MAP_TILE_SOURCES, getCachedTile, getTileUrl, packIncludes } from './mapTilePacks';
+
+export const LOCAL_TILE_PROTOCOL = 'ultraplan-tiles';
+
+let protocolRegistered = false;
+
+async function loadMapTile(url: string, signal: AbortSignal): Promise<ArrayBuffer> {
+  // ultraplan-tiles://{raceId}/{source}/{z}/{x}/{y}
+  const match = url.match(/^[\w-]+:\/\/(\d+)\/(\w+)\/(\d+)\/(\d+)\/(\d+)$/);
+  if (!match) throw new Error(`Invalid map tile URL: ${url}`);
+
+  const raceId = parseInt(match[1]);
+  const source = match[2] as MapTileSourceId;
+  const [z, x, y] = match.slice(3).map(Number);
+
+  const cached = await getCachedTile(raceId, source, z, x, y);
+  if (cached) return cached.arrayBuffer();
+
+  const response = await fetch(getTileUrl(source, z, x, y), { signal });
+  if (!response.ok) throw new Error(`Failed to load tile ${z}/${x}/${y}: HTTP ${response.status}`);
+  return response.arrayBuffer();
+}
+
+/**
+ * Tile URL template for a raster source
+ * Uses the local protocol when the race's pack includes the source, otherwise the tile server.
+ */
+export function getMapTileUrl(source: MapTileSourceId, pack: MapTilePack | null): string {
+  if (!pack || !packIncludes(pack, source)) {
+    return MAP_TILE_SOURCES[source].url;
+  }
+
+  if (!protocolRegistered) {
+    maplibregl.addProtocol(LOCAL_TILE_PROTOCOL, async (params: { url: string }, abortController: AbortController) => ({
+      data: await loadMapTile(params.url, abortController.signal),
+    }));
+    protocolRegistered = true;
+  }
+  return `${LOCAL_TILE_PROTOCOL}://${pack.raceId}/${source}/{z}/{x}/{y}`;
+}
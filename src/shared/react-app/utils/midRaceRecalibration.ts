@@ -0,0 +1,238 @@
+/**
+ * Mid-Race Recalibration
+ *
+ * Takes a partial activity pulled from the watch during the race (FIT or GPX),
+ * lines it up with the course and measures how the completed legs went against
+ * the plan. Each leg's effort is compared on grade-adjusted pace, so a slow
+ * climb doesn't read as a bad day, and a straight line through those ratios by
+ * distance gives the fade. The remaining legs' predicted times are rescaled
+ * with both.
+ */
+
+import type { CheckpointSplitAnalysis, ParsedFITData, Race, Segment } from '@/shared/types';
+import { calculateSplitAnalysis } from './splitAnalysis';
+import { calculateGAP } from './gradeAdjustedPace';
+import { calculateDistance } from './gpxSegmentation';
+import { getGPXTrackPoints } from './gpxPruner';
+import { analyzeCutoffs, type CutoffReport } from './cutoffAnalysis';
+import { calculateSegmentETA } from './etaCalculations';
+
+const METERS_PER_MILE = 1609.344;
+
+// The activity's last point must be this close to the course to align by GPS
+const MAX_ALIGNMENT_OFFSET_METERS = 500;
+
+// A checkpoint counts as reached when the activity gets this close to it
+const CHECKPOINT_TOLERANCE_MILES = 0.05;
+
+// Fade is capped at 20% per 10 miles, and never forecasts getting faster
+const MAX_FADE_PER_MILE = 0.02;
+const MIN_EFFORT_RATIO = 0.5;
+const MAX_EFFORT_RATIO = 3;
+
+export interface ActivityAlignment {
+  method: 'gps' | 'distance'; // GPS matches the last point to the course; distance trusts the watch
+  activityMiles: number; // Distance recorded by the watch
+  courseMiles: number; // Where that is on the course
+  scale: number; // courseMiles ÷ activityMiles, applied to every record
+}
+
+export interface CompletedLeg {
+  segmentIndex: number;
+  segmentId: number | null;
+  checkpointName: string;
+  split: CheckpointSplitAnalysis;
+  plannedMinutes: number;
+  plannedPace: number; // min/mile
+  effortRatio: number; // Actual ÷ planned on grade-adjusted pace, 1.1 is 10% slower
+}
+
+export interface RecalibratedLeg {
+  segmentIndex: number;
+  segmentId: number | null;
+  checkpointName: string;
+  plannedMinutes: number;
+  recalibratedMinutes: number;
+  effortRatio: number;
+}
+
+export interface MidRaceRecalibration {
+  alignment: ActivityAlignment;
+  completedLegs: CompletedLeg[];
+  remainingLegs: RecalibratedLeg[];
+  effortRatio: number; // At the activity's last point
+  fadePer10Miles: number; // Extra slowdown per 10 miles, as a fraction
+  plannedFinish: Date | null;
+  recalibratedFinish: Date | null;
+  cutoffReport: CutoffReport | null; // Remaining checkpoints with the recalibrated times
+}
+
+/**
+ * Put a partial activity on the course's distance scale. With GPS on both, the
+ * activity's last point is matched to the nearest course point near the watch
+ * distance; otherwise the watch distance is used as it is.
+ */
+export function alignActivityToCourse(
+  activity: ParsedFITData,
+  segments: Segment[],
+  courseGpxContent: string | null
+): { data: ParsedFITData; alignment: ActivityAlignment } {
+  const activityMiles = activity.records[activity.records.length - 1]?.distance ?? 0;
+  const lastWithPosition = [...activity.records].reverse().find(record => record.lat != null && record.lon != null);
+  const courseTotal = segments[segments.length - 1]?.cumulative_distance_miles ?? 0;
+
+  let courseMiles: number | null = null;
+  if (courseGpxContent && lastWithPosition && activityMiles > 0) {
+    const trackPoints = getGPXTrackPoints(courseGpxContent);
+    let trackMiles = 0;
+    const trackDistances = trackPoints.map((point, index) => {
+      if (index > 0) {
+        const previous = trackPoints[index - 1];
+        trackMiles += calculateDistance({ lat: previous.lat, lng: previous.lon }, { lat: point.lat, lng: point.lon }) / METERS_PER_MILE;
+      }
+      return trackMiles;
+    });
+    // Checkpoint distances can differ a little from the GPX track's own length
+    const toCourseScale = trackMiles > 0 && courseTotal > 0 ? courseTotal / trackMiles : 1;
+
+    // Only look near the watch distance, so loops and out-and-backs match the right pass
+    let nearestMeters = Infinity;
+    let nearestMiles = 0;
+    trackPoints.forEach((point, index) => {
+      const miles = trackDistances[index] * toCourseScale;
+      if (miles < activityMiles * 0.7 || miles > activityMiles * 1.3 + 1) return;
+      const meters = calculateDistance({ lat: point.lat, lng: point.lon }, { lat: lastWithPosition.lat!, lng: lastWithPosition.lon! });
+      if (meters < nearestMeters) {
+        nearestMeters = meters;
+        nearestMiles = miles;
+      }
+    });
+
+    if (nearestMeters <= MAX_ALIGNMENT_OFFSET_METERS) {
+      courseMiles = nearestMiles;
+    }
+  }
+
+  const scale = courseMiles !== null && activityMiles > 0 ? courseMiles / activityMiles : 1;
+  const records = activity.records.map(record => ({
+    ...record,
+    distance: record.distance * scale,
+    speed: record.speed !== undefined ? record.speed * scale : undefined,
+    pace: record.pace !== undefined ? record.pace / scale : undefined,
+  }));
+
+  return {
+    data: { ...activity, records, totalDistance: activityMiles * scale },
+    alignment: {
+      method: courseMiles !== null ? 'gps' : 'distance',
+      activityMiles,
+      courseMiles: activityMiles * scale,
+      scale,
+    },
+  };
+}
+
+/**
+ * Measure the completed legs of a partial activity and rescale the rest of the plan
+ * @returns null when the activity doesn't cover a whole leg yet
+ */
+export function recalibrateFromActivity(
+  race: Race,
+  segments: Segment[],
+  activity: ParsedFITData,
+  courseGpxContent: string | null
+): MidRaceRecalibration | null {
+  const { data, alignment } = alignActivityToCourse(activity, segments, courseGpxContent);
+  const completedCount = segments.filter(
+    segment => segment.cumulative_distance_miles <= alignment.courseMiles + CHECKPOINT_TOLERANCE_MILES
+  ).length;
+  if (completedCount === 0) return null;
+
+  const completedLegs = calculateSplitAnalysis(segments.slice(0, completedCount), data)
+    .map((split): CompletedLeg | null => {
+      const segment = segments[split.segmentIndex];
+      const plannedMinutes = segment.predicted_segment_time_minutes || 0;
+      if (plannedMinutes <= 0 || split.segmentDistance <= 0) return null;
+
+      // Compare like with like: the leg's grade-adjusted pace against the planned pace adjusted for the same grade
+      const plannedPace = plannedMinutes / split.segmentDistance;
+      const effortRatio = split.avgGAP
+        ? split.avgGAP / calculateGAP(plannedPace, split.avgGrade)
+        : split.actualPace / plannedPace;
+
+      return {
+        segmentIndex: split.segmentIndex,
+        segmentId: segment.id ?? null,
+        checkpointName: segment.checkpoint_name,
+        split,
+        plannedMinutes,
+        plannedPace,
+        effortRatio: Math.min(MAX_EFFORT_RATIO, Math.max(MIN_EFFORT_RATIO, effortRatio)),
+      };
+    })
+    .filter((leg): leg is CompletedLeg => leg !== null);
+  if (completedLegs.length === 0) return null;
+
+  // Distance-weighted straight line through the leg ratios, by leg midpoint
+  const points = completedLegs.map(leg => ({
+    x: leg.split.cumulativeDistance - leg.split.segmentDistance / 2,
+    y: leg.effortRatio,
+    w: leg.split.segmentDistance,
+  }));
+  const totalWeight = points.reduce((sum, p) => sum + p.w, 0);
+  const meanX = points.reduce((sum, p) => sum + p.x * p.w, 0) / totalWeight;
+  const meanY = points.reduce((sum, p) => sum + p.y * p.w, 0) / totalWeight;
+  const covariance = points.reduce((sum, p) => sum + p.w * (p.x - meanX) * (p.y - meanY), 0);
+  const variance = points.reduce((sum, p) => sum + p.w * (p.x - meanX) ** 2, 0);
+  const fadePerMile = points.length > 1 && variance > 0
+    ? Math.min(MAX_FADE_PER_MILE, Math.max(0, covariance / variance))
+    : 0;
+  const ratioAt = (miles: number) =>
+    Math.min(MAX_EFFORT_RATIO, Math.max(MIN_EFFORT_RATIO, meanY + fadePerMile * (miles - meanX)));
+
+  const remainingLegs = segments.slice(completedCount).map((segment, offset): RecalibratedLeg => {
+    const midpoint = segment.cumulative_distance_miles - segment.segment_distance_miles / 2;
+    const plannedMinutes = segment.predicted_segment_time_minutes || 0;
+    const effortRatio = ratioAt(midpoint);
+    return {
+      segmentIndex: completedCount + offset,
+      segmentId: segment.id ?? null,
+      checkpointName: segment.checkpoint_name,
+      plannedMinutes,
+      recalibratedMinutes: Math.round(plannedMinutes * effortRatio * 10) / 10,
+      effortRatio,
+    };
+  });
+
+  // Forecast with the measured times so far and the rescaled times from here on
+  const measured = new Map(completedLegs.map(leg => [leg.segmentIndex, leg.split.actualTime]));
+  const forecastSegments = segments.map((segment, index) => ({
+    ...segment,
+    predicted_segment_time_minutes: index < completedCount
+      ? measured.get(index) ?? segment.predicted_segment_time_minutes
+      : remainingLegs[index - completedCount].recalibratedMinutes,
+  }));
+  const lastIndex = segments.length - 1;
+  const cutoffReport = analyzeCutoffs(race.start_date_time, forecastSegments, race.timezone, undefined, race.stages);
+
+  return {
+    alignment,
+    completedLegs,
+    remainingLegs,
+    effortRatio: ratioAt(alignment.courseMiles),
+    fadePer10Miles: fadePerMile * 10,
+    plannedFinish: calculateSegmentETA(race.start_date_time, segments, lastIndex, race.timezone, race.stages)?.eta ?? null,
+    recalibratedFinish: calculateSegmentETA(race.start_date_time, forecastSegments, lastIndex, race.timezone, race.stages)?.eta ?? null,
+    cutoffReport: cutoffReport ? remainingCutoffs(cutoffReport, completedCount) : null,
+  };
+}
+
+// Cut-offs still ahead, with the tightest worked out among those only
+function remainingCutoffs(report: CutoffReport, completedCount: number): CutoffReport {
+  const checkpoints = report.checkpoints.filter(checkpoint => checkpoint.segmentIndex >= completedCount);
+  const tightest = checkpoints.reduce<CutoffReport['tightest']>(
+    (min, checkpoint) => (!min || checkpoint.bufferMinutes < min.bufferMinutes ? checkpoint : min),
+    null
+  );
+  return { ...report, checkpoints, tightest };
+}
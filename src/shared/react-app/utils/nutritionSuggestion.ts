@@ -212,7 +212,7 @@ function isExcludedProduct(product: NutritionProduct): boolean {
 /**
  * Filter products to only include race-appropriate energy products
  */
-function filterEnergyProducts(products: NutritionProduct[]): NutritionProduct[] {
+export function filterEnergyProducts(products: NutritionProduct[]): NutritionProduct[] {
   return products.filter(p => !isExcludedProduct(p));
 }
 
@@ -392,7 +392,7 @@ function getRealFoodProducts(
 /**
  * Check if a product is plain water
  */
-function isWaterProduct(product: NutritionProduct): boolean {
+export function isWaterProduct(product: NutritionProduct): boolean {
   return product.name.toLowerCase() === 'water';
 }
 
@@ -464,7 +464,7 @@ function isDrinkMixProduct(product: NutritionProduct): boolean {
  * Get the water contribution from a product
  * For drink mixes with 0ml listed, assume 500ml per serving when mixed
  */
-function getEffectiveWater(product: NutritionProduct): number {
+export function getEffectiveWater(product: NutritionProduct): number {
   // If product already has water content, use it
   if (product.defaultWater > 0) {
     return product.defaultWater;
@@ -481,7 +481,7 @@ function getEffectiveWater(product: NutritionProduct): number {
 /**
  * Calculate coverage percentages
  */
-function calculateCoverage(
+export function calculateCoverage(
   totals: { carbs: number; sodium: number; water: number },
   target: NutritionTarget
 ): { carbs: number; sodium: number; water: number } {
@@ -496,7 +496,7 @@ function calculateCoverage(
  * Score a plan - higher score for better coverage
  * Uses aligned thresholds matching segment progress bars
  */
-function scorePlan(coverage: { carbs: number; sodium: number; water: number }): number {
+export function scorePlan(coverage: { carbs: number; sodium: number; water: number }): number {
   let score = 100;
 
   // Carbs scoring (uses stricter 90-120% range)
@@ -1439,13 +1439,14 @@ export function quickSuggest(
 /**
  * Convert plan to NutritionItem[] for saving
  */
-export function planToNutritionItems(plan: NutritionPlan): Array<{
+export function planToNutritionItems(plan: Pick<NutritionPlan, 'products'>): Array<{
   id: string;
   productName: string;
   quantity: number;
   carbsPerServing: number;
   sodiumPerServing: number;
   waterPerServing: number;
+  caffeinePerServing?: number;
   servingSize: string;
   isCustom: boolean;
   isEditingCarbs: boolean;
@@ -1459,6 +1460,7 @@ export function planToNutritionItems(plan: NutritionPlan): Array<{
     carbsPerServing: item.product.defaultCarbs,
     sodiumPerServing: item.product.defaultSodium,
     waterPerServing: item.quantity > 0 ? item.contributes.water / item.quantity : item.product.defaultWater,  // Use effective water per serving
+    caffeinePerServing: item.product.defaultCaffeine || undefined,
     servingSize: item.product.servingSize,
     isCustom: false,
     isEditingCarbs: false,
@@ -0,0 +1,160 @@
+/**
+ * Plan History Utilities
+ *
+ * Compares a saved snapshot of a race plan with another plan (usually the
+ * current one), checkpoint by checkpoint: pace, ETA, nutrition items and notes.
+ * Snapshots are taken and restored by LocalStorageService.
+ */
+
+import type { NutritionItem, PlanSnapshot, Segment } from '@/shared/types';
+import { calculateSegmentETA, formatFullDate } from './etaCalculations';
+import { formatPace } from './raceTimeSummary';
+
+// What a plan comparison looks at; the current plan is built from the same fields
+export type PlanContents = Pick<PlanSnapshot, 'race' | 'segments' | 'elevationLabels' | 'autoPaceSettings'>;
+
+export type PlanChangeField = 'pace' | 'eta' | 'nutrition' | 'notes';
+
+export interface PlanFieldChange {
+  field: PlanChangeField;
+  before: string;
+  after: string;
+}
+
+export interface CheckpointDiff {
+  segmentId: number;
+  checkpointName: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged'; // Added or removed since the earlier plan
+  changes: PlanFieldChange[];
+}
+
+export interface PlanDiff {
+  checkpoints: CheckpointDiff[]; // In course order
+  raceChanges: string[]; // Race-level settings that differ, e.g. "Start time"
+  changedCount: number; // Checkpoints added, removed or changed
+}
+
+export const PLAN_CHANGE_LABELS: Record<PlanChangeField, string> = {
+  pace: 'Pace',
+  eta: 'ETA',
+  nutrition: 'Nutrition',
+  notes: 'Notes',
+};
+
+/**
+ * Differences between an earlier plan (before) and a later one (after), on the
+ * later plan's active route
+ */
+export function diffPlans(before: PlanContents, after: PlanContents): PlanDiff {
+  const routeVariantId = after.race.active_route_variant_id ?? null;
+  const onRoute = (segments: Segment[]) => segments
+    .filter(segment => segment.id != null && (segment.route_variant_id ?? null) === routeVariantId)
+    .sort((a, b) => a.segment_order - b.segment_order);
+
+  const beforeSegments = onRoute(before.segments);
+  const afterSegments = onRoute(after.segments);
+  const beforeDetails = describeCheckpoints(before, beforeSegments);
+  const afterDetails = describeCheckpoints(after, afterSegments);
+  const beforeById = new Map(beforeSegments.map((segment, index) => [segment.id!, index]));
+  const afterIds = new Set(afterSegments.map(segment => segment.id!));
+
+  const entries: Array<{ order: number; diff: CheckpointDiff }> = afterSegments.map((segment, index) => {
+    const beforeIndex = beforeById.get(segment.id!);
+    if (beforeIndex === undefined) {
+      return {
+        order: segment.segment_order,
+        diff: { segmentId: segment.id!, checkpointName: segment.checkpoint_name, status: 'added', changes: [] },
+      };
+    }
+
+    const changes = (Object.keys(PLAN_CHANGE_LABELS) as PlanChangeField[])
+      .filter(field => beforeDetails[beforeIndex][field] !== afterDetails[index][field])
+      .map(field => ({ field, before: beforeDetails[beforeIndex][field], after: afterDetails[index][field] }));
+
+    return {
+      order: segment.segment_order,
+      diff: {
+        segmentId: segment.id!,
+        checkpointName: segment.checkpoint_name,
+        status: changes.length > 0 ? 'changed' : 'unchanged',
+        changes,
+      },
+    };
+  });
+
+  beforeSegments.forEach(segment => {
+    if (!afterIds.has(segment.id!)) {
+      entries.push({
+        order: segment.segment_order,
+        diff: { segmentId: segment.id!, checkpointName: segment.checkpoint_name, status: 'removed', changes: [] },
+      });
+    }
+  });
+
+  const checkpoints = entries.sort((a, b) => a.order - b.order).map(entry => entry.diff);
+
+  return {
+    checkpoints,
+    raceChanges: diffRaceSettings(before, after),
+    changedCount: checkpoints.filter(checkpoint => checkpoint.status !== 'unchanged').length,
+  };
+}
+
+/**
+ * Short summary of nutrition items, e.g. "2× Maurten Gel 100, 1× Banana"
+ */
+export function summarizeNutritionItems(itemsJson: string | null | undefined): string {
+  if (!itemsJson) return 'None';
+  try {
+    const items: NutritionItem[] = JSON.parse(itemsJson);
+    const summary = items
+      .filter(item => item.quantity > 0)
+      .map(item => `${item.quantity}× ${item.productName}`)
+      .sort()
+      .join(', ');
+    return summary || 'None';
+  } catch {
+    return 'None';
+  }
+}
+
+// Displayed value of each compared field, so equal strings mean no visible change
+function describeCheckpoints(plan: PlanContents, segments: Segment[]): Array<Record<PlanChangeField, string>> {
+  const timezone = plan.race.timezone ?? undefined;
+
+  return segments.map((segment, index) => {
+    const minutes = segment.predicted_segment_time_minutes;
+    const pace = minutes && segment.segment_distance_miles > 0 ? minutes / segment.segment_distance_miles : 0;
+    const eta = calculateSegmentETA(plan.race.start_date_time, segments, index, plan.race.timezone, plan.race.stages);
+
+    return {
+      pace: pace > 0 ? `${formatPace(pace)} /mi` : 'Not set',
+      eta: eta ? formatFullDate(eta.eta, timezone) : 'No start time',
+      nutrition: summarizeNutritionItems(segment.segment_nutrition_items),
+      notes: segment.notes?.trim() || 'None',
+    };
+  });
+}
+
+function diffRaceSettings(before: PlanContents, after: PlanContents): string[] {
+  const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+  const labels = (plan: PlanContents) => plan.elevationLabels.map(label => [label.distance_miles, label.label]);
+  // Timestamps change on every recalculation, so compare what drives the paces
+  const paceSettings = (plan: PlanContents) => plan.autoPaceSettings
+    ? { ...plan.autoPaceSettings, lastCalculated: undefined, fitFileKey: undefined }
+    : null;
+
+  const checks: Array<[string, unknown, unknown]> = [
+    ['Race name', before.race.name, after.race.name],
+    ['Distance', before.race.distance_miles, after.race.distance_miles],
+    ['Start time', before.race.start_date_time, after.race.start_date_time],
+    ['Timezone', before.race.timezone, after.race.timezone],
+    ['Stages', before.race.stages, after.race.stages],
+    ['Hours awake at start', before.race.awake_hours_at_start, after.race.awake_hours_at_start],
+    ['Mandatory kit', before.race.mandatory_kit, after.race.mandatory_kit],
+    ['Elevation labels', labels(before), labels(after)],
+    ['Auto-pace settings', paceSettings(before), paceSettings(after)],
+  ];
+
+  return checks.filter(([, a, b]) => !same(a, b)).map(([label]) => label);
+}
@@ -92,6 +92,25 @@ export function clearAllIntolerances(): void {
   localStorage.removeItem(STORAGE_KEY);
 }
 
+/**
+ * Restore intolerance logs from a workspace backup
+ * @param overwrite - Replace the current log instead of adding entries not already present
+ * @returns Number of entries added
+ */
+export function restoreProductIntolerances(intolerances: ProductIntolerance[], overwrite: boolean = false): number {
+  if (overwrite) {
+    saveProductIntolerances(intolerances);
+    return intolerances.length;
+  }
+
+  const existing = getProductIntolerances();
+  const existingIds = new Set(existing.map(i => i.id));
+  const added = intolerances.filter(i => !existingIds.has(i.id));
+
+  saveProductIntolerances([...existing, ...added]);
+  return added.length;
+}
+
 // ============================================
 // QUERIES
 // ============================================
@@ -0,0 +1,259 @@
+/**
+ * Race Day Forecast
+ *
+ * Compares the splits logged on race day with the plan and re-forecasts the
+ * rest of the race. Moving time on the completed legs gives a slowdown factor
+ * (actual ÷ planned, recent legs weighted most) that's applied to every
+ * remaining leg; planned checkpoint stops are kept as they are.
+ *
+ * Energy balance is recomputed the same way: actual leg times and what was
+ * actually eaten where they've been logged, the forecast and plan elsewhere.
+ */
+
+import type { AthleteMetricsForEnergy, EnergyBalanceCalculation, NutritionItem, Race, RaceDayLog, Segment } from '@/shared/types';
+import { calculateSegmentETA } from './etaCalculations';
+import { getCheckpointStopMinutes } from './raceTimeSummary';
+import { getCutoffWarningMinutes, resolveCutoffTimes, type CutoffRisk } from './cutoffAnalysis';
+import { getCampSleepMinutes, getStageClocks } from './stageCalculations';
+import { calculateSegmentEnergyBalance } from './energyBalance';
+
+// Each older leg counts this much as the one after it when learning the slowdown
+const RECENT_LEG_WEIGHT = 0.7;
+const MIN_SLOWDOWN_FACTOR = 0.5;
+const MAX_SLOWDOWN_FACTOR = 3;
+
+export type RaceDayCheckpointStatus = 'passed' | 'here' | 'next' | 'ahead';
+
+export interface RaceDayCheckpoint {
+  segmentIndex: number;
+  segmentId: number | null;
+  checkpointName: string;
+  distanceMiles: number;
+  status: RaceDayCheckpointStatus;
+  plannedArrival: Date | null;
+  plannedDeparture: Date | null;
+  actualArrival: Date | null;
+  actualDeparture: Date | null;
+  arrival: Date | null; // Actual where logged, otherwise forecast
+  departure: Date | null;
+  arrivalDeltaMinutes: number | null; // Arrival against the plan, positive is behind
+  legMinutes: number | null; // Moving time on the leg into this checkpoint
+  legActual: boolean; // legMinutes was measured rather than forecast
+  cutoff: Date | null;
+  cutoffBufferMinutes: number | null;
+  cutoffRisk: CutoffRisk | null;
+}
+
+export interface RaceDayForecast {
+  start: Date | null;
+  checkpoints: RaceDayCheckpoint[];
+  slowdownFactor: number; // 1 is on plan, 1.1 is 10% slower
+  legsMeasured: number;
+  finish: Date | null;
+  finishDeltaMinutes: number | null;
+  tightestCutoff: RaceDayCheckpoint | null; // Smallest buffer at a checkpoint not reached yet
+}
+
+export interface RaceDayEnergyPoint {
+  segmentId: number | null;
+  checkpointName: string;
+  balance: EnergyBalanceCalculation;
+  actual: boolean; // Leg time and nutrition both come from the log
+}
+
+/**
+ * Re-forecast a race from its race-day log
+ * @param now Used to keep the next arrival (and a departure still pending) from being forecast in the past
+ */
+export function buildRaceDayForecast(
+  race: Race,
+  segments: Segment[],
+  log: RaceDayLog,
+  now: Date = new Date(),
+  warningThresholdMinutes: number = getCutoffWarningMinutes()
+): RaceDayForecast {
+  const stageClocks = getStageClocks(race.start_date_time, segments, race.stages);
+  const plannedStart = stageClocks?.[0].start ?? (race.start_date_time ? new Date(race.start_date_time) : null);
+  const start = log.startedAt ? new Date(log.startedAt) : plannedStart;
+  const cutoffs = race.start_date_time ? resolveCutoffTimes(race.start_date_time, segments, race.timezone) : [];
+  const splits = new Map(log.splits.map(split => [split.segmentId, split]));
+  const toDate = (value: string | null | undefined) => (value ? new Date(value) : null);
+  const addMinutes = (date: Date | null, minutes: number) => (date ? new Date(date.getTime() + minutes * 60000) : null);
+
+  // When the leg into segments[index] starts, given the departure from the checkpoint before it
+  const legStart = (index: number, previousDeparture: Date | null): Date | null => {
+    if (index === 0) return start;
+    const clock = stageClocks?.[index];
+    if (!stageClocks || !clock || clock.firstSegmentIndex !== index || !previousDeparture) return previousDeparture;
+
+    // New stage: its fixed start, or after the overnight stop at the previous stage's camp
+    const fixedStart = toDate(race.stages?.[clock.stageIndex]?.start_date_time);
+    if (fixedStart) return fixedStart > previousDeparture ? fixedStart : previousDeparture;
+    const stage = race.stages?.[stageClocks[index - 1].stageIndex];
+    return addMinutes(previousDeparture, stage ? getCampSleepMinutes(stage, segments[index - 1]) : 0);
+  };
+
+  const actuals = segments.map(segment => {
+    const split = segment.id != null ? splits.get(segment.id) : undefined;
+    return { arrival: toDate(split?.arrivedAt), departure: toDate(split?.departedAt) };
+  });
+  // A checkpoint with only an arrival logged is left after its planned stop
+  const effectiveDeparture = (index: number) =>
+    actuals[index].departure ?? addMinutes(actuals[index].arrival, getCheckpointStopMinutes(segments[index]));
+
+  // Learn the slowdown from legs with an actual start and arrival
+  const measuredLegs: Array<{ actual: number; planned: number }> = [];
+  segments.forEach((segment, index) => {
+    const from = legStart(index, index === 0 ? null : effectiveDeparture(index - 1));
+    const arrival = actuals[index].arrival;
+    const planned = segment.predicted_segment_time_minutes || 0;
+    if (from && arrival && planned > 0 && arrival > from) {
+      measuredLegs.push({ actual: (arrival.getTime() - from.getTime()) / 60000, planned });
+    }
+  });
+
+  let weightedActual = 0;
+  let weightedPlanned = 0;
+  measuredLegs.reverse().forEach((leg, legsAgo) => {
+    const weight = Math.pow(RECENT_LEG_WEIGHT, legsAgo);
+    weightedActual += leg.actual * weight;
+    weightedPlanned += leg.planned * weight;
+  });
+  const slowdownFactor = weightedPlanned > 0
+    ? Math.min(MAX_SLOWDOWN_FACTOR, Math.max(MIN_SLOWDOWN_FACTOR, weightedActual / weightedPlanned))
+    : 1;
+
+  const lastReached = actuals.reduce((last, actual, index) => (actual.arrival || actual.departure ? index : last), -1);
+  const inProgress = log.entries.length > 0;
+
+  let previousDeparture: Date | null = null;
+  const checkpoints = segments.map((segment, index): RaceDayCheckpoint => {
+    const eta = calculateSegmentETA(race.start_date_time, segments, index, race.timezone, race.stages);
+    const stopMinutes = getCheckpointStopMinutes(segment);
+    const plannedDeparture = eta?.eta ?? null;
+    const plannedArrival = addMinutes(plannedDeparture, -stopMinutes);
+    const { arrival: actualArrival, departure: actualDeparture } = actuals[index];
+
+    const status: RaceDayCheckpointStatus = index < lastReached
+      ? 'passed'
+      : index === lastReached
+        ? (actualDeparture || index === segments.length - 1 ? 'passed' : 'here')
+        : index === lastReached + 1 ? 'next' : 'ahead';
+
+    const from = legStart(index, previousDeparture);
+    let arrival = actualArrival ?? (actualDeparture ? addMinutes(actualDeparture, -stopMinutes) : null);
+    if (!arrival) {
+      arrival = addMinutes(from, (segment.predicted_segment_time_minutes || 0) * slowdownFactor);
+      if (arrival && status === 'next' && inProgress && arrival < now) arrival = now;
+    }
+
+    let departure = actualDeparture ?? addMinutes(arrival, stopMinutes);
+    if (departure && status === 'here' && departure < now) departure = now;
+    previousDeparture = departure;
+
+    const cutoff = cutoffs[index] ?? null;
+    const cutoffBufferMinutes = cutoff && arrival ? Math.round((cutoff.getTime() - arrival.getTime()) / 60000) : null;
+
+    return {
+      segmentIndex: index,
+      segmentId: segment.id ?? null,
+      checkpointName: segment.checkpoint_name,
+      distanceMiles: segment.cumulative_distance_miles,
+      status,
+      plannedArrival,
+      plannedDeparture,
+      actualArrival,
+      actualDeparture,
+      arrival,
+      departure,
+      arrivalDeltaMinutes: arrival && plannedArrival ? Math.round((arrival.getTime() - plannedArrival.getTime()) / 60000) : null,
+      legMinutes: arrival && from ? Math.max(0, (arrival.getTime() - from.getTime()) / 60000) : null,
+      legActual: !!actualArrival && !!from && (index === 0 || !!actuals[index - 1].arrival || !!actuals[index - 1].departure),
+      cutoff,
+      cutoffBufferMinutes,
+      cutoffRisk: cutoffBufferMinutes === null
+        ? null
+        : cutoffBufferMinutes < 0 ? 'missed' : cutoffBufferMinutes < warningThresholdMinutes ? 'warning' : 'safe',
+    };
+  });
+
+  const finishCheckpoint = checkpoints[checkpoints.length - 1];
+  const tightestCutoff = checkpoints
+    .filter(checkpoint => !checkpoint.actualArrival && checkpoint.cutoffBufferMinutes !== null)
+    .reduce<RaceDayCheckpoint | null>(
+      (min, checkpoint) => (!min || checkpoint.cutoffBufferMinutes! < min.cutoffBufferMinutes! ? checkpoint : min),
+      null
+    );
+
+  return {
+    start,
+    checkpoints,
+    slowdownFactor,
+    legsMeasured: measuredLegs.length,
+    finish: finishCheckpoint?.arrival ?? null,
+    finishDeltaMinutes: finishCheckpoint?.arrivalDeltaMinutes ?? null,
+    tightestCutoff,
+  };
+}
+
+/**
+ * What was eaten on the leg into a checkpoint: the logged items, or the plan
+ */
+export function getEatenItems(segment: Segment, log: RaceDayLog): NutritionItem[] {
+  const split = log.splits.find(s => s.segmentId === segment.id);
+  if (split?.eaten) return split.eaten;
+  if (!segment.segment_nutrition_items) return [];
+  try {
+    const items: NutritionItem[] = JSON.parse(segment.segment_nutrition_items);
+    return Array.isArray(items) ? items : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Energy balance at every checkpoint using the actual leg times and what was
+ * actually eaten where logged, and the forecast times and planned nutrition elsewhere
+ */
+export function calculateRaceDayEnergy(
+  segments: Segment[],
+  log: RaceDayLog,
+  forecast: RaceDayForecast,
+  athleteMetrics: AthleteMetricsForEnergy
+): RaceDayEnergyPoint[] {
+  let cumulativeBurned = 0;
+  let cumulativeConsumed = 0;
+  let cumulativeDistance = 0;
+  let cumulativeTimeHours = 0;
+
+  return segments.map((segment, index) => {
+    const checkpoint = forecast.checkpoints[index];
+    const legMinutes = checkpoint?.legMinutes ?? (segment.predicted_segment_time_minutes || 0);
+    const eatenLogged = !!log.splits.find(s => s.segmentId === segment.id)?.eaten;
+    const eatenSegment = { ...segment, segment_nutrition_items: JSON.stringify(getEatenItems(segment, log)) };
+
+    const balance = calculateSegmentEnergyBalance(
+      eatenSegment,
+      legMinutes,
+      0,
+      0,
+      cumulativeBurned,
+      cumulativeConsumed,
+      cumulativeDistance,
+      cumulativeTimeHours,
+      athleteMetrics
+    );
+
+    cumulativeBurned += balance.segmentCaloriesBurned;
+    cumulativeConsumed += balance.segmentCaloriesConsumed;
+    cumulativeDistance += segment.segment_distance_miles;
+    cumulativeTimeHours += legMinutes / 60;
+
+    return {
+      segmentId: segment.id ?? null,
+      checkpointName: segment.checkpoint_name,
+      balance,
+      actual: !!checkpoint?.legActual && eatenLogged,
+    };
+  });
+}
@@ -0,0 +1,306 @@
+/**
+ * Race-Wide Nutrition Optimizer
+ *
+ * Plans nutrition for every leg at once instead of one segment at a time, so the
+ * whole race stays varied and within limits.
+ *
+ * Constraints:
+ * - Per-leg carb, sodium and water goals (same targets as Smart Nutrition)
+ * - Variety: at most N different products in a leg
+ * - Palate fatigue: at most N servings of any product across the race (water is exempt)
+ * - Drop bags: bulky products (real food, bottled drinks) only go on legs leaving
+ *   the start, a drop bag or a crewed checkpoint
+ * - Caffeine: only on legs where caffeineRecommendations.ts suggests a dose, and
+ *   never past the race-wide cap
+ * - Products marked "exclude from Smart Fill" are never used
+ *
+ * Legs are filled in race order with a greedy search that favours products the
+ * race has used least.
+ */
+
+import type { NutritionItem, Race, Segment } from '@/shared/types';
+import { localStorageService } from '../services/localStorage';
+import { NUTRITION_DATABASE, type NutritionCategory, type NutritionProduct } from './nutritionDatabase';
+import {
+  calculateCoverage,
+  calculateNutritionTargets,
+  filterEnergyProducts,
+  getEffectiveWater,
+  isWaterProduct,
+  planToNutritionItems,
+  scorePlan,
+  type NutritionTarget,
+  type ProductSuggestion,
+} from './nutritionSuggestion';
+import { getMaxCaffeineMg, shouldConsumeCaffeineInSegment } from './caffeineRecommendations';
+import { calculateSegmentETA } from './etaCalculations';
+
+export interface RaceNutritionOptions {
+  maxProductsPerLeg: number; // Different products in one leg
+  maxServingsPerProduct: number; // Servings of one product across the race
+  bodyWeightKg: number; // 0 when unknown
+  caffeineCapMg?: number; // Defaults to getMaxCaffeineMg(bodyWeightKg)
+}
+
+export const DEFAULT_RACE_NUTRITION_OPTIONS: RaceNutritionOptions = {
+  maxProductsPerLeg: 4,
+  maxServingsPerProduct: 10,
+  bodyWeightKg: 0,
+};
+
+export interface LegNutritionPlan {
+  segmentIndex: number;
+  segmentId: number | null;
+  checkpointName: string;
+  target: NutritionTarget;
+  products: ProductSuggestion[];
+  totals: { carbs: number; sodium: number; water: number; caffeine: number };
+  coveragePercent: { carbs: number; sodium: number; water: number };
+  score: number;
+  restock: boolean; // Leaves the start, a drop bag or crew
+  caffeineAllowed: boolean;
+}
+
+export interface RaceNutritionPlan {
+  legs: LegNutritionPlan[];
+  productUsage: Array<{ name: string; servings: number }>; // Most used first
+  totalCaffeineMg: number;
+  caffeineCapMg: number;
+  averageScore: number;
+  warnings: string[];
+}
+
+// Stop adding to a leg before any nutrient goes past these (% of target)
+const MAX_COVERAGE = { carbs: 110, sodium: 120, water: 130 };
+const MAX_SERVINGS_PER_LEG_HOUR = 2; // Servings of one product per hour of a leg
+const MAX_ITERATIONS_PER_LEG = 40;
+
+// Map user product categories to NutritionProduct categories, including old lowercase ones
+const CATEGORY_MAP: Record<string, NutritionCategory> = {
+  'Gels': 'Gels',
+  'Drinks': 'Drinks',
+  'Electrolytes': 'Electrolytes',
+  'Bars': 'Bars',
+  'Real Food': 'Real Food',
+  'Other': 'Other',
+  'gel': 'Gels',
+  'drink': 'Drinks',
+  'bar': 'Bars',
+  'electrolyte': 'Electrolytes',
+  'hydration': 'Drinks',
+  'supplement': 'Other',
+  'logistics': 'Other',
+};
+
+/**
+ * Products Smart Fill can use: the user's library (minus excluded products) and the built-in database
+ */
+export function getSmartFillProducts(): NutritionProduct[] {
+  const userProducts = localStorageService.getUserNutritionProducts();
+  const included = userProducts.filter(p => !p.excludeFromSmartFill);
+
+  const userAsProducts: NutritionProduct[] = included.map(p => ({
+    name: p.name,
+    defaultCarbs: p.carbsPerServing,
+    defaultSodium: p.sodiumPerServing,
+    defaultWater: p.waterPerServing,
+    defaultCaffeine: p.caffeinePerServing || 0,
+    servingSize: p.servingSize,
+    category: CATEGORY_MAP[p.category || 'Other'] || 'Gels',
+  }));
+
+  // An excluded user product also hides the database product of the same name
+  const userNames = new Set(userProducts.map(p => p.name.toLowerCase()));
+  return [...userAsProducts, ...NUTRITION_DATABASE.filter(p => !userNames.has(p.name.toLowerCase()))];
+}
+
+/**
+ * Whether a product is too bulky to carry from the start and needs a drop bag or crew
+ */
+export function needsRestock(product: NutritionProduct): boolean {
+  if (isWaterProduct(product)) return false;
+  return product.category === 'Real Food' || (product.category === 'Drinks' && product.defaultWater > 0);
+}
+
+/**
+ * Whether the leg into a checkpoint leaves somewhere the runner can restock
+ */
+export function isRestockLeg(segments: Segment[], segmentIndex: number): boolean {
+  if (segmentIndex === 0) return true;
+  const previous = segments[segmentIndex - 1];
+  return !!previous.drop_bag || !!previous.support_crew_present;
+}
+
+/**
+ * Plan nutrition for every leg of a race
+ */
+export function optimizeRaceNutrition(
+  race: Race,
+  segments: Segment[],
+  availableProducts: NutritionProduct[],
+  options: RaceNutritionOptions = DEFAULT_RACE_NUTRITION_OPTIONS
+): RaceNutritionPlan {
+  const warnings: string[] = [];
+  const caffeineCapMg = options.caffeineCapMg ?? getMaxCaffeineMg(options.bodyWeightKg);
+  const products = filterEnergyProducts(availableProducts).filter(p =>
+    p.defaultCarbs > 0 || p.defaultSodium > 0 || p.defaultWater > 0
+  );
+
+  const totalDistance = segments.reduce((sum, s) => sum + (s.segment_distance_miles || 0), 0);
+  const usage = new Map<string, number>();
+  let totalCaffeineMg = 0;
+  let elapsedHours = 0;
+
+  if (products.length === 0) {
+    warnings.push('No usable products. Add gels, drinks, bars or electrolytes to your library.');
+  }
+
+  const legs = segments.map((segment, segmentIndex): LegNutritionPlan => {
+    const minutes = segment.predicted_segment_time_minutes || 0;
+    const target = calculateNutritionTargets(
+      minutes,
+      segment.carb_goal_per_hour ?? 60,
+      segment.sodium_goal_per_hour ?? 300,
+      segment.water_goal_per_hour ?? 500
+    );
+    const restock = isRestockLeg(segments, segmentIndex);
+    elapsedHours += minutes / 60;
+
+    const eta = calculateSegmentETA(race.start_date_time, segments, segmentIndex, race.timezone, race.stages);
+    const caffeineAllowed = shouldConsumeCaffeineInSegment(
+      segmentIndex,
+      segments.length,
+      segment.cumulative_distance_miles || 0,
+      totalDistance || 1,
+      elapsedHours,
+      !!eta?.needsHeadtorch,
+      totalCaffeineMg,
+      options.bodyWeightKg
+    ).recommended;
+
+    const quantities = new Map<string, { product: NutritionProduct; quantity: number }>();
+    const totals = { carbs: 0, sodium: 0, water: 0, caffeine: 0 };
+    const maxServingsInLeg = Math.max(2, Math.ceil(target.segmentTimeHours * MAX_SERVINGS_PER_LEG_HOUR));
+
+    for (let i = 0; i < MAX_ITERATIONS_PER_LEG && minutes > 0; i++) {
+      const currentDeficit = getDeficit(totals, target);
+      if (currentDeficit === 0) break;
+
+      let best: { product: NutritionProduct; gain: number } | null = null;
+
+      for (const product of products) {
+        const inLeg = quantities.get(product.name)?.quantity ?? 0;
+        const used = usage.get(product.name) ?? 0;
+        const caffeine = product.defaultCaffeine || 0;
+        const water = isWaterProduct(product);
+
+        if (inLeg === 0 && quantities.size >= options.maxProductsPerLeg) continue;
+        if (inLeg >= maxServingsInLeg) continue;
+        if (!water && used >= options.maxServingsPerProduct) continue;
+        if (needsRestock(product) && !restock) continue;
+        if (caffeine > 0 && (!caffeineAllowed || totalCaffeineMg + totals.caffeine + caffeine > caffeineCapMg)) continue;
+
+        const next = {
+          carbs: totals.carbs + product.defaultCarbs,
+          sodium: totals.sodium + product.defaultSodium,
+          water: totals.water + getEffectiveWater(product),
+        };
+        const coverage = calculateCoverage(next, target);
+        if (coverage.carbs > MAX_COVERAGE.carbs && product.defaultCarbs > 0) continue;
+        if (coverage.sodium > MAX_COVERAGE.sodium && product.defaultSodium > 0) continue;
+        if (coverage.water > MAX_COVERAGE.water && getEffectiveWater(product) > 0) continue;
+
+        // Spread servings across products the race has used least
+        const gain = (currentDeficit - getDeficit(next, target)) * (water ? 1 : 1 - 0.5 * (used / options.maxServingsPerProduct));
+        if (gain > 0 && (!best || gain > best.gain)) {
+          best = { product, gain };
+        }
+      }
+
+      if (!best) break;
+
+      const entry = quantities.get(best.product.name) ?? { product: best.product, quantity: 0 };
+      entry.quantity++;
+      quantities.set(best.product.name, entry);
+      usage.set(best.product.name, (usage.get(best.product.name) ?? 0) + 1);
+      totals.carbs += best.product.defaultCarbs;
+      totals.sodium += best.product.defaultSodium;
+      totals.water += getEffectiveWater(best.product);
+      totals.caffeine += best.product.defaultCaffeine || 0;
+    }
+
+    totalCaffeineMg += totals.caffeine;
+    const coveragePercent = calculateCoverage(totals, target);
+
+    return {
+      segmentIndex,
+      segmentId: segment.id ?? null,
+      checkpointName: segment.checkpoint_name,
+      target,
+      products: Array.from(quantities.values()).map(({ product, quantity }) => ({
+        product,
+        quantity,
+        contributes: {
+          carbs: product.defaultCarbs * quantity,
+          sodium: product.defaultSodium * quantity,
+          water: getEffectiveWater(product) * quantity,
+        },
+      })),
+      totals,
+      coveragePercent,
+      score: minutes > 0 ? scorePlan(coveragePercent) : 0,
+      restock,
+      caffeineAllowed,
+    };
+  });
+
+  const plannedLegs = legs.filter(leg => leg.target.segmentTimeHours > 0);
+  if (plannedLegs.length < legs.length) {
+    warnings.push(`${legs.length - plannedLegs.length} checkpoints have no pace set and were skipped.`);
+  }
+  const shortLegs = plannedLegs.filter(leg => leg.coveragePercent.carbs < 90);
+  if (shortLegs.length > 0) {
+    warnings.push(
+      `Carbs under 90% on ${shortLegs.length} ${shortLegs.length === 1 ? 'leg' : 'legs'}. ` +
+      'Raise the servings limit, allow more products per leg, or add products to your library.'
+    );
+  }
+
+  return {
+    legs,
+    productUsage: Array.from(usage.entries())
+      .map(([name, servings]) => ({ name, servings }))
+      .sort((a, b) => b.servings - a.servings),
+    totalCaffeineMg,
+    caffeineCapMg,
+    averageScore: plannedLegs.length > 0
+      ? Math.round(plannedLegs.reduce((sum, leg) => sum + leg.score, 0) / plannedLegs.length)
+      : 0,
+    warnings,
+  };
+}
+
+/**
+ * Nutrition items to save on each checkpoint, keyed by segment id
+ */
+export function raceNutritionPlanToItems(plan: RaceNutritionPlan): Map<number, NutritionItem[]> {
+  const items = new Map<number, NutritionItem[]>();
+  for (const leg of plan.legs) {
+    if (leg.segmentId != null && leg.products.length > 0) {
+      items.set(leg.segmentId, planToNutritionItems(leg));
+    }
+  }
+  return items;
+}
+
+/**
+ * Weighted shortfall below each target (0 when every goal is met)
+ */
+function getDeficit(totals: { carbs: number; sodium: number; water: number }, target: NutritionTarget): number {
+  const shortfall = (value: number, needed: number) => (needed > 0 ? Math.max(0, 1 - value / needed) : 0);
+  return (
+    shortfall(totals.carbs, target.carbsNeeded) * 1.0 +
+    shortfall(totals.sodium, target.sodiumNeeded) * 0.6 +
+    shortfall(totals.water, target.waterNeeded) * 0.4
+  );
+}
@@ -0,0 +1,286 @@
+/**
+ * Race Simulation Utilities
+ *
+ * Monte Carlo simulation of a race plan. Each run samples:
+ * - A whole-race "day form" factor (good and bad days affect every segment)
+ * - Per-segment pace variance, wider for low auto-pace confidence and technical terrain
+ * - Fatigue fade around the planned fatigue factor. Auto-paced times already
+ *   include the planned fade, so they only take the sampled difference from it
+ * - Night-time slowdown when the simulated clock puts a segment in the dark
+ * - Checkpoint dwell time variance
+ *
+ * Results are percentiles (P10/P50/P90) for the finish and each checkpoint,
+ * plus the probability of missing each cut-off.
+ *
+ * In a stage race each run waits at camp for the next stage like the plan does:
+ * the stage's sleep, or until its fixed start. Stage cut-offs apply at each
+ * stage's last checkpoint.
+ */
+
+import type { Segment, Stage } from '@/shared/types';
+import { getDaylightStatus, resolveSegmentCoordinates } from './etaCalculations';
+import { resolveCutoffTimes } from './cutoffAnalysis';
+import { getCheckpointStopMinutes } from './raceTimeSummary';
+import { getOvernightStop, getSegmentStageIndexes, getStageClocks, isStageRace } from './stageCalculations';
+
+export const DEFAULT_SIMULATION_RUNS = 1000;
+
+// Log-normal sigma for per-segment pace, by auto-pace confidence
+const PACE_SIGMA: Record<'high' | 'medium' | 'low' | 'manual', number> = {
+  high: 0.05,
+  medium: 0.08,
+  low: 0.12,
+  manual: 0.1,
+};
+const DAY_FORM_SIGMA = 0.06;
+const DWELL_SIGMA = 0.35;
+const NIGHT_SLOWDOWN_MEAN = 0.1; // 10% slower in the dark
+const NIGHT_SLOWDOWN_SPREAD = 0.05;
+const FATIGUE_RATE_SPREAD = 0.5; // Sampled fatigue factor is ±50% of the planned one (1 sd)
+const HISTOGRAM_BUCKETS = 20;
+
+export interface SimulationOptions {
+  runs?: number;
+  raceStartTime?: string | null;
+  timezone?: string | null;
+  fatigueFactor?: number; // Planned % pace degradation per 10 miles, only applied when set
+  stages?: Stage[] | null;
+  seed?: number;
+}
+
+export interface PercentileSet {
+  p10: number; // Minutes from the start
+  p50: number;
+  p90: number;
+}
+
+export interface CheckpointSimulation {
+  segmentId: number;
+  checkpointName: string;
+  arrivalMinutes: PercentileSet;
+  plannedArrivalMinutes: number;
+  cutoffMinutes: number | null;
+  cutoffMissProbability: number | null; // 0-1, null without a cut-off
+}
+
+export interface SimulationResult {
+  runs: number;
+  finishMinutes: PercentileSet;
+  plannedFinishMinutes: number;
+  finishHistogram: Array<{ fromMinutes: number; toMinutes: number; count: number }>;
+  checkpoints: CheckpointSimulation[];
+  anyCutoffMissProbability: number | null; // Probability of missing at least one cut-off
+}
+
+// ============================================
+// RANDOM NUMBERS
+// ============================================
+
+/**
+ * Seeded PRNG (mulberry32) so the same plan gives the same result between renders
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sampleNormal(random: () => number): number {
+  // Box-Muller
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function sampleLogNormal(random: () => number, sigma: number): number {
+  return Math.exp(sigma * sampleNormal(random));
+}
+
+// ============================================
+// SIMULATION
+// ============================================
+
+function getPaceSigma(segment: Segment): number {
+  const confidence = segment.use_auto_pace && segment.auto_pace_confidence ? segment.auto_pace_confidence : 'manual';
+  // Technical terrain (factor above 1) is harder to predict
+  const terrainFactor = segment.terrain_factor ?? 1;
+  return PACE_SIGMA[confidence] * (1 + Math.max(0, terrainFactor - 1));
+}
+
+// Auto-paced leg times are derived with fatigue already applied; manual pace times have none
+function includesPlannedFade(segment: Segment): boolean {
+  return !!(segment.use_auto_pace && segment.auto_derived_pace);
+}
+
+function percentile(sorted: number[], fraction: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(fraction * (sorted.length - 1))));
+  return sorted[index];
+}
+
+function toPercentiles(values: number[]): PercentileSet {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p10: percentile(sorted, 0.1),
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+  };
+}
+
+/**
+ * Run a Monte Carlo simulation of a race plan
+ * Night slowdown and cut-offs need a race start time; without one only pace,
+ * fatigue and dwell variance are sampled.
+ */
+export function simulateRace(segments: Segment[], options: SimulationOptions = {}): SimulationResult | null {
+  if (segments.length === 0) return null;
+
+  const runs = options.runs ?? DEFAULT_SIMULATION_RUNS;
+  const random = createRandom(options.seed ?? 1);
+  const start = options.raceStartTime ? new Date(options.raceStartTime) : null;
+  const hasStart = start !== null && !isNaN(start.getTime());
+
+  const stages = isStageRace(options.stages) ? options.stages : null;
+  const stageIndexes = stages ? getSegmentStageIndexes(segments, stages) : [];
+  const stageClocks = getStageClocks(options.raceStartTime, segments, stages);
+  const toMinutes = (date: Date) => (date.getTime() - start!.getTime()) / 60000;
+
+  const cutoffMinutes = hasStart
+    ? resolveCutoffTimes(options.raceStartTime!, segments, options.timezone)
+      .map(cutoff => cutoff ? toMinutes(cutoff) : null)
+    : segments.map(() => null);
+  // A stage cut-off applies at the stage's last checkpoint, alongside any of the checkpoint's own
+  if (stages && hasStart) {
+    stages.forEach((stage, stageIndex) => {
+      const last = stageIndexes.lastIndexOf(stageIndex);
+      const stageCutoff = stage.cutoff_date_time ? new Date(stage.cutoff_date_time) : null;
+      if (last === -1 || !stageCutoff || isNaN(stageCutoff.getTime())) return;
+      const existing = cutoffMinutes[last];
+      cutoffMinutes[last] = existing !== null ? Math.min(existing, toMinutes(stageCutoff)) : toMinutes(stageCutoff);
+    });
+  }
+  const coordinates = segments.map((_, index) => resolveSegmentCoordinates(segments, index));
+  const paceSigmas = segments.map(getPaceSigma);
+
+  // The first stage may have its own start time
+  const startClock = stageClocks ? toMinutes(stageClocks[0].start) : 0;
+
+  // Overnight stop after a stage's camp checkpoint, given the clock once its stop is done; 0 within a stage
+  const getOvernightMinutes = (index: number, clock: number): number => {
+    const stageIndex = stageIndexes[index];
+    const nextStageIndex = stageIndexes[index + 1];
+    if (!stages || nextStageIndex === undefined || nextStageIndex === stageIndex) return 0;
+    const departure = hasStart ? new Date(start!.getTime() + clock * 60000) : null;
+    const overnight = getOvernightStop(stages[stageIndex], stages[nextStageIndex], segments[index], departure);
+    return overnight.sleepMinutes + overnight.awakeMinutes;
+  };
+
+  // Planned timeline, for comparison
+  const plannedArrivals: number[] = [];
+  let plannedClock = startClock;
+  segments.forEach((segment, index) => {
+    plannedClock += segment.predicted_segment_time_minutes || 0;
+    plannedArrivals.push(plannedClock);
+    plannedClock += getCheckpointStopMinutes(segment);
+    plannedClock += getOvernightMinutes(index, plannedClock);
+  });
+
+  const arrivals: number[][] = segments.map(() => []);
+  const finishes: number[] = [];
+  const cutoffMisses = segments.map(() => 0);
+  let runsMissingAnyCutoff = 0;
+
+  for (let run = 0; run < runs; run++) {
+    const dayForm = sampleLogNormal(random, DAY_FORM_SIGMA);
+    const fatigueRate = options.fatigueFactor
+      ? Math.max(0, options.fatigueFactor * (1 + FATIGUE_RATE_SPREAD * sampleNormal(random)))
+      : 0;
+    const nightSlowdown = Math.max(0, NIGHT_SLOWDOWN_MEAN + NIGHT_SLOWDOWN_SPREAD * sampleNormal(random));
+
+    let clock = startClock;
+    let missedCutoff = false;
+
+    segments.forEach((segment, index) => {
+      const plannedMinutes = segment.predicted_segment_time_minutes || 0;
+      let multiplier = dayForm * sampleLogNormal(random, paceSigmas[index]);
+
+      if (options.fatigueFactor) {
+        const midDistance = (segment.cumulative_distance_miles || 0) - (segment.segment_distance_miles || 0) / 2;
+        const fadeRate = includesPlannedFade(segment) ? fatigueRate - options.fatigueFactor : fatigueRate;
+        multiplier *= 1 + (Math.max(0, midDistance) / 10) * (fadeRate / 100);
+      }
+
+      if (hasStart) {
+        // Light at the middle of the segment on this run's clock
+        const midpoint = new Date(start!.getTime() + (clock + (plannedMinutes * multiplier) / 2) * 60000);
+        if (getDaylightStatus(midpoint, coordinates[index], options.timezone).isNight) {
+          multiplier *= 1 + nightSlowdown;
+        }
+      }
+
+      clock += plannedMinutes * multiplier;
+      arrivals[index].push(clock);
+
+      const cutoff = cutoffMinutes[index];
+      if (cutoff !== null && clock > cutoff) {
+        cutoffMisses[index]++;
+        missedCutoff = true;
+      }
+
+      const plannedDwell = segment.checkpoint_time_minutes || 0;
+      if (plannedDwell > 0) {
+        clock += plannedDwell * sampleLogNormal(random, DWELL_SIGMA);
+      }
+      // Planned sleep is a fixed block, unlike aid-station dwell
+      clock += segment.sleep_minutes || 0;
+      clock += getOvernightMinutes(index, clock);
+    });
+
+    // The finish is the arrival at the last checkpoint
+    finishes.push(arrivals[segments.length - 1][run]);
+    if (missedCutoff) runsMissingAnyCutoff++;
+  }
+
+  const finishMinutes = toPercentiles(finishes);
+  const hasCutoffs = cutoffMinutes.some(cutoff => cutoff !== null);
+
+  return {
+    runs,
+    finishMinutes,
+    plannedFinishMinutes: plannedArrivals[plannedArrivals.length - 1],
+    finishHistogram: buildHistogram(finishes),
+    checkpoints: segments.map((segment, index) => ({
+      segmentId: segment.id!,
+      checkpointName: segment.checkpoint_name,
+      arrivalMinutes: toPercentiles(arrivals[index]),
+      plannedArrivalMinutes: plannedArrivals[index],
+      cutoffMinutes: cutoffMinutes[index],
+      cutoffMissProbability: cutoffMinutes[index] !== null ? cutoffMisses[index] / runs : null,
+    })),
+    anyCutoffMissProbability: hasCutoffs ? runsMissingAnyCutoff / runs : null,
+  };
+}
+
+function buildHistogram(values: number[]): SimulationResult['finishHistogram'] {
+  const sorted = [...values].sort((a, b) => a - b);
+  // Trim the extreme 1% so one disastrous run doesn't flatten the chart
+  const min = percentile(sorted, 0.01);
+  const max = percentile(sorted, 0.99);
+  const width = Math.max(1, (max - min) / HISTOGRAM_BUCKETS);
+
+  const buckets = Array.from({ length: HISTOGRAM_BUCKETS }, (_, i) => ({
+    fromMinutes: min + i * width,
+    toMinutes: min + (i + 1) * width,
+    count: 0,
+  }));
+  for (const value of sorted) {
+    const index = Math.min(HISTOGRAM_BUCKETS - 1, Math.max(0, Math.floor((value - min) / width)));
+    buckets[index].count++;
+  }
+  return buckets;
+}
@@ -4,7 +4,8 @@
  * Calculates comprehensive time breakdowns showing:
  * - Running time (actual moving time)
  * - Checkpoint time (aid station stops)
- * - Total race time (running + checkpoint)
+ * - Sleep time (planned sleep stations)
+ * - Total race time (running + checkpoint + sleep)
  */
 
 import type { Segment, Race } from '@/shared/types';
@@ -19,11 +20,19 @@ export interface CheckpointTimeBreakdown {
 export interface RaceTimeSummary {
   totalRunningTimeMinutes: number;
   totalCheckpointTimeMinutes: number;
+  totalSleepMinutes: number;
   totalRaceTimeMinutes: number;
   totalDistanceMiles: number;
   checkpointBreakdown: CheckpointTimeBreakdown[];
 }
 
+/**
+ * Time stopped at a checkpoint: the aid-station dwell plus any planned sleep
+ */
+export function getCheckpointStopMinutes(segment: Pick<Segment, 'checkpoint_time_minutes' | 'sleep_minutes'>): number {
+  return (segment.checkpoint_time_minutes || 0) + (segment.sleep_minutes || 0);
+}
+
 /**
  * Calculate comprehensive race time summary
  */
@@ -33,6 +42,7 @@ export function calculateRaceTimeSummary(
 ): RaceTimeSummary {
   let totalRunningTimeMinutes = 0;
   let totalCheckpointTimeMinutes = 0;
+  let totalSleepMinutes = 0;
   const checkpointBreakdown: CheckpointTimeBreakdown[] = [];
 
   for (const segment of segments) {
@@ -43,6 +53,7 @@ export function calculateRaceTimeSummary(
     // Add checkpoint time (aid station stop)
     const checkpointTime = segment.checkpoint_time_minutes ?? 0;
     totalCheckpointTimeMinutes += checkpointTime;
+    totalSleepMinutes += segment.sleep_minutes ?? 0;
 
     if (checkpointTime > 0) {
       checkpointBreakdown.push({
@@ -54,7 +65,7 @@ export function calculateRaceTimeSummary(
     }
   }
 
-  const totalRaceTimeMinutes = totalRunningTimeMinutes + totalCheckpointTimeMinutes;
+  const totalRaceTimeMinutes = totalRunningTimeMinutes + totalCheckpointTimeMinutes + totalSleepMinutes;
 
   // Calculate total distance from segments
   const totalDistanceMiles = segments.reduce(
@@ -65,6 +76,7 @@ export function calculateRaceTimeSummary(
   return {
     totalRunningTimeMinutes,
     totalCheckpointTimeMinutes,
+    totalSleepMinutes,
     totalRaceTimeMinutes,
     totalDistanceMiles,
     checkpointBreakdown,
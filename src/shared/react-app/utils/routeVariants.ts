@@ -0,0 +1,86 @@
+/**
+ * Route Variant Utilities
+ *
+ * Compares a race's route variants (bad-weather alternatives, optional loops)
+ * on distance, ascent and predicted finish time.
+ */
+
+import type { Race, RouteVariant } from '@/shared/types';
+import { localStorageService } from '../services/localStorage';
+import { calculateRaceTimeSummary, type RaceTimeSummary } from './raceTimeSummary';
+import { getProcessedElevationProfile } from './elevationCalculations';
+import { calculateGainLoss, getElevationSmoothingSettings } from './elevationSmoothing';
+
+export interface RouteVariantStats {
+  variant: RouteVariant;
+  isActive: boolean;
+  distanceMiles: number; // GPX track length, or the checkpoint total when there's no GPX
+  ascentMeters: number | null; // Null without a GPX
+  descentMeters: number | null;
+  checkpointCount: number;
+  summary: RaceTimeSummary;
+}
+
+export interface RouteVariantDiff {
+  distanceMiles: number;
+  ascentMeters: number | null;
+  finishMinutes: number | null; // Null when either variant has no predicted time
+}
+
+/**
+ * Distance, ascent and predicted finish for every route variant of a race
+ */
+export function getRouteVariantStats(race: Race): RouteVariantStats[] {
+  const settings = getElevationSmoothingSettings();
+
+  return (race.route_variants ?? []).map(variant => {
+    const segments = localStorageService.getSegmentsByRaceId(race.id!, variant.id);
+    const summary = calculateRaceTimeSummary(segments, race);
+    const gpxFile = variant.gpx_file_key ? localStorageService.getGPXFile(variant.gpx_file_key) : null;
+
+    let distanceMiles = summary.totalDistanceMiles;
+    let ascentMeters: number | null = null;
+    let descentMeters: number | null = null;
+
+    if (gpxFile) {
+      try {
+        const profile = getProcessedElevationProfile(gpxFile.content);
+        if (profile.distancesMiles.length > 1) {
+          const { gain, loss } = calculateGainLoss(profile.elevations, settings.enabled ? settings.hysteresisMeters : 0);
+          distanceMiles = profile.distancesMiles[profile.distancesMiles.length - 1];
+          ascentMeters = gain;
+          descentMeters = loss;
+        }
+      } catch (error) {
+        console.error('[Route Variants] Failed to read GPX for variant:', variant.name, error);
+      }
+    }
+
+    return {
+      variant,
+      isActive: variant.id === race.active_route_variant_id,
+      distanceMiles,
+      ascentMeters,
+      descentMeters,
+      checkpointCount: segments.length,
+      summary,
+    };
+  });
+}
+
+/**
+ * Difference between a variant and the one it's compared against (variant minus baseline)
+ */
+export function diffRouteVariants(variant: RouteVariantStats, baseline: RouteVariantStats): RouteVariantDiff {
+  const hasFinish = (stats: RouteVariantStats) => stats.summary.totalRunningTimeMinutes > 0;
+
+  return {
+    distanceMiles: variant.distanceMiles - baseline.distanceMiles,
+    ascentMeters: variant.ascentMeters !== null && baseline.ascentMeters !== null
+      ? variant.ascentMeters - baseline.ascentMeters
+      : null,
+    finishMinutes: hasFinish(variant) && hasFinish(baseline)
+      ? variant.summary.totalRaceTimeMinutes - baseline.summary.totalRaceTimeMinutes
+      : null,
+  };
+}
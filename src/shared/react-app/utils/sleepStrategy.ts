@@ -0,0 +1,203 @@
+/**
+ * Sleep Strategy Utilities
+ *
+ * Plans sleep for 100+ and 200 mile races and models how sleep debt slows
+ * the runner down.
+ *
+ * Model:
+ * - Hours awake build up from the runner's wake-up before the start
+ * - Up to a normal waking day (16h) there's no penalty; after that pace slows
+ *   by 1% for every extra hour awake, up to 30%
+ * - Sleep repays debt at 3 awake-minutes per minute slept, so 8h of sleep
+ *   clears a full 24h awake. Short naps help, but only in proportion.
+ *
+ * Sleep stations are checkpoints with sleep_minutes set. The sleep is added to
+ * the checkpoint's stop time, so ETAs, night legs and cut-offs all move with it.
+ * In a stage race the overnight stop at each camp counts as well (see
+ * getOvernightStop in stageCalculations).
+ */
+
+import type { Race, Segment } from '@/shared/types';
+import type { SleepDebtPoint } from './fatigueCurve';
+import { getCheckpointStopMinutes } from './raceTimeSummary';
+import { getCampSleepMinutes, getOvernightStop, getSegmentStageIndexes, isStageRace } from './stageCalculations';
+
+export const DEFAULT_AWAKE_HOURS_AT_START = 3;
+const SLEEP_DEBT_FREE_HOURS = 16;
+const SLEEP_DEBT_PENALTY_PER_HOUR = 1.0; // % slower per hour awake past SLEEP_DEBT_FREE_HOURS
+const MAX_SLEEP_DEBT_PENALTY = 30; // %
+const RECOVERY_PER_SLEEP_MINUTE = 3; // Awake-minutes repaid per minute slept
+
+export const SLEEP_PRESETS: Array<{ label: string; minutes: number; description: string }> = [
+  { label: 'Power nap', minutes: 20, description: 'Short reset, no deep sleep' },
+  { label: '1 cycle', minutes: 90, description: 'One full sleep cycle' },
+  { label: '2 cycles', minutes: 180, description: 'Deep recovery' },
+  { label: '3 cycles', minutes: 270, description: 'Long rest, e.g. before a final night' },
+];
+
+export interface SegmentSleepDebt {
+  segmentIndex: number;
+  hoursAwake: number; // Effective hours awake in the middle of the leg into this checkpoint
+  hoursAwakeOnArrival: number;
+  penaltyPercent: number; // Pace slowdown from sleep debt on the leg
+}
+
+// What the hours-awake tracker reads from each checkpoint
+export type SleepTrackedSegment = Pick<Segment, 'checkpoint_time_minutes' | 'sleep_minutes' | 'stage_id'>;
+
+export interface SleepPlanSummary {
+  totalSleepMinutes: number;
+  sleepStations: number;
+  longestAwakeHours: number; // Most effective hours awake reached on any leg
+  peakPenaltyPercent: number;
+  addedMovingMinutes: number; // Extra moving time the sleep debt costs over the planned times
+}
+
+/**
+ * Pace slowdown (%) for a number of effective hours awake
+ */
+export function getSleepDebtPenaltyPercent(hoursAwake: number): number {
+  const penalty = Math.max(0, hoursAwake - SLEEP_DEBT_FREE_HOURS) * SLEEP_DEBT_PENALTY_PER_HOUR;
+  return Math.min(penalty, MAX_SLEEP_DEBT_PENALTY);
+}
+
+/**
+ * Pace slowdown (%) on a leg, taken at its midpoint
+ * @param legMinutes Leg time before any sleep debt slowdown
+ */
+export function getMidLegSleepDebtPercent(hoursAwakeAtStart: number, legMinutes: number): number {
+  return getSleepDebtPenaltyPercent(hoursAwakeAtStart + legMinutes / 120);
+}
+
+/**
+ * Effective hours awake after a block of sleep
+ */
+export function recoverFromSleep(hoursAwake: number, sleepMinutes: number): number {
+  return Math.max(0, hoursAwake - (sleepMinutes * RECOVERY_PER_SLEEP_MINUTE) / 60);
+}
+
+/**
+ * Effective hours awake on leaving a checkpoint, after its leg, stop and any sleep
+ */
+export function advanceHoursAwake(
+  hoursAwake: number,
+  legMinutes: number,
+  segment: Pick<Segment, 'checkpoint_time_minutes' | 'sleep_minutes'>
+): number {
+  // Time at the aid station keeps the clock running; sleep winds it back
+  const awake = hoursAwake + (legMinutes + (segment.checkpoint_time_minutes || 0)) / 60;
+  return recoverFromSleep(awake, segment.sleep_minutes || 0);
+}
+
+export interface HoursAwakeTracker {
+  hoursAwake: () => number; // Effective hours awake setting off on the next leg
+  advance: (segmentIndex: number, legMinutes: number) => number; // After a leg, its stop and any overnight stop
+}
+
+/**
+ * Follow effective hours awake checkpoint by checkpoint. Leg times are passed
+ * in as they're known, so they can themselves depend on the sleep debt.
+ * In a stage race the clock is kept too, to find the wait for each fixed stage start.
+ */
+export function trackHoursAwake(
+  segments: SleepTrackedSegment[],
+  awakeHoursAtStart: number = DEFAULT_AWAKE_HOURS_AT_START,
+  race?: Pick<Race, 'start_date_time' | 'stages'> | null
+): HoursAwakeTracker {
+  const stages = isStageRace(race?.stages) ? race.stages : null;
+  const stageIndexes = stages ? getSegmentStageIndexes(segments, stages) : [];
+  const firstStart = (stages && stageIndexes.length > 0 && stages[stageIndexes[0]].start_date_time) || race?.start_date_time;
+  let clock = firstStart && !isNaN(new Date(firstStart).getTime()) ? new Date(firstStart) : null;
+  let hoursAwake = awakeHoursAtStart;
+
+  const addMinutes = (minutes: number) => {
+    if (clock) clock = new Date(clock.getTime() + minutes * 60000);
+  };
+
+  return {
+    hoursAwake: () => hoursAwake,
+    advance: (segmentIndex, legMinutes) => {
+      const segment = segments[segmentIndex];
+      hoursAwake = advanceHoursAwake(hoursAwake, legMinutes, segment);
+      addMinutes(legMinutes + getCheckpointStopMinutes(segment));
+
+      const stageIndex = stageIndexes[segmentIndex];
+      const nextStageIndex = stageIndexes[segmentIndex + 1];
+      if (stages && nextStageIndex !== undefined && nextStageIndex !== stageIndex) {
+        const overnight = getOvernightStop(stages[stageIndex], stages[nextStageIndex], segment, clock);
+        hoursAwake = recoverFromSleep(hoursAwake + overnight.awakeMinutes / 60, overnight.sleepMinutes);
+        addMinutes(overnight.awakeMinutes + overnight.sleepMinutes);
+      }
+      return hoursAwake;
+    },
+  };
+}
+
+/**
+ * Sleep debt on every leg, following the planned times, sleep stations and,
+ * in a stage race, the overnight stops between stages
+ */
+export function calculateSleepDebt(
+  segments: Segment[],
+  awakeHoursAtStart: number = DEFAULT_AWAKE_HOURS_AT_START,
+  race?: Pick<Race, 'start_date_time' | 'stages'> | null
+): SegmentSleepDebt[] {
+  const tracker = trackHoursAwake(segments, awakeHoursAtStart, race);
+
+  return segments.map((segment, segmentIndex) => {
+    const hoursAwake = tracker.hoursAwake();
+    const legHours = (segment.predicted_segment_time_minutes || 0) / 60;
+    const midLegHours = hoursAwake + legHours / 2;
+    const debt: SegmentSleepDebt = {
+      segmentIndex,
+      hoursAwake: midLegHours,
+      hoursAwakeOnArrival: hoursAwake + legHours,
+      penaltyPercent: getMidLegSleepDebtPercent(hoursAwake, segment.predicted_segment_time_minutes || 0),
+    };
+
+    tracker.advance(segmentIndex, segment.predicted_segment_time_minutes || 0);
+
+    return debt;
+  });
+}
+
+/**
+ * Sleep debt slowdown from the start of each leg, for the fatigue curve
+ */
+export function getSleepDebtPoints(segments: Segment[], debts: SegmentSleepDebt[]): SleepDebtPoint[] {
+  return segments.map((segment, index) => ({
+    distance: Math.max(0, (segment.cumulative_distance_miles || 0) - (segment.segment_distance_miles || 0)),
+    penaltyPercent: debts[index]?.penaltyPercent ?? 0,
+  }));
+}
+
+/**
+ * Totals for a sleep plan, counting the camp sleep at each stage's overnight stop
+ */
+export function summarizeSleepPlan(
+  segments: Segment[],
+  debts: SegmentSleepDebt[],
+  race?: Pick<Race, 'stages'> | null
+): SleepPlanSummary {
+  const stages = isStageRace(race?.stages) ? race.stages : null;
+  const stageIndexes = stages ? getSegmentStageIndexes(segments, stages) : [];
+  const sleeps = segments.map((segment, index) => {
+    const stageIndex = stageIndexes[index];
+    const nextStageIndex = stageIndexes[index + 1];
+    const campSleep = stages && nextStageIndex !== undefined && nextStageIndex !== stageIndex
+      ? getCampSleepMinutes(stages[stageIndex], segment)
+      : 0;
+    return (segment.sleep_minutes || 0) + campSleep;
+  });
+
+  return {
+    totalSleepMinutes: sleeps.reduce((sum, minutes) => sum + minutes, 0),
+    sleepStations: sleeps.filter(minutes => minutes > 0).length,
+    longestAwakeHours: debts.reduce((max, debt) => Math.max(max, debt.hoursAwakeOnArrival), 0),
+    peakPenaltyPercent: debts.reduce((max, debt) => Math.max(max, debt.penaltyPercent), 0),
+    addedMovingMinutes: segments.reduce(
+      (sum, segment, index) => sum + (segment.predicted_segment_time_minutes || 0) * ((debts[index]?.penaltyPercent ?? 0) / 100),
+      0
+    ),
+  };
+}
@@ -0,0 +1,340 @@
+/**
+ * Solar and lunar calculations
+ * Sunrise/sunset, twilight and moon illumination for a location and date,
+ * used to work out which parts of a race are run in the dark.
+ *
+ * Formulas follow the approach used by SunCalc (Vladimir Agafonkin), which is
+ * based on the astronomical algorithms from https://aa.quae.nl/en/reken/zonpositie.html
+ * Accuracy is within a minute or two for sunrise/sunset, which is plenty for race planning.
+ */
+
+import type { LightCondition, MoonIllumination, SunTimes } from '@/shared/types';
+
+const RAD = Math.PI / 180;
+const DAY_MS = 1000 * 60 * 60 * 24;
+const J1970 = 2440588;
+const J2000 = 2451545;
+const J0 = 0.0009;
+const OBLIQUITY = RAD * 23.4397; // Obliquity of the Earth
+const SUN_DISTANCE_KM = 149598000;
+
+// Sun altitude (degrees) at each boundary. Sunrise/sunset allow for refraction and the sun's radius
+export const SUN_ALTITUDE = {
+  SUNRISE: -0.833,
+  CIVIL_TWILIGHT: -6,
+  NAUTICAL_TWILIGHT: -12,
+} as const;
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// ============================================
+// ASTRONOMY HELPERS
+// ============================================
+
+function toJulian(date: Date): number {
+  return date.valueOf() / DAY_MS - 0.5 + J1970;
+}
+
+function fromJulian(julian: number): Date {
+  return new Date((julian + 0.5 - J1970) * DAY_MS);
+}
+
+function toDays(date: Date): number {
+  return toJulian(date) - J2000;
+}
+
+function rightAscension(longitude: number, latitude: number): number {
+  return Math.atan2(
+    Math.sin(longitude) * Math.cos(OBLIQUITY) - Math.tan(latitude) * Math.sin(OBLIQUITY),
+    Math.cos(longitude)
+  );
+}
+
+function declination(longitude: number, latitude: number): number {
+  return Math.asin(
+    Math.sin(latitude) * Math.cos(OBLIQUITY) + Math.cos(latitude) * Math.sin(OBLIQUITY) * Math.sin(longitude)
+  );
+}
+
+function altitude(hourAngle: number, phi: number, dec: number): number {
+  return Math.asin(Math.sin(phi) * Math.sin(dec) + Math.cos(phi) * Math.cos(dec) * Math.cos(hourAngle));
+}
+
+function siderealTime(days: number, lw: number): number {
+  return RAD * (280.16 + 360.9856235 * days) - lw;
+}
+
+function solarMeanAnomaly(days: number): number {
+  return RAD * (357.5291 + 0.98560028 * days);
+}
+
+function eclipticLongitude(meanAnomaly: number): number {
+  const center = RAD * (1.9148 * Math.sin(meanAnomaly) + 0.02 * Math.sin(2 * meanAnomaly) + 0.0003 * Math.sin(3 * meanAnomaly));
+  const perihelion = RAD * 102.9372;
+  return meanAnomaly + center + perihelion + Math.PI;
+}
+
+function sunCoords(days: number): { dec: number; ra: number } {
+  const longitude = eclipticLongitude(solarMeanAnomaly(days));
+  return {
+    dec: declination(longitude, 0),
+    ra: rightAscension(longitude, 0),
+  };
+}
+
+function moonCoords(days: number): { dec: number; ra: number; dist: number } {
+  const meanLongitude = RAD * (218.316 + 13.176396 * days);
+  const meanAnomaly = RAD * (134.963 + 13.064993 * days);
+  const meanDistance = RAD * (93.272 + 13.229350 * days);
+
+  const longitude = meanLongitude + RAD * 6.289 * Math.sin(meanAnomaly);
+  const latitude = RAD * 5.128 * Math.sin(meanDistance);
+
+  return {
+    ra: rightAscension(longitude, latitude),
+    dec: declination(longitude, latitude),
+    dist: 385001 - 20905 * Math.cos(meanAnomaly),
+  };
+}
+
+function julianCycle(days: number, lw: number): number {
+  return Math.round(days - J0 - lw / (2 * Math.PI));
+}
+
+function approxTransit(hourAngle: number, lw: number, cycle: number): number {
+  return J0 + (hourAngle + lw) / (2 * Math.PI) + cycle;
+}
+
+function solarTransitJ(days: number, meanAnomaly: number, eclipticLong: number): number {
+  return J2000 + days + 0.0053 * Math.sin(meanAnomaly) - 0.0069 * Math.sin(2 * eclipticLong);
+}
+
+function hourAngleAt(sunAltitude: number, phi: number, dec: number): number {
+  return Math.acos((Math.sin(sunAltitude) - Math.sin(phi) * Math.sin(dec)) / (Math.cos(phi) * Math.cos(dec)));
+}
+
+// ============================================
+// DATES
+// ============================================
+
+/**
+ * Calendar date (year, month, day) of an instant at a location.
+ * Uses the race timezone when known, otherwise local mean time from the longitude.
+ */
+function getLocalCalendarDate(date: Date, longitude: number, timezone?: string | null): [number, number, number] {
+  if (timezone) {
+    try {
+      const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+      }).formatToParts(date);
+      const part = (type: string) => parseInt(parts.find(p => p.type === type)?.value ?? '', 10);
+      const year = part('year');
+      const month = part('month');
+      const day = part('day');
+      if (!isNaN(year) && !isNaN(month) && !isNaN(day)) {
+        return [year, month - 1, day];
+      }
+    } catch {
+      // Unknown timezone - fall through to longitude-based date
+    }
+  }
+
+  const localMeanTime = new Date(date.getTime() + (longitude / 15) * 60 * 60 * 1000);
+  return [localMeanTime.getUTCFullYear(), localMeanTime.getUTCMonth(), localMeanTime.getUTCDate()];
+}
+
+// ============================================
+// SUN
+// ============================================
+
+/**
+ * Altitude of the sun above the horizon in degrees (negative when below)
+ */
+export function getSunAltitude(date: Date, latitude: number, longitude: number): number {
+  const lw = RAD * -longitude;
+  const phi = RAD * latitude;
+  const days = toDays(date);
+  const sun = sunCoords(days);
+  const hourAngle = siderealTime(days, lw) - sun.ra;
+  return altitude(hourAngle, phi, sun.dec) / RAD;
+}
+
+/**
+ * Classify the light at a given moment from the sun's altitude
+ */
+export function getLightCondition(date: Date, latitude: number, longitude: number): LightCondition {
+  const sunAltitude = getSunAltitude(date, latitude, longitude);
+  if (sunAltitude >= SUN_ALTITUDE.SUNRISE) return 'daylight';
+  if (sunAltitude >= SUN_ALTITUDE.CIVIL_TWILIGHT) return 'civil_twilight';
+  if (sunAltitude >= SUN_ALTITUDE.NAUTICAL_TWILIGHT) return 'nautical_twilight';
+  return 'night';
+}
+
+/**
+ * Whether a runner needs a headtorch - the sun is further below the horizon than civil twilight
+ */
+export function isDarkerThanCivilTwilight(lightCondition: LightCondition): boolean {
+  return lightCondition === 'nautical_twilight' || lightCondition === 'night';
+}
+
+/**
+ * Sunrise, sunset and twilight times for the local day containing `date`.
+ * Times are null when the event doesn't happen that day (polar day/night, white nights).
+ * @param timezone IANA timezone of the race, used to decide which calendar day `date` falls on
+ */
+export function getSunTimes(date: Date, latitude: number, longitude: number, timezone?: string | null): SunTimes {
+  // Anchor on local solar noon so the nearest solar transit is always the right day
+  const [year, month, day] = getLocalCalendarDate(date, longitude, timezone);
+  const anchor = new Date(Date.UTC(year, month, day, 12) - (longitude / 15) * 60 * 60 * 1000);
+
+  const lw = RAD * -longitude;
+  const phi = RAD * latitude;
+  const days = toDays(anchor);
+  const cycle = julianCycle(days, lw);
+  const transitDays = approxTransit(0, lw, cycle);
+  const meanAnomaly = solarMeanAnomaly(transitDays);
+  const eclipticLong = eclipticLongitude(meanAnomaly);
+  const dec = declination(eclipticLong, 0);
+  const julianNoon = solarTransitJ(transitDays, meanAnomaly, eclipticLong);
+
+  const riseAndSet = (sunAltitude: number): [Date | null, Date | null] => {
+    const hourAngle = hourAngleAt(sunAltitude * RAD, phi, dec);
+    if (isNaN(hourAngle)) return [null, null];
+    const julianSet = solarTransitJ(approxTransit(hourAngle, lw, cycle), meanAnomaly, eclipticLong);
+    const julianRise = julianNoon - (julianSet - julianNoon);
+    return [fromJulian(julianRise), fromJulian(julianSet)];
+  };
+
+  const [sunrise, sunset] = riseAndSet(SUN_ALTITUDE.SUNRISE);
+  const [civilDawn, civilDusk] = riseAndSet(SUN_ALTITUDE.CIVIL_TWILIGHT);
+  const [nauticalDawn, nauticalDusk] = riseAndSet(SUN_ALTITUDE.NAUTICAL_TWILIGHT);
+
+  return {
+    solarNoon: fromJulian(julianNoon),
+    sunrise,
+    sunset,
+    civilDawn,
+    civilDusk,
+    nauticalDawn,
+    nauticalDusk,
+  };
+}
+
+/**
+ * Minutes between two moments that are darker than civil twilight, moving in a
+ * straight line between two points. Sampled every few minutes, so short legs
+ * that just touch dusk still register.
+ */
+export function getDarkMinutes(
+  start: Date,
+  end: Date,
+  from: Coordinates,
+  to: Coordinates,
+  sampleMinutes: number = 5
+): number {
+  const totalMinutes = (end.getTime() - start.getTime()) / 60000;
+  if (totalMinutes <= 0) return 0;
+
+  const samples = Math.max(1, Math.ceil(totalMinutes / sampleMinutes));
+  const step = totalMinutes / samples;
+  let darkMinutes = 0;
+
+  // Midpoint of each slice stands in for the whole slice
+  for (let i = 0; i < samples; i++) {
+    const fraction = (i + 0.5) / samples;
+    const moment = new Date(start.getTime() + fraction * totalMinutes * 60000);
+    const latitude = from.latitude + (to.latitude - from.latitude) * fraction;
+    const longitude = from.longitude + (to.longitude - from.longitude) * fraction;
+    if (isDarkerThanCivilTwilight(getLightCondition(moment, latitude, longitude))) {
+      darkMinutes += step;
+    }
+  }
+
+  return Math.round(darkMinutes);
+}
+
+// ============================================
+// MOON
+// ============================================
+
+/**
+ * Illuminated fraction and phase of the moon at a given moment
+ */
+export function getMoonIllumination(date: Date): MoonIllumination {
+  const days = toDays(date);
+  const sun = sunCoords(days);
+  const moon = moonCoords(days);
+
+  const elongation = Math.acos(
+    Math.sin(sun.dec) * Math.sin(moon.dec) + Math.cos(sun.dec) * Math.cos(moon.dec) * Math.cos(sun.ra - moon.ra)
+  );
+  const inclination = Math.atan2(SUN_DISTANCE_KM * Math.sin(elongation), moon.dist - SUN_DISTANCE_KM * Math.cos(elongation));
+  const angle = Math.atan2(
+    Math.cos(sun.dec) * Math.sin(sun.ra - moon.ra),
+    Math.sin(sun.dec) * Math.cos(moon.dec) - Math.cos(sun.dec) * Math.sin(moon.dec) * Math.cos(sun.ra - moon.ra)
+  );
+
+  const fraction = (1 + Math.cos(inclination)) / 2;
+  const phase = 0.5 + (0.5 * inclination * (angle < 0 ? -1 : 1)) / Math.PI;
+
+  return { fraction, phase, phaseName: getMoonPhaseName(phase) };
+}
+
+/**
+ * Name of the moon phase (0 = new, 0.25 = first quarter, 0.5 = full, 0.75 = last quarter)
+ */
+export function getMoonPhaseName(phase: number): string {
+  if (phase < 0.03 || phase >= 0.97) return 'New Moon';
+  if (phase < 0.22) return 'Waxing Crescent';
+  if (phase < 0.28) return 'First Quarter';
+  if (phase < 0.47) return 'Waxing Gibbous';
+  if (phase < 0.53) return 'Full Moon';
+  if (phase < 0.72) return 'Waning Gibbous';
+  if (phase < 0.78) return 'Last Quarter';
+  return 'Waning Crescent';
+}
+
+// ============================================
+// DISPLAY
+// ============================================
+
+/**
+ * Get a display label for a light condition
+ */
+export function getLightConditionLabel(lightCondition: LightCondition): string {
+  switch (lightCondition) {
+    case 'daylight': return 'Daylight';
+    case 'civil_twilight': return 'Twilight';
+    case 'nautical_twilight': return 'Dark twilight';
+    case 'night': return 'Night';
+    default: return 'Unknown';
+  }
+}
+
+/**
+ * Format a sun event time in the race timezone (e.g., "9:47 PM"), or "--" if it doesn't occur
+ */
+export function formatSunEventTime(date: Date | null, timezone?: string | null): string {
+  if (!date) return '--';
+
+  const options: Intl.DateTimeFormatOptions = {
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+  };
+  if (timezone) {
+    options.timeZone = timezone;
+  }
+
+  try {
+    return date.toLocaleTimeString('en-US', options);
+  } catch {
+    return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
+  }
+}
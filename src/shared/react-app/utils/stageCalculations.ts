@@ -0,0 +1,274 @@
+/**
+ * Stage Race Utilities
+ *
+ * Multi-day stage races run on one clock per stage rather than one for the
+ * whole race. Each stage starts at its own start time, or after the previous
+ * stage's overnight stop (the camp stop plus sleep) when it has none.
+ * Checkpoints belong to a stage through stage_id; a checkpoint without one
+ * stays in the previous checkpoint's stage.
+ *
+ * A stage's sleep_minutes is the whole night at camp. When the camp checkpoint
+ * has its own sleep_minutes too, that's the same sleep, so the stage only adds
+ * what goes beyond it.
+ */
+
+import type { NutritionItem, Race, Segment, Stage } from '@/shared/types';
+import { calculateCaloriesConsumed } from './energyBalance';
+import { getCheckpointStopMinutes } from './raceTimeSummary';
+
+export interface StageClock {
+  stageIndex: number;
+  start: Date; // When the stage's clock starts
+  firstSegmentIndex: number; // First checkpoint of the stage
+}
+
+// Time at camp between a stage's last checkpoint (after its stop) and the next stage's start
+export interface OvernightStop {
+  sleepMinutes: number;
+  awakeMinutes: number; // Waiting for a fixed start beyond the planned sleep
+}
+
+export interface StageNutritionTotals {
+  carbsGrams: number;
+  sodiumMg: number;
+  waterMl: number;
+  caffeineMg: number;
+  calories: number;
+}
+
+export interface StageSummary {
+  stage: Stage;
+  index: number;
+  segments: Segment[];
+  distanceMiles: number;
+  movingMinutes: number;
+  checkpointMinutes: number; // Aid-station and sleep stops, including the stage's last checkpoint
+  start: Date | null; // Null without a race or stage start time
+  finish: Date | null; // Arrival at the stage's last checkpoint
+  cutoff: Date | null;
+  cutoffBufferMinutes: number | null;
+  overnightMinutes: number | null; // Finish to next stage start, null for the last stage
+  nutrition: StageNutritionTotals;
+}
+
+/**
+ * Whether a race is split into stages
+ */
+export function isStageRace(stages: Stage[] | null | undefined): stages is Stage[] {
+  return !!stages && stages.length > 1;
+}
+
+/**
+ * Stage index of every checkpoint, in checkpoint order.
+ * Stages never go backwards, so a stray stage_id can't reorder the race.
+ */
+export function getSegmentStageIndexes(segments: Array<Pick<Segment, 'stage_id'>>, stages: Stage[]): number[] {
+  const indexById = new Map(stages.map((stage, index) => [stage.id, index]));
+  let current = 0;
+
+  return segments.map(segment => {
+    const index = segment.stage_id != null ? indexById.get(segment.stage_id) : undefined;
+    if (index !== undefined && index > current) {
+      current = index;
+    }
+    return current;
+  });
+}
+
+/**
+ * Id of the checkpoint each stage finishes at (null for a stage with no checkpoints)
+ */
+export function getStageFinishSegmentIds(segments: Segment[], stages: Stage[]): Array<number | null> {
+  const stageIndexes = getSegmentStageIndexes(segments, stages);
+  return stages.map((_, stageIndex) => {
+    const last = stageIndexes.lastIndexOf(stageIndex);
+    return last === -1 ? null : segments[last].id ?? null;
+  });
+}
+
+/**
+ * Overnight sleep a stage adds on top of its camp checkpoint's own sleep
+ */
+export function getCampSleepMinutes(stage: Stage, campSegment: Pick<Segment, 'sleep_minutes'>): number {
+  return Math.max(0, (stage.sleep_minutes ?? 0) - (campSegment.sleep_minutes ?? 0));
+}
+
+/**
+ * The overnight stop after a stage's camp checkpoint. Without a fixed start the
+ * next stage follows the stage's sleep. With one, the wait until it is spent
+ * sleeping the stage's planned sleep and awake for the rest, or all resting
+ * when the stage has no sleep planned.
+ * @param campDeparture When the runner is done at the camp checkpoint, if known
+ */
+export function getOvernightStop(
+  stage: Stage,
+  nextStage: Stage,
+  campSegment: Pick<Segment, 'sleep_minutes'>,
+  campDeparture: Date | null
+): OvernightStop {
+  const campSleepMinutes = getCampSleepMinutes(stage, campSegment);
+  const fixedStart = parseStageTime(nextStage.start_date_time);
+  if (!fixedStart || !campDeparture) {
+    return { sleepMinutes: campSleepMinutes, awakeMinutes: 0 };
+  }
+
+  const waitMinutes = Math.max(0, (fixedStart.getTime() - campDeparture.getTime()) / 60000);
+  if (stage.sleep_minutes == null) {
+    return { sleepMinutes: waitMinutes, awakeMinutes: 0 };
+  }
+  const sleepMinutes = Math.min(campSleepMinutes, waitMinutes);
+  return { sleepMinutes, awakeMinutes: waitMinutes - sleepMinutes };
+}
+
+/**
+ * Stage clock for every checkpoint
+ * @returns null for single-day races or without a start time
+ */
+export function getStageClocks(
+  raceStartTime: string | null | undefined,
+  segments: Segment[],
+  stages: Stage[] | null | undefined
+): StageClock[] | null {
+  if (!raceStartTime || !isStageRace(stages)) return null;
+
+  const raceStart = new Date(raceStartTime);
+  if (isNaN(raceStart.getTime())) return null;
+
+  const stageIndexes = getSegmentStageIndexes(segments, stages);
+  const clocks: StageClock[] = [];
+  let start = raceStart;
+  let firstSegmentIndex = 0;
+  let elapsedMinutes = 0;
+
+  segments.forEach((segment, index) => {
+    const stageIndex = stageIndexes[index];
+
+    if (index === 0 || stageIndex !== stageIndexes[index - 1]) {
+      const fixedStart = parseStageTime(stages[stageIndex].start_date_time);
+      if (index === 0) {
+        start = fixedStart ?? raceStart;
+      } else {
+        const sleepMinutes = getCampSleepMinutes(stages[stageIndexes[index - 1]], segments[index - 1]);
+        start = fixedStart ?? new Date(start.getTime() + (elapsedMinutes + sleepMinutes) * 60000);
+      }
+      firstSegmentIndex = index;
+      elapsedMinutes = 0;
+    }
+
+    clocks.push({ stageIndex, start, firstSegmentIndex });
+    elapsedMinutes += (segment.predicted_segment_time_minutes || 0) + getCheckpointStopMinutes(segment);
+  });
+
+  return clocks;
+}
+
+/**
+ * Per-stage distance, times, cut-off buffer and nutrition totals
+ */
+export function calculateStageSummaries(race: Race, segments: Segment[]): StageSummary[] {
+  const stages = race.stages;
+  if (!isStageRace(stages)) return [];
+
+  const stageIndexes = getSegmentStageIndexes(segments, stages);
+  const clocks = getStageClocks(race.start_date_time, segments, stages);
+
+  const summaries = stages.map((stage, index): StageSummary => {
+    const stageSegments = segments.filter((_, i) => stageIndexes[i] === index);
+    const movingMinutes = stageSegments.reduce((sum, s) => sum + (s.predicted_segment_time_minutes || 0), 0);
+    const checkpointMinutes = stageSegments.reduce((sum, s) => sum + getCheckpointStopMinutes(s), 0);
+    const lastStop = stageSegments[stageSegments.length - 1];
+    const lastStopMinutes = lastStop ? getCheckpointStopMinutes(lastStop) : 0;
+
+    const clock = clocks?.[stageIndexes.indexOf(index)];
+    const start = clock?.start ?? parseStageTime(stage.start_date_time);
+    const finish = start && stageSegments.length > 0
+      ? new Date(start.getTime() + (movingMinutes + checkpointMinutes - lastStopMinutes) * 60000)
+      : null;
+    const cutoff = parseStageTime(stage.cutoff_date_time);
+
+    return {
+      stage,
+      index,
+      segments: stageSegments,
+      distanceMiles: stageSegments.reduce((sum, s) => sum + (s.segment_distance_miles || 0), 0),
+      movingMinutes,
+      checkpointMinutes,
+      start,
+      finish,
+      cutoff,
+      cutoffBufferMinutes: cutoff && finish ? Math.round((cutoff.getTime() - finish.getTime()) / 60000) : null,
+      overnightMinutes: null,
+      nutrition: calculateNutritionTotals(stageSegments),
+    };
+  });
+
+  // Time at camp runs from arriving to the next stage's start
+  summaries.forEach((summary, index) => {
+    const next = summaries[index + 1];
+    if (next?.start && summary.finish) {
+      summary.overnightMinutes = Math.round((next.start.getTime() - summary.finish.getTime()) / 60000);
+    }
+  });
+
+  return summaries;
+}
+
+/**
+ * Nutrition carried across a set of checkpoints
+ */
+export function calculateNutritionTotals(segments: Segment[]): StageNutritionTotals {
+  const totals: StageNutritionTotals = { carbsGrams: 0, sodiumMg: 0, waterMl: 0, caffeineMg: 0, calories: 0 };
+
+  for (const segment of segments) {
+    if (!segment.segment_nutrition_items) continue;
+
+    let items: NutritionItem[];
+    try {
+      items = JSON.parse(segment.segment_nutrition_items);
+    } catch {
+      continue;
+    }
+    if (!Array.isArray(items)) continue;
+
+    for (const item of items) {
+      totals.carbsGrams += item.carbsPerServing * item.quantity;
+      totals.sodiumMg += item.sodiumPerServing * item.quantity;
+      totals.waterMl += item.waterPerServing * item.quantity;
+      totals.caffeineMg += (item.caffeinePerServing ?? 0) * item.quantity;
+    }
+    totals.calories += calculateCaloriesConsumed(items);
+  }
+
+  return totals;
+}
+
+/**
+ * Split the active route's checkpoints into stages.
+ * finishSegmentIds holds the checkpoint each stage finishes at; the last stage
+ * runs to the end of the race whatever its entry says.
+ * @returns stage_id for every checkpoint id
+ */
+export function assignSegmentsToStages(
+  segments: Segment[],
+  stages: Stage[],
+  finishSegmentIds: Array<number | null>
+): Map<number, number> {
+  const assignments = new Map<number, number>();
+  let stageIndex = 0;
+
+  for (const segment of segments) {
+    if (segment.id == null) continue;
+    assignments.set(segment.id, stages[stageIndex].id);
+    if (stageIndex < stages.length - 1 && segment.id === finishSegmentIds[stageIndex]) {
+      stageIndex++;
+    }
+  }
+
+  return assignments;
+}
+
+function parseStageTime(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
@@ -0,0 +1,192 @@
+/**
+ * Sweat Rate Model
+ *
+ * Builds a personal sweat-rate model from logged sweat tests and turns it into
+ * per-segment water and sodium goals for the forecast race conditions.
+ *
+ * Sweat rate (ml/hr) = (weight lost in g + fluid drunk - urine) / hours
+ *
+ * The model is a linear regression of sweat rate against temperature and
+ * intensity. A factor the tests don't cover (all at one intensity, or within a
+ * few degrees) uses a typical slope instead of a fitted one, so a single test is
+ * already usable.
+ *
+ * Goals replace part of the losses: 75% of fluid (capped at what the gut can
+ * absorb) and 60% of sodium, at the tested sweat sodium concentration or a
+ * typical 950 mg/L.
+ */
+
+import type { SweatTest, SweatTestIntensity } from '@/shared/types';
+
+export const INTENSITY_LEVELS: SweatTestIntensity[] = ['easy', 'moderate', 'hard', 'race'];
+
+const DEFAULT_TEMPERATURE_SLOPE = 20; // ml/hr per °C
+const DEFAULT_INTENSITY_SLOPE = 150; // ml/hr per intensity level
+const DEFAULT_SWEAT_SODIUM_MG_PER_L = 950;
+const MIN_TEMPERATURE_RANGE_C = 4; // Spread of test temperatures needed to fit the temperature slope
+
+const FLUID_REPLACEMENT = 0.75;
+const SODIUM_REPLACEMENT = 0.6;
+const MIN_SWEAT_RATE = 200; // ml/hr
+const MAX_SWEAT_RATE = 2500;
+const WATER_GOAL_RANGE = { min: 250, max: 1000 }; // ml/hr
+const SODIUM_GOAL_RANGE = { min: 200, max: 1500 }; // mg/hr
+
+export interface SweatRateModel {
+  testCount: number;
+  intercept: number; // ml/hr at 0°C, easy intensity
+  temperatureSlope: number; // ml/hr per °C
+  intensitySlope: number; // ml/hr per intensity level
+  temperatureFitted: boolean; // False when the typical slope is used
+  intensityFitted: boolean;
+  sweatSodiumMgPerL: number;
+  sodiumMeasured: boolean; // False when no test has a sweat sodium result
+  rSquared: number | null; // Null with fewer tests than fitted terms + 2
+}
+
+export interface HydrationGoals {
+  sweatRateMlPerHour: number;
+  waterGoalPerHour: number; // ml/hr
+  sodiumGoalPerHour: number; // mg/hr
+}
+
+/**
+ * Sweat rate of a single test in ml/hr (null if the test can't give one)
+ */
+export function calculateSweatRate(test: SweatTest): number | null {
+  const hours = test.durationMinutes / 60;
+  if (hours <= 0) return null;
+
+  const sweatMl = (test.preWeightKg - test.postWeightKg) * 1000 + test.fluidInMl - (test.urineMl ?? 0);
+  if (sweatMl <= 0) return null;
+
+  return sweatMl / hours;
+}
+
+/**
+ * Fit a sweat-rate model to the user's tests
+ * @returns null without any usable tests
+ */
+export function buildSweatRateModel(tests: SweatTest[]): SweatRateModel | null {
+  const samples = tests
+    .map(test => ({ test, rate: calculateSweatRate(test) }))
+    .filter((sample): sample is { test: SweatTest; rate: number } => sample.rate !== null);
+
+  if (samples.length === 0) return null;
+
+  const temperatures = samples.map(s => s.test.temperatureC);
+  const intensities = samples.map(s => INTENSITY_LEVELS.indexOf(s.test.intensity));
+  const rates = samples.map(s => s.rate);
+
+  // Fit a factor only when the tests vary in it and there are enough of them
+  let temperatureFitted = Math.max(...temperatures) - Math.min(...temperatures) >= MIN_TEMPERATURE_RANGE_C;
+  let intensityFitted = new Set(intensities).size > 1;
+  if (samples.length < 2 + Number(temperatureFitted) + Number(intensityFitted)) {
+    intensityFitted = false;
+  }
+  if (samples.length < 2 + Number(temperatureFitted)) {
+    temperatureFitted = false;
+  }
+
+  // Take out the typical effect of anything not fitted, then least squares on the rest
+  const residualRates = rates.map((rate, i) =>
+    rate -
+    (temperatureFitted ? 0 : DEFAULT_TEMPERATURE_SLOPE * temperatures[i]) -
+    (intensityFitted ? 0 : DEFAULT_INTENSITY_SLOPE * intensities[i])
+  );
+  const rows = samples.map((_, i) => [
+    1,
+    ...(temperatureFitted ? [temperatures[i]] : []),
+    ...(intensityFitted ? [intensities[i]] : []),
+  ]);
+  const coefficients = solveLeastSquares(rows, residualRates);
+  if (!coefficients) return null;
+
+  let column = 1;
+  const temperatureSlope = temperatureFitted ? coefficients[column++] : DEFAULT_TEMPERATURE_SLOPE;
+  const intensitySlope = intensityFitted ? coefficients[column++] : DEFAULT_INTENSITY_SLOPE;
+
+  const sodiumTests = samples.filter(s => s.test.sweatSodiumMgPerL && s.test.sweatSodiumMgPerL > 0);
+  const model: SweatRateModel = {
+    testCount: samples.length,
+    intercept: coefficients[0],
+    temperatureSlope,
+    intensitySlope,
+    temperatureFitted,
+    intensityFitted,
+    sweatSodiumMgPerL: sodiumTests.length > 0
+      ? sodiumTests.reduce((sum, s) => sum + s.test.sweatSodiumMgPerL!, 0) / sodiumTests.length
+      : DEFAULT_SWEAT_SODIUM_MG_PER_L,
+    sodiumMeasured: sodiumTests.length > 0,
+    rSquared: null,
+  };
+
+  if (samples.length >= rows[0].length + 2) {
+    const mean = rates.reduce((sum, rate) => sum + rate, 0) / rates.length;
+    const total = rates.reduce((sum, rate) => sum + (rate - mean) ** 2, 0);
+    const residual = samples.reduce((sum, s, i) =>
+      sum + (rates[i] - predictRawSweatRate(model, s.test.temperatureC, s.test.intensity)) ** 2, 0);
+    model.rSquared = total > 0 ? Math.max(0, 1 - residual / total) : null;
+  }
+
+  return model;
+}
+
+/**
+ * Predicted sweat rate in ml/hr
+ */
+export function predictSweatRate(model: SweatRateModel, temperatureC: number, intensity: SweatTestIntensity): number {
+  return Math.min(MAX_SWEAT_RATE, Math.max(MIN_SWEAT_RATE, predictRawSweatRate(model, temperatureC, intensity)));
+}
+
+/**
+ * Water and sodium goals per hour for a temperature and intensity
+ */
+export function getHydrationGoals(model: SweatRateModel, temperatureC: number, intensity: SweatTestIntensity): HydrationGoals {
+  const sweatRateMlPerHour = predictSweatRate(model, temperatureC, intensity);
+  const roundTo10 = (value: number, range: { min: number; max: number }) =>
+    Math.round(Math.min(range.max, Math.max(range.min, value)) / 10) * 10;
+
+  return {
+    sweatRateMlPerHour: Math.round(sweatRateMlPerHour),
+    waterGoalPerHour: roundTo10(sweatRateMlPerHour * FLUID_REPLACEMENT, WATER_GOAL_RANGE),
+    sodiumGoalPerHour: roundTo10((sweatRateMlPerHour / 1000) * model.sweatSodiumMgPerL * SODIUM_REPLACEMENT, SODIUM_GOAL_RANGE),
+  };
+}
+
+function predictRawSweatRate(model: SweatRateModel, temperatureC: number, intensity: SweatTestIntensity): number {
+  return model.intercept +
+    model.temperatureSlope * temperatureC +
+    model.intensitySlope * INTENSITY_LEVELS.indexOf(intensity);
+}
+
+/**
+ * Ordinary least squares through the normal equations (Gaussian elimination)
+ * @returns null if the system is singular
+ */
+function solveLeastSquares(rows: number[][], values: number[]): number[] | null {
+  const size = rows[0].length;
+  const matrix = Array.from({ length: size }, (_, r) => [
+    ...Array.from({ length: size }, (_, c) => rows.reduce((sum, row) => sum + row[r] * row[c], 0)),
+    rows.reduce((sum, row, i) => sum + row[r] * values[i], 0),
+  ]);
+
+  for (let col = 0; col < size; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < size; r++) {
+      if (Math.abs(matrix[r][col]) > Math.abs(matrix[pivot][col])) pivot = r;
+    }
+    if (Math.abs(matrix[pivot][col]) < 1e-9) return null;
+    [matrix[col], matrix[pivot]] = [matrix[pivot], matrix[col]];
+
+    for (let r = 0; r < size; r++) {
+      if (r === col) continue;
+      const factor = matrix[r][col] / matrix[col][col];
+      for (let c = col; c <= size; c++) {
+        matrix[r][c] -= factor * matrix[col][c];
+      }
+    }
+  }
+
+  return matrix.map((row, i) => row[size] / row[i]);
+}
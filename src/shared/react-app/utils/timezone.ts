@@ -0,0 +1,131 @@
+/**
+ * Timezone utilities
+ * Wall-clock conversions for IANA timezones using Intl, so race times can be
+ * shown and entered in the race's own timezone rather than the browser's.
+ * DST is handled by asking Intl for the offset at each instant.
+ */
+
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number; // 0-23
+  minute: number;
+  second: number;
+}
+
+// Intl.DateTimeFormat is slow to construct, and ETAs are formatted for every checkpoint on every render
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getPartsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      hourCycle: 'h23',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check that a string is an IANA timezone this browser knows about
+ */
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    getPartsFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The race timezone if it's valid, otherwise the user's own
+ */
+export function resolveTimeZone(timeZone?: string | null): string {
+  return isValidTimeZone(timeZone) ? timeZone : Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Wall-clock date and time of an instant in a timezone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedDateParts {
+  const parts = getPartsFormatter(timeZone).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parseInt(parts.find(p => p.type === type)?.value ?? '0', 10);
+
+  return {
+    year: part('year'),
+    month: part('month'),
+    day: part('day'),
+    hour: part('hour'),
+    minute: part('minute'),
+    second: part('second'),
+  };
+}
+
+/**
+ * Offset of a timezone from UTC at a given instant, in minutes (positive east of UTC)
+ */
+export function getTimeZoneOffsetMinutes(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUTC = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  const wholeSeconds = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUTC - wholeSeconds) / 60000);
+}
+
+/**
+ * Convert a wall-clock time in a timezone to an instant
+ * @param localDateTime "YYYY-MM-DDTHH:mm" (datetime-local input format), seconds optional
+ * @returns Invalid Date if the string can't be parsed
+ */
+export function zonedDateTimeToUtc(localDateTime: string, timeZone: string): Date {
+  const match = localDateTime.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?/);
+  if (!match) return new Date(NaN);
+
+  const [, year, month, day, hour, minute, second] = match;
+  const wallClockAsUTC = Date.UTC(+year, +month - 1, +day, +hour, +minute, second ? +second : 0);
+
+  // The offset depends on the instant, which depends on the offset - two passes
+  // settle it, including across DST changes
+  const firstGuess = wallClockAsUTC - getTimeZoneOffsetMinutes(new Date(wallClockAsUTC), timeZone) * 60000;
+  const offset = getTimeZoneOffsetMinutes(new Date(firstGuess), timeZone);
+  return new Date(wallClockAsUTC - offset * 60000);
+}
+
+/**
+ * Format an instant for a datetime-local input in a timezone ("YYYY-MM-DDTHH:mm")
+ */
+export function toZonedDateTimeInput(date: Date, timeZone: string): string {
+  const parts = getZonedParts(date, timeZone);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}T${pad(parts.hour)}:${pad(parts.minute)}`;
+}
+
+/**
+ * Calendar day of an instant in a timezone ("YYYY-MM-DD"), for same-day comparisons
+ */
+export function getZonedDayKey(date: Date, timeZone: string): string {
+  return toZonedDateTimeInput(date, timeZone).slice(0, 10);
+}
+
+/**
+ * Short timezone name at an instant (e.g., "BST", "GMT+2")
+ */
+export function getTimeZoneAbbreviation(date: Date, timeZone: string): string {
+  try {
+    return new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+      .formatToParts(date)
+      .find(part => part.type === 'timeZoneName')?.value ?? timeZone;
+  } catch {
+    return timeZone;
+  }
+}
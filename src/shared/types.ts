@@ -1,5 +1,25 @@
 import z from "zod";
 
+// Alternative course for a race (e.g. bad-weather route or optional loop), with its own GPX.
+// Segments belong to a variant through route_variant_id.
+export const RouteVariantSchema = z.object({
+  id: z.number().int().positive(), // Unique within the race
+  name: z.string().min(1, "Route name is required"),
+  gpx_file_key: z.string().nullable(),
+  created_at: z.string().optional(),
+});
+
+// Day of a multi-day stage race. Checkpoints belong to a stage through stage_id;
+// the camp and sleep describe the overnight stop at the end of the stage.
+export const StageSchema = z.object({
+  id: z.number().int().positive(), // Unique within the race
+  name: z.string().min(1, "Stage name is required"),
+  start_date_time: z.string().nullable().optional(), // ISO 8601; null starts after the previous stage's overnight stop
+  cutoff_date_time: z.string().nullable().optional(), // ISO 8601 stage finish cut-off
+  camp_name: z.string().nullable().optional(),
+  sleep_minutes: z.number().nonnegative().nullable().optional(), // Sleep at the camp before the next stage
+});
+
 export const RaceSchema = z.object({
   id: z.number().optional(),
   userId: z.string().optional(), // Firebase user ID
@@ -15,6 +35,11 @@ export const RaceSchema = z.object({
   timezone: z.string().nullable().optional(), // IANA timezone (e.g., "America/New_York")
   mandatory_kit: z.string().nullable().optional(), // JSON stringified array of kit items
   logo_url: z.string().nullable().optional(), // URL to race logo image (private, not shared)
+  route_variants: z.array(RouteVariantSchema).nullable().optional(), // Null until a second route is added
+  active_route_variant_id: z.number().nullable().optional(), // Variant shown in the planner; gpx_file_key mirrors its GPX
+  stages: z.array(StageSchema).nullable().optional(), // Null for single-day races
+  awake_hours_at_start: z.number().nonnegative().nullable().optional(), // Hours awake before the start, for the sleep debt model
+  bib_number: z.string().nullable().optional(), // Printed on drop bag labels
   created_at: z.string().optional(),
   updated_at: z.string().optional(),
 });
@@ -41,6 +66,13 @@ export interface NutritionItem {
   isEditingCaffeine?: boolean; // for editing caffeine values
 }
 
+// Kit packed in a checkpoint's drop bag, on top of the rolled-up nutrition (see utils/dropBags)
+export interface DropBagItem {
+  id: string;
+  name: string;
+  quantity: number;
+}
+
 export const SegmentSchema = z.object({
   id: z.number().optional(),
   race_id: z.number(),
@@ -67,6 +99,7 @@ export const SegmentSchema = z.object({
   auto_pace_reasoning: z.string().nullable().optional(),
   cutoff_time: z.string().nullable().optional(), // Time string (e.g., "6:00 AM")
   checkpoint_time_minutes: z.number().nullable().optional(), // Time spent at checkpoint
+  sleep_minutes: z.number().nonnegative().nullable().optional(), // Planned sleep at this checkpoint, on top of checkpoint_time_minutes
   plusCode: z.string().nullable().optional(),
   map_reference: z.string().nullable().optional(),
   latitude: z.number().nullable().optional(),
@@ -74,6 +107,14 @@ export const SegmentSchema = z.object({
   support_crew_present: z.boolean().nullable().optional(),
   support_crew_names: z.string().nullable().optional(),
   support_crew_members: z.string().nullable().optional(), // JSON stringified array of SupportCrewMember
+  drop_bag: z.boolean().nullable().optional(), // Drop bag waiting at this checkpoint
+  drop_bag_items: z.string().nullable().optional(), // JSON array of DropBagItem[]
+  crew_drive_minutes: z.number().nonnegative().nullable().optional(), // Crew drive from the previous crew stop (or the start)
+  crew_drive_miles: z.number().nonnegative().nullable().optional(),
+  crew_handover: z.string().nullable().optional(), // What the crew hands over here
+  crew_notes: z.string().nullable().optional(), // Parking and access notes for the crew
+  route_variant_id: z.number().nullable().optional(), // Route variant this checkpoint belongs to (null if the race has one route)
+  stage_id: z.number().nullable().optional(), // Stage this checkpoint belongs to (null follows the previous checkpoint)
   created_at: z.string().optional(),
   updated_at: z.string().optional(),
 });
@@ -114,6 +155,8 @@ export const CreateElevationLabelInputSchema = z.object({
 });
 
 export type SupportCrewMember = z.infer<typeof SupportCrewMemberSchema>;
+export type RouteVariant = z.infer<typeof RouteVariantSchema>;
+export type Stage = z.infer<typeof StageSchema>;
 export type Race = z.infer<typeof RaceSchema>;
 export type Segment = z.infer<typeof SegmentSchema>;
 export type CreateRaceInput = z.infer<typeof CreateRaceInputSchema>;
@@ -127,6 +170,26 @@ export interface ElevationPoint {
   elevation: number;
 }
 
+// Light at a given moment, from the sun's altitude (see solarCalculations)
+export type LightCondition = 'daylight' | 'civil_twilight' | 'nautical_twilight' | 'night';
+
+// Sun events for one local day; null when the event doesn't occur (polar day/night)
+export interface SunTimes {
+  solarNoon: Date;
+  sunrise: Date | null;
+  sunset: Date | null;
+  civilDawn: Date | null;
+  civilDusk: Date | null;
+  nauticalDawn: Date | null;
+  nauticalDusk: Date | null;
+}
+
+export interface MoonIllumination {
+  fraction: number; // 0 (new) to 1 (full)
+  phase: number; // 0 = new, 0.25 = first quarter, 0.5 = full, 0.75 = last quarter
+  phaseName: string; // "Waxing Gibbous"
+}
+
 // ETA (Expected Time of Arrival) data for segments
 export interface SegmentETA {
   eta: Date;
@@ -136,9 +199,18 @@ export interface SegmentETA {
   fullDate: string; // "Jun 15, 2:30 PM"
   cumulativeTimeMinutes: number; // Total minutes from start
   segmentTimeMinutes: number; // This segment's duration in minutes
-  isDaylight: boolean;
-  isNight: boolean;
-  crossesMidnight: boolean;
+  isDaylight: boolean; // Sun above the horizon at the ETA
+  isNight: boolean; // Darker than civil twilight at the ETA
+  crossesMidnight: boolean; // ETA falls on a later race-local day than the start
+  timeZone: string; // IANA timezone the formatted fields are in (the race's, or the user's if unset)
+  timeZoneName: string; // "BST", "GMT+2" - name at the ETA, so it follows DST changes
+  lightCondition: LightCondition;
+  sunTimes: SunTimes | null; // Sun events on the ETA day, null without checkpoint coordinates
+  moonIllumination: MoonIllumination;
+  needsHeadtorch: boolean; // Any part of the leg into this checkpoint is darker than civil twilight
+  darkMinutes: number; // Minutes of the leg darker than civil twilight
+  hasSolarData: boolean; // False when falling back to fixed 6 AM - 8 PM daylight hours
+  stageIndex: number | null; // Stage the checkpoint is in, null for single-day races
 }
 
 // Segment with computed ETA fields
@@ -826,3 +898,145 @@ export interface CaffeineRecommendation {
   timing: string[];
   warnings: string[];
 }
+
+// ============================================
+// SWEAT TEST TYPES
+// ============================================
+
+export type SweatTestIntensity = 'easy' | 'moderate' | 'hard' | 'race';
+
+// Sweat-rate test from a training run (see utils/sweatRateModel)
+export interface SweatTest {
+  id: string;
+  date: string;                  // YYYY-MM-DD
+  durationMinutes: number;
+  preWeightKg: number;           // Nude body weight before the run
+  postWeightKg: number;          // Nude body weight after, towelled dry
+  fluidInMl: number;             // Everything drunk during the run
+  urineMl?: number;              // Urine passed during the run
+  temperatureC: number;
+  intensity: SweatTestIntensity;
+  sweatSodiumMgPerL?: number;    // Sweat sodium concentration from a sweat patch or lab test
+  notes?: string;
+  createdAt: string;             // ISO timestamp
+}
+
+// ============================================
+// PLAN HISTORY TYPES
+// ============================================
+
+// Auto snapshots are taken before edits and bulk changes and are pruned; named ones are kept
+export type PlanSnapshotKind = 'auto' | 'named';
+
+// Saved copy of a race plan (see utils/planHistory)
+export interface PlanSnapshot {
+  id: string;
+  raceId: number;
+  name: string;
+  kind: PlanSnapshotKind;
+  createdAt: string;                   // ISO timestamp
+  race: Race;
+  segments: Segment[];                 // Checkpoints of every route variant
+  elevationLabels: ElevationLabel[];
+  autoPaceSettings: AutoPaceSettings | null;
+}
+
+// ============================================
+// RACE DAY TYPES
+// ============================================
+
+export type RaceDayEntryType = 'start' | 'arrival' | 'departure' | 'nutrition' | 'note';
+
+// What actually happened at a checkpoint on race day
+export interface RaceDaySplit {
+  segmentId: number;
+  arrivedAt: string | null;            // ISO timestamp
+  departedAt: string | null;           // ISO timestamp
+  eaten: NutritionItem[] | null;       // Eaten on the leg into this checkpoint; null follows the plan
+}
+
+// One line of the race-day log; time is the race time recorded, loggedAt when it was entered
+export interface RaceDayLogEntry {
+  id: string;
+  loggedAt: string;                    // ISO timestamp
+  type: RaceDayEntryType;
+  segmentId: number | null;
+  time: string | null;                 // ISO timestamp for start/arrival/departure (null clears it)
+  note?: string;
+}
+
+// Race-day record for one race (see utils/raceDay)
+export interface RaceDayLog {
+  raceId: number;
+  startedAt: string | null;            // Actual start; null follows the planned start
+  splits: RaceDaySplit[];
+  entries: RaceDayLogEntry[];          // Oldest first
+}
+
+// ============================================
+// WORKSPACE BACKUP TYPES
+// ============================================
+
+// Merge adds archived races alongside existing ones; replace wipes the workspace first
+export type WorkspaceRestoreMode = 'merge' | 'replace';
+
+// Everything LocalStorageService persists, in its stored form
+export interface WorkspaceData {
+  schemaVersion: number;               // Schema version of races/segments (see schemaMigrations)
+  races: Race[];
+  segments: Segment[];
+  elevationLabels: ElevationLabel[];
+  files: Record<string, string>;       // Stored GPX/FIT entries keyed by file key (gpx_1, fit_autopace_1)
+  autoPaceSettings: Record<string, AutoPaceSettings>; // Keyed by race ID
+  userNutritionProducts: UserNutritionProduct[];
+  recentlyUsedProducts: RecentlyUsedProduct[];
+  gapProfile: Record<string, unknown> | null; // GAPProfile from gapProfileAnalyzer
+  sweatTests: SweatTest[];
+  planHistory: Record<string, PlanSnapshot[]>; // Keyed by race ID
+  raceDayLogs: Record<string, RaceDayLog>;      // Keyed by race ID
+}
+
+export interface WorkspaceRestoreResult {
+  racesRestored: number;
+  segmentsRestored: number;
+  filesRestored: number;
+  nutritionProductsImported: number;
+  raceIdMap: Record<number, number>;   // Archived race ID → restored race ID
+}
+
+// ============================================
+// OFFLINE TERRAIN
+// ============================================
+
+// Elevation raster imported from an SRTM .hgt or GeoTIFF file (see utils/demTiles)
+export interface StoredDEMTile {
+  name: string;
+  north: number;                       // Latitude of the first row of samples
+  west: number;                        // Longitude of the first column of samples
+  latStep: number;                     // Degrees between rows (southwards)
+  lngStep: number;                     // Degrees between columns (eastwards)
+  width: number;
+  height: number;
+  data: Int16Array;                    // Metres, -32768 for voids
+  importedAt: string;
+}
+
+// ============================================
+// OFFLINE MAPS
+// ============================================
+
+// Tile servers that can be downloaded for offline use (see utils/mapTilePacks)
+export type MapTileSourceId = 'osm' | 'satellite' | 'labels';
+
+// Map tiles downloaded for a buffered corridor around a race's GPX track
+export interface MapTilePack {
+  raceId: number;
+  sources: MapTileSourceId[];
+  minZoom: number;
+  maxZoom: number;
+  bufferKm: number;                    // Corridor half-width either side of the track
+  tileCount: number;                   // Tiles stored
+  failedTiles: number;                 // Tiles that couldn't be downloaded
+  sizeBytes: number;
+  createdAt: string;
+}